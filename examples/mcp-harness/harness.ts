@@ -9,7 +9,9 @@
  *      (illustrated separately, not in this dispatch path).
  *
  * Replace the `invokeTool` and `promptHuman` stubs with your real MCP
- * client and human-approval mechanism.
+ * client and human-approval mechanism, or configure `approvals` to route
+ * `ask` decisions through an `AsyncApprovalProvider` (console, file queue,
+ * webhook) with signed receipts.
  */
 
 import {
@@ -19,8 +21,10 @@ import {
   denyIf,
   formatDecision,
   buildDecisionEvent,
+  requestApproval,
   NullAuditSink,
   type AgentToken,
+  type AsyncApprovalProvider,
   type MCPTool,
   type SchemaPinRegistry,
   type Decision,
@@ -43,6 +47,15 @@ export interface HarnessConfig {
   invokeTool: (server: string, tool: string, args: unknown) => Promise<unknown>;
   /** Stub for surfacing an `ask` decision to a human. Returns true if approved. */
   promptHuman: (reason: string) => Promise<boolean>;
+  /**
+   * Route `ask` decisions through an approval provider instead of
+   * `promptHuman`. `signingKey` (PEM Ed25519) signs the approval receipts.
+   */
+  approvals?: {
+    provider: AsyncApprovalProvider;
+    signingKey: string;
+    timeoutMs?: number;
+  };
   /** Human-readable audit-log sink (one line per event). */
   log?: (line: string) => void;
   /** Structured audit-event sink. Defaults to NullAuditSink. */
@@ -156,7 +169,25 @@ export async function dispatchToolCall(
     case "deny":
       throw new PermissionError(decision.reason);
     case "ask": {
-      const approved = await cfg.promptHuman(decision.reason);
+      let approved: boolean;
+      if (cfg.approvals) {
+        const receipt = await requestApproval(
+          cfg.approvals.provider,
+          {
+            agentId: cfg.agentId,
+            tokenId: token.tokenId,
+            server: serverName,
+            tool: toolDef.name,
+            args,
+            reason: decision.reason,
+          },
+          { ...cfg.approvals, auditSink }
+        );
+        log(`tool=${target} approval=${receipt.outcome} approver=${receipt.approver ?? "-"}`);
+        approved = receipt.outcome === "approved";
+      } else {
+        approved = await cfg.promptHuman(decision.reason);
+      }
       if (!approved) {
         throw new PermissionError(`User rejected ${target}: ${decision.reason}`);
       }
@@ -7,7 +7,15 @@ import * as assert from "node:assert";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import * as crypto from "crypto";
 import { Broker } from "./broker.js";
+import type { AgentToken } from "./types.js";
+import { RevocationList } from "./distributed/revocation.js";
+import { FollowerState } from "./distributed/types.js";
+import { SigningKeyManager } from "./distributed/signing-keys.js";
+import { verifyTokenWithJwks } from "./token.js";
+import { MemoryAuditSink } from "./mcp/audit.js";
+import { SignJWT, exportJWK, generateKeyPair, type JWTPayload } from "jose";
 
 // Create a unique temp directory for each test
 function createTempDir(): string {
@@ -18,6 +26,21 @@ function cleanupTempDir(dir: string): void {
   fs.rmSync(dir, { recursive: true, force: true });
 }
 
+/** Local mock OIDC issuer with a static JWKS */
+async function createMockIssuer(issuer = "https://idp.example.test") {
+  const { publicKey, privateKey } = await generateKeyPair("ES256");
+  const jwks = { keys: [{ ...(await exportJWK(publicKey)), kid: "k1", alg: "ES256" }] };
+  const signIdToken = (claims: JWTPayload = {}) =>
+    new SignJWT({ sub: "alice", ...claims })
+      .setProtectedHeader({ alg: "ES256", kid: "k1" })
+      .setIssuer(issuer)
+      .setAudience("agent-iam")
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+  return { issuer, jwks: jwks as { keys: JsonWebKey[] }, signIdToken };
+}
+
 describe("Broker", () => {
   let tempDir: string;
   let broker: Broker;
@@ -298,6 +321,591 @@ describe("Broker", () => {
     });
   });
 
+  describe("Revocation", () => {
+    function revokeOnDisk(token: AgentToken): void {
+      // Simulates `agent-iam revoke` running in another process
+      new RevocationList(tempDir).revoke({
+        tokenId: token.tokenId!,
+        agentId: token.agentId,
+      });
+    }
+
+    test("standalone broker honors the local revocation list", () => {
+      const token = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read"],
+        ttlDays: 1,
+      });
+      assert.strictEqual(broker.verifyToken(token).valid, true);
+
+      revokeOnDisk(token);
+
+      const result = broker.verifyToken(token);
+      assert.strictEqual(result.valid, false);
+      assert.strictEqual(result.error, "Token revoked");
+    });
+
+    test("revoked tokens cannot mint credentials", async () => {
+      const token = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read"],
+        ttlDays: 1,
+      });
+      revokeOnDisk(token);
+
+      await assert.rejects(
+        () => broker.getCredential(token, "github:repo:read", "myorg/repo"),
+        { message: /Permission denied: Token revoked/ }
+      );
+    });
+
+    test("revoked tokens cannot delegate or refresh", () => {
+      const token = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read", "system:token:refresh"],
+        ttlDays: 1,
+      });
+      revokeOnDisk(token);
+
+      assert.throws(
+        () => broker.delegate(token, { requestedScopes: ["github:repo:read"] }),
+        { message: /Invalid parent token: Token revoked/ }
+      );
+      assert.throws(() => broker.refreshToken(token), {
+        message: /Cannot refresh invalid token: Token revoked/,
+      });
+    });
+
+    test("revoking a root token cascades to descendants", async () => {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["mcp:*"],
+        ttlDays: 1,
+      });
+      const child = broker.delegate(root, {
+        agentId: "child",
+        requestedScopes: ["mcp:*"],
+      });
+      const grandchild = broker.delegate(child, {
+        agentId: "grandchild",
+        requestedScopes: ["mcp:github:*"],
+      });
+
+      revokeOnDisk(root);
+
+      assert.strictEqual(broker.verifyToken(child).valid, false);
+      assert.strictEqual(broker.verifyToken(grandchild).valid, false);
+      await assert.rejects(
+        () =>
+          broker.issueForMCPServer({
+            agentToken: grandchild,
+            serverURI: "https://mcp.example.com",
+            scopes: ["mcp:github:*"],
+          }),
+        { message: /Invalid agent token: Token revoked/ }
+      );
+    });
+
+    test("migrateToken assigns a token ID to legacy tokens", () => {
+      // Hand-sign a token the way brokers did before token IDs existed
+      const secret = fs.readFileSync(path.join(tempDir, "token_secret"));
+      const unsigned = {
+        agentId: "legacy",
+        scopes: ["github:repo:read"],
+        constraints: {},
+        delegatable: true,
+        maxDelegationDepth: 3,
+        currentDepth: 0,
+      };
+      const legacy: AgentToken = {
+        ...unsigned,
+        signature: crypto
+          .createHmac("sha256", secret)
+          .update(JSON.stringify(unsigned))
+          .digest("base64url"),
+      };
+      assert.strictEqual(broker.verifyToken(legacy).valid, true);
+
+      const migrated = broker.migrateToken(legacy);
+      assert.ok(migrated.tokenId);
+      assert.ok(migrated.issuedAt);
+      assert.deepStrictEqual(migrated.scopes, legacy.scopes);
+      assert.strictEqual(broker.verifyToken(migrated).valid, true);
+
+      // Already-migrated tokens are returned unchanged
+      assert.strictEqual(broker.migrateToken(migrated), migrated);
+    });
+
+    test("scope revocations leave the token's other scopes usable", async () => {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["mcp:*"],
+        ttlDays: 1,
+      });
+      const child = broker.delegate(root, { requestedScopes: ["mcp:*"] });
+      new RevocationList(tempDir).revoke({
+        tokenId: root.tokenId!,
+        agentId: root.agentId,
+        scopes: ["mcp:shell:*"],
+      });
+
+      assert.strictEqual(broker.verifyToken(child).valid, true);
+      assert.deepStrictEqual(broker.getRevokedScopes(child), ["mcp:shell:*"]);
+
+      const denied = await broker.authorizeMCPCall(child, "shell", "exec");
+      assert.strictEqual(denied.kind, "deny");
+      const allowed = await broker.authorizeMCPCall(child, "filesystem", "read_file");
+      assert.strictEqual(allowed.kind, "allow");
+
+      await assert.rejects(
+        () =>
+          broker.issueForMCPServer({
+            agentToken: child,
+            serverURI: "https://shell.example.com",
+            scopes: ["mcp:shell:exec"],
+          }),
+        /has been revoked/
+      );
+      const cred = await broker.issueForMCPServer({
+        agentToken: child,
+        serverURI: "https://fs.example.com",
+        scopes: ["mcp:filesystem:read_file"],
+      });
+      assert.ok(cred.jwt);
+    });
+
+    test("setRevocationChecker replaces the standalone list", () => {
+      const token = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read"],
+        ttlDays: 1,
+      });
+      broker.setRevocationChecker({ isRevoked: (id) => id === token.tokenId });
+
+      assert.strictEqual(broker.verifyToken(token).valid, false);
+    });
+  });
+
+  describe("Just-in-time elevation", () => {
+    function createParent(extra: Partial<{ ttlDays: number }> = {}): AgentToken {
+      return broker.createRootToken({
+        agentId: "worker",
+        scopes: [
+          "github:repo:read",
+          "system:token:refresh",
+          "system:scope:elevate:github:repo:*",
+        ],
+        ttlDays: 1,
+        ...extra,
+      });
+    }
+
+    test("mints a short-lived child with the additional scopes", async () => {
+      const parent = createParent();
+      const sink = new MemoryAuditSink();
+      const elevated = await broker.elevate({
+        parentToken: parent,
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 10,
+        justification: "merge hotfix",
+        auditSink: sink,
+      });
+
+      assert.deepStrictEqual(elevated.scopes, [
+        "github:repo:read",
+        "system:token:refresh",
+        "github:repo:write",
+      ]);
+      assert.strictEqual(elevated.agentId, parent.agentId);
+      assert.strictEqual(elevated.delegatable, false);
+      assert.deepStrictEqual(elevated.delegationChain, [parent.tokenId]);
+      assert.strictEqual(elevated.elevation?.parentTokenId, parent.tokenId);
+      assert.strictEqual(elevated.elevation?.justification, "merge hotfix");
+      const ttlMs = Date.parse(elevated.expiresAt!) - Date.parse(elevated.issuedAt!);
+      assert.ok(Math.abs(ttlMs - 10 * 60 * 1000) < 1000);
+
+      assert.strictEqual(
+        broker.checkPermission(elevated, "github:repo:write", "org/repo").valid,
+        true
+      );
+      assert.strictEqual(
+        broker.checkPermission(parent, "github:repo:write", "org/repo").valid,
+        false
+      );
+
+      const [event] = sink.events;
+      assert.strictEqual(event.kind, "token.elevation.granted");
+      assert.strictEqual(event.tokenId, elevated.tokenId);
+      assert.strictEqual(event.reason, "merge hotfix");
+    });
+
+    test("requires the elevation meta-scope for every added scope", async () => {
+      const parent = createParent();
+      const sink = new MemoryAuditSink();
+
+      await assert.rejects(
+        () =>
+          broker.elevate({
+            parentToken: parent,
+            additionalScopes: ["github:repo:write", "aws:s3:write"],
+            ttlMinutes: 10,
+            justification: "deploy",
+            auditSink: sink,
+          }),
+        { message: 'Elevation to "aws:s3:write" requires "system:scope:elevate:aws:s3:write"' }
+      );
+
+      const [event] = sink.events;
+      assert.strictEqual(event.kind, "token.elevation.denied");
+      assert.strictEqual(event.tokenId, parent.tokenId);
+    });
+
+    test("requires a justification", async () => {
+      await assert.rejects(
+        () =>
+          broker.elevate({
+            parentToken: createParent(),
+            additionalScopes: ["github:repo:write"],
+            ttlMinutes: 10,
+            justification: "  ",
+          }),
+        /requires a justification/
+      );
+    });
+
+    test("caps the TTL by broker policy", async () => {
+      const config = broker.getConfigService().loadConfig();
+      broker.getConfigService().saveConfig({ ...config, maxElevationMinutes: 5 });
+
+      const elevated = await broker.elevate({
+        parentToken: createParent(),
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 120,
+        justification: "long job",
+      });
+      const ttlMs = Date.parse(elevated.expiresAt!) - Date.parse(elevated.issuedAt!);
+      assert.ok(Math.abs(ttlMs - 5 * 60 * 1000) < 1000);
+    });
+
+    test("never outlives the parent's maximum lifetime", async () => {
+      const parent = broker.createRootToken({
+        agentId: "worker",
+        scopes: ["system:scope:elevate:*"],
+        ttlDays: 1 / (24 * 60), // one minute
+      });
+      const elevated = await broker.elevate({
+        parentToken: parent,
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 30,
+        justification: "quick fix",
+      });
+
+      assert.strictEqual(elevated.expiresAt, parent.maxExpiresAt);
+      assert.strictEqual(elevated.maxExpiresAt, parent.maxExpiresAt);
+    });
+
+    test("elevated tokens share the parent's maxUses budget", async () => {
+      broker.addAPIKey({ name: "openai", providerName: "openai", apiKey: "sk-test" });
+      const parent = broker.createRootToken({
+        agentId: "worker",
+        scopes: ["openai:chat:create", "system:scope:elevate:github:repo:*"],
+        constraints: { "openai:chat:create": { maxUses: 1 } },
+        ttlDays: 1,
+      });
+      const request = {
+        parentToken: parent,
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 10,
+        justification: "merge hotfix",
+      };
+
+      await broker.getCredential(parent, "openai:chat:create", "default");
+      const elevated = await broker.elevate(request);
+      await assert.rejects(
+        () => broker.getCredential(elevated, "openai:chat:create", "default"),
+        { message: /exhausted its 1 allowed use/ }
+      );
+      const again = await broker.elevate(request);
+      await assert.rejects(
+        () => broker.getCredential(again, "openai:chat:create", "default"),
+        { message: /exhausted/ }
+      );
+    });
+
+    test("elevated tokens cannot be re-elevated, refreshed or delegated", async () => {
+      const elevated = await broker.elevate({
+        parentToken: createParent(),
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 10,
+        justification: "merge hotfix",
+      });
+
+      await assert.rejects(
+        () =>
+          broker.elevate({
+            parentToken: elevated,
+            additionalScopes: ["github:repo:admin"],
+            ttlMinutes: 10,
+            justification: "more",
+          }),
+        /cannot be elevated again/
+      );
+      assert.throws(() => broker.refreshToken(elevated), /cannot be refreshed/);
+      assert.throws(
+        () => broker.delegate(elevated, { requestedScopes: ["github:repo:write"] }),
+        /not delegatable/
+      );
+    });
+
+    test("revokeAllElevations revokes existing elevations only", async () => {
+      const parent = createParent();
+      const request = {
+        parentToken: parent,
+        additionalScopes: ["github:repo:write"],
+        ttlMinutes: 10,
+        justification: "merge hotfix",
+      };
+      const before = await broker.elevate(request);
+
+      const rule = broker.revokeAllElevations("incident");
+      assert.strictEqual(
+        broker.verifyToken(before).error,
+        `Token revoked by rule "${rule.ruleId}"`
+      );
+      assert.strictEqual(broker.verifyToken(parent).valid, true);
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const after = await broker.elevate(request);
+      assert.strictEqual(broker.verifyToken(after).valid, true);
+    });
+  });
+
+  describe("JWS token format", () => {
+    test("defaults to HMAC tokens", () => {
+      assert.strictEqual(broker.getTokenFormat(), "hmac");
+      const token = broker.createRootToken({ agentId: "root", scopes: ["*"] });
+      assert.strictEqual(token.alg, undefined);
+      assert.strictEqual(fs.existsSync(path.join(tempDir, "token-signing.key")), false);
+    });
+
+    test("signs JWS tokens once enabled and persists the setting", () => {
+      broker.setTokenFormat("jws");
+      const token = broker.createRootToken({ agentId: "root", scopes: ["*"] });
+      assert.strictEqual(token.alg, "EdDSA");
+
+      const reopened = new Broker(tempDir);
+      assert.strictEqual(reopened.getTokenFormat(), "jws");
+      const restored = reopened.deserializeToken(broker.serializeToken(token));
+      assert.strictEqual(reopened.verifyToken(restored).valid, true);
+    });
+
+    test("keeps verifying both formats across a switch", () => {
+      const hmacToken = broker.createRootToken({ agentId: "old", scopes: ["*"] });
+      broker.setTokenFormat("jws");
+      const jwsToken = broker.createRootToken({ agentId: "new", scopes: ["*"] });
+      broker.setTokenFormat("hmac");
+
+      const reopened = new Broker(tempDir);
+      assert.strictEqual(reopened.verifyToken(hmacToken).valid, true);
+      assert.strictEqual(reopened.verifyToken(jwsToken).valid, true);
+    });
+
+    test("rejects unknown formats", () => {
+      assert.throws(
+        () => broker.setTokenFormat("rsa" as "jws"),
+        /Unknown token format "rsa"/
+      );
+    });
+
+    test("publishes a JWKS that verifies its tokens", async () => {
+      broker.setTokenFormat("jws");
+      const token = broker.createRootToken({ agentId: "root", scopes: ["*"] });
+      const jwks = await broker.getTokenJwks();
+
+      assert.strictEqual(jwks.keys[0].kid, token.kid);
+      const result = await verifyTokenWithJwks(broker.serializeToken(token), jwks);
+      assert.strictEqual(result.valid, true);
+    });
+
+    test("trusts another broker's key only when told to", () => {
+      const otherDir = createTempDir();
+      try {
+        const other = new Broker(otherDir);
+        other.setTokenFormat("jws");
+        const token = other.createRootToken({ agentId: "root", scopes: ["*"] });
+
+        assert.strictEqual(broker.verifyToken(token).valid, false);
+        broker.trustTokenSigningKey(other.getTokenSigningKey().publicKey);
+        assert.strictEqual(broker.verifyToken(token).valid, true);
+      } finally {
+        cleanupTempDir(otherDir);
+      }
+    });
+  });
+
+  describe("Versioned signing keys", () => {
+    test("local rotate-key switches new tokens to versioned keys", () => {
+      const legacy = broker.createRootToken({ agentId: "root", scopes: ["*"] });
+      assert.strictEqual(legacy.keyVersion, undefined);
+
+      // Simulates `agent-iam rotate-key` in another process
+      new SigningKeyManager(tempDir).rotate();
+
+      const reopened = new Broker(tempDir);
+      const token = reopened.createRootToken({ agentId: "root", scopes: ["*"] });
+      assert.strictEqual(token.keyVersion, 1);
+      assert.strictEqual(reopened.verifyToken(token).valid, true);
+      assert.strictEqual(reopened.verifyToken(legacy).valid, true);
+    });
+
+    test("verifies tokens signed after a rotation in another process", () => {
+      const keys = new SigningKeyManager(tempDir);
+      keys.rotate();
+      const reopened = new Broker(tempDir);
+
+      keys.rotate();
+      const token = new Broker(tempDir).createRootToken({ agentId: "root", scopes: ["*"] });
+      assert.strictEqual(token.keyVersion, 2);
+      assert.strictEqual(reopened.verifyToken(token).valid, true);
+    });
+  });
+
+  describe("maxUses enforcement", () => {
+    beforeEach(() => {
+      broker.addAPIKey({
+        name: "openai",
+        providerName: "openai",
+        apiKey: "sk-test",
+      });
+    });
+
+    test("getCredential consumes uses and denies once exhausted", async () => {
+      const token = broker.createRootToken({
+        agentId: "one-shot",
+        scopes: ["openai:chat:create"],
+        constraints: { "openai:*": { maxUses: 2 } },
+        ttlDays: 1,
+      });
+
+      await broker.getCredential(token, "openai:chat:create", "default");
+      await broker.getCredential(token, "openai:chat:create", "default");
+      await assert.rejects(
+        () => broker.getCredential(token, "openai:chat:create", "default"),
+        { message: /exhausted its 2 allowed use/ }
+      );
+      assert.strictEqual(
+        await broker.getUsageLedger().getUses(token.tokenId!, "openai:*"),
+        2
+      );
+    });
+
+    test("usage survives a broker restart", async () => {
+      const token = broker.createRootToken({
+        agentId: "one-shot",
+        scopes: ["openai:chat:create"],
+        constraints: { "openai:chat:create": { maxUses: 1 } },
+        ttlDays: 1,
+      });
+      await broker.getCredential(token, "openai:chat:create", "default");
+
+      const restarted = new Broker(tempDir);
+      await assert.rejects(
+        () => restarted.getCredential(token, "openai:chat:create", "default"),
+        { message: /exhausted/ }
+      );
+    });
+
+    test("re-delegating a one-use grant never yields another use", async () => {
+      const parent = broker.createRootToken({
+        agentId: "one-shot",
+        scopes: ["openai:*"],
+        constraints: { "openai:*": { maxUses: 1 } },
+        delegatable: true,
+        ttlDays: 1,
+      });
+      const first = broker.delegate(parent, {
+        agentId: "one-shot",
+        requestedScopes: ["openai:chat:create"],
+        delegatable: true,
+      });
+      const second = broker.delegate(first, {
+        agentId: "one-shot",
+        requestedScopes: ["openai:chat:create"],
+      });
+
+      await broker.getCredential(second, "openai:chat:create", "default");
+      for (const token of [first, parent, second]) {
+        await assert.rejects(
+          () => broker.getCredential(token, "openai:chat:create", "default"),
+          { message: /exhausted its 1 allowed use/ }
+        );
+      }
+      const sibling = broker.delegate(parent, {
+        agentId: "one-shot",
+        requestedScopes: ["openai:chat:create"],
+      });
+      await assert.rejects(
+        () => broker.getCredential(sibling, "openai:chat:create", "default"),
+        { message: /exhausted/ }
+      );
+      assert.strictEqual(
+        await broker.getUsageLedger().getUses(parent.tokenId!, "openai:*"),
+        1
+      );
+    });
+
+    test("scopes without maxUses are not counted", async () => {
+      const token = broker.createRootToken({
+        agentId: "unlimited",
+        scopes: ["openai:chat:create"],
+        ttlDays: 1,
+      });
+      for (let i = 0; i < 3; i++) {
+        await broker.getCredential(token, "openai:chat:create", "default");
+      }
+      assert.strictEqual(
+        await broker.getUsageLedger().getUses(token.tokenId!, "openai:chat:create"),
+        0
+      );
+    });
+
+    test("authorizeMCPCall consumes one-shot tool grants", async () => {
+      const token = broker.createRootToken({
+        agentId: "mcp-agent",
+        scopes: ["mcp:github:*"],
+        constraints: { "mcp:github:create_issue": { maxUses: 1 } },
+        ttlDays: 1,
+      });
+
+      const first = await broker.authorizeMCPCall(token, "github", "create_issue");
+      assert.strictEqual(first.kind, "allow");
+      const second = await broker.authorizeMCPCall(token, "github", "create_issue");
+      assert.strictEqual(second.kind, "deny");
+      assert.match((second as { reason: string }).reason, /exhausted/);
+
+      // Other tools under the same scope are unaffected
+      const other = await broker.authorizeMCPCall(token, "github", "list_issues");
+      assert.strictEqual(other.kind, "allow");
+    });
+
+    test("authorizeMCPCall applies the broker deny policy and revocation", async () => {
+      const token = broker.createRootToken({
+        agentId: "mcp-agent",
+        scopes: ["mcp:*"],
+        ttlDays: 1,
+      });
+      broker.addMCPDenyPattern("mcp:shell:*");
+
+      const denied = await broker.authorizeMCPCall(token, "shell", "exec");
+      assert.strictEqual(denied.kind, "deny");
+
+      broker.setRevocationChecker({ isRevoked: () => true });
+      const revoked = await broker.authorizeMCPCall(token, "github", "list");
+      assert.strictEqual(revoked.kind, "deny");
+      assert.match((revoked as { reason: string }).reason, /Token revoked/);
+    });
+  });
+
   describe("Complex Delegation Scenarios", () => {
     test("multi-level delegation with scope narrowing", () => {
       const root = broker.createRootToken({
@@ -521,6 +1129,380 @@ describe("Broker", () => {
     });
   });
 
+  describe("Scope templates", () => {
+    beforeEach(() => {
+      broker.setScopeTemplates({
+        "repo-read": { scopes: ["github:repo:read", "github:pulls:read"] },
+        triage: {
+          description: "Read repos and manage issues",
+          include: ["repo-read"],
+          scopes: ["github:issues:write"],
+          constraints: { "github:issues:write": { resources: ["acme/*"] } },
+          ttlMinutes: 30,
+        },
+      });
+    });
+
+    test("createRootToken expands a template", () => {
+      const token = broker.createRootToken({ agentId: "bot", template: "triage" });
+      assert.deepStrictEqual(token.scopes.sort(), [
+        "github:issues:write",
+        "github:pulls:read",
+        "github:repo:read",
+      ]);
+      assert.deepStrictEqual(token.constraints["github:issues:write"], {
+        resources: ["acme/*"],
+      });
+      const ttlMs = new Date(token.expiresAt!).getTime() - Date.now();
+      assert.ok(ttlMs > 29 * 60 * 1000 && ttlMs <= 30 * 60 * 1000);
+    });
+
+    test("explicit scopes, constraints and TTL combine with the template", () => {
+      const token = broker.createRootToken({
+        agentId: "bot",
+        template: "triage",
+        scopes: ["slack:chat:write"],
+        constraints: { "github:issues:write": { resources: ["acme/api"] } },
+        ttlDays: 1,
+      });
+      assert.ok(token.scopes.includes("slack:chat:write"));
+      assert.ok(token.scopes.includes("github:repo:read"));
+      assert.deepStrictEqual(token.constraints["github:issues:write"], {
+        resources: ["acme/api"],
+      });
+      const ttlMs = new Date(token.expiresAt!).getTime() - Date.now();
+      assert.ok(ttlMs > 23 * 60 * 60 * 1000);
+    });
+
+    test("delegate expands a template within the parent's scopes", () => {
+      const root = broker.createRootToken({ agentId: "root", scopes: ["github:*"] });
+      const child = broker.delegate(root, { template: "repo-read" });
+      assert.deepStrictEqual(child.scopes.sort(), ["github:pulls:read", "github:repo:read"]);
+
+      const narrow = broker.createRootToken({ agentId: "root", scopes: ["github:repo:read"] });
+      assert.throws(() => broker.delegate(narrow, { template: "repo-read" }));
+    });
+
+    test("unknown templates are rejected", () => {
+      assert.throws(
+        () => broker.createRootToken({ agentId: "bot", template: "missing" }),
+        /Unknown scope template "missing"/
+      );
+    });
+
+    test("templates persist and cannot break includes", () => {
+      const reopened = new Broker(tempDir);
+      assert.deepStrictEqual(Object.keys(reopened.getScopeTemplates()).sort(), [
+        "repo-read",
+        "triage",
+      ]);
+
+      assert.throws(() => broker.removeScopeTemplate("repo-read"), /Unknown scope template/);
+      assert.strictEqual(broker.removeScopeTemplate("triage"), true);
+      assert.strictEqual(broker.removeScopeTemplate("triage"), false);
+    });
+
+    test("setScopeTemplate validates scopes against provider scope maps", () => {
+      assert.throws(
+        () => broker.setScopeTemplate("bad", { scopes: ["github:repo:delete"] }),
+        /unknown scope "github:repo:delete"/
+      );
+      assert.strictEqual(broker.getScopeTemplates().bad, undefined);
+    });
+
+    test("fires onScopeTemplatesChanged", () => {
+      let calls = 0;
+      broker.onScopeTemplatesChanged = () => calls++;
+      broker.setScopeTemplate("x", { scopes: ["mcp:fs:read"] });
+      broker.removeScopeTemplate("x");
+      assert.strictEqual(calls, 2);
+    });
+  });
+
+  describe("Human on-behalf-of token exchange", () => {
+    let idp: Awaited<ReturnType<typeof createMockIssuer>>;
+    let agentToken: AgentToken;
+
+    beforeEach(async () => {
+      idp = await createMockIssuer();
+      broker.addFederatedIdp("corp", {
+        issuer: idp.issuer,
+        audience: "agent-iam",
+        jwks: idp.jwks,
+      });
+      agentToken = broker.createRootToken({
+        agentId: "mailbot",
+        scopes: ["google:gmail:*", "github:repo:read"],
+        constraints: { "google:gmail:*": { resources: ["inbox/*"] } },
+      });
+    });
+
+    async function consent(scopes: string[]) {
+      return broker.grantConsent({
+        userAssertion: { idToken: await idp.signIdToken() },
+        agentToken,
+        scopes,
+      });
+    }
+
+    test("mints a token acting as the user within consent ∩ agent scopes", async () => {
+      const grant = await consent(["google:gmail:read", "google:drive:read"]);
+      assert.strictEqual(grant.userId, "user:corp:alice");
+
+      const sink = new MemoryAuditSink();
+      const obo = await broker.exchangeForUserToken({
+        agentToken,
+        userAssertion: { idToken: await idp.signIdToken() },
+        consentGrantId: grant.grantId,
+        requestedScopes: ["google:gmail:read"],
+        auditSink: sink,
+      });
+
+      assert.strictEqual(broker.verifyToken(obo).valid, true);
+      assert.strictEqual(obo.agentId, "mailbot");
+      assert.deepStrictEqual(obo.act, ["mailbot"]);
+      assert.strictEqual(obo.consentGrantId, grant.grantId);
+      assert.strictEqual(obo.identity?.principalId, "user:corp:alice");
+      assert.strictEqual(obo.identity?.principalType, "human");
+      assert.strictEqual(obo.identity?.externalAuth?.issuer, idp.issuer);
+      assert.deepStrictEqual(obo.constraints["google:gmail:read"], {
+        resources: ["inbox/*"],
+      });
+      assert.strictEqual(obo.delegatable, false);
+      assert.strictEqual(sink.events[0].kind, "token.exchange.granted");
+
+      // Consented but not held by the agent; held but not consented
+      for (const scope of ["google:drive:read", "github:repo:read"]) {
+        await assert.rejects(
+          broker.exchangeForUserToken({
+            agentToken,
+            userAssertion: { idToken: await idp.signIdToken() },
+            consentGrantId: grant.grantId,
+            requestedScopes: [scope],
+            auditSink: sink,
+          }),
+          /not covered by consent grant|not allowed by agent token/
+        );
+      }
+      assert.strictEqual(sink.events[2].kind, "token.exchange.denied");
+    });
+
+    test("the grant binds one user and one agent", async () => {
+      const grant = await consent(["google:gmail:read"]);
+
+      await assert.rejects(
+        broker.exchangeForUserToken({
+          agentToken,
+          userAssertion: { idToken: await idp.signIdToken({ sub: "mallory" }) },
+          consentGrantId: grant.grantId,
+          requestedScopes: ["google:gmail:read"],
+        }),
+        /was not given by user:corp:mallory/
+      );
+
+      const otherAgent = broker.createRootToken({ agentId: "otherbot", scopes: ["*"] });
+      await assert.rejects(
+        broker.exchangeForUserToken({
+          agentToken: otherAgent,
+          userAssertion: { idToken: await idp.signIdToken() },
+          consentGrantId: grant.grantId,
+          requestedScopes: ["google:gmail:read"],
+        }),
+        /does not authorize agent "otherbot"/
+      );
+
+      // Agent IDs are not unique: the same name under another root is refused
+      const impostor = broker.createRootToken({ agentId: "mailbot", scopes: ["*"] });
+      await assert.rejects(
+        broker.exchangeForUserToken({
+          agentToken: impostor,
+          userAssertion: { idToken: await idp.signIdToken() },
+          consentGrantId: grant.grantId,
+          requestedScopes: ["google:gmail:read"],
+        }),
+        /was given to another "mailbot" token/
+      );
+
+      // A delegate of the consented token keeping its name is accepted
+      const delegated = broker.delegate(agentToken, {
+        agentId: "mailbot",
+        requestedScopes: ["google:gmail:*"],
+      });
+      const obo = await broker.exchangeForUserToken({
+        agentToken: delegated,
+        userAssertion: { idToken: await idp.signIdToken() },
+        consentGrantId: grant.grantId,
+        requestedScopes: ["google:gmail:read"],
+      });
+      assert.strictEqual(obo.consentGrantId, grant.grantId);
+    });
+
+    test("rejects assertions from untrusted issuers", async () => {
+      const rogue = await createMockIssuer("https://rogue.example.test");
+      await assert.rejects(
+        broker.grantConsent({
+          userAssertion: { idToken: await rogue.signIdToken() },
+          agentToken,
+          scopes: ["google:gmail:read"],
+        }),
+        /No trusted IdP for issuer "https:\/\/rogue.example.test"/
+      );
+    });
+
+    test("expires no later than the consent grant", async () => {
+      const grant = await broker.grantConsent({
+        userAssertion: { idToken: await idp.signIdToken() },
+        agentToken,
+        scopes: ["google:gmail:read"],
+        ttlMinutes: 5,
+      });
+      const obo = await broker.exchangeForUserToken({
+        agentToken,
+        userAssertion: { idToken: await idp.signIdToken() },
+        consentGrantId: grant.grantId,
+        requestedScopes: ["google:gmail:read"],
+        ttlMinutes: 120,
+      });
+      assert.strictEqual(obo.expiresAt, grant.expiresAt);
+    });
+
+    test("revoking the grant revokes derived tokens and their delegates", async () => {
+      agentToken = broker.createRootToken({ agentId: "mailbot", scopes: ["google:*"] });
+      const grant = await consent(["google:gmail:*"]);
+      const obo = await broker.exchangeForUserToken({
+        agentToken,
+        userAssertion: { idToken: await idp.signIdToken() },
+        consentGrantId: grant.grantId,
+        requestedScopes: ["google:gmail:read", "google:gmail:send"],
+        delegatable: true,
+      });
+
+      // Multi-actor chain: the sub-agent joins `act` and keeps the user
+      const child = broker.delegate(obo, {
+        agentId: "summarizer",
+        requestedScopes: ["google:gmail:read"],
+      });
+      assert.deepStrictEqual(child.act, ["mailbot", "summarizer"]);
+      assert.strictEqual(child.identity?.principalId, "user:corp:alice");
+      assert.strictEqual(child.consentGrantId, grant.grantId);
+      assert.throws(
+        () =>
+          broker.delegate(obo, {
+            requestedScopes: ["google:gmail:read"],
+            inheritIdentity: false,
+          }),
+        /must keep the user's identity/
+      );
+
+      broker.revokeConsentGrant(grant.grantId, "user withdrew consent");
+      assert.match(broker.verifyToken(obo).error!, /Token revoked by rule/);
+      assert.match(broker.verifyToken(child).error!, /Token revoked by rule/);
+      // The agent's own token is untouched
+      assert.strictEqual(broker.verifyToken(agentToken).valid, true);
+
+      await assert.rejects(
+        broker.exchangeForUserToken({
+          agentToken,
+          userAssertion: { idToken: await idp.signIdToken() },
+          consentGrantId: grant.grantId,
+          requestedScopes: ["google:gmail:read"],
+        }),
+        /has been revoked/
+      );
+      assert.throws(() => broker.revokeConsentGrant("cg_missing"), /Unknown consent grant/);
+    });
+
+    test("rejects tampered grants", async () => {
+      const grant = await consent(["google:gmail:read"]);
+      const grantsPath = path.join(tempDir, "consent-grants.json");
+      const stored = JSON.parse(fs.readFileSync(grantsPath, "utf-8"));
+      stored.grants[0].scopes = ["*"];
+      fs.writeFileSync(grantsPath, JSON.stringify(stored));
+
+      await assert.rejects(
+        broker.exchangeForUserToken({
+          agentToken,
+          userAssertion: { idToken: await idp.signIdToken() },
+          consentGrantId: grant.grantId,
+          requestedScopes: ["google:gmail:read"],
+        }),
+        /Unknown or tampered consent grant/
+      );
+    });
+
+    test("on-behalf-of tokens cannot be exchanged again", async () => {
+      const grant = await consent(["google:gmail:read"]);
+      const request = {
+        userAssertion: { idToken: await idp.signIdToken() },
+        consentGrantId: grant.grantId,
+        requestedScopes: ["google:gmail:read"],
+      };
+      const obo = await broker.exchangeForUserToken({ agentToken, ...request });
+      await assert.rejects(
+        broker.exchangeForUserToken({ agentToken: obo, ...request }),
+        /cannot be exchanged again/
+      );
+    });
+
+    test("manages trusted IdPs", () => {
+      assert.deepStrictEqual(Object.keys(broker.getFederatedIdps()), ["corp"]);
+      assert.throws(
+        () => broker.addFederatedIdp("bad:name", { issuer: "https://x", audience: "a" }),
+        /Invalid IdP name/
+      );
+      assert.strictEqual(broker.removeFederatedIdp("corp"), true);
+      assert.strictEqual(broker.removeFederatedIdp("corp"), false);
+    });
+
+    test("root tokens carry externalAuth only from a verified assertion", async () => {
+      const params = { agentId: "assistant", scopes: ["github:repo:read"] };
+      const claimed = {
+        systemId: "agent-iam",
+        principalId: "user:corp:mallory",
+        externalAuth: {
+          issuer: idp.issuer,
+          subject: "mallory",
+          authenticatedAt: new Date().toISOString(),
+        },
+      };
+      assert.throws(
+        () => broker.createRootToken({ ...params, identity: claimed }),
+        /only from a verified OIDC assertion/
+      );
+      await assert.rejects(
+        broker.createRootTokenWithIdentity({ ...params, identity: claimed }, "key:abc"),
+        /only from a verified OIDC assertion/
+      );
+
+      const token = await broker.createRootTokenWithAssertion(params, {
+        idToken: await idp.signIdToken({ nonce: "n-1" }),
+        nonce: "n-1",
+      });
+      assert.strictEqual(broker.verifyToken(token).valid, true);
+      assert.strictEqual(token.identity?.principalId, "user:corp:alice");
+      assert.strictEqual(token.identity?.principalType, "human");
+      assert.strictEqual(token.identity?.externalAuth?.issuer, idp.issuer);
+      assert.strictEqual(token.identity?.externalAuth?.subject, "alice");
+
+      await assert.rejects(
+        broker.createRootTokenWithAssertion(params, {
+          idToken: await idp.signIdToken({ nonce: "n-1" }),
+          nonce: "n-2",
+        }),
+        /wrong nonce/
+      );
+    });
+
+    test("creates federated identities from ID tokens", async () => {
+      const identity = await broker.createIdentity({
+        type: "federated",
+        idToken: await idp.signIdToken(),
+      });
+      assert.strictEqual(identity.persistentId, "user:corp:alice");
+      assert.strictEqual((await broker.loadIdentity("user:corp:alice"))?.identityType, "federated");
+    });
+  });
+
   describe("MCP signing key + issueForMCPServer (G5/G8)", () => {
     let tempDir3: string;
     let broker3: Broker;
@@ -668,5 +1650,246 @@ describe("Broker", () => {
       const b = await publicKeyToJwks(crlf);
       assert.strictEqual(a.keys[0].kid, b.keys[0].kid);
     });
+
+    test("rotateMCPSigningKey keeps the old key verifying until its credentials expire", async () => {
+      const { verifyMCPCredential, MAX_MCP_CREDENTIAL_TTL_SECONDS } = await import(
+        "./mcp/index.js"
+      );
+      const root = broker3.createRootToken({ agentId: "agent-1", scopes: ["mcp:fs:*"] });
+      const issue = () =>
+        broker3.issueForMCPServer({
+          agentToken: root,
+          serverURI: "https://fs",
+          scopes: ["mcp:fs:read_file"],
+        });
+      const before = await issue();
+      const oldKey = broker3.getMCPSigningKey();
+
+      const keyring = broker3.rotateMCPSigningKey();
+      assert.strictEqual(keyring.version, 2);
+      assert.notStrictEqual(keyring.current.publicKey, oldKey.publicKey);
+      assert.strictEqual(keyring.retired[0].publicKey, oldKey.publicKey);
+      const overlapMs =
+        new Date(keyring.retired[0].expiresAt).getTime() -
+        new Date(keyring.retired[0].retiredAt).getTime();
+      assert.strictEqual(overlapMs, MAX_MCP_CREDENTIAL_TTL_SECONDS * 1000);
+
+      const after = await issue();
+      const jwks = await broker3.getMCPJwks();
+      assert.strictEqual(jwks.keys.length, 2);
+      for (const cred of [before, after]) {
+        const v = await verifyMCPCredential(cred.jwt, { jwks, expectedAudience: "https://fs" });
+        assert.strictEqual(v.valid, true);
+      }
+
+      // Once the overlap has passed, the old key is unpublished
+      const keyringPath = path.join(tempDir3, "mcp-signing.json");
+      const persisted = JSON.parse(fs.readFileSync(keyringPath, "utf8"));
+      persisted.retired[0].expiresAt = new Date(Date.now() - 1000).toISOString();
+      fs.writeFileSync(keyringPath, JSON.stringify(persisted));
+      const trimmed = await broker3.getMCPJwks();
+      assert.strictEqual(trimmed.keys.length, 1);
+      const stale = await verifyMCPCredential(before.jwt, {
+        jwks: trimmed,
+        expectedAudience: "https://fs",
+      });
+      assert.strictEqual(stale.valid, false);
+    });
+  });
+
+  describe("Human approval for ask decisions (G7)", () => {
+    /** Provider that answers every request immediately */
+    function answering(approved: boolean) {
+      return {
+        submit: async () => {},
+        poll: async () => ({ approved, approver: "alice" }),
+      };
+    }
+
+    test("approvals mint a single-use token for the approved call", async () => {
+      const token = broker.createRootToken({ agentId: "agent", scopes: ["mcp:fs:*"] });
+      const sink = new MemoryAuditSink();
+      const { receipt, token: approvalToken } = await broker.requestApproval({
+        token,
+        server: "fs",
+        tool: "delete_file",
+        args: { path: "/tmp/x" },
+        reason: "destructiveHint",
+        provider: answering(true),
+        mintToken: true,
+        auditSink: sink,
+      });
+
+      assert.strictEqual(receipt.outcome, "approved");
+      assert.strictEqual(receipt.tokenId, token.tokenId);
+      assert.strictEqual(broker.verifyApprovalReceipt(receipt), true);
+      assert.deepStrictEqual(
+        sink.events.map((e) => e.kind),
+        ["mcp.approval.requested", "mcp.approval.granted"]
+      );
+
+      assert.ok(approvalToken);
+      assert.deepStrictEqual(approvalToken.scopes, ["mcp:fs:delete_file"]);
+      assert.strictEqual(approvalToken.delegatable, false);
+      const other = await broker.authorizeMCPCall(approvalToken, "fs", "delete_file", {
+        path: "/etc/passwd",
+      });
+      assert.strictEqual(other.kind, "deny");
+      assert.match((other as { reason: string }).reason, /differ from the approved call/);
+      assert.strictEqual(
+        (await broker.authorizeMCPCall(approvalToken, "fs", "delete_file")).kind,
+        "deny"
+      );
+      assert.strictEqual(
+        (await broker.authorizeMCPCall(approvalToken, "fs", "delete_file", { path: "/tmp/x" }))
+          .kind,
+        "allow"
+      );
+      assert.strictEqual(
+        (await broker.authorizeMCPCall(approvalToken, "fs", "delete_file", { path: "/tmp/x" }))
+          .kind,
+        "deny"
+      );
+      assert.strictEqual(
+        (await broker.authorizeMCPCall(approvalToken, "fs", "write_file")).kind,
+        "deny"
+      );
+    });
+
+    test("denials mint nothing", async () => {
+      const token = broker.createRootToken({ agentId: "agent", scopes: ["mcp:fs:*"] });
+      const result = await broker.requestApproval({
+        token,
+        server: "fs",
+        tool: "delete_file",
+        reason: "destructiveHint",
+        provider: answering(false),
+        mintToken: true,
+      });
+      assert.strictEqual(result.receipt.outcome, "denied");
+      assert.strictEqual(result.token, undefined);
+    });
+
+    test("refuses invalid or non-delegatable tokens before asking", async () => {
+      const token = broker.createRootToken({
+        agentId: "agent",
+        scopes: ["mcp:fs:*"],
+        delegatable: false,
+      });
+      const provider = answering(true);
+      await assert.rejects(
+        broker.requestApproval({
+          token,
+          server: "fs",
+          tool: "delete_file",
+          reason: "x",
+          provider,
+          mintToken: true,
+        }),
+        /non-delegatable/
+      );
+      await assert.rejects(
+        broker.requestApproval({
+          token: { ...token, scopes: ["*"] },
+          server: "fs",
+          tool: "delete_file",
+          reason: "x",
+          provider,
+        }),
+        /Invalid token/
+      );
+    });
+  });
+
+  describe("Follower degradation policy", () => {
+    const minutesLeft = (token: AgentToken) =>
+      (Date.parse(token.expiresAt!) - Date.now()) / 60000;
+
+    test("refuses root tokens and caps token lifetimes", () => {
+      const parent = broker.createRootToken({
+        agentId: "orchestrator",
+        scopes: ["github:repo:*"],
+        ttlDays: 1,
+      });
+      broker.setDegradationPolicy(FollowerState.LIMITED, {
+        denyRootTokens: true,
+        maxTokenTtlMinutes: 30,
+      });
+
+      assert.throws(
+        () => broker.createRootToken({ agentId: "new", scopes: ["github:repo:read"] }),
+        /Root tokens are not issued while this follower is limited/
+      );
+      const child = broker.delegate(parent, {
+        requestedScopes: ["github:repo:read"],
+        ttlMinutes: 600,
+      });
+      assert.ok(minutesLeft(child) <= 30);
+      const inherited = broker.delegate(parent, { requestedScopes: ["github:repo:read"] });
+      assert.ok(minutesLeft(inherited) <= 30);
+
+      // Back in touch with the leader: no restrictions
+      broker.setDegradationPolicy(FollowerState.CONNECTED);
+      assert.strictEqual(broker.getDegradationPolicy(), undefined);
+      const root = broker.createRootToken({
+        agentId: "new",
+        scopes: ["github:repo:read"],
+        ttlDays: 1,
+      });
+      assert.ok(minutesLeft(root) > 60);
+    });
+
+    test("caps root token lifetimes when root tokens are allowed", () => {
+      broker.setDegradationPolicy(FollowerState.DEGRADED, { maxTokenTtlMinutes: 60 });
+      const root = broker.createRootToken({ agentId: "a", scopes: ["github:repo:read"] });
+      assert.ok(minutesLeft(root) > 59 && minutesLeft(root) <= 60);
+    });
+
+    test("denies credentials for sensitive scopes", async () => {
+      broker.addAPIKey({ name: "openai", providerName: "openai", apiKey: "sk-test" });
+      const token = broker.createRootToken({
+        agentId: "worker",
+        scopes: ["openai:*", "mcp:*"],
+        ttlDays: 1,
+      });
+      broker.setDegradationPolicy(FollowerState.OFFLINE, {
+        denyCredentialScopes: ["openai:admin:*", "mcp:shell:*"],
+      });
+
+      await assert.rejects(
+        () => broker.getCredential(token, "openai:admin:keys", "default"),
+        /credentials for "openai:admin:keys" are not issued while this follower is offline/
+      );
+      await broker.getCredential(token, "openai:chat:create", "default");
+      await assert.rejects(
+        () =>
+          broker.issueForMCPServer({
+            agentToken: token,
+            serverURI: "https://shell.example.com",
+            scopes: ["mcp:shell:exec"],
+          }),
+        /not issued while this follower is offline/
+      );
+    });
+
+    test("shortens how long cached credentials are served", async () => {
+      broker.addAPIKey({ name: "openai", providerName: "openai", apiKey: "sk-test" });
+      const token = broker.createRootToken({
+        agentId: "worker",
+        scopes: ["openai:*"],
+        ttlDays: 1,
+      });
+      const first = await broker.getCredential(token, "openai:chat:create", "default");
+      assert.strictEqual(
+        await broker.getCredential(token, "openai:chat:create", "default"),
+        first
+      );
+
+      broker.setDegradationPolicy(FollowerState.OFFLINE, { maxCredentialCacheSeconds: 0 });
+      assert.notStrictEqual(
+        await broker.getCredential(token, "openai:chat:create", "default"),
+        first
+      );
+    });
   });
 });
@@ -4,14 +4,41 @@
 
 import {
   issueMCPCredential,
+  checkMCPCall,
+  requestApproval,
+  verifyApprovalReceipt,
+  approvalArgsHash,
   type MCPCredential,
   type MCPAuditSink,
+  type Decision,
+  type CheckMCPCallOptions,
+  type AsyncApprovalProvider,
+  type ApprovalReceipt,
 } from "./mcp/index.js";
-import { getOrCreateMCPSigningKey, type MCPSigningKey } from "./mcp/signing-key.js";
+import {
+  brokerPublicKeyToJwk,
+  getOrCreateMCPSigningKey,
+  getOrCreateTokenSigningKey,
+  importMCPSigningKeyring,
+  loadMCPSigningKeyring,
+  loadTokenSigningKey,
+  loadMCPVerificationKeys,
+  publicKeyToJwks,
+  publicKeysToJwks,
+  rotateMCPSigningKey,
+  type MCPSigningKey,
+  type MCPSigningKeyring,
+  type TokenSigningKey,
+} from "./mcp/signing-key.js";
 import type {
   AgentToken,
   CreateRootTokenParams,
   DelegationRequest,
+  ElevationRequest,
+  TokenExchangeRequest,
+  ConsentGrant,
+  OIDCAssertion,
+  FederatedIdpConfig,
   CredentialResult,
   VerificationResult,
   Constraints,
@@ -20,9 +47,34 @@ import type {
   AWSProviderConfig,
   APIKeyProviderConfig,
   SlackProviderConfig,
+  RevocationChecker,
+  SigningKeyProvider,
+  TokenFormat,
+  ScopeTemplate,
 } from "./types.js";
-import { TokenService } from "./token.js";
+import {
+  TokenService,
+  findScopeConstraint,
+  getRevocationId,
+  getRootTokenId,
+  getUsageBudgets,
+  scopeMatches,
+} from "./token.js";
 import { ConfigService } from "./config.js";
+import {
+  resolveScopeTemplate,
+  validateScopeTemplates,
+  type ResolvedScopeTemplate,
+} from "./templates.js";
+import { RevocationList } from "./distributed/revocation.js";
+import type {
+  DegradationPolicy,
+  FollowerState,
+  RevocationRule,
+} from "./distributed/types.js";
+import { SigningKeyManager } from "./distributed/signing-keys.js";
+import { FileUsageLedger, type UsageLedger } from "./usage.js";
+import { ConsentGrantStore } from "./consent.js";
 import { GitHubProvider } from "./providers/github.js";
 import { GoogleProvider } from "./providers/google.js";
 import { AWSProvider } from "./providers/aws.js";
@@ -36,11 +88,37 @@ import {
   DidWebIdentityProvider,
 } from "./identity/index.js";
 import type { PersistentIdentity, IdentityType } from "./identity/index.js";
+import {
+  FederatedIdentityProvider,
+  OidcIdentityProvider,
+  type UserPrincipal,
+} from "./identity/index.js";
+
+/** Default cap on elevation lifetime (BrokerConfig.maxElevationMinutes) */
+const DEFAULT_MAX_ELEVATION_MINUTES = 60;
+/** Default consent grant lifetime for `grantConsent()` */
+const DEFAULT_CONSENT_TTL_MINUTES = 24 * 60;
+/** Lifetime of exchanged tokens without `ttlMinutes` (see TokenService) */
+const DEFAULT_EXCHANGE_TTL_MINUTES = 60;
+
+/**
+ * `identity.externalAuth` is only ever set by the broker from a verified
+ * OIDC assertion; reject caller-supplied values
+ */
+function assertNoUnverifiedExternalAuth(params: CreateRootTokenParams): void {
+  if (params.identity?.externalAuth) {
+    throw new Error(
+      "identity.externalAuth is set only from a verified OIDC assertion; " +
+      "use createRootTokenWithAssertion()"
+    );
+  }
+}
 
 /** Credential cache entry */
 interface CacheEntry {
   credential: CredentialResult;
   expiresAt: Date;
+  cachedAt: number;
 }
 
 /** Broker status */
@@ -55,7 +133,13 @@ export class Broker {
   private tokenService: TokenService;
   private configService: ConfigService;
   private identityService: IdentityService;
+  private revocationChecker: RevocationChecker;
+  private usageLedger: UsageLedger;
+  private consentGrants: ConsentGrantStore;
+  private oidcProvider: OidcIdentityProvider;
   private credentialCache: Map<string, CacheEntry> = new Map();
+  /** Set by FollowerClient while it can't reach the leader */
+  private degradation?: { state: FollowerState; policy: DegradationPolicy };
 
   /** Cache buffer - evict credentials this many ms before expiry */
   private cacheBuffer = 5 * 60 * 1000; // 5 minutes
@@ -64,14 +148,29 @@ export class Broker {
     this.configService = new ConfigService(configDir);
     const secret = this.configService.getOrCreateSecret();
     this.tokenService = new TokenService(secret);
+    const cfgDir = this.configService.getConfigDir();
+    this.configureTokenSigning();
+
+    // Versioned keys exist once `rotate-key` ran or a leader started here;
+    // until then HMAC tokens are signed with token_secret
+    this.tokenService.setSigningKeyProvider(new SigningKeyManager(cfgDir));
+
+    // Standalone mode checks the local revocation list; leader/follower
+    // swap in their own list via setRevocationChecker()
+    this.revocationChecker = new RevocationList(cfgDir);
+    this.tokenService.setRevocationChecker(this.revocationChecker);
+    // maxUses counters; followers defer to the leader via setUsageLedger()
+    this.usageLedger = new FileUsageLedger(cfgDir);
+    this.consentGrants = new ConsentGrantStore(cfgDir, secret);
 
     // Initialize identity service with default providers
     this.identityService = new IdentityService();
-    const cfgDir = this.configService.getConfigDir();
     this.identityService.registerProvider(new KeypairIdentityProvider(cfgDir));
     this.identityService.registerProvider(new PlatformIdentityProvider(cfgDir));
     this.identityService.registerProvider(new SpiffeIdentityProvider(cfgDir));
     this.identityService.registerProvider(new DidWebIdentityProvider(cfgDir));
+    this.oidcProvider = new OidcIdentityProvider(cfgDir, () => this.getFederatedIdps());
+    this.identityService.registerProvider(this.oidcProvider);
   }
 
   // ─────────────────────────────────────────────────────────────────
@@ -79,14 +178,50 @@ export class Broker {
   // ─────────────────────────────────────────────────────────────────
 
   /**
-   * Create a root token with the specified capabilities
+   * Create a root token with the specified capabilities (expanding
+   * `params.template`, if given)
    */
   createRootToken(params: CreateRootTokenParams): AgentToken {
-    return this.tokenService.createRootToken(params);
+    assertNoUnverifiedExternalAuth(params);
+    this.assertRootTokensAllowed();
+    return this.tokenService.createRootToken(
+      this.capRootTokenTtl(this.expandRootTemplate(params))
+    );
+  }
+
+  /**
+   * Create a root token for a human principal authenticated by a trusted
+   * OIDC IdP. `identity.principalId` becomes `user:<idp>:<sub>` and
+   * `identity.externalAuth` is filled from the verified ID token — the only
+   * way the broker sets it.
+   */
+  async createRootTokenWithAssertion(
+    params: CreateRootTokenParams,
+    assertion: OIDCAssertion
+  ): Promise<AgentToken> {
+    assertNoUnverifiedExternalAuth(params);
+    this.assertRootTokensAllowed();
+    const user = await this.verifyUserAssertion(assertion);
+    return this.tokenService.createRootToken({
+      ...this.capRootTokenTtl(this.expandRootTemplate(params)),
+      identity: {
+        systemId: "agent-iam",
+        ...params.identity,
+        principalId: user.userId,
+        principalType: "human",
+        externalAuth: {
+          issuer: user.issuer,
+          subject: user.subject,
+          authenticatedAt: user.authenticatedAt,
+          claims: user.claims,
+        },
+      },
+    });
   }
 
   /**
    * Delegate capabilities from a parent token to create a child token
+   * (expanding `request.template`, if given)
    */
   delegate(parent: AgentToken, request: DelegationRequest): AgentToken {
     // First verify the parent token
@@ -95,11 +230,88 @@ export class Broker {
       throw new Error(`Invalid parent token: ${verification.error}`);
     }
 
-    return this.tokenService.delegate(parent, request);
+    const expanded = this.expandDelegationTemplate(request);
+    return this.tokenService.delegate(parent, {
+      ...expanded,
+      ttlMinutes: this.capTtlMinutes(expanded.ttlMinutes),
+    });
+  }
+
+  /**
+   * Just-in-time elevation: mint a short-lived child of `req.parentToken`
+   * with `additionalScopes` on top of its own. Requires
+   * `system:scope:elevate:<scope>` on the parent for each added scope and a
+   * justification; the lifetime is capped by `maxElevationMinutes` and the
+   * parent's expiry. When an audit sink is provided, records a
+   * `token.elevation.granted` or `token.elevation.denied` event.
+   */
+  async elevate(
+    req: ElevationRequest & { auditSink?: MCPAuditSink }
+  ): Promise<AgentToken> {
+    const { auditSink, ...request } = req;
+    const parent = request.parentToken;
+
+    let elevated: AgentToken;
+    try {
+      const verification = this.tokenService.verify(parent);
+      if (!verification.valid) {
+        throw new Error(`Invalid parent token: ${verification.error}`);
+      }
+
+      const maxMinutes = this.capTtlMinutes(
+        this.configService.loadConfig().maxElevationMinutes ??
+          DEFAULT_MAX_ELEVATION_MINUTES
+      )!;
+      elevated = this.tokenService.elevate(request, maxMinutes);
+    } catch (error) {
+      await auditSink?.record({
+        timestamp: new Date().toISOString(),
+        kind: "token.elevation.denied",
+        agentId: parent.agentId,
+        tokenId: parent.tokenId,
+        reason: error instanceof Error ? error.message : String(error),
+        context: {
+          additionalScopes: request.additionalScopes,
+          justification: request.justification,
+        },
+      });
+      throw error;
+    }
+
+    await auditSink?.record({
+      timestamp: new Date().toISOString(),
+      kind: "token.elevation.granted",
+      agentId: elevated.agentId,
+      tokenId: elevated.tokenId,
+      reason: request.justification,
+      context: {
+        parentTokenId: elevated.elevation!.parentTokenId,
+        additionalScopes: request.additionalScopes,
+        expiresAt: elevated.expiresAt,
+      },
+    });
+    return elevated;
   }
 
   /**
-   * Verify a token's validity (signature + expiration).
+   * Emergency revoke of every elevated token issued so far, as a single
+   * revocation rule. Elevations granted afterwards are unaffected.
+   * Requires the revocation checker to be a `RevocationList` (standalone,
+   * leader and follower brokers all use one).
+   */
+  revokeAllElevations(reason?: string): RevocationRule {
+    if (!(this.revocationChecker instanceof RevocationList)) {
+      throw new Error("revokeAllElevations requires a RevocationList checker");
+    }
+    return this.revocationChecker.addRule({
+      match: { elevated: true },
+      reason,
+      issuedBefore: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Verify a token's validity (signature + expiration + revocation).
    * Does NOT verify persistent identity proof — use verifyTokenIdentity() for that.
    */
   verifyToken(token: AgentToken): VerificationResult {
@@ -189,11 +401,245 @@ export class Broker {
     return this.tokenService.deserialize(serialized);
   }
 
+  /**
+   * Migrate a token minted before token IDs existed. Returns a re-signed
+   * copy with a fresh `tokenId` and the same capabilities and expiry;
+   * tokens that already have an ID are returned unchanged.
+   *
+   * Legacy tokens are revoked by `agentId`, which collides across tokens
+   * that reuse an agent name. Migrate roots first and re-delegate their
+   * children so descendants record the new ID in their delegation chain.
+   */
+  migrateToken(token: AgentToken): AgentToken {
+    const verification = this.tokenService.verify(token);
+    if (!verification.valid) {
+      throw new Error(`Cannot migrate invalid token: ${verification.error}`);
+    }
+    if (token.tokenId) {
+      return token;
+    }
+    return this.tokenService.createRefreshedToken(token, token.expiresAt);
+  }
+
+  /**
+   * Replace the revocation checker consulted on every verification.
+   * FollowerClient and LeaderServer install their synced lists here.
+   */
+  setRevocationChecker(checker: RevocationChecker): void {
+    this.revocationChecker = checker;
+    this.tokenService.setRevocationChecker(checker);
+  }
+
+  /**
+   * Scope patterns withdrawn from a token (or its ancestors) by scope-level
+   * revocation
+   */
+  getRevokedScopes(token: AgentToken): string[] {
+    return this.tokenService.getRevokedScopes(token);
+  }
+
+  /**
+   * Get the revocation checker currently in use
+   */
+  getRevocationChecker(): RevocationChecker {
+    return this.revocationChecker;
+  }
+
+  /**
+   * Sign HMAC tokens with versioned keys from this provider.
+   * LeaderServer and FollowerClient install their SigningKeyManager here so
+   * `rotate-key` rotates the key that signs capability tokens.
+   */
+  setSigningKeyManager(provider: SigningKeyProvider): void {
+    this.tokenService.setSigningKeyProvider(provider);
+  }
+
+  /**
+   * Get the configured capability token format ("hmac" unless set)
+   */
+  getTokenFormat(): TokenFormat {
+    return this.configService.loadConfig().tokenFormat ?? "hmac";
+  }
+
+  /**
+   * Switch the format used to sign new tokens. Existing tokens of either
+   * format keep verifying.
+   */
+  setTokenFormat(format: TokenFormat): void {
+    if (format !== "hmac" && format !== "jws") {
+      throw new Error(`Unknown token format "${format}" (expected hmac or jws)`);
+    }
+    const config = this.configService.loadConfig();
+    config.tokenFormat = format;
+    this.configService.saveConfig(config);
+    this.configureTokenSigning();
+  }
+
+  /**
+   * Load (or generate on first use) the Ed25519 keypair that signs JWS
+   * capability tokens, from `{configDir}/token-signing.{key,pub}`.
+   */
+  getTokenSigningKey(): TokenSigningKey {
+    return getOrCreateTokenSigningKey(this.configService.getConfigDir());
+  }
+
+  /**
+   * JWKS document with the public key that verifies this broker's JWS
+   * capability tokens (see `verifyTokenWithJwks`).
+   */
+  async getTokenJwks(): Promise<Awaited<ReturnType<typeof publicKeyToJwks>>> {
+    return publicKeyToJwks(this.getTokenSigningKey().publicKey);
+  }
+
+  /**
+   * Trust another broker's token signing public key (PEM SPKI), so its JWS
+   * tokens verify here. FollowerClient installs the leader's key. Returns
+   * the key's `kid`.
+   */
+  trustTokenSigningKey(publicKeyPem: string): string {
+    return this.tokenService.addVerificationKey(publicKeyPem);
+  }
+
+  /**
+   * Apply `tokenFormat` to the token service. An existing token signing key
+   * stays trusted in HMAC mode so JWS tokens minted earlier still verify.
+   */
+  private configureTokenSigning(): void {
+    const cfgDir = this.configService.getConfigDir();
+    if (this.getTokenFormat() === "jws") {
+      this.tokenService.setTokenSigningKey(getOrCreateTokenSigningKey(cfgDir));
+      return;
+    }
+
+    this.tokenService.setTokenSigningKey(undefined);
+    const existing = loadTokenSigningKey(cfgDir);
+    if (existing) {
+      this.tokenService.addVerificationKey(existing.publicKey);
+    }
+  }
+
+  /**
+   * Replace the ledger that enforces `maxUses` constraints.
+   * FollowerClient installs a ledger backed by the leader.
+   */
+  setUsageLedger(ledger: UsageLedger): void {
+    this.usageLedger = ledger;
+  }
+
+  /**
+   * Get the usage ledger currently in use
+   */
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
+  /**
+   * Restrict issuance while a follower is cut off from its leader.
+   * FollowerClient installs the policy for its state on every transition;
+   * no policy lifts the restrictions.
+   */
+  setDegradationPolicy(state: FollowerState, policy?: DegradationPolicy): void {
+    this.degradation = policy ? { state, policy } : undefined;
+  }
+
+  /**
+   * Get the degradation policy in force, with the state that set it
+   */
+  getDegradationPolicy(): { state: FollowerState; policy: DegradationPolicy } | undefined {
+    return this.degradation;
+  }
+
+  private assertRootTokensAllowed(): void {
+    if (this.degradation?.policy.denyRootTokens) {
+      throw new Error(
+        `Root tokens are not issued while this follower is ${this.degradation.state}`
+      );
+    }
+  }
+
+  private assertCredentialScopesAllowed(scopes: string[]): void {
+    if (!this.degradation) return;
+    const { state, policy } = this.degradation;
+    for (const scope of scopes) {
+      if (policy.denyCredentialScopes?.some((pattern) => scopeMatches(pattern, scope))) {
+        throw new Error(
+          `Permission denied: credentials for "${scope}" are not issued while this ` +
+            `follower is ${state}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Apply the degradation TTL cap. Unset (or 0) means the default lifetime:
+   * `defaultMinutes` if given, else the cap.
+   */
+  private capTtlMinutes(
+    ttlMinutes: number | undefined,
+    defaultMinutes?: number
+  ): number | undefined {
+    const cap = this.degradation?.policy.maxTokenTtlMinutes;
+    if (cap === undefined) return ttlMinutes;
+    return Math.min(ttlMinutes || (defaultMinutes ?? cap), cap);
+  }
+
+  private capRootTokenTtl(params: CreateRootTokenParams): CreateRootTokenParams {
+    if (this.degradation?.policy.maxTokenTtlMinutes === undefined) return params;
+    const ttlMinutes = this.capTtlMinutes(params.ttlDays ? params.ttlDays * 24 * 60 : undefined)!;
+    return { ...params, ttlDays: ttlMinutes / (24 * 60) };
+  }
+
+  /**
+   * Consume one use of a scope if the token constrains it with `maxUses`.
+   * The use also counts against every ancestor budget the constraint
+   * inherited; it is denied if any of them is exhausted. Uses already
+   * charged before a denial are not refunded, which can only under-permit.
+   * Ledger failures (e.g. leader unreachable) deny rather than risk replay.
+   */
+  private async consumeUse(
+    token: AgentToken,
+    scope: string
+  ): Promise<VerificationResult> {
+    const entry = findScopeConstraint(token.constraints, scope);
+    if (!entry) {
+      return { valid: true };
+    }
+
+    // Own budget first, so a token's own exhaustion spares its ancestors
+    const budgets = getUsageBudgets(token, entry.pattern, entry.constraint).reverse();
+    try {
+      for (const budget of budgets) {
+        const result = await this.usageLedger.consume(
+          budget.tokenId,
+          budget.scope,
+          budget.maxUses,
+          budget.expiresAt
+        );
+        if (!result.allowed) {
+          return {
+            valid: false,
+            error: `Scope "${scope}" exhausted its ${budget.maxUses} allowed use(s)`,
+          };
+        }
+      }
+      return { valid: true };
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Usage ledger unavailable: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
   /**
    * Refresh a token, extending its expiry (requires system:token:refresh scope)
    *
    * @param token - Token to refresh
-   * @param ttlMinutes - New TTL in minutes (optional, defaults to original TTL)
+   * @param ttlMinutes - New TTL in minutes (optional, defaults to original TTL:
+   *   `expiresAt - issuedAt`, or the remaining lifetime (at least an hour)
+   *   for tokens without `issuedAt`)
    * @returns Refreshed token with new expiry
    */
   refreshToken(token: AgentToken, ttlMinutes?: number): AgentToken {
@@ -203,6 +649,11 @@ export class Broker {
       throw new Error(`Cannot refresh invalid token: ${verification.error}`);
     }
 
+    // Elevation is always transient
+    if (token.elevation) {
+      throw new Error("Elevated tokens cannot be refreshed");
+    }
+
     // Check for refresh scope
     const hasRefreshScope = token.scopes.some(
       (s) => s === "system:token:refresh" || s === "system:*" || s === "*"
@@ -220,9 +671,16 @@ export class Broker {
       const originalExpiry = new Date(token.expiresAt);
       const originalTtlMs = ttlMinutes
         ? ttlMinutes * 60 * 1000
-        : Math.max(originalExpiry.getTime() - now.getTime(), 60 * 60 * 1000); // At least 1 hour
+        : token.issuedAt
+          ? originalExpiry.getTime() - new Date(token.issuedAt).getTime()
+          : Math.max(originalExpiry.getTime() - now.getTime(), 60 * 60 * 1000); // At least 1 hour
 
-      newExpiresAt = new Date(now.getTime() + originalTtlMs).toISOString();
+      const degradedTtlMinutes = this.degradation?.policy.maxTokenTtlMinutes;
+      const ttlMs =
+        degradedTtlMinutes === undefined
+          ? originalTtlMs
+          : Math.min(originalTtlMs, degradedTtlMinutes * 60 * 1000);
+      newExpiresAt = new Date(now.getTime() + ttlMs).toISOString();
 
       // Cap at maxExpiresAt if set
       if (token.maxExpiresAt) {
@@ -241,15 +699,53 @@ export class Broker {
     return this.tokenService.createRefreshedToken(token, newExpiresAt);
   }
 
+  /**
+   * Renew a delegated token after its parent was refreshed, keeping its
+   * token ID so revocations and usage counts still apply. The new expiry
+   * follows `delegate`: `ttlMinutes` from now, capped at the parent's.
+   * Expired children can be renewed; revoked ones cannot.
+   *
+   * @param parent - Refreshed parent token
+   * @param child - Token previously delegated from `parent`
+   * @param ttlMinutes - Lifetime of the renewed token (default: the parent's)
+   */
+  refreshDelegatedToken(
+    parent: AgentToken,
+    child: AgentToken,
+    ttlMinutes?: number
+  ): AgentToken {
+    const verification = this.tokenService.verify(parent);
+    if (!verification.valid) {
+      throw new Error(`Invalid parent token: ${verification.error}`);
+    }
+    if (!child.parentTokenId || child.parentTokenId !== parent.tokenId) {
+      throw new Error("Token was not delegated from this parent");
+    }
+    const childVerification = this.tokenService.verify(child);
+    if (!childVerification.valid && childVerification.error !== "Token expired") {
+      throw new Error(`Cannot refresh invalid token: ${childVerification.error}`);
+    }
+
+    const cappedTtl = this.capTtlMinutes(ttlMinutes);
+    let expiresAt = cappedTtl
+      ? new Date(Date.now() + cappedTtl * 60 * 1000).toISOString()
+      : undefined;
+    if (parent.expiresAt && (!expiresAt || expiresAt > parent.expiresAt)) {
+      expiresAt = parent.expiresAt;
+    }
+    return this.tokenService.createRefreshedToken(child, expiresAt);
+  }
+
   // ─────────────────────────────────────────────────────────────────
   // IDENTITY OPERATIONS
   // ─────────────────────────────────────────────────────────────────
 
   /**
-   * Create a new persistent identity for an agent.
+   * Create a new persistent identity for an agent. Federated (user)
+   * identities are created from a verified `idToken`.
    */
   async createIdentity(
-    options?: { label?: string; type?: IdentityType }
+    options?: { label?: string; type?: IdentityType; idToken?: string; nonce?: string }
   ): Promise<PersistentIdentity> {
     return this.identityService.createIdentity(options);
   }
@@ -300,6 +796,10 @@ export class Broker {
     params: CreateRootTokenParams,
     persistentId: string
   ): Promise<AgentToken> {
+    assertNoUnverifiedExternalAuth(params);
+    this.assertRootTokensAllowed();
+    params = this.capRootTokenTtl(this.expandRootTemplate(params));
+
     // 1. Generate a challenge bound to this agent's token creation
     const challenge = this.identityService.generateChallenge(params.agentId);
 
@@ -358,10 +858,23 @@ export class Broker {
       throw new Error(`Permission denied: ${permission.error}`);
     }
 
-    // Check cache
+    this.assertCredentialScopesAllowed([scope]);
+
+    // Count the use against maxUses (cache hits count too)
+    const usage = await this.consumeUse(token, scope);
+    if (!usage.valid) {
+      throw new Error(`Permission denied: ${usage.error}`);
+    }
+
+    // Check cache (degraded followers serve cached credentials for less long)
     const cacheKey = `${scope}:${resource}`;
     const cached = this.credentialCache.get(cacheKey);
-    if (cached && cached.expiresAt.getTime() - this.cacheBuffer > Date.now()) {
+    const maxCacheSeconds = this.degradation?.policy.maxCredentialCacheSeconds;
+    if (
+      cached &&
+      cached.expiresAt.getTime() - this.cacheBuffer > Date.now() &&
+      (maxCacheSeconds === undefined || Date.now() - cached.cachedAt < maxCacheSeconds * 1000)
+    ) {
       return cached.credential;
     }
 
@@ -374,6 +887,7 @@ export class Broker {
       this.credentialCache.set(cacheKey, {
         credential,
         expiresAt: new Date(credential.expiresAt),
+        cachedAt: Date.now(),
       });
     }
 
@@ -609,6 +1123,47 @@ export class Broker {
     return this.configService.loadConfig().mcpDenyPolicy ?? [];
   }
 
+  /**
+   * Broker-side MCP tool-call check. Verifies the token (signature, expiry,
+   * revocation), runs `checkMCPCall` with this broker's deny policy (unless
+   * the caller supplies one) and the token's revoked scopes, and on `allow` consumes one use of the
+   * matched tool scope when the token constrains it with `maxUses`.
+   */
+  async authorizeMCPCall(
+    token: AgentToken,
+    server: string,
+    tool: string,
+    args?: unknown,
+    options?: CheckMCPCallOptions
+  ): Promise<Decision> {
+    const verification = this.tokenService.verify(token);
+    if (!verification.valid) {
+      return { kind: "deny", reason: `Invalid token: ${verification.error}` };
+    }
+
+    const decision = checkMCPCall(token, server, tool, args, {
+      ...options,
+      brokerDenyPolicy: options?.brokerDenyPolicy ?? this.getMCPDenyPolicy(),
+      revokedScopes: [
+        ...(options?.revokedScopes ?? []),
+        ...this.tokenService.getRevokedScopes(token),
+      ],
+    });
+    if (decision.kind !== "allow") {
+      return decision;
+    }
+
+    const usage = await this.consumeUse(token, `mcp:${server}:${tool}`);
+    if (!usage.valid) {
+      return {
+        kind: "deny",
+        reason: usage.error!,
+        matchedScope: decision.matchedScope,
+      };
+    }
+    return decision;
+  }
+
   /**
    * Lazily load (or generate on first use) this broker's Ed25519 MCP
    * signing keypair from `{configDir}/mcp-signing.{key,pub}`. Used to
@@ -618,14 +1173,51 @@ export class Broker {
     return getOrCreateMCPSigningKey(this.configService.getConfigDir());
   }
 
+  /**
+   * The MCP signing keyring: current keypair, version, and rotated-out
+   * public keys that are still published.
+   */
+  getMCPSigningKeyring(): MCPSigningKeyring {
+    return loadMCPSigningKeyring(this.configService.getConfigDir());
+  }
+
+  /**
+   * Rotate the MCP signing key. New credentials are signed with the new
+   * key at once; the old public key stays in the JWKS until credentials
+   * it signed have expired. In distributed mode, rotate on the leader —
+   * followers pick the new keyring up on their next sync.
+   */
+  rotateMCPSigningKey(): MCPSigningKeyring {
+    return rotateMCPSigningKey(this.configService.getConfigDir());
+  }
+
+  /**
+   * Install the leader's MCP signing keyring (used by FollowerClient), so
+   * followers sign with the key the leader's JWKS publishes.
+   */
+  importMCPSigningKeyring(keyring: MCPSigningKeyring): void {
+    importMCPSigningKeyring(this.configService.getConfigDir(), keyring);
+  }
+
+  /**
+   * JWKS document that verifies this broker's MCP credentials: the current
+   * signing key, plus rotated-out keys while they are still published.
+   * Served by `mcp jwks` and the leader's `/.well-known/jwks.json`.
+   */
+  async getMCPJwks(): Promise<Awaited<ReturnType<typeof publicKeysToJwks>>> {
+    return publicKeysToJwks(loadMCPVerificationKeys(this.configService.getConfigDir()));
+  }
+
   /**
    * Issue an RFC 8707 audience-bound credential for an MCP server. Wraps
-   * `issueMCPCredential` with this broker's signing key and a default
+   * `issueMCPCredential` with this broker's current signing key (named in
+   * the JWT's `kid` header) and a default
    * issuer of the broker's `agentId` (caller can override via the
    * `issuer` option).
    *
-   * Validates that every requested scope is granted by the agent token
-   * (defense in depth). When an audit sink is provided, records a
+   * Verifies the agent token (signature, expiry, revocation) and validates
+   * that every requested scope is granted by it and not revoked (defense
+   * in depth). When an audit sink is provided, records a
    * `mcp.credential.issued` event.
    */
   async issueForMCPServer(req: {
@@ -637,22 +1229,31 @@ export class Broker {
     act?: string[];
     auditSink?: MCPAuditSink;
   }): Promise<MCPCredential> {
-    const { privateKey } = this.getMCPSigningKey();
+    const verification = this.tokenService.verify(req.agentToken);
+    if (!verification.valid) {
+      throw new Error(`Invalid agent token: ${verification.error}`);
+    }
+    this.assertCredentialScopesAllowed(req.scopes);
+
+    const { privateKey, publicKey } = this.getMCPSigningKey();
     const issuer = req.issuer ?? "agent-iam";
     const cred = await issueMCPCredential({
       agentToken: req.agentToken,
       serverURI: req.serverURI,
       scopes: req.scopes,
       signingKey: privateKey,
+      keyId: (await brokerPublicKeyToJwk(publicKey)).kid,
       issuer,
       ttlSeconds: req.ttlSeconds,
       act: req.act,
+      revokedScopes: this.tokenService.getRevokedScopes(req.agentToken),
     });
     if (req.auditSink) {
       await req.auditSink.record({
         timestamp: new Date().toISOString(),
         kind: "mcp.credential.issued",
         agentId: req.agentToken.agentId,
+        tokenId: req.agentToken.tokenId,
         audience: req.serverURI,
         context: {
           scopes: req.scopes,
@@ -721,6 +1322,368 @@ export class Broker {
    */
   onMCPDenyPolicyChanged?: () => void;
 
+  // ─────────────────────────────────────────────────────────────────
+  // HUMAN APPROVAL (ASK DECISIONS)
+  // ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Ask a human, through `req.provider`, to approve one MCP tool call by
+   * `req.token`, and wait until they answer or the request times out.
+   * The receipt is signed with this broker's MCP signing key.
+   *
+   * With `mintToken`, an approval also mints a non-delegatable child of
+   * the (delegatable) token holding only `mcp:<server>:<tool>`, bound to
+   * the approved arguments (`argsHash`) and limited to `maxUses: 1`
+   * (`ttlMinutes`, default 5). `authorizeMCPCall` allows the approved call
+   * once; `checkMCPCall` enforces the arguments but, being pure, can't
+   * count uses.
+   */
+  async requestApproval(req: {
+    token: AgentToken;
+    server: string;
+    tool: string;
+    args?: unknown;
+    reason: string;
+    provider: AsyncApprovalProvider;
+    timeoutMs?: number;
+    pollIntervalMs?: number;
+    mintToken?: boolean;
+    ttlMinutes?: number;
+    auditSink?: MCPAuditSink;
+  }): Promise<{ receipt: ApprovalReceipt; token?: AgentToken }> {
+    const verification = this.tokenService.verify(req.token);
+    if (!verification.valid) {
+      throw new Error(`Invalid token: ${verification.error}`);
+    }
+    if (req.mintToken && !req.token.delegatable) {
+      throw new Error("Cannot mint an approval token from a non-delegatable token");
+    }
+
+    const receipt = await requestApproval(
+      req.provider,
+      {
+        agentId: req.token.agentId,
+        tokenId: req.token.tokenId,
+        server: req.server,
+        tool: req.tool,
+        args: req.args,
+        reason: req.reason,
+      },
+      {
+        signingKey: this.getMCPSigningKey().privateKey,
+        timeoutMs: req.timeoutMs,
+        pollIntervalMs: req.pollIntervalMs,
+        auditSink: req.auditSink,
+      }
+    );
+    if (receipt.outcome !== "approved" || !req.mintToken) {
+      return { receipt };
+    }
+
+    const scope = `mcp:${req.server}:${req.tool}`;
+    const token = this.delegate(req.token, {
+      agentId: req.token.agentId,
+      requestedScopes: [scope],
+      requestedConstraints: {
+        [scope]: { maxUses: 1, argsHash: approvalArgsHash(req.args ?? {}) },
+      },
+      delegatable: false,
+      ttlMinutes: req.ttlMinutes ?? 5,
+    });
+    return { receipt, token };
+  }
+
+  /**
+   * Whether an approval receipt was signed by this broker's MCP signing
+   * key, current or still-published previous.
+   */
+  verifyApprovalReceipt(receipt: ApprovalReceipt): boolean {
+    return loadMCPVerificationKeys(this.configService.getConfigDir()).some((key) =>
+      verifyApprovalReceipt(receipt, key)
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────────
+  // SCOPE TEMPLATES
+  // ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the named scope templates stored in `config.json` under
+   * `scopeTemplates`
+   */
+  getScopeTemplates(): Record<string, ScopeTemplate> {
+    return this.configService.loadConfig().scopeTemplates ?? {};
+  }
+
+  /**
+   * Flatten a template and the templates it includes
+   */
+  resolveScopeTemplate(name: string): ResolvedScopeTemplate {
+    return resolveScopeTemplate(this.getScopeTemplates(), name);
+  }
+
+  /**
+   * Add or replace a scope template. The whole template set is validated
+   * first (includes resolve, scopes exist in provider scope maps).
+   */
+  setScopeTemplate(name: string, template: ScopeTemplate): void {
+    this.setScopeTemplates({ ...this.getScopeTemplates(), [name]: template });
+  }
+
+  /**
+   * Remove a scope template. Fails if another template still includes it.
+   */
+  removeScopeTemplate(name: string): boolean {
+    const templates = this.getScopeTemplates();
+    if (!(name in templates)) return false;
+    const { [name]: _removed, ...rest } = templates;
+    this.setScopeTemplates(rest);
+    return true;
+  }
+
+  /**
+   * Replace the entire template set. Used by FollowerClient to apply a
+   * leader-pushed snapshot.
+   */
+  setScopeTemplates(templates: Record<string, ScopeTemplate>): void {
+    validateScopeTemplates(templates);
+    const config = this.configService.loadConfig();
+    config.scopeTemplates = templates;
+    this.configService.saveConfig(config);
+    this.onScopeTemplatesChanged?.();
+  }
+
+  /**
+   * Optional hook fired whenever the scope templates change. The
+   * LeaderServer wires this to bump its version counter so the next sync
+   * ships the change to followers.
+   */
+  onScopeTemplatesChanged?: () => void;
+
+  /** Expand `params.template` into explicit scopes, constraints and TTL */
+  private expandRootTemplate(params: CreateRootTokenParams): CreateRootTokenParams {
+    if (!params.template) return params;
+    const { template, ...rest } = params;
+    const resolved = this.resolveScopeTemplate(template);
+    const templateTtlDays =
+      resolved.ttlMinutes !== undefined ? resolved.ttlMinutes / (24 * 60) : undefined;
+    return {
+      ...rest,
+      scopes: [...new Set([...resolved.scopes, ...(params.scopes ?? [])])],
+      constraints: { ...resolved.constraints, ...params.constraints },
+      ttlDays: params.ttlDays ?? templateTtlDays,
+    };
+  }
+
+  /** Expand `request.template` into explicit scopes, constraints and TTL */
+  private expandDelegationTemplate(request: DelegationRequest): DelegationRequest {
+    if (!request.template) return request;
+    const { template, ...rest } = request;
+    const resolved = this.resolveScopeTemplate(template);
+    return {
+      ...rest,
+      requestedScopes: [
+        ...new Set([...resolved.scopes, ...(request.requestedScopes ?? [])]),
+      ],
+      requestedConstraints: { ...resolved.constraints, ...request.requestedConstraints },
+      ttlMinutes: request.ttlMinutes ?? resolved.ttlMinutes,
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────
+  // HUMAN ON-BEHALF-OF (FEDERATED USERS, CONSENT, TOKEN EXCHANGE)
+  // ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the trusted OIDC identity providers stored in `config.json` under
+   * `federatedIdps`
+   */
+  getFederatedIdps(): Record<string, FederatedIdpConfig> {
+    return this.configService.loadConfig().federatedIdps ?? {};
+  }
+
+  /**
+   * Trust an OIDC identity provider for user assertions. Users of this
+   * IdP are named `user:<name>:<sub>`.
+   */
+  addFederatedIdp(name: string, config: FederatedIdpConfig): void {
+    // Validates the name and config
+    new FederatedIdentityProvider(name, config);
+    const brokerConfig = this.configService.loadConfig();
+    brokerConfig.federatedIdps = { ...brokerConfig.federatedIdps, [name]: config };
+    this.configService.saveConfig(brokerConfig);
+  }
+
+  /**
+   * Stop trusting an OIDC identity provider. Consent grants and tokens
+   * already issued for its users are unaffected.
+   */
+  removeFederatedIdp(name: string): boolean {
+    const brokerConfig = this.configService.loadConfig();
+    if (!brokerConfig.federatedIdps?.[name]) return false;
+    const { [name]: _removed, ...rest } = brokerConfig.federatedIdps;
+    brokerConfig.federatedIdps = rest;
+    this.configService.saveConfig(brokerConfig);
+    return true;
+  }
+
+  /**
+   * Fetch an IdP's discovery document and JWKS into the on-disk cache
+   * (`{configDir}/identities/oidc-cache/<name>/`) for offline verification
+   */
+  async refreshFederatedIdpKeys(name: string): Promise<void> {
+    await this.oidcProvider.getVerifier(name).refreshKeys();
+  }
+
+  /**
+   * Verify a user's OIDC ID token against the trusted IdP whose issuer
+   * matches its `iss` claim
+   */
+  async verifyUserAssertion(assertion: OIDCAssertion): Promise<UserPrincipal> {
+    return this.oidcProvider.verifyAssertion(assertion);
+  }
+
+  /**
+   * Record a user's consent for the agent holding `agentToken` to act as
+   * them for `scopes`. The user is identified by a verified OIDC
+   * assertion; the IdP's login and consent screens are the consent UX.
+   * The grant is bound to the token's root, since agent IDs are not
+   * unique. Returns the signed grant.
+   */
+  async grantConsent(req: {
+    userAssertion: OIDCAssertion;
+    agentToken: AgentToken;
+    scopes: string[];
+    /** Grant lifetime (default: 24 hours) */
+    ttlMinutes?: number;
+  }): Promise<ConsentGrant> {
+    const verification = this.tokenService.verify(req.agentToken);
+    if (!verification.valid) {
+      throw new Error(`Invalid agent token: ${verification.error}`);
+    }
+    const user = await this.verifyUserAssertion(req.userAssertion);
+    const ttlMinutes = req.ttlMinutes ?? DEFAULT_CONSENT_TTL_MINUTES;
+    if (!(ttlMinutes > 0)) {
+      throw new Error("Consent grant TTL must be positive");
+    }
+
+    return this.consentGrants.issue({
+      userId: user.userId,
+      agentId: req.agentToken.agentId,
+      agentRootId: getRootTokenId(req.agentToken),
+      scopes: req.scopes,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+    });
+  }
+
+  /** Look up a consent grant */
+  getConsentGrant(grantId: string): ConsentGrant | undefined {
+    return this.consentGrants.get(grantId);
+  }
+
+  /** List consent grants, optionally filtered by user and/or agent */
+  listConsentGrants(filter?: { userId?: string; agentId?: string }): ConsentGrant[] {
+    return this.consentGrants.list(filter);
+  }
+
+  /**
+   * Revoke a consent grant and, through a `consentGrantId` revocation
+   * rule, every token already exchanged under it (and their descendants).
+   * Requires the revocation checker to be a `RevocationList`.
+   */
+  revokeConsentGrant(grantId: string, reason?: string): ConsentGrant {
+    if (!(this.revocationChecker instanceof RevocationList)) {
+      throw new Error("revokeConsentGrant requires a RevocationList checker");
+    }
+    const grant = this.consentGrants.revoke(grantId, reason);
+    if (!grant) {
+      throw new Error(`Unknown consent grant "${grantId}"`);
+    }
+    this.revocationChecker.addRule({
+      match: { consentGrantId: grantId },
+      reason: reason ?? `Consent grant ${grantId} revoked`,
+    });
+    return grant;
+  }
+
+  /**
+   * RFC 8693-style token exchange: mint a token for the agent to act as
+   * the user. Checks the agent token, the user's OIDC assertion and the
+   * consent grant (signed by this broker, unrevoked, unexpired, issued to
+   * this user for this agent, whose token descends from the same root). Scopes are limited to the intersection of
+   * the grant and the agent token. When an audit sink is provided,
+   * records a `token.exchange.granted` or `token.exchange.denied` event.
+   */
+  async exchangeForUserToken(
+    req: TokenExchangeRequest & { auditSink?: MCPAuditSink }
+  ): Promise<AgentToken> {
+    const { auditSink, agentToken, userAssertion, consentGrantId, ...request } = req;
+
+    let exchanged: AgentToken;
+    try {
+      const verification = this.tokenService.verify(agentToken);
+      if (!verification.valid) {
+        throw new Error(`Invalid agent token: ${verification.error}`);
+      }
+
+      const user = await this.verifyUserAssertion(userAssertion);
+
+      const grant = this.consentGrants.get(consentGrantId);
+      if (!grant || !this.consentGrants.verifySignature(grant)) {
+        throw new Error(`Unknown or tampered consent grant "${consentGrantId}"`);
+      }
+      if (grant.revokedAt) {
+        throw new Error(`Consent grant "${consentGrantId}" has been revoked`);
+      }
+      if (new Date(grant.expiresAt) <= new Date()) {
+        throw new Error(`Consent grant "${consentGrantId}" has expired`);
+      }
+      if (grant.userId !== user.userId) {
+        throw new Error(`Consent grant "${consentGrantId}" was not given by ${user.userId}`);
+      }
+      if (grant.agentId !== agentToken.agentId) {
+        throw new Error(
+          `Consent grant "${consentGrantId}" does not authorize agent "${agentToken.agentId}"`
+        );
+      }
+      if (grant.agentRootId !== getRootTokenId(agentToken)) {
+        throw new Error(
+          `Consent grant "${consentGrantId}" was given to another "${agentToken.agentId}" token`
+        );
+      }
+
+      exchanged = this.tokenService.exchangeForUser(agentToken, grant, user, {
+        ...request,
+        ttlMinutes: this.capTtlMinutes(request.ttlMinutes, DEFAULT_EXCHANGE_TTL_MINUTES),
+      });
+    } catch (error) {
+      await auditSink?.record({
+        timestamp: new Date().toISOString(),
+        kind: "token.exchange.denied",
+        agentId: agentToken.agentId,
+        tokenId: agentToken.tokenId,
+        reason: error instanceof Error ? error.message : String(error),
+        context: { consentGrantId, requestedScopes: request.requestedScopes },
+      });
+      throw error;
+    }
+
+    await auditSink?.record({
+      timestamp: new Date().toISOString(),
+      kind: "token.exchange.granted",
+      agentId: exchanged.agentId,
+      tokenId: exchanged.tokenId,
+      context: {
+        userId: exchanged.identity!.principalId,
+        act: exchanged.act,
+        consentGrantId,
+        scopes: exchanged.scopes,
+        expiresAt: exchanged.expiresAt,
+      },
+    });
+    return exchanged;
+  }
+
   // ─────────────────────────────────────────────────────────────────
   // CACHE MANAGEMENT
   // ─────────────────────────────────────────────────────────────────
@@ -21,11 +21,13 @@ const CLI = path.resolve(__dirname, "cli.js");
 
 function run(
   args: string[],
-  env: Record<string, string>
+  env: Record<string, string>,
+  input?: string
 ): { status: number; stdout: string; stderr: string } {
   const r = spawnSync(process.execPath, [CLI, ...args], {
     env: { ...process.env, ...env },
     encoding: "utf8",
+    input,
   });
   return {
     status: r.status ?? -1,
@@ -205,3 +207,121 @@ describe("agent-iam mcp issue-cred", () => {
     assert.match(r.stderr, /not granted by the agent token/);
   });
 });
+
+describe("agent-iam mcp precheck", () => {
+  let env: { home: string; cleanup: () => void };
+  beforeEach(() => {
+    env = setup();
+  });
+  afterEach(() => {
+    env.cleanup();
+  });
+
+  const payload = (toolName: string) =>
+    JSON.stringify({
+      hook_event_name: "PreToolUse",
+      tool_name: toolName,
+      tool_input: { path: "/tmp/x" },
+    });
+
+  function snapshot(tools: object[]): void {
+    const file = path.join(env.home, "tools.json");
+    fs.writeFileSync(file, JSON.stringify({ tools }));
+    const r = run(["mcp", "snapshot", "fs", "--from-file", file], {
+      AGENT_IAM_HOME: env.home,
+    });
+    assert.strictEqual(r.status, 0, r.stderr);
+  }
+
+  test("allows a granted, snapshotted tool and audits the decision", () => {
+    const token = mintToken(env.home, ["mcp:fs:*"]);
+    snapshot([{ name: "read_file", inputSchema: { type: "object" } }]);
+    const r = run(
+      ["mcp", "precheck"],
+      { AGENT_IAM_HOME: env.home, AGENT_TOKEN: token },
+      payload("mcp__fs__read_file")
+    );
+    assert.strictEqual(r.status, 0);
+    const out = JSON.parse(r.stdout);
+    assert.strictEqual(out.hookSpecificOutput.permissionDecision, "allow");
+
+    const kinds = fs
+      .readFileSync(path.join(env.home, "mcp-audit.jsonl"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).kind);
+    assert.deepStrictEqual(kinds, ["mcp.schema.pin", "mcp.tool.decision"]);
+  });
+
+  test("denies ungranted tools and fails closed without a token", () => {
+    const token = mintToken(env.home, ["mcp:fs:read_file"]);
+    const denied = run(
+      ["mcp", "precheck", "--token", token],
+      { AGENT_IAM_HOME: env.home },
+      payload("mcp__shell__exec")
+    );
+    assert.strictEqual(JSON.parse(denied.stdout).hookSpecificOutput.permissionDecision, "deny");
+
+    const noToken = run(
+      ["mcp", "precheck"],
+      { AGENT_IAM_HOME: env.home, AGENT_TOKEN: "" },
+      payload("mcp__fs__read_file")
+    );
+    const out = JSON.parse(noToken.stdout).hookSpecificOutput;
+    assert.strictEqual(out.permissionDecision, "deny");
+    assert.match(out.permissionDecisionReason, /No agent token/);
+  });
+
+  test("asks when no definition is known and stays silent for non-MCP tools", () => {
+    const token = mintToken(env.home, ["mcp:fs:*"]);
+    const ask = run(
+      ["mcp", "precheck", "--token", token],
+      { AGENT_IAM_HOME: env.home },
+      payload("mcp__fs__read_file")
+    );
+    assert.strictEqual(JSON.parse(ask.stdout).hookSpecificOutput.permissionDecision, "ask");
+
+    const builtin = run(
+      ["mcp", "precheck", "--token", token],
+      { AGENT_IAM_HOME: env.home },
+      payload("Bash")
+    );
+    assert.strictEqual(builtin.status, 0);
+    assert.strictEqual(builtin.stdout, "");
+  });
+});
+
+describe("agent-iam token show / revoke", () => {
+  let env: { home: string; cleanup: () => void };
+  beforeEach(() => {
+    env = setup();
+  });
+  afterEach(() => {
+    env.cleanup();
+  });
+
+  test("show prints the token ID", () => {
+    const token = mintToken(env.home, ["github:repo:read"]);
+    const r = run(["token", "show", token], { AGENT_IAM_HOME: env.home });
+    assert.strictEqual(r.status, 0);
+    const shown = JSON.parse(r.stdout);
+    assert.match(shown.tokenId, /^tok_/);
+    assert.strictEqual(r.stderr, "");
+  });
+
+  test("local revoke by token ID invalidates the token", () => {
+    const token = mintToken(env.home, ["github:repo:read"]);
+    const { tokenId } = JSON.parse(
+      run(["token", "show", token], { AGENT_IAM_HOME: env.home }).stdout
+    );
+
+    const revoke = run(["revoke", tokenId, "--reason", "test"], {
+      AGENT_IAM_HOME: env.home,
+    });
+    assert.strictEqual(revoke.status, 0);
+
+    const verify = run(["token", "verify", token], { AGENT_IAM_HOME: env.home });
+    assert.strictEqual(verify.status, 1);
+    assert.match(verify.stderr, /Token revoked/);
+  });
+});
@@ -29,6 +29,25 @@ configCmd
     console.log(JSON.stringify(config, null, 2));
   });
 
+configCmd
+  .command("token-format [format]")
+  .description("Show or set the capability token format (hmac or jws)")
+  .action((format) => {
+    const broker = new Broker();
+
+    try {
+      if (format) {
+        broker.setTokenFormat(format);
+      }
+      console.log(broker.getTokenFormat());
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 configCmd
   .command("init <provider>")
   .description("Initialize a provider (github, google, aws, slack)")
@@ -210,10 +229,12 @@ const identityCmd = program.command("identity").description("Manage persistent a
 identityCmd
   .command("create")
   .description("Create a new persistent identity")
-  .option("--type <type>", "Identity type: keypair or platform", "keypair")
+  .option("--type <type>", "Identity type: keypair, platform or federated", "keypair")
   .option("--label <label>", "Human-readable label for this identity")
+  .option("--id-token <jwt>", "OIDC ID token (federated identities)")
+  .option("--nonce <nonce>", "Expected nonce claim of --id-token")
   .action(async (options) => {
-    const validTypes = ["keypair", "platform"];
+    const validTypes = ["keypair", "platform", "federated"];
     if (!validTypes.includes(options.type)) {
       console.error(
         `Error: Invalid identity type "${options.type}". Must be one of: ${validTypes.join(", ")}`
@@ -227,6 +248,8 @@ identityCmd
       const identity = await broker.createIdentity({
         type: options.type,
         label: options.label,
+        idToken: options.idToken,
+        nonce: options.nonce,
       });
 
       console.log(`Identity created: ${identity.persistentId}`);
@@ -314,23 +337,49 @@ tokenCmd
   .command("create-root")
   .description("Create a root token")
   .requiredOption("--agent-id <id>", "Agent ID")
-  .requiredOption("--scopes <scopes>", "Comma-separated list of scopes")
+  .option("--scopes <scopes>", "Comma-separated list of scopes")
+  .option("--template <name>", "Scope template to expand (see `template list`)")
   .option("--constraints <json>", "JSON constraints object")
-  .option("--ttl-days <days>", "Token TTL in days", "7")
+  .option("--ttl-days <days>", "Token TTL in days (default: the template's, else 7)")
   .option("--max-depth <depth>", "Maximum delegation depth", "3")
   .option("--no-delegatable", "Disable delegation")
   .option("--identity <persistentId>", "Bind token to a persistent identity")
+  .option("--id-token <jwt>", "Act for the human user of this verified OIDC ID token")
+  .option("--nonce <nonce>", "Expected nonce claim of --id-token")
   .action(async (options) => {
     const broker = new Broker();
 
     try {
-      const scopes = options.scopes.split(",").map((s: string) => s.trim());
+      if (!options.scopes && !options.template) {
+        throw new Error("--scopes or --template is required");
+      }
+      const scopes = options.scopes?.split(",").map((s: string) => s.trim());
       const constraints: Constraints = options.constraints
         ? JSON.parse(options.constraints)
         : {};
+      const templateTtl = options.template
+        ? broker.resolveScopeTemplate(options.template).ttlMinutes
+        : undefined;
+      const ttlDays = options.ttlDays
+        ? parseInt(options.ttlDays, 10)
+        : templateTtl === undefined
+          ? 7
+          : undefined;
+
+      const params = {
+        agentId: options.agentId,
+        scopes,
+        template: options.template,
+        constraints,
+        delegatable: options.delegatable,
+        maxDelegationDepth: parseInt(options.maxDepth, 10),
+        ttlDays,
+      };
 
       let token;
-      if (options.identity) {
+      if (options.identity && options.idToken) {
+        throw new Error("--identity and --id-token cannot be combined");
+      } else if (options.identity) {
         const validPrefixes = ["key:", "platform:", "agent://", "did:"];
         if (!validPrefixes.some((p: string) => options.identity.startsWith(p))) {
           console.error(
@@ -338,26 +387,14 @@ tokenCmd
           );
           process.exit(1);
         }
-        token = await broker.createRootTokenWithIdentity(
-          {
-            agentId: options.agentId,
-            scopes,
-            constraints,
-            delegatable: options.delegatable,
-            maxDelegationDepth: parseInt(options.maxDepth, 10),
-            ttlDays: parseInt(options.ttlDays, 10),
-          },
-          options.identity
-        );
-      } else {
-        token = broker.createRootToken({
-          agentId: options.agentId,
-          scopes,
-          constraints,
-          delegatable: options.delegatable,
-          maxDelegationDepth: parseInt(options.maxDepth, 10),
-          ttlDays: parseInt(options.ttlDays, 10),
+        token = await broker.createRootTokenWithIdentity(params, options.identity);
+      } else if (options.idToken) {
+        token = await broker.createRootTokenWithAssertion(params, {
+          idToken: options.idToken,
+          nonce: options.nonce,
         });
+      } else {
+        token = broker.createRootToken(params);
       }
 
       const serialized = broker.serializeToken(token);
@@ -374,27 +411,37 @@ tokenCmd
   .command("delegate")
   .description("Delegate a token to create a child token")
   .requiredOption("--parent <token>", "Parent token (serialized)")
-  .requiredOption("--scopes <scopes>", "Comma-separated list of scopes")
+  .option("--scopes <scopes>", "Comma-separated list of scopes")
+  .option("--template <name>", "Scope template to expand (see `template list`)")
   .option("--agent-id <id>", "Agent ID for child")
   .option("--constraints <json>", "JSON constraints object")
-  .option("--ttl-minutes <minutes>", "Token TTL in minutes", "60")
+  .option("--ttl-minutes <minutes>", "Token TTL in minutes (default: the template's, else 60)")
   .option("--no-delegatable", "Disable further delegation")
   .action((options) => {
     const broker = new Broker();
 
     try {
+      if (!options.scopes && !options.template) {
+        throw new Error("--scopes or --template is required");
+      }
       const parent = broker.deserializeToken(options.parent);
-      const scopes = options.scopes.split(",").map((s: string) => s.trim());
+      const scopes = options.scopes?.split(",").map((s: string) => s.trim());
       const constraints: Constraints = options.constraints
         ? JSON.parse(options.constraints)
         : {};
+      const templateTtl = options.template
+        ? broker.resolveScopeTemplate(options.template).ttlMinutes
+        : undefined;
 
       const child = broker.delegate(parent, {
         agentId: options.agentId,
         requestedScopes: scopes,
+        template: options.template,
         requestedConstraints: constraints,
         delegatable: options.delegatable,
-        ttlMinutes: parseInt(options.ttlMinutes, 10),
+        ttlMinutes: options.ttlMinutes
+          ? parseInt(options.ttlMinutes, 10)
+          : templateTtl ?? 60,
       });
 
       const serialized = broker.serializeToken(child);
@@ -416,6 +463,12 @@ tokenCmd
     try {
       const token = broker.deserializeToken(tokenStr);
       console.log(JSON.stringify(token, null, 2));
+      if (!token.tokenId) {
+        console.error(
+          "Warning: legacy token without a token ID (revocation falls back to agent ID). " +
+            "Run 'agent-iam token migrate' to assign one."
+        );
+      }
     } catch (error) {
       console.error(
         `Error: ${error instanceof Error ? error.message : String(error)}`
@@ -424,6 +477,33 @@ tokenCmd
     }
   });
 
+tokenCmd
+  .command("migrate <token>")
+  .description("Assign a token ID to a token minted before token IDs existed")
+  .action((tokenStr) => {
+    const broker = new Broker();
+
+    try {
+      const token = broker.deserializeToken(tokenStr);
+      const migrated = broker.migrateToken(token);
+      console.log(broker.serializeToken(migrated));
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+tokenCmd
+  .command("jwks")
+  .description("Print the public key that verifies JWS capability tokens as a JWKS document")
+  .action(async () => {
+    const broker = new Broker();
+    const jwks = await broker.getTokenJwks();
+    console.log(JSON.stringify(jwks, null, 2));
+  });
+
 tokenCmd
   .command("verify <token>")
   .description("Verify a token")
@@ -484,6 +564,91 @@ program
     }
   });
 
+// ─────────────────────────────────────────────────────────────────
+// SCOPE TEMPLATE COMMANDS
+// ─────────────────────────────────────────────────────────────────
+
+const templateCmd = program
+  .command("template")
+  .description("Manage named scope templates stored in broker config");
+
+templateCmd
+  .command("list")
+  .description("List scope templates")
+  .action(() => {
+    const broker = new Broker();
+    const templates = broker.getScopeTemplates();
+    if (Object.keys(templates).length === 0) {
+      console.log("(no templates)");
+      return;
+    }
+    console.log(JSON.stringify(templates, null, 2));
+  });
+
+templateCmd
+  .command("show <name>")
+  .description("Show a template with its includes expanded")
+  .action((name: string) => {
+    const broker = new Broker();
+    try {
+      console.log(JSON.stringify(broker.resolveScopeTemplate(name), null, 2));
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command("add <name>")
+  .description("Add or replace a scope template")
+  .option("--scopes <scopes>", "Comma-separated list of scopes", "")
+  .option("--include <templates>", "Comma-separated templates to include")
+  .option("--constraints <json>", "JSON constraints object")
+  .option("--ttl-minutes <minutes>", "Default token TTL in minutes")
+  .option("--description <text>", "Description")
+  .action((name: string, options) => {
+    const broker = new Broker();
+    const list = (value: string) =>
+      value.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+
+    try {
+      broker.setScopeTemplate(name, {
+        ...(options.description && { description: options.description }),
+        scopes: list(options.scopes),
+        ...(options.include && { include: list(options.include) }),
+        ...(options.constraints && { constraints: JSON.parse(options.constraints) }),
+        ...(options.ttlMinutes && { ttlMinutes: parseInt(options.ttlMinutes, 10) }),
+      });
+      console.log(`added: ${name}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+templateCmd
+  .command("remove <name>")
+  .description("Remove a scope template")
+  .action((name: string) => {
+    const broker = new Broker();
+    try {
+      if (broker.removeScopeTemplate(name)) console.log(`removed: ${name}`);
+      else {
+        console.error(`not found: ${name}`);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 // ─────────────────────────────────────────────────────────────────
 // STATUS COMMAND
 // ─────────────────────────────────────────────────────────────────
@@ -501,13 +666,25 @@ program
 // MCP COMMANDS
 // ─────────────────────────────────────────────────────────────────
 
+import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import {
+  canonicalToolHash,
   checkMCPCall,
   formatDecision,
   FileSchemaPinRegistry,
+  HttpSchemaPinRegistry,
+  PinRegistryServer,
   FileAuditSink,
-  publicKeyToJwks,
+  FileQueueApprovalProvider,
+  FileToolsSnapshotStore,
+  listToolsFromStdioServer,
+  loadMCPServersConfig,
+  parseHookPayload,
+  precheckToolCall,
+  toHookResponse,
+  type MCPTool,
 } from "./mcp/index.js";
 
 const mcpCmd = program.command("mcp").description("MCP access-control utilities");
@@ -517,12 +694,14 @@ mcpCmd
   .description("Dry-run a checkMCPCall against a token (logs decision, no side effects)")
   .requiredOption("--token <token>", "Serialized agent token")
   .option("--broker-deny <pattern...>", "Override broker deny policy for this run")
+  .option("--args <json>", "Tool call arguments, checked against the scope's argument rules")
   .action((server: string, tool: string, options) => {
     const broker = new Broker();
     try {
       const token = broker.deserializeToken(options.token);
       const brokerDenyPolicy = options.brokerDeny ?? broker.getMCPDenyPolicy();
-      const decision = checkMCPCall(token, server, tool, undefined, {
+      const args = options.args ? JSON.parse(options.args) : undefined;
+      const decision = checkMCPCall(token, server, tool, args, {
         brokerDenyPolicy,
       });
       console.log(formatDecision(decision));
@@ -574,14 +753,47 @@ denyCmd
 
 mcpCmd
   .command("jwks")
-  .description("Print the broker's MCP signing public key as a JWKS document")
+  .description("Print the broker's MCP signing public keys as a JWKS document")
   .action(async () => {
-    const broker = new Broker();
-    const { publicKey } = broker.getMCPSigningKey();
-    const jwks = await publicKeyToJwks(publicKey);
+    const jwks = await new Broker().getMCPJwks();
     console.log(JSON.stringify(jwks, null, 2));
   });
 
+mcpCmd
+  .command("rotate-key")
+  .description(
+    "Rotate the MCP credential signing key. The previous key stays in the JWKS " +
+    "until credentials it signed have expired."
+  )
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    try {
+      let result: { version: number; previousExpiresAt: string };
+      if (options.leaderUrl) {
+        if (!options.authToken) {
+          throw new Error("--auth-token is required for remote rotation");
+        }
+        const response = await fetch(`${options.leaderUrl}/mcp/rotate-key`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${options.authToken}` },
+        });
+        if (!response.ok) {
+          throw new Error(`Rotation failed: ${await response.text()}`);
+        }
+        result = (await response.json()) as typeof result;
+      } else {
+        const keyring = new Broker().rotateMCPSigningKey();
+        result = { version: keyring.version, previousExpiresAt: keyring.retired[0].expiresAt };
+      }
+      console.log(`MCP signing key rotated to version ${result.version}`);
+      console.log(`Previous key published until ${result.previousExpiresAt}`);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
 mcpCmd
   .command("issue-cred <serverURI>")
   .description(
@@ -647,6 +859,475 @@ mcpCmd
     }
   });
 
+mcpCmd
+  .command("pin-server")
+  .description("Serve the pin directory over the HttpSchemaPinRegistry contract")
+  .option("--port <port>", "Port to listen on", "8444")
+  .option("--host <host>", "Host to bind to", "127.0.0.1")
+  .option("--dir <dir>", "Pin directory (default: <config dir>/mcp-pins)")
+  .option("--auth-token <token>", "Bearer token for agents (read and first pin)")
+  .option("--operator-token <token>", "Bearer token for operators (repin and delete)")
+  .action(async (options) => {
+    if (!options.authToken || !options.operatorToken) {
+      console.error("Error: --auth-token and --operator-token are required");
+      process.exit(1);
+    }
+
+    const broker = new Broker();
+    try {
+      const server = new PinRegistryServer({
+        registry: new FileSchemaPinRegistry(options.dir),
+        authToken: options.authToken,
+        operatorToken: options.operatorToken,
+        auditSink: new FileAuditSink(path.join(broker.getConfigDir(), "mcp-audit.jsonl")),
+        port: parseInt(options.port, 10),
+        host: options.host,
+      });
+      const port = await server.start();
+      console.log(`Pin registry server started on ${options.host}:${port}`);
+      console.log("Press Ctrl+C to stop");
+
+      process.on("SIGINT", async () => {
+        console.log("\nShutting down...");
+        await server.stop();
+        process.exit(0);
+      });
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+mcpCmd
+  .command("pin-repin <server> <tool>")
+  .description("Accept a changed tool schema on a pin-registry server (operator)")
+  .requiredOption("--registry-url <url>", "Pin registry server base URL")
+  .requiredOption("--operator-token <token>", "Operator bearer token")
+  .requiredOption("--operator <name>", "Who is approving the new schema")
+  .option("--hash <sha256>", "New schema hash")
+  .option("--from-snapshot", "Hash the tool's definition in the tools/list snapshot")
+  .option("--snapshot-dir <dir>", "Snapshot directory (default: <config dir>/mcp-tools)")
+  .option("--expected-hash <sha256>", "Only repin if this hash is still the pinned one")
+  .option("--reason <text>", "Why the change was accepted (recorded in the audit log)")
+  .action(async (server: string, tool: string, options) => {
+    try {
+      let hash: string | undefined = options.hash;
+      if (options.fromSnapshot) {
+        const def = new FileToolsSnapshotStore(options.snapshotDir)
+          .get(server)
+          ?.tools.find((t) => t.name === tool);
+        if (!def) {
+          throw new Error(`No snapshot of ${server}/${tool} (run: agent-iam mcp snapshot ${server})`);
+        }
+        hash = canonicalToolHash(def);
+      }
+      if (!hash) {
+        throw new Error("Pass --hash or --from-snapshot");
+      }
+
+      const registry = new HttpSchemaPinRegistry({
+        baseURL: options.registryUrl,
+        authToken: options.operatorToken,
+        operator: options.operator,
+      });
+      const pin = await registry.repin(server, tool, hash, {
+        expectedHash: options.expectedHash,
+        reason: options.reason,
+      });
+      console.log(`repinned ${server}/${tool} to ${pin.hash} at ${pin.pinnedAt}`);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+mcpCmd
+  .command("precheck")
+  .description(
+    "PreToolUse-style hook: read the hook payload on stdin, print an allow/deny/ask " +
+    "decision as JSON. Fails closed (deny) on errors; non-MCP tools get no output."
+  )
+  .option("--token <token>", "Serialized agent token (default: $AGENT_TOKEN)")
+  .option("--mcp-config <file>", "MCP client config; its stdio mcpServers are queried for tool definitions")
+  .option("--snapshot-dir <dir>", "tools/list snapshot directory (default: <config dir>/mcp-tools)")
+  .option("--trust-annotations <server...>", "Servers whose tool annotations are policy input")
+  .option("--strict", "Deny never-pinned tools instead of pinning them (no TOFU)")
+  .option("--timeout <ms>", "Timeout for querying an MCP server", "10000")
+  .action(async (options) => {
+    const broker = new Broker();
+    let hookEventName = "PreToolUse";
+    try {
+      const call = parseHookPayload(JSON.parse(fs.readFileSync(0, "utf-8")));
+      if (!call) return; // not an MCP tool; no opinion
+      hookEventName = call.hookEventName;
+
+      const serialized = options.token ?? process.env.AGENT_TOKEN;
+      if (!serialized) {
+        throw new Error("No agent token (pass --token or set AGENT_TOKEN)");
+      }
+      const token = broker.deserializeToken(serialized);
+      const verification = broker.verifyToken(token);
+      if (!verification.valid) {
+        throw new Error(`Invalid token: ${verification.error}`);
+      }
+
+      // Live listing first (the only way to see drift), else the snapshot
+      const snapshots = new FileToolsSnapshotStore(options.snapshotDir);
+      const servers = options.mcpConfig ? loadMCPServersConfig(options.mcpConfig) : {};
+      let tools: MCPTool[] | undefined;
+      if (servers[call.server]) {
+        try {
+          tools = await listToolsFromStdioServer(servers[call.server], {
+            timeoutMs: parseInt(options.timeout, 10),
+          });
+          snapshots.set(call.server, tools);
+        } catch (err) {
+          console.error(
+            `warning: ${err instanceof Error ? err.message : String(err)}; using snapshot`
+          );
+        }
+      }
+      tools ??= snapshots.get(call.server)?.tools;
+
+      const decision = await precheckToolCall(
+        token,
+        call,
+        tools?.find((t) => t.name === call.tool),
+        {
+          pinRegistry: new FileSchemaPinRegistry(),
+          tofu: !options.strict,
+          brokerDenyPolicy: broker.getMCPDenyPolicy(),
+          revokedScopes: broker.getRevokedScopes(token),
+          trustAnnotations: (options.trustAnnotations ?? []).includes(call.server),
+          auditSink: new FileAuditSink(path.join(broker.getConfigDir(), "mcp-audit.jsonl")),
+        }
+      );
+      console.log(JSON.stringify(toHookResponse(decision, hookEventName)));
+    } catch (err) {
+      const reason = `precheck failed: ${err instanceof Error ? err.message : String(err)}`;
+      console.error(`Error: ${reason}`);
+      console.log(JSON.stringify(toHookResponse({ kind: "deny", reason }, hookEventName)));
+    }
+  });
+
+mcpCmd
+  .command("snapshot <server>")
+  .description("Store a tools/list snapshot for precheck, from a live server or a file")
+  .option("--mcp-config <file>", "MCP client config containing the server's stdio command")
+  .option("--from-file <file>", "JSON tools/list result ({ tools: [...] })")
+  .option("--snapshot-dir <dir>", "Snapshot directory (default: <config dir>/mcp-tools)")
+  .option("--timeout <ms>", "Timeout for querying the server", "10000")
+  .action(async (server: string, options) => {
+    try {
+      let tools: MCPTool[];
+      if (options.fromFile) {
+        tools = (JSON.parse(fs.readFileSync(options.fromFile, "utf-8")) as { tools?: MCPTool[] })
+          .tools ?? [];
+      } else if (options.mcpConfig) {
+        const command = loadMCPServersConfig(options.mcpConfig)[server];
+        if (!command) {
+          throw new Error(`No stdio server "${server}" in ${options.mcpConfig}`);
+        }
+        tools = await listToolsFromStdioServer(command, {
+          timeoutMs: parseInt(options.timeout, 10),
+        });
+      } else {
+        throw new Error("Pass --mcp-config or --from-file");
+      }
+      new FileToolsSnapshotStore(options.snapshotDir).set(server, tools);
+      console.log(`${server}: ${tools.length} tool(s)`);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+const approvalCmd = mcpCmd
+  .command("approval")
+  .description("Answer approval requests queued by FileQueueApprovalProvider");
+
+/** The approval queue: --queue, else {configDir}/approvals */
+function approvalQueue(options: { queue?: string }): FileQueueApprovalProvider {
+  return new FileQueueApprovalProvider(
+    options.queue ?? path.join(new Broker().getConfigDir(), "approvals")
+  );
+}
+
+approvalCmd
+  .command("list")
+  .description("List pending approval requests")
+  .option("--queue <dir>", "Queue directory (default: <config dir>/approvals)")
+  .action((options) => {
+    const pending = approvalQueue(options).listPending();
+    if (pending.length === 0) {
+      console.log("(no pending requests)");
+      return;
+    }
+    for (const r of pending) {
+      console.log(
+        `${r.requestId}\t${r.agentId ?? "-"}\t${r.server}/${r.tool}\texpires ${r.expiresAt}\t${r.reason}`
+      );
+      if (r.args !== undefined) console.log(`  args: ${JSON.stringify(r.args)}`);
+    }
+  });
+
+for (const [name, approved] of [["approve", true], ["deny", false]] as const) {
+  approvalCmd
+    .command(`${name} <requestId>`)
+    .description(`${approved ? "Approve" : "Deny"} a pending approval request`)
+    .option("--queue <dir>", "Queue directory (default: <config dir>/approvals)")
+    .option("--approver <name>", "Who is deciding (default: cli:<os user>)")
+    .option("--reason <text>", "Note recorded on the receipt")
+    .action((requestId: string, options) => {
+      try {
+        approvalQueue(options).decide(requestId, {
+          approved,
+          approver: options.approver ?? `cli:${os.userInfo().username}`,
+          ...(options.reason && { reason: options.reason }),
+        });
+        console.log(`${approved ? "approved" : "denied"}: ${requestId}`);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        process.exit(1);
+      }
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────
+// ELEVATION COMMANDS
+// ─────────────────────────────────────────────────────────────────
+
+program
+  .command("elevate")
+  .description(
+    "Mint a short-lived elevated token with additional scopes. " +
+    "Grants and denials are logged to mcp-audit.jsonl in the broker config dir."
+  )
+  .requiredOption("--token <token>", "Token to elevate (serialized)")
+  .requiredOption("--scopes <scopes>", "Comma-separated list of scopes to add")
+  .requiredOption("--reason <justification>", "Why the elevation is needed")
+  .option("--ttl <minutes>", "Elevation TTL in minutes (capped by broker policy)", "15")
+  .action(async (options) => {
+    const broker = new Broker();
+
+    try {
+      const auditSink = new FileAuditSink(
+        path.join(broker.getConfigDir(), "mcp-audit.jsonl")
+      );
+      const elevated = await broker.elevate({
+        parentToken: broker.deserializeToken(options.token),
+        additionalScopes: options.scopes.split(",").map((s: string) => s.trim()),
+        ttlMinutes: parseInt(options.ttl, 10),
+        justification: options.reason,
+        auditSink,
+      });
+
+      console.log(broker.serializeToken(elevated));
+      console.error(`(expires: ${elevated.expiresAt})`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────
+// ON-BEHALF-OF COMMANDS (FEDERATED USERS)
+// ─────────────────────────────────────────────────────────────────
+
+const idpCmd = program
+  .command("idp")
+  .description("Manage trusted OIDC identity providers for on-behalf-of tokens");
+
+idpCmd
+  .command("list")
+  .description("List trusted identity providers")
+  .action(() => {
+    const broker = new Broker();
+    const idps = broker.getFederatedIdps();
+    if (Object.keys(idps).length === 0) {
+      console.log("(no identity providers)");
+      return;
+    }
+    for (const [name, config] of Object.entries(idps)) {
+      const keys = config.jwks ? "static JWKS" : config.jwksUri ?? "discovery";
+      console.log(`${name}\t${config.issuer}\t(${keys})`);
+    }
+  });
+
+idpCmd
+  .command("add <name>")
+  .description("Trust an OIDC identity provider (users become user:<name>:<sub>)")
+  .requiredOption("--issuer <url>", "Expected iss claim")
+  .requiredOption("--audience <clientIds>", "Comma-separated accepted aud values")
+  .option("--jwks-file <path>", "Static JWKS file")
+  .option("--jwks-uri <url>", "JWKS endpoint (default: OIDC discovery)")
+  .option("--offline", "Verify only against the on-disk discovery/JWKS cache")
+  .option("--max-age <seconds>", "Reject ID tokens issued longer ago than this")
+  .action((name: string, options) => {
+    const broker = new Broker();
+    try {
+      const audience = options.audience.split(",").map((s: string) => s.trim());
+      broker.addFederatedIdp(name, {
+        issuer: options.issuer,
+        audience: audience.length === 1 ? audience[0] : audience,
+        ...(options.jwksFile && {
+          jwks: JSON.parse(fs.readFileSync(options.jwksFile, "utf-8")),
+        }),
+        ...(options.jwksUri && { jwksUri: options.jwksUri }),
+        ...(options.offline && { offline: true }),
+        ...(options.maxAge && { maxAgeSeconds: parseInt(options.maxAge, 10) }),
+      });
+      console.log(`added: ${name}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+idpCmd
+  .command("refresh <name>")
+  .description("Fetch an IdP's discovery document and JWKS into the offline cache")
+  .action(async (name: string) => {
+    const broker = new Broker();
+    try {
+      await broker.refreshFederatedIdpKeys(name);
+      console.log(`refreshed: ${name}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+idpCmd
+  .command("remove <name>")
+  .description("Stop trusting an identity provider")
+  .action((name: string) => {
+    const broker = new Broker();
+    if (broker.removeFederatedIdp(name)) console.log(`removed: ${name}`);
+    else {
+      console.error(`not found: ${name}`);
+      process.exit(1);
+    }
+  });
+
+const consentCmd = program
+  .command("consent")
+  .description("Manage user consent grants for on-behalf-of tokens");
+
+consentCmd
+  .command("grant")
+  .description("Record a user's consent for an agent to act as them")
+  .requiredOption("--id-token <jwt>", "The user's OIDC ID token")
+  .requiredOption("--token <token>", "Token of the agent allowed to act as the user (serialized)")
+  .requiredOption("--scopes <scopes>", "Comma-separated scopes the user consents to")
+  .option("--ttl-minutes <minutes>", "Grant lifetime in minutes (default: 1440)")
+  .option("--nonce <nonce>", "Expected nonce claim")
+  .action(async (options) => {
+    const broker = new Broker();
+    try {
+      const grant = await broker.grantConsent({
+        userAssertion: { idToken: options.idToken, nonce: options.nonce },
+        agentToken: broker.deserializeToken(options.token),
+        scopes: options.scopes.split(",").map((s: string) => s.trim()),
+        ttlMinutes: options.ttlMinutes ? parseInt(options.ttlMinutes, 10) : undefined,
+      });
+      console.log(JSON.stringify(grant, null, 2));
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+consentCmd
+  .command("list")
+  .description("List consent grants")
+  .option("--user <userId>", "Only grants from this user (user:<idp>:<sub>)")
+  .option("--agent-id <id>", "Only grants to this agent")
+  .action((options) => {
+    const broker = new Broker();
+    const grants = broker.listConsentGrants({
+      userId: options.user,
+      agentId: options.agentId,
+    });
+    if (grants.length === 0) {
+      console.log("(no consent grants)");
+      return;
+    }
+    for (const grant of grants) {
+      const status = grant.revokedAt
+        ? "revoked"
+        : new Date(grant.expiresAt) <= new Date()
+          ? "expired"
+          : `expires ${grant.expiresAt}`;
+      console.log(
+        `${grant.grantId}\t${grant.userId} -> ${grant.agentId}\t${grant.scopes.join(",")}\t(${status})`
+      );
+    }
+  });
+
+consentCmd
+  .command("revoke <grantId>")
+  .description("Revoke a consent grant and every token exchanged under it")
+  .option("--reason <reason>", "Reason for revocation")
+  .action((grantId: string, options) => {
+    const broker = new Broker();
+    try {
+      broker.revokeConsentGrant(grantId, options.reason);
+      console.log(`revoked: ${grantId}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+tokenCmd
+  .command("exchange")
+  .description(
+    "Exchange an agent token for a token acting on behalf of a user (RFC 8693). " +
+    "Grants and denials are logged to mcp-audit.jsonl in the broker config dir."
+  )
+  .requiredOption("--token <token>", "Agent token (serialized)")
+  .requiredOption("--id-token <jwt>", "The user's OIDC ID token")
+  .requiredOption("--grant <grantId>", "Consent grant ID")
+  .requiredOption("--scopes <scopes>", "Comma-separated list of scopes")
+  .option("--ttl-minutes <minutes>", "Token TTL in minutes", "60")
+  .option("--nonce <nonce>", "Expected nonce claim")
+  .option("--delegatable", "Allow the agent to delegate the token")
+  .action(async (options) => {
+    const broker = new Broker();
+    try {
+      const auditSink = new FileAuditSink(
+        path.join(broker.getConfigDir(), "mcp-audit.jsonl")
+      );
+      const token = await broker.exchangeForUserToken({
+        agentToken: broker.deserializeToken(options.token),
+        userAssertion: { idToken: options.idToken, nonce: options.nonce },
+        consentGrantId: options.grant,
+        requestedScopes: options.scopes.split(",").map((s: string) => s.trim()),
+        ttlMinutes: parseInt(options.ttlMinutes, 10),
+        delegatable: options.delegatable ?? false,
+        auditSink,
+      });
+      console.log(broker.serializeToken(token));
+      console.error(`(acting as ${token.identity?.principalId}, expires: ${token.expiresAt})`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 // ─────────────────────────────────────────────────────────────────
 // DISTRIBUTED MODE COMMANDS
 // ─────────────────────────────────────────────────────────────────
@@ -658,14 +1339,22 @@ program
   .description("Start the leader HTTP server for distributed mode")
   .option("--port <port>", "Port to listen on", "8443")
   .option("--host <host>", "Host to bind to", "0.0.0.0")
-  .option("--auth-token <token>", "Authentication token for followers")
+  .option(
+    "--auth-token <token>",
+    "Shared token for admin requests (and followers, unless --require-enrollment)"
+  )
+  .option("--require-enrollment", "Only accept enrolled followers on follower endpoints")
   .option("--tls-cert <path>", "Path to TLS certificate")
   .option("--tls-key <path>", "Path to TLS private key")
+  .option("--tls-client-ca <path>", "CA bundle for follower client certificates (mTLS)")
+  .option("--issuer <url>", "Public base URL advertised as the OAuth issuer (default: from the request)")
   .action(async (options) => {
     const broker = new Broker();
 
-    if (!options.authToken) {
-      console.error("Error: --auth-token is required for secure follower authentication");
+    if (!options.authToken && !options.requireEnrollment) {
+      console.error(
+        "Error: --auth-token is required unless followers enroll (--require-enrollment)"
+      );
       process.exit(1);
     }
 
@@ -673,8 +1362,11 @@ program
       port: parseInt(options.port, 10),
       host: options.host,
       followerAuthToken: options.authToken,
+      requireFollowerEnrollment: options.requireEnrollment,
       tlsCertPath: options.tlsCert,
       tlsKeyPath: options.tlsKey,
+      tlsClientCaPath: options.tlsClientCa,
+      issuer: options.issuer,
     });
 
     try {
@@ -742,11 +1434,21 @@ program
 
 program
   .command("revoke <tokenId>")
-  .description("Revoke a token")
+  .description("Revoke a token by token ID (agent ID for legacy tokens)")
   .option("--reason <reason>", "Reason for revocation")
+  .option("--agent-id <id>", "Agent the token was issued to (recorded with the revocation)")
+  .option(
+    "--scope <patterns...>",
+    "Only revoke these scope patterns (the token keeps its other scopes)"
+  )
   .option("--auth-token <token>", "Leader authentication token")
   .option("--leader-url <url>", "Leader URL (if running remotely)")
   .action(async (tokenId, options) => {
+    const scopes: string[] | undefined = options.scope;
+    const revoked = scopes
+      ? `Scopes ${scopes.join(", ")} of token ${tokenId} revoked`
+      : `Token ${tokenId} revoked`;
+
     if (options.leaderUrl) {
       // Remote revocation via HTTP
       if (!options.authToken) {
@@ -761,7 +1463,11 @@ program
             "Content-Type": "application/json",
             Authorization: `Bearer ${options.authToken}`,
           },
-          body: JSON.stringify({ reason: options.reason }),
+          body: JSON.stringify({
+            reason: options.reason,
+            agentId: options.agentId,
+            scopes,
+          }),
         });
 
         if (!response.ok) {
@@ -769,7 +1475,7 @@ program
           throw new Error(`Revocation failed: ${error}`);
         }
 
-        console.log(`Token ${tokenId} revoked`);
+        console.log(revoked);
       } catch (error) {
         console.error(
           `Error: ${error instanceof Error ? error.message : String(error)}`
@@ -783,10 +1489,173 @@ program
       const revocationList = new RevocationList(broker.getConfigDir());
       revocationList.revoke({
         tokenId,
-        agentId: tokenId,
+        agentId: options.agentId ?? tokenId,
         reason: options.reason,
+        scopes,
       });
-      console.log(`Token ${tokenId} revoked locally`);
+      console.log(`${revoked} locally`);
+    }
+  });
+
+/**
+ * Call a leader admin endpoint, throwing on non-2xx
+ */
+async function callLeader(
+  options: { leaderUrl: string; authToken?: string },
+  method: string,
+  pathname: string,
+  body?: unknown
+): Promise<unknown> {
+  if (!options.authToken) {
+    throw new Error("--auth-token is required with --leader-url");
+  }
+
+  const response = await fetch(`${options.leaderUrl}${pathname}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${options.authToken}`,
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Leader request failed: ${error}`);
+  }
+  return response.json();
+}
+
+const revokeRuleCmd = program
+  .command("revoke-rule")
+  .description("Revoke every token matching a principal, identity, tenant or subtree");
+
+revokeRuleCmd
+  .command("add")
+  .description("Add a revocation rule (every given field must match)")
+  .option("--principal <id>", "Match identity.principalId")
+  .option("--persistent-id <id>", "Match persistentIdentity.persistentId")
+  .option("--tenant <id>", "Match identity.tenantId")
+  .option("--organization <id>", "Match identity.organizationId")
+  .option("--system <id>", "Match identity.systemId")
+  .option("--under-token <tokenId>", "Match this token and all its descendants")
+  .option("--reason <reason>", "Reason for revocation")
+  .option("--issued-before <time>", "Only match tokens issued before this ISO time")
+  .option("--expires-at <time>", "Lift the rule at this ISO time")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    const request = {
+      match: {
+        principalId: options.principal,
+        persistentId: options.persistentId,
+        tenantId: options.tenant,
+        organizationId: options.organization,
+        systemId: options.system,
+        underTokenId: options.underToken,
+      },
+      reason: options.reason,
+      issuedBefore: options.issuedBefore,
+      expiresAt: options.expiresAt,
+    };
+
+    try {
+      let ruleId: string;
+      if (options.leaderUrl) {
+        const result = (await callLeader(options, "POST", "/revoke-rules", request)) as {
+          rule: { ruleId: string };
+        };
+        ruleId = result.rule.ruleId;
+      } else {
+        const broker = new Broker();
+        const { RevocationList } = await import("./distributed/index.js");
+        ruleId = new RevocationList(broker.getConfigDir()).addRule(request).ruleId;
+      }
+      console.log(`Revocation rule added: ${ruleId}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+revokeRuleCmd
+  .command("list")
+  .description("List active revocation rules")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    try {
+      let rules: unknown[];
+      if (options.leaderUrl) {
+        ({ rules } = (await callLeader(options, "GET", "/revoke-rules")) as {
+          rules: unknown[];
+        });
+      } else {
+        const broker = new Broker();
+        const { RevocationList } = await import("./distributed/index.js");
+        rules = new RevocationList(broker.getConfigDir()).getRules();
+      }
+      console.log(JSON.stringify(rules, null, 2));
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+revokeRuleCmd
+  .command("remove <ruleId>")
+  .description("Remove a revocation rule (matching tokens become valid again)")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (ruleId: string, options) => {
+    try {
+      if (options.leaderUrl) {
+        await callLeader(options, "DELETE", `/revoke-rules/${encodeURIComponent(ruleId)}`);
+      } else {
+        const broker = new Broker();
+        const { RevocationList } = await import("./distributed/index.js");
+        if (!new RevocationList(broker.getConfigDir()).removeRule(ruleId)) {
+          throw new Error(`Rule not found: ${ruleId}`);
+        }
+      }
+      console.log(`Revocation rule removed: ${ruleId}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("revoke-elevations")
+  .description("Revoke every elevated token issued so far")
+  .option("--reason <reason>", "Reason for revocation")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    try {
+      let ruleId: string;
+      if (options.leaderUrl) {
+        const result = (await callLeader(options, "POST", "/revoke-rules", {
+          match: { elevated: true },
+          reason: options.reason,
+          issuedBefore: new Date().toISOString(),
+        })) as { rule: { ruleId: string } };
+        ruleId = result.rule.ruleId;
+      } else {
+        ruleId = new Broker().revokeAllElevations(options.reason).ruleId;
+      }
+      console.log(`All elevations revoked (rule ${ruleId})`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
     }
   });
 
@@ -794,18 +1663,23 @@ program
   .command("sync")
   .description("Force sync from leader (follower mode)")
   .requiredOption("--leader-url <url>", "Leader URL")
-  .requiredOption("--auth-token <token>", "Authentication token")
+  .option("--auth-token <token>", "Shared authentication token (default: enrolled credential)")
   .requiredOption("--follower-id <id>", "Follower identifier")
+  .option("--tls-cert <path>", "Client certificate for mTLS")
+  .option("--tls-key <path>", "Client certificate private key")
+  .option("--tls-ca <path>", "CA bundle to verify the leader")
   .action(async (options) => {
     const broker = new Broker();
 
-    const follower = new FollowerClient(broker, broker.getConfigDir(), {
-      leaderUrl: options.leaderUrl,
-      leaderAuthToken: options.authToken,
-      followerId: options.followerId,
-    });
-
     try {
+      const follower = new FollowerClient(broker, broker.getConfigDir(), {
+        leaderUrl: options.leaderUrl,
+        leaderAuthToken: options.authToken,
+        followerId: options.followerId,
+        tlsCertPath: options.tlsCert,
+        tlsKeyPath: options.tlsKey,
+        tlsCaPath: options.tlsCa,
+      });
       await follower.sync();
       const status = follower.getStatus();
       console.log("Sync completed successfully");
@@ -820,22 +1694,34 @@ program
 
 program
   .command("follower")
-  .description("Start as a follower (syncs from leader)")
+  .description(
+    "Start as a follower (syncs from leader). State changes are logged to " +
+      "mcp-audit.jsonl in the broker config dir."
+  )
   .requiredOption("--leader-url <url>", "Leader URL")
-  .requiredOption("--auth-token <token>", "Authentication token")
+  .option("--auth-token <token>", "Shared authentication token (default: enrolled credential)")
   .requiredOption("--follower-id <id>", "Follower identifier")
+  .option("--tls-cert <path>", "Client certificate for mTLS")
+  .option("--tls-key <path>", "Client certificate private key")
+  .option("--tls-ca <path>", "CA bundle to verify the leader")
   .option("--sync-interval <seconds>", "Sync interval in seconds", "60")
+  .option("--no-push", "Poll only; don't subscribe to the leader's push stream")
   .action(async (options) => {
     const broker = new Broker();
 
-    const follower = new FollowerClient(broker, broker.getConfigDir(), {
-      leaderUrl: options.leaderUrl,
-      leaderAuthToken: options.authToken,
-      followerId: options.followerId,
-      syncIntervalSeconds: parseInt(options.syncInterval, 10),
-    });
-
     try {
+      const follower = new FollowerClient(broker, broker.getConfigDir(), {
+        leaderUrl: options.leaderUrl,
+        leaderAuthToken: options.authToken,
+        followerId: options.followerId,
+        syncIntervalSeconds: parseInt(options.syncInterval, 10),
+        usePush: options.push,
+        tlsCertPath: options.tlsCert,
+        tlsKeyPath: options.tlsKey,
+        tlsCaPath: options.tlsCa,
+        // Degradation state changes go to the audit log with MCP mints
+        auditSink: new FileAuditSink(path.join(broker.getConfigDir(), "mcp-audit.jsonl")),
+      });
       await follower.start();
       console.log(`Follower started, syncing from ${options.leaderUrl}`);
       console.log("Press Ctrl+C to stop");
@@ -860,4 +1746,133 @@ program
     }
   });
 
+program
+  .command("enroll")
+  .description("Enroll this host as a follower using a one-time join token")
+  .requiredOption("--leader-url <url>", "Leader URL")
+  .requiredOption("--join-token <token>", "Join token from `agent-iam followers join-token`")
+  .requiredOption("--follower-id <id>", "Follower identifier")
+  .option("--tls-cert <path>", "Client certificate for mTLS")
+  .option("--tls-key <path>", "Client certificate private key")
+  .option("--tls-ca <path>", "CA bundle to verify the leader")
+  .action(async (options) => {
+    try {
+      const { enrollFollower } = await import("./distributed/index.js");
+      await enrollFollower(new Broker().getConfigDir(), {
+        leaderUrl: options.leaderUrl,
+        joinToken: options.joinToken,
+        followerId: options.followerId,
+        tls: { certPath: options.tlsCert, keyPath: options.tlsKey, caPath: options.tlsCa },
+      });
+      console.log(`Enrolled as follower ${options.followerId}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+const followersCmd = program
+  .command("followers")
+  .description("Manage enrolled followers (leader mode)");
+
+followersCmd
+  .command("join-token")
+  .description("Create a one-time join token for enrolling a follower")
+  .option("--follower-id <id>", "Only this follower may enroll with the token")
+  .option("--ttl <seconds>", "Token lifetime in seconds", "3600")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    const request = { followerId: options.followerId, ttlSeconds: parseInt(options.ttl, 10) };
+    try {
+      let result: { joinToken: string; expiresAt: string };
+      if (options.leaderUrl) {
+        result = (await callLeader(
+          options,
+          "POST",
+          "/followers/join-tokens",
+          request
+        )) as typeof result;
+      } else {
+        const { FollowerRegistry } = await import("./distributed/index.js");
+        result = new FollowerRegistry(new Broker().getConfigDir()).createJoinToken(request);
+      }
+      console.log(result.joinToken);
+      console.error(`Expires at ${result.expiresAt}`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+followersCmd
+  .command("list")
+  .description("List enrolled followers, revoked ones included")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (options) => {
+    try {
+      let followers: Array<{ followerId: string; enrolledAt: string; revokedAt?: string }>;
+      if (options.leaderUrl) {
+        ({ followers } = (await callLeader(options, "GET", "/followers")) as {
+          followers: typeof followers;
+        });
+      } else {
+        const { FollowerRegistry } = await import("./distributed/index.js");
+        followers = new FollowerRegistry(new Broker().getConfigDir()).list();
+      }
+      console.log(
+        JSON.stringify(
+          followers.map(({ followerId, enrolledAt, revokedAt }) => ({
+            followerId,
+            enrolledAt,
+            revokedAt,
+          })),
+          null,
+          2
+        )
+      );
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+followersCmd
+  .command("revoke <followerId>")
+  .description("Revoke a follower's credential and client certificate")
+  .option("--reason <reason>", "Reason for revocation")
+  .option("--auth-token <token>", "Leader authentication token")
+  .option("--leader-url <url>", "Leader URL (if running remotely)")
+  .action(async (followerId: string, options) => {
+    try {
+      if (options.leaderUrl) {
+        await callLeader(
+          options,
+          "POST",
+          `/followers/${encodeURIComponent(followerId)}/revoke`,
+          { reason: options.reason }
+        );
+      } else {
+        const { FollowerRegistry } = await import("./distributed/index.js");
+        const registry = new FollowerRegistry(new Broker().getConfigDir());
+        if (!registry.revoke(followerId, options.reason)) {
+          throw new Error(`Follower not enrolled: ${followerId}`);
+        }
+      }
+      console.log(`Follower ${followerId} revoked`);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -13,6 +13,7 @@ import type {
   AWSProviderConfig,
   APIKeyProviderConfig,
   SlackProviderConfig,
+  ReplicatedProviderConfigs,
 } from "./types.js";
 import { generateSecret } from "./token.js";
 
@@ -22,6 +23,8 @@ const DEFAULT_CONFIG_DIR = process.env.AGENT_IAM_HOME || path.join(os.homedir(),
 /** Config file names */
 const CONFIG_FILE = "config.json";
 const SECRET_FILE = "token_secret";
+/** Where followers store the GitHub App key replicated from the leader */
+const REPLICATED_GITHUB_KEY_FILE = "github-app.replicated.pem";
 
 export class ConfigService {
   private configDir: string;
@@ -236,6 +239,38 @@ export class ConfigService {
     return config.providers.apikeys?.[name];
   }
 
+  /** Export provider configs for replication, GitHub App key inlined */
+  exportProviderConfigs(): ReplicatedProviderConfigs {
+    const providers = this.loadConfig().providers;
+    const keyPath = providers.github?.privateKeyPath;
+    return {
+      providers,
+      ...(keyPath && fs.existsSync(keyPath)
+        ? { githubPrivateKey: fs.readFileSync(keyPath, "utf8") }
+        : {}),
+    };
+  }
+
+  /**
+   * Replace provider configs with ones replicated from the leader. Replaces
+   * rather than merges, so providers removed on the leader go away here.
+   */
+  importProviderConfigs(replicated: ReplicatedProviderConfigs): void {
+    const config = this.loadConfig();
+    const providers = { ...replicated.providers };
+
+    if (providers.github && replicated.githubPrivateKey !== undefined) {
+      this.ensureConfigDir();
+      const keyPath = path.join(this.configDir, REPLICATED_GITHUB_KEY_FILE);
+      if (fs.existsSync(keyPath)) fs.unlinkSync(keyPath);
+      fs.writeFileSync(keyPath, replicated.githubPrivateKey, { mode: 0o600 });
+      providers.github = { ...providers.github, privateKeyPath: keyPath };
+    }
+
+    config.providers = providers;
+    this.saveConfig(config);
+  }
+
   /** Get the config directory path */
   getConfigDir(): string {
     return this.configDir;
@@ -0,0 +1,135 @@
+/**
+ * Tests for the consent grant store
+ */
+
+import { test, describe, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { ConsentGrantStore } from "./consent.js";
+import { generateSecret } from "./token.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-consent-test-"));
+}
+
+function inOneHour(): string {
+  return new Date(Date.now() + 60 * 60 * 1000).toISOString();
+}
+
+describe("ConsentGrantStore", () => {
+  let tempDir: string;
+  let store: ConsentGrantStore;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    store = new ConsentGrantStore(tempDir, generateSecret());
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("issues signed grants and persists them", () => {
+    const grant = store.issue({
+      userId: "user:corp:alice",
+      agentId: "mailbot",
+      agentRootId: "root-1",
+      scopes: ["google:gmail:read"],
+      expiresAt: inOneHour(),
+    });
+    assert.ok(grant.grantId.startsWith("cg_"));
+    assert.strictEqual(store.verifySignature(grant), true);
+    assert.deepStrictEqual(store.get(grant.grantId), grant);
+
+    const mode = fs.statSync(path.join(tempDir, "consent-grants.json")).mode & 0o777;
+    assert.strictEqual(mode, 0o600);
+  });
+
+  test("detects tampered grants and foreign signatures", () => {
+    const grant = store.issue({
+      userId: "user:corp:alice",
+      agentId: "mailbot",
+      agentRootId: "root-1",
+      scopes: ["google:gmail:read"],
+      expiresAt: inOneHour(),
+    });
+    assert.strictEqual(
+      store.verifySignature({ ...grant, scopes: ["google:*"] }),
+      false
+    );
+    assert.strictEqual(
+      store.verifySignature({ ...grant, agentRootId: "root-2" }),
+      false
+    );
+
+    const other = new ConsentGrantStore(tempDir, generateSecret());
+    assert.strictEqual(other.verifySignature(grant), false);
+  });
+
+  test("revocation keeps the signature valid and the first reason", () => {
+    const grant = store.issue({
+      userId: "user:corp:alice",
+      agentId: "mailbot",
+      agentRootId: "root-1",
+      scopes: ["google:gmail:read"],
+      expiresAt: inOneHour(),
+    });
+    const revoked = store.revoke(grant.grantId, "user withdrew consent")!;
+    assert.ok(revoked.revokedAt);
+    assert.strictEqual(store.verifySignature(revoked), true);
+
+    store.revoke(grant.grantId, "again");
+    assert.strictEqual(store.get(grant.grantId)!.revokedReason, "user withdrew consent");
+    assert.strictEqual(store.revoke("cg_missing"), undefined);
+  });
+
+  test("lists by user and agent", () => {
+    for (const [userId, agentId] of [
+      ["user:corp:alice", "mailbot"],
+      ["user:corp:alice", "calbot"],
+      ["user:corp:bob", "mailbot"],
+    ]) {
+      store.issue({
+        userId,
+        agentId,
+        agentRootId: "root-1",
+        scopes: ["*"],
+        expiresAt: inOneHour(),
+      });
+    }
+    assert.strictEqual(store.list().length, 3);
+    assert.strictEqual(store.list({ userId: "user:corp:alice" }).length, 2);
+    assert.strictEqual(store.list({ agentId: "mailbot" }).length, 2);
+    assert.strictEqual(
+      store.list({ userId: "user:corp:bob", agentId: "calbot" }).length,
+      0
+    );
+  });
+
+  test("rejects empty scopes and past expiry", () => {
+    assert.throws(
+      () =>
+        store.issue({
+          userId: "u",
+          agentId: "a",
+          agentRootId: "r",
+          scopes: [],
+          expiresAt: inOneHour(),
+        }),
+      /at least one scope/
+    );
+    assert.throws(
+      () =>
+        store.issue({
+          userId: "u",
+          agentId: "a",
+          agentRootId: "r",
+          scopes: ["*"],
+          expiresAt: new Date(Date.now() - 1000).toISOString(),
+        }),
+      /in the future/
+    );
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Consent grant store for human on-behalf-of token exchange
+ *
+ * A consent grant records that a user, authenticated by a federated OIDC
+ * IdP, allowed one agent (one root token's lineage) to act as them for a set of scopes until an
+ * expiry. Grants are HMAC-signed by the broker over their RFC 8785
+ * canonical form, so an edited grant file is rejected rather than trusted.
+ *
+ * Stored in `{configDir}/consent-grants.json`. Revoking a grant here only
+ * marks it; the broker also adds a `consentGrantId` revocation rule so
+ * tokens already derived from it stop verifying (and followers learn of it
+ * through revocation sync).
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ConsentGrant } from "./types.js";
+import { canonicalize } from "./identity/jcs.js";
+
+/** Consent grant storage file */
+const CONSENT_FILE = "consent-grants.json";
+
+/** Prefix on the HMAC input, keeping grant signatures distinct from token signatures */
+const SIGNATURE_CONTEXT = "agent-iam consent grant\n";
+
+/** Persisted consent grant format */
+interface PersistedConsentGrants {
+  grants: ConsentGrant[];
+}
+
+/** Fields covered by a grant's signature */
+type SignedGrantFields = Omit<ConsentGrant, "signature" | "revokedAt" | "revokedReason">;
+
+export class ConsentGrantStore {
+  private configDir: string;
+  private grantsPath: string;
+  private secret: Buffer;
+
+  constructor(configDir: string, secret: Buffer) {
+    this.configDir = configDir;
+    this.grantsPath = path.join(configDir, CONSENT_FILE);
+    this.secret = secret;
+  }
+
+  /** Sign and store a new grant */
+  issue(params: {
+    userId: string;
+    agentId: string;
+    agentRootId: string;
+    scopes: string[];
+    expiresAt: string;
+  }): ConsentGrant {
+    if (params.scopes.length === 0) {
+      throw new Error("Consent grant requires at least one scope");
+    }
+    if (!(new Date(params.expiresAt) > new Date())) {
+      throw new Error("Consent grant expiry must be in the future");
+    }
+
+    const fields: SignedGrantFields = {
+      grantId: `cg_${crypto.randomUUID()}`,
+      userId: params.userId,
+      agentId: params.agentId,
+      agentRootId: params.agentRootId,
+      scopes: params.scopes,
+      issuedAt: new Date().toISOString(),
+      expiresAt: params.expiresAt,
+    };
+    const grant: ConsentGrant = { ...fields, signature: this.sign(fields) };
+
+    const grants = this.load();
+    grants.push(grant);
+    this.persist(grants);
+    return grant;
+  }
+
+  /** Look up a grant by ID (including revoked and expired grants) */
+  get(grantId: string): ConsentGrant | undefined {
+    return this.load().find((grant) => grant.grantId === grantId);
+  }
+
+  /** List grants, optionally filtered by user and/or agent */
+  list(filter: { userId?: string; agentId?: string } = {}): ConsentGrant[] {
+    return this.load().filter(
+      (grant) =>
+        (filter.userId === undefined || grant.userId === filter.userId) &&
+        (filter.agentId === undefined || grant.agentId === filter.agentId)
+    );
+  }
+
+  /**
+   * Mark a grant revoked. Returns the updated grant, or undefined if no
+   * such grant exists. Revoking twice keeps the first revocation.
+   */
+  revoke(grantId: string, reason?: string): ConsentGrant | undefined {
+    const grants = this.load();
+    const grant = grants.find((g) => g.grantId === grantId);
+    if (!grant) {
+      return undefined;
+    }
+    if (!grant.revokedAt) {
+      grant.revokedAt = new Date().toISOString();
+      if (reason) grant.revokedReason = reason;
+      this.persist(grants);
+    }
+    return grant;
+  }
+
+  /** Whether a grant's signature was made by this broker */
+  verifySignature(grant: ConsentGrant): boolean {
+    const { signature, revokedAt: _revokedAt, revokedReason: _reason, ...fields } = grant;
+    const expected = this.sign(fields);
+    return (
+      typeof signature === "string" &&
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+  }
+
+  private sign(fields: SignedGrantFields): string {
+    return crypto
+      .createHmac("sha256", this.secret)
+      .update(SIGNATURE_CONTEXT + canonicalize(fields))
+      .digest("base64url");
+  }
+
+  private load(): ConsentGrant[] {
+    if (!fs.existsSync(this.grantsPath)) {
+      return [];
+    }
+    const persisted = JSON.parse(
+      fs.readFileSync(this.grantsPath, "utf-8")
+    ) as PersistedConsentGrants;
+    return persisted.grants;
+  }
+
+  private persist(grants: ConsentGrant[]): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
+    }
+    const persisted: PersistedConsentGrants = { grants };
+    fs.writeFileSync(this.grantsPath, JSON.stringify(persisted, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Follower side of enrollment
+ *
+ * `enrollFollower` generates the follower's Ed25519 identity key, trades a
+ * one-time join token for a leader-signed credential and saves both,
+ * registering the follower's sealing key (sealing.ts) along the way;
+ * `FollowerClient` then authenticates with them instead of a shared token.
+ * Enrolling again (after the operator revoked the follower and issued a
+ * new join token) replaces the key.
+ *
+ * Storage layout:
+ *   {configDir}/follower-identity.key     PEM PKCS8 Ed25519 key, mode 0o600
+ *   {configDir}/follower-credential.json  follower ID, leader and credential
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { getOrCreateSealingKey } from "./sealing.js";
+import {
+  requestLeader,
+  type FollowerIdentity,
+  type LeaderTLSOptions,
+} from "./leader-client.js";
+import type { EnrollRequest, EnrollResponse } from "./types.js";
+
+const IDENTITY_KEY_FILE = "follower-identity.key";
+const CREDENTIAL_FILE = "follower-credential.json";
+
+/** Default timeout for the enrollment request */
+const DEFAULT_TIMEOUT = 30 * 1000; // 30 seconds
+
+interface PersistedCredential {
+  followerId: string;
+  leaderUrl: string;
+  credential: string;
+  enrolledAt: string;
+}
+
+/**
+ * Enroll this follower with the leader using a join token
+ */
+export async function enrollFollower(
+  configDir: string,
+  options: {
+    leaderUrl: string;
+    joinToken: string;
+    followerId: string;
+    tls?: LeaderTLSOptions;
+    timeoutMs?: number;
+  }
+): Promise<FollowerIdentity> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519", {
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+
+  const request: EnrollRequest = {
+    joinToken: options.joinToken,
+    followerId: options.followerId,
+    publicKey,
+    // Registered so the leader seals sync secrets only to this follower
+    sealingPublicKey: getOrCreateSealingKey(configDir).publicKey,
+  };
+  const response = await requestLeader(options.leaderUrl, "/enroll", {
+    method: "POST",
+    body: request,
+    tls: options.tls,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT,
+  });
+  if (!response.ok) {
+    throw new Error(`Enrollment failed: ${response.status} ${response.body}`);
+  }
+  const { credential } = JSON.parse(response.body) as EnrollResponse;
+
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  }
+  const keyPath = path.join(configDir, IDENTITY_KEY_FILE);
+  const credentialPath = path.join(configDir, CREDENTIAL_FILE);
+  // Unlink first: the mode only applies when the file is created
+  if (fs.existsSync(keyPath)) fs.unlinkSync(keyPath);
+  fs.writeFileSync(keyPath, privateKey, { mode: 0o600 });
+  fs.chmodSync(keyPath, 0o600);
+  const persisted: PersistedCredential = {
+    followerId: options.followerId,
+    leaderUrl: options.leaderUrl,
+    credential,
+    enrolledAt: new Date().toISOString(),
+  };
+  fs.writeFileSync(credentialPath, JSON.stringify(persisted, null, 2), { mode: 0o600 });
+
+  return { followerId: options.followerId, credential, privateKey };
+}
+
+/**
+ * Load the identity saved by `enrollFollower`, if this follower enrolled
+ */
+export function loadFollowerIdentity(configDir: string): FollowerIdentity | undefined {
+  const keyPath = path.join(configDir, IDENTITY_KEY_FILE);
+  const credentialPath = path.join(configDir, CREDENTIAL_FILE);
+  if (!fs.existsSync(keyPath) || !fs.existsSync(credentialPath)) {
+    return undefined;
+  }
+  const persisted = JSON.parse(fs.readFileSync(credentialPath, "utf-8")) as PersistedCredential;
+  return {
+    followerId: persisted.followerId,
+    credential: persisted.credential,
+    privateKey: fs.readFileSync(keyPath, "utf8"),
+  };
+}
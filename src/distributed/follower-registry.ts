@@ -0,0 +1,375 @@
+/**
+ * Follower enrollment on the leader
+ *
+ * Each follower gets its own identity instead of sharing one auth token:
+ *
+ *   1. An operator creates a one-time join token (optionally bound to a
+ *      follower ID) with `agent-iam followers join-token`.
+ *   2. The follower generates an Ed25519 identity key and enrolls with
+ *      the join token (`POST /enroll`).
+ *   3. The leader records the key and returns a credential: a JWT signed
+ *      with the leader's follower-CA key, bound to the identity key by its
+ *      thumbprint (`cnf.jkt`).
+ *   4. Every request carries the credential plus a short-lived proof JWT
+ *      signed with the identity key, so a leaked credential alone is
+ *      useless.
+ *
+ * Revoking a follower marks its record; the leader checks the record on
+ * every request, so revocation takes effect immediately.
+ *
+ * Storage layout:
+ *   {configDir}/followers.json      join token hashes and enrolled followers
+ *   {configDir}/follower-ca.key     PEM PKCS8 Ed25519 key signing credentials
+ *   {configDir}/follower-ca.pub     PEM SPKI public key
+ *
+ * The file is re-read on every call so `agent-iam followers ...` commands
+ * run in another process take effect on a running leader, and every
+ * change is a read-modify-write under a lock file, so a join token is
+ * consumed once even when two enrollments race.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { SignJWT, jwtVerify } from "jose";
+import { brokerPublicKeyToJwk } from "../mcp/signing-key.js";
+import { normalizeSealingPublicKey } from "./sealing.js";
+import type { EnrolledFollower, JoinTokenResponse } from "./types.js";
+
+const REGISTRY_FILE = "followers.json";
+const CA_PRIVATE_KEY_FILE = "follower-ca.key";
+const CA_PUBLIC_KEY_FILE = "follower-ca.pub";
+
+/** How long to wait for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+/** Locks older than this are assumed to belong to a crashed process */
+const STALE_LOCK_MS = 30 * 1000;
+const LOCK_RETRY_MS = 10;
+
+/** Issuer and type of follower credentials */
+const CREDENTIAL_ISSUER = "agent-iam-leader";
+const CREDENTIAL_TYPE = "follower-credential+jwt";
+
+/** Default join token lifetime */
+export const DEFAULT_JOIN_TOKEN_TTL_SECONDS = 60 * 60;
+
+/** Follower IDs appear in URLs and certificate CNs */
+const FOLLOWER_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+/** A join token as stored: only its hash */
+interface StoredJoinToken {
+  tokenHash: string;
+  followerId?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface PersistedRegistry {
+  joinTokens: StoredJoinToken[];
+  followers: EnrolledFollower[];
+}
+
+export class FollowerRegistry {
+  private configDir: string;
+  private registryPath: string;
+  private lockPath: string;
+
+  constructor(configDir: string) {
+    this.configDir = configDir;
+    this.registryPath = path.join(configDir, REGISTRY_FILE);
+    this.lockPath = `${this.registryPath}.lock`;
+  }
+
+  /**
+   * Create a one-time join token. With `followerId`, only that follower
+   * can enroll with it.
+   */
+  createJoinToken(
+    options: { followerId?: string; ttlSeconds?: number } = {}
+  ): JoinTokenResponse {
+    if (options.followerId !== undefined) {
+      assertFollowerId(options.followerId);
+    }
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_JOIN_TOKEN_TTL_SECONDS;
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new Error("ttlSeconds must be a positive integer");
+    }
+
+    const joinToken = `aij_${crypto.randomBytes(32).toString("base64url")}`;
+    const now = Date.now();
+    const stored: StoredJoinToken = {
+      tokenHash: hashJoinToken(joinToken),
+      ...(options.followerId !== undefined && { followerId: options.followerId }),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+    };
+
+    this.update((registry) => {
+      registry.joinTokens.push(stored);
+    });
+
+    return {
+      joinToken,
+      expiresAt: stored.expiresAt,
+      ...(stored.followerId !== undefined && { followerId: stored.followerId }),
+    };
+  }
+
+  /**
+   * Enroll a follower: consume the join token, record the identity and
+   * sealing keys and return a credential bound to the identity key. A
+   * follower that is already enrolled must be revoked before it can
+   * enroll again.
+   */
+  async enroll(
+    joinToken: string,
+    followerId: string,
+    publicKey: string,
+    sealingPublicKey: string
+  ): Promise<string> {
+    assertFollowerId(followerId);
+    let key: crypto.KeyObject;
+    try {
+      key = crypto.createPublicKey(publicKey);
+    } catch {
+      throw new Error("publicKey must be a PEM SPKI public key");
+    }
+    if (key.asymmetricKeyType !== "ed25519") {
+      throw new Error("publicKey must be an Ed25519 public key");
+    }
+    let sealingKey: string;
+    try {
+      sealingKey = normalizeSealingPublicKey(sealingPublicKey);
+    } catch {
+      throw new Error("sealingPublicKey must be an X25519 PEM SPKI public key");
+    }
+
+    const spki = key.export({ type: "spki", format: "pem" }).toString();
+    // Computed before the registry is read: no await between check and write
+    const keyThumbprint = (await brokerPublicKeyToJwk(spki)).kid;
+
+    const follower = this.update((registry) => {
+      const tokenHash = hashJoinToken(joinToken);
+      const index = registry.joinTokens.findIndex((t) =>
+        crypto.timingSafeEqual(Buffer.from(t.tokenHash, "hex"), Buffer.from(tokenHash, "hex"))
+      );
+      const stored = index === -1 ? undefined : registry.joinTokens[index];
+      if (!stored || Date.parse(stored.expiresAt) <= Date.now()) {
+        throw new Error("Invalid or expired join token");
+      }
+      if (stored.followerId !== undefined && stored.followerId !== followerId) {
+        throw new Error(`Join token is not valid for follower ${followerId}`);
+      }
+      const existing = registry.followers.find((f) => f.followerId === followerId);
+      if (existing && !existing.revokedAt) {
+        throw new Error(`Follower ${followerId} is already enrolled; revoke it first`);
+      }
+
+      const enrolled: EnrolledFollower = {
+        followerId,
+        publicKey: spki,
+        keyThumbprint,
+        sealingPublicKey: sealingKey,
+        enrolledAt: new Date().toISOString(),
+      };
+      registry.joinTokens.splice(index, 1);
+      registry.followers = registry.followers.filter((f) => f.followerId !== followerId);
+      registry.followers.push(enrolled);
+      return enrolled;
+    });
+
+    const ca = this.getOrCreateCAKey();
+    return new SignJWT({ cnf: { jkt: follower.keyThumbprint } })
+      .setProtectedHeader({ alg: "EdDSA", typ: CREDENTIAL_TYPE })
+      .setIssuer(CREDENTIAL_ISSUER)
+      .setSubject(followerId)
+      .setIssuedAt()
+      .setJti(crypto.randomUUID())
+      .sign(crypto.createPrivateKey(ca.privateKey));
+  }
+
+  /**
+   * Verify a credential and return the enrolled follower it names. Throws
+   * if the signature is invalid, the follower is unknown or revoked, or
+   * the follower has re-enrolled with another key since.
+   */
+  async verifyCredential(credential: string): Promise<EnrolledFollower> {
+    const ca = this.getOrCreateCAKey();
+    const { payload } = await jwtVerify(credential, crypto.createPublicKey(ca.publicKey), {
+      algorithms: ["EdDSA"],
+      issuer: CREDENTIAL_ISSUER,
+      typ: CREDENTIAL_TYPE,
+    });
+    const follower = this.getActive(payload.sub ?? "");
+    const cnf = payload.cnf as { jkt?: string } | undefined;
+    if (cnf?.jkt !== follower.keyThumbprint) {
+      throw new Error(`Credential for follower ${follower.followerId} has been superseded`);
+    }
+    return follower;
+  }
+
+  /**
+   * Get an enrolled follower, throwing if it is unknown or revoked
+   */
+  getActive(followerId: string): EnrolledFollower {
+    const follower = this.get(followerId);
+    if (!follower) {
+      throw new Error(`Follower ${followerId} is not enrolled`);
+    }
+    if (follower.revokedAt) {
+      throw new FollowerRevokedError(followerId);
+    }
+    return follower;
+  }
+
+  /**
+   * Get an enrolled follower (revoked ones included)
+   */
+  get(followerId: string): EnrolledFollower | undefined {
+    return this.read().followers.find((f) => f.followerId === followerId);
+  }
+
+  /**
+   * List enrolled followers (revoked ones included)
+   */
+  list(): EnrolledFollower[] {
+    return this.read().followers;
+  }
+
+  /**
+   * Revoke a follower. Its credential and client certificate stop working
+   * on the next request. Returns false if it was not enrolled.
+   */
+  revoke(followerId: string, reason?: string): boolean {
+    return this.update((registry) => {
+      const follower = registry.followers.find((f) => f.followerId === followerId);
+      if (!follower) return false;
+      if (!follower.revokedAt) {
+        follower.revokedAt = new Date().toISOString();
+        if (reason !== undefined) follower.revokedReason = reason;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Load the registry, dropping expired join tokens
+   */
+  private read(): PersistedRegistry {
+    let registry: PersistedRegistry = { joinTokens: [], followers: [] };
+    if (fs.existsSync(this.registryPath)) {
+      registry = JSON.parse(fs.readFileSync(this.registryPath, "utf-8")) as PersistedRegistry;
+    }
+    const now = Date.now();
+    registry.joinTokens = registry.joinTokens.filter((t) => Date.parse(t.expiresAt) > now);
+    return registry;
+  }
+
+  private write(registry: PersistedRegistry): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(this.registryPath, JSON.stringify(registry, null, 2), { mode: 0o600 });
+  }
+
+  /**
+   * Change the registry: read it, apply `change` and write it back, all
+   * under the lock file so no other change (in this process or another)
+   * lands in between. Nothing is written if `change` throws.
+   */
+  private update<T>(change: (registry: PersistedRegistry) => T): T {
+    this.acquireLock();
+    try {
+      const registry = this.read();
+      const result = change(registry);
+      this.write(registry);
+      return result;
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Take the lock file, waiting for another process to release it.
+   * Synchronous so nothing else runs while it is held.
+   */
+  private acquireLock(): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
+    }
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, "wx", 0o600));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      try {
+        const { mtimeMs } = fs.statSync(this.lockPath);
+        if (Date.now() - mtimeMs > STALE_LOCK_MS) {
+          fs.rmSync(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock released between open and stat; retry immediately
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for follower registry lock at ${this.lockPath}`);
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Load the key that signs follower credentials, generating it on first use
+   */
+  private getOrCreateCAKey(): { privateKey: string; publicKey: string } {
+    const privPath = path.join(this.configDir, CA_PRIVATE_KEY_FILE);
+    const pubPath = path.join(this.configDir, CA_PUBLIC_KEY_FILE);
+    if (fs.existsSync(privPath) && fs.existsSync(pubPath)) {
+      return {
+        privateKey: fs.readFileSync(privPath, "utf8"),
+        publicKey: fs.readFileSync(pubPath, "utf8"),
+      };
+    }
+
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
+    }
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519", {
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    // Unlink first: the mode only applies when the file is created
+    if (fs.existsSync(privPath)) fs.unlinkSync(privPath);
+    fs.writeFileSync(privPath, privateKey, { mode: 0o600 });
+    fs.chmodSync(privPath, 0o600);
+    fs.writeFileSync(pubPath, publicKey);
+    return { privateKey, publicKey };
+  }
+}
+
+/** Thrown when a revoked follower authenticates */
+export class FollowerRevokedError extends Error {
+  constructor(followerId: string) {
+    super(`Follower ${followerId} has been revoked`);
+    this.name = "FollowerRevokedError";
+  }
+}
+
+function hashJoinToken(joinToken: string): string {
+  return crypto.createHash("sha256").update(joinToken).digest("hex");
+}
+
+function assertFollowerId(followerId: string): void {
+  if (typeof followerId !== "string" || !FOLLOWER_ID_PATTERN.test(followerId)) {
+    throw new Error(
+      "followerId must be 1-128 characters of letters, digits, '.', '_' or '-'"
+    );
+  }
+}
@@ -3,27 +3,58 @@
  *
  * Features:
  * - Periodic sync with leader
- * - Graceful degradation when leader unavailable
+ * - Graceful degradation when leader unavailable: each degraded state
+ *   installs its issuance policy on the broker (see DegradationPolicy)
  * - Local caching for offline operation
  * - State machine for connection status
+ * - Full resync when the leader's state epoch changes
+ * - Push stream (Server-Sent Events from `GET /events`): revocations apply
+ *   on arrival, key rotations and config updates trigger a sync; polling
+ *   continues underneath and covers disconnections
  */
 
+import * as fs from "fs";
+import * as path from "path";
+
 import type { Broker } from "../broker.js";
 import { SigningKeyManager } from "./signing-keys.js";
 import { RevocationList } from "./revocation.js";
+import { RemoteUsageLedger } from "./remote-usage.js";
+import { getOrCreateSealingKey, openSealedSecret, type SealingKey } from "./sealing.js";
+import { loadFollowerIdentity } from "./enrollment.js";
+import {
+  openLeaderStream,
+  requestLeader,
+  type LeaderAuth,
+  type LeaderTLSOptions,
+} from "./leader-client.js";
 import {
   FollowerState,
   BrokerMode,
+  PushMessageType,
+  DEFAULT_DEGRADATION_POLICIES,
   STATE_THRESHOLDS,
+  PUSH_HEARTBEAT_INTERVAL_MS,
   type FollowerConfig,
   type SyncRequest,
   type SyncResponse,
+  type SealedSyncPayload,
   type DistributedStatus,
+  type DegradationPolicies,
+  type PushMessage,
+  type RevocationPush,
 } from "./types.js";
 
 /** Default configuration values */
 const DEFAULT_SYNC_INTERVAL = 60 * 1000; // 60 seconds
 const DEFAULT_SYNC_TIMEOUT = 30 * 1000; // 30 seconds
+const PUSH_RECONNECT_MIN = 1000; // 1 second
+const PUSH_RECONNECT_MAX = 60 * 1000; // 60 seconds
+/** A stream this long without even a heartbeat is taken as dead */
+const DEFAULT_PUSH_IDLE_TIMEOUT = 3 * PUSH_HEARTBEAT_INTERVAL_MS;
+
+/** Leader epoch last synced from, so a restarted follower notices a change */
+const FOLLOWER_STATE_FILE = "follower-state.json";
 
 export class FollowerClient {
   private broker: Broker;
@@ -31,21 +62,67 @@ export class FollowerClient {
   private configDir: string;
   private signingKeyManager: SigningKeyManager;
   private revocationList: RevocationList;
+  /** X25519 key the leader seals key material and provider secrets to */
+  private sealingKey: SealingKey;
+  /** Shared token or enrolled identity; undefined when mTLS alone authenticates */
+  private auth: LeaderAuth | undefined;
+  private tls: LeaderTLSOptions;
   private providerConfigsVersion: number = 0;
   private mcpDenyPolicyVersion: number = 0;
+  private scopeTemplatesVersion: number = 0;
+  private mcpSigningKeyVersion: number = 0;
+  private leaderEpoch: string | undefined;
 
   private state: FollowerState = FollowerState.STARTING;
+  private degradationPolicies: DegradationPolicies;
   private lastSyncAt: Date | null = null;
   private lastSyncError: string | null = null;
   private syncInterval: ReturnType<typeof setInterval> | null = null;
   private isRunning: boolean = false;
+  /** Aborts the open push stream; null when there is none */
+  private pushAbort: AbortController | null = null;
+  private pushConnected: boolean = false;
+  private pushReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pushReconnectDelayMs: number = PUSH_RECONNECT_MIN;
+  private pushSyncRunning: boolean = false;
+  /** A push asked for a sync while one was running */
+  private pushSyncPending: boolean = false;
 
   constructor(broker: Broker, configDir: string, config: FollowerConfig) {
     this.broker = broker;
     this.config = config;
     this.configDir = configDir;
+    this.degradationPolicies = { ...DEFAULT_DEGRADATION_POLICIES, ...config.degradationPolicies };
     this.signingKeyManager = new SigningKeyManager(configDir);
     this.revocationList = new RevocationList(configDir);
+    this.sealingKey = getOrCreateSealingKey(configDir);
+    this.leaderEpoch = this.loadLeaderEpoch();
+    this.auth = config.leaderAuthToken ?? loadFollowerIdentity(configDir);
+    if (this.auth === undefined && !config.tlsCertPath) {
+      throw new Error(
+        "FollowerClient: no leader credentials; pass leaderAuthToken, enroll with a " +
+          "join token, or configure an mTLS client certificate"
+      );
+    }
+    if (typeof this.auth === "object" && this.auth.followerId !== config.followerId) {
+      throw new Error(
+        `FollowerClient: this host is enrolled as ${this.auth.followerId}, ` +
+          `not ${config.followerId}`
+      );
+    }
+    this.tls = {
+      certPath: config.tlsCertPath,
+      keyPath: config.tlsKeyPath,
+      caPath: config.tlsCaPath,
+    };
+    // Verify tokens against the list synced from the leader
+    this.broker.setRevocationChecker(this.revocationList);
+    // Sign and verify capability tokens with the leader's versioned keys
+    this.broker.setSigningKeyManager(this.signingKeyManager);
+    // maxUses counts are kept by the leader so grants can't be replayed here
+    this.broker.setUsageLedger(
+      new RemoteUsageLedger(config.leaderUrl, this.auth, config.syncTimeoutMs, this.tls)
+    );
   }
 
   /**
@@ -55,21 +132,18 @@ export class FollowerClient {
     if (this.isRunning) return;
 
     this.isRunning = true;
-    this.state = FollowerState.INITIAL_SYNC;
+    this.setState(FollowerState.INITIAL_SYNC);
 
     // Perform initial sync
     try {
       await this.sync();
-      this.state = FollowerState.CONNECTED;
+      this.setState(FollowerState.CONNECTED);
     } catch (error) {
+      this.lastSyncError = error instanceof Error ? error.message : String(error);
       // Check if we have cached data
       if (this.signingKeyManager.getCurrentVersion() > 0) {
-        this.state = FollowerState.DEGRADED;
-        console.warn(
-          `Initial sync failed, using cached data: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        );
+        this.setState(FollowerState.DEGRADED);
+        console.warn(`Initial sync failed, using cached data: ${this.lastSyncError}`);
       } else {
         this.isRunning = false;
         throw new Error(
@@ -84,6 +158,10 @@ export class FollowerClient {
     const intervalMs =
       (this.config.syncIntervalSeconds ?? 60) * 1000 || DEFAULT_SYNC_INTERVAL;
     this.syncInterval = setInterval(() => this.syncWithStateUpdate(), intervalMs);
+
+    if (this.config.usePush ?? true) {
+      this.connectPush();
+    }
   }
 
   /**
@@ -96,75 +174,119 @@ export class FollowerClient {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+
+    if (this.pushReconnectTimer) {
+      clearTimeout(this.pushReconnectTimer);
+      this.pushReconnectTimer = null;
+    }
+    const pushAbort = this.pushAbort;
+    this.pushAbort = null;
+    this.pushConnected = false;
+    pushAbort?.abort();
   }
 
   /**
-   * Force an immediate sync
+   * Force an immediate sync. If the leader's epoch changed since the last
+   * sync, its versions can't be compared with ours: sync again from
+   * scratch and replace local state.
    */
   async sync(): Promise<void> {
+    let response = await this.requestSync(false);
+    const epochChanged =
+      this.leaderEpoch !== undefined && response.leaderEpoch !== this.leaderEpoch;
+    if (epochChanged) {
+      console.warn(
+        `Leader state epoch changed (${this.leaderEpoch} → ${response.leaderEpoch}), ` +
+          "resyncing in full"
+      );
+      response = await this.requestSync(true);
+    }
+
+    this.applySyncResponse(response, epochChanged);
+    if (response.leaderEpoch !== this.leaderEpoch) {
+      this.leaderEpoch = response.leaderEpoch;
+      this.saveLeaderEpoch();
+    }
+    this.lastSyncAt = new Date();
+    this.lastSyncError = null;
+  }
+
+  /**
+   * Send a sync request; `full` claims no state so the leader sends all
+   */
+  private async requestSync(full: boolean): Promise<SyncResponse> {
     const request: SyncRequest = {
       followerId: this.config.followerId,
-      signingKeyVersion: this.signingKeyManager.getCurrentVersion(),
-      providerConfigsVersion: this.providerConfigsVersion,
-      mcpDenyPolicyVersion: this.mcpDenyPolicyVersion,
-      revocationListVersion: this.revocationList.getVersion(),
+      sealingPublicKey: this.sealingKey.publicKey,
+      signingKeyVersion: full ? 0 : this.signingKeyManager.getCurrentVersion(),
+      providerConfigsVersion: full ? 0 : this.providerConfigsVersion,
+      mcpDenyPolicyVersion: full ? 0 : this.mcpDenyPolicyVersion,
+      scopeTemplatesVersion: full ? 0 : this.scopeTemplatesVersion,
+      mcpSigningKeyVersion: full ? 0 : this.mcpSigningKeyVersion,
+      revocationListVersion: full ? 0 : this.revocationList.getVersion(),
     };
 
-    const timeoutMs = this.config.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT;
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-    try {
-      const response = await fetch(`${this.config.leaderUrl}/sync`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.config.leaderAuthToken}`,
-        },
-        body: JSON.stringify(request),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Sync failed: ${response.status} ${error}`);
-      }
-
-      const syncResponse = (await response.json()) as SyncResponse;
-      this.applySyncResponse(syncResponse);
-
-      this.lastSyncAt = new Date();
-      this.lastSyncError = null;
-    } finally {
-      clearTimeout(timeout);
+    const response = await requestLeader(this.config.leaderUrl, "/sync", {
+      method: "POST",
+      body: request,
+      auth: this.auth,
+      tls: this.tls,
+      timeoutMs: this.config.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT,
+    });
+    if (!response.ok) {
+      throw new Error(`Sync failed: ${response.status} ${response.body}`);
     }
+    return JSON.parse(response.body) as SyncResponse;
   }
 
   /**
    * Apply sync response from leader
    */
-  private applySyncResponse(response: SyncResponse): void {
-    // Update signing key if provided
-    if (response.signingKey) {
-      this.signingKeyManager.importKey(
-        response.signingKey,
-        response.signingKeyVersion
-      );
+  private applySyncResponse(response: SyncResponse, full: boolean): void {
+    const secrets: SealedSyncPayload = response.sealed
+      ? JSON.parse(openSealedSecret(response.sealed, this.sealingKey.privateKey).toString())
+      : {};
+
+    // Update signing keys if provided
+    if (secrets.signingKeys) {
+      this.signingKeyManager.importKeys(secrets.signingKeys, { replace: full });
+    }
+
+    // Trust the leader's JWS token signing key
+    if (response.tokenSigningPublicKey) {
+      this.broker.trustTokenSigningKey(response.tokenSigningPublicKey);
     }
 
     // Update revocation list
-    if (response.revocationListDelta.length > 0) {
+    if (full) {
+      this.revocationList.replaceFromSync(
+        response.revocationEntries ?? [],
+        response.revocationRules ?? [],
+        response.revocationListVersion
+      );
+    } else if (response.revocationEntries && response.revocationEntries.length > 0) {
+      this.revocationList.addFromSync(
+        response.revocationEntries,
+        response.revocationListVersion
+      );
+    } else if (response.revocationListDelta.length > 0) {
       this.revocationList.addDeltaFromSync(
         response.revocationListDelta,
         response.revocationListVersion
       );
     }
 
-    // Update provider configs if provided
-    if (response.providerConfigs) {
-      // Provider configs are handled through broker's config service
-      // This would need integration with the broker's config
+    // Replace revocation rules if provided
+    if (response.revocationRules && !full) {
+      this.revocationList.setRulesFromSync(
+        response.revocationRules,
+        response.revocationListVersion
+      );
+    }
+
+    // Replace provider configs (with their secrets) if provided
+    if (secrets.providerConfigs) {
+      this.broker.getConfigService().importProviderConfigs(secrets.providerConfigs);
       this.providerConfigsVersion = response.providerConfigsVersion;
     }
 
@@ -174,6 +296,18 @@ export class FollowerClient {
       this.broker.setMCPDenyPolicy(response.mcpDenyPolicy);
       this.mcpDenyPolicyVersion = response.mcpDenyPolicyVersion ?? 0;
     }
+
+    // Replace scope templates if provided
+    if (response.scopeTemplates !== undefined) {
+      this.broker.setScopeTemplates(response.scopeTemplates);
+      this.scopeTemplatesVersion = response.scopeTemplatesVersion ?? 0;
+    }
+
+    // Sign MCP credentials with the leader's current key
+    if (secrets.mcpSigningKeyring) {
+      this.broker.importMCPSigningKeyring(secrets.mcpSigningKeyring);
+      this.mcpSigningKeyVersion = secrets.mcpSigningKeyring.version;
+    }
   }
 
   /**
@@ -182,7 +316,7 @@ export class FollowerClient {
   private async syncWithStateUpdate(): Promise<void> {
     try {
       await this.sync();
-      this.state = FollowerState.CONNECTED;
+      this.setState(FollowerState.CONNECTED);
     } catch (error) {
       this.lastSyncError =
         error instanceof Error ? error.message : String(error);
@@ -190,6 +324,151 @@ export class FollowerClient {
     }
   }
 
+  /**
+   * Open the push stream. On disconnect, including a stream gone silent
+   * past the idle timeout, reconnect with backoff while periodic sync
+   * carries on.
+   */
+  private connectPush(): void {
+    this.pushReconnectTimer = null;
+    if (!this.isRunning) return;
+
+    const controller = new AbortController();
+    this.pushAbort = controller;
+    const query = new URLSearchParams({ followerId: this.config.followerId });
+    openLeaderStream(this.config.leaderUrl, `/events?${query}`, {
+      auth: this.auth,
+      tls: this.tls,
+      signal: controller.signal,
+      connectTimeoutMs: this.config.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT,
+      idleTimeoutMs: this.config.pushIdleTimeoutMs ?? DEFAULT_PUSH_IDLE_TIMEOUT,
+    })
+      .then((res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          this.onPushDisconnected(controller);
+          return;
+        }
+        this.pushConnected = true;
+        this.pushReconnectDelayMs = PUSH_RECONNECT_MIN;
+        // Catch up on anything pushed while the stream was down
+        this.syncFromPush();
+
+        let buffer = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          buffer += chunk;
+          let end: number;
+          while ((end = buffer.indexOf("\n\n")) !== -1) {
+            this.handlePushEvent(buffer.slice(0, end));
+            buffer = buffer.slice(end + 2);
+          }
+        });
+        res.on("error", () => {
+          // "close" follows
+        });
+        res.on("close", () => this.onPushDisconnected(controller));
+      })
+      .catch(() => this.onPushDisconnected(controller));
+  }
+
+  private onPushDisconnected(controller: AbortController): void {
+    if (this.pushAbort !== controller) return; // stopped, or already handled
+    this.pushAbort = null;
+    this.pushConnected = false;
+    if (!this.isRunning) return;
+
+    this.pushReconnectTimer = setTimeout(() => this.connectPush(), this.pushReconnectDelayMs);
+    this.pushReconnectTimer.unref();
+    this.pushReconnectDelayMs = Math.min(this.pushReconnectDelayMs * 2, PUSH_RECONNECT_MAX);
+  }
+
+  /**
+   * Handle one Server-Sent Event. Revocations apply at once; key material
+   * and configs only travel sealed in a sync, so anything else syncs.
+   */
+  private handlePushEvent(event: string): void {
+    const data = event
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) return; // heartbeat comment
+
+    let message: PushMessage;
+    try {
+      message = JSON.parse(data) as PushMessage;
+    } catch {
+      return;
+    }
+
+    if (message.type === PushMessageType.REVOCATION) {
+      const revocation = message.data as RevocationPush;
+      this.revocationList.addFromPush({
+        tokenId: revocation.tokenId,
+        agentId: revocation.agentId ?? "unknown",
+        revokedAt: revocation.revokedAt,
+        reason: revocation.reason,
+        ...(revocation.scopes && { scopes: revocation.scopes }),
+      });
+    } else {
+      this.syncFromPush();
+    }
+  }
+
+  /**
+   * Sync now; a request made while one runs is coalesced into one more
+   */
+  private syncFromPush(): void {
+    if (!this.isRunning) return;
+    if (this.pushSyncRunning) {
+      this.pushSyncPending = true;
+      return;
+    }
+
+    this.pushSyncRunning = true;
+    void this.syncWithStateUpdate().finally(() => {
+      this.pushSyncRunning = false;
+      if (this.pushSyncPending) {
+        this.pushSyncPending = false;
+        this.syncFromPush();
+      }
+    });
+  }
+
+  /**
+   * Enter `state`: install its degradation policy on the broker and record
+   * the transition
+   */
+  private setState(state: FollowerState): void {
+    const from = this.state;
+    if (state === from) return;
+    this.state = state;
+
+    const policy = this.degradationPolicies[state as keyof DegradationPolicies];
+    this.broker.setDegradationPolicy(state, policy);
+    this.config.auditSink
+      ?.record({
+        timestamp: new Date().toISOString(),
+        kind: "follower.state.changed",
+        reason: this.lastSyncError ?? undefined,
+        context: {
+          followerId: this.config.followerId,
+          from,
+          to: state,
+          lastSyncAt: this.lastSyncAt?.toISOString(),
+          policy,
+        },
+      })
+      .catch((error) => {
+        console.warn(
+          `Failed to record follower state change: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      });
+  }
+
   /**
    * Update state based on time since last successful sync
    */
@@ -197,9 +476,9 @@ export class FollowerClient {
     if (!this.lastSyncAt) {
       // Never synced successfully
       if (this.signingKeyManager.getCurrentVersion() > 0) {
-        this.state = FollowerState.DEGRADED;
+        this.setState(FollowerState.DEGRADED);
       } else {
-        this.state = FollowerState.OFFLINE;
+        this.setState(FollowerState.OFFLINE);
       }
       return;
     }
@@ -208,11 +487,11 @@ export class FollowerClient {
       (Date.now() - this.lastSyncAt.getTime()) / 1000;
 
     if (secondsSinceSync > STATE_THRESHOLDS.OFFLINE_THRESHOLD_SECONDS) {
-      this.state = FollowerState.OFFLINE;
+      this.setState(FollowerState.OFFLINE);
     } else if (secondsSinceSync > STATE_THRESHOLDS.LIMITED_THRESHOLD_SECONDS) {
-      this.state = FollowerState.LIMITED;
+      this.setState(FollowerState.LIMITED);
     } else if (secondsSinceSync > STATE_THRESHOLDS.DEGRADED_THRESHOLD_SECONDS) {
-      this.state = FollowerState.DEGRADED;
+      this.setState(FollowerState.DEGRADED);
     }
     // Otherwise keep current state
   }
@@ -289,6 +568,8 @@ export class FollowerClient {
       revocationCount: this.revocationList.count(),
       lastSyncAt: this.lastSyncAt?.toISOString(),
       leaderUrl: this.config.leaderUrl,
+      leaderEpoch: this.leaderEpoch,
+      pushConnected: this.pushConnected,
     };
   }
 
@@ -301,4 +582,23 @@ export class FollowerClient {
       lastSyncError: this.lastSyncError ?? undefined,
     };
   }
+
+  private loadLeaderEpoch(): string | undefined {
+    try {
+      const state = JSON.parse(
+        fs.readFileSync(path.join(this.configDir, FOLLOWER_STATE_FILE), "utf-8")
+      ) as { leaderEpoch?: string };
+      return state.leaderEpoch;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private saveLeaderEpoch(): void {
+    fs.writeFileSync(
+      path.join(this.configDir, FOLLOWER_STATE_FILE),
+      JSON.stringify({ leaderEpoch: this.leaderEpoch }, null, 2),
+      { mode: 0o600 }
+    );
+  }
 }
@@ -4,27 +4,68 @@
 
 export { LeaderServer } from "./leader.js";
 export { FollowerClient } from "./follower.js";
-export { SigningKeyManager } from "./signing-keys.js";
+export { SigningKeyManager, DEFAULT_KEY_GRACE_PERIOD_DAYS } from "./signing-keys.js";
 export { RevocationList } from "./revocation.js";
+export { RemoteUsageLedger } from "./remote-usage.js";
+export { HttpTokenRefresher } from "./remote-refresh.js";
+export {
+  getOrCreateSealingKey,
+  sealSecret,
+  openSealedSecret,
+  SEAL_ALGORITHM,
+} from "./sealing.js";
+export type { SealingKey, SealedSecret } from "./sealing.js";
+export {
+  FollowerRegistry,
+  FollowerRevokedError,
+  DEFAULT_JOIN_TOKEN_TTL_SECONDS,
+} from "./follower-registry.js";
+export { enrollFollower, loadFollowerIdentity } from "./enrollment.js";
+export { requestLeader, REQUEST_PROOF_HEADER } from "./leader-client.js";
+export type {
+  FollowerIdentity,
+  LeaderAuth,
+  LeaderTLSOptions,
+  LeaderResponse,
+} from "./leader-client.js";
 
 export {
   BrokerMode,
   FollowerState,
   STATE_THRESHOLDS,
+  DEFAULT_DEGRADATION_POLICIES,
+  PUSH_HEARTBEAT_INTERVAL_MS,
 } from "./types.js";
 
 export type {
   SyncRequest,
   SyncResponse,
+  SealedSyncPayload,
   PushMessage,
   PushMessageType,
   RevocationPush,
   KeyRotationPush,
   ConfigUpdatePush,
   RevokedToken,
+  RevocationRule,
+  RevocationRuleMatch,
+  RevocationRuleRequest,
+  UsageConsumeRequest,
+  TokenRefreshRequest,
+  TokenRefreshResponse,
   VersionedKey,
+  ExportedSigningKey,
   FollowerInfo,
+  FollowerAuthMethod,
+  EnrolledFollower,
+  EnrolledFollowerStatus,
+  JoinTokenRequest,
+  JoinTokenResponse,
+  EnrollRequest,
+  EnrollResponse,
   DistributedStatus,
   FollowerConfig,
   LeaderConfig,
+  DegradationPolicy,
+  DegradationPolicies,
 } from "./types.js";
@@ -0,0 +1,197 @@
+/**
+ * Requests from a follower to its leader
+ *
+ * Followers authenticate with the shared `followerAuthToken`, with the
+ * credential from enrollment (see follower-registry.ts), or with an mTLS
+ * client certificate. Enrolled followers also send a proof JWT per
+ * request, signed with their identity key and bound to the method and
+ * path, so a captured credential can't be replayed on its own.
+ *
+ * Requests, and the `/events` push stream, go through node:http(s) rather
+ * than fetch, which can't present a client certificate.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import { SignJWT } from "jose";
+
+/** Header carrying the per-request proof of possession */
+export const REQUEST_PROOF_HEADER = "follower-proof";
+
+/** JWT type of request proofs */
+export const REQUEST_PROOF_TYPE = "follower-proof+jwt";
+
+/** An enrolled follower's identity (see `enrollFollower`) */
+export interface FollowerIdentity {
+  followerId: string;
+  /** Leader-signed credential */
+  credential: string;
+  /** Ed25519 identity private key (PEM PKCS8) */
+  privateKey: string;
+}
+
+/** The shared auth token, or an enrolled follower identity */
+export type LeaderAuth = string | FollowerIdentity;
+
+/** TLS files for reaching the leader */
+export interface LeaderTLSOptions {
+  /** Client certificate (mTLS) */
+  certPath?: string;
+  /** Client certificate private key */
+  keyPath?: string;
+  /** CA bundle to verify the leader (default: system CAs) */
+  caPath?: string;
+}
+
+/** A leader response, whatever its status */
+export interface LeaderResponse {
+  status: number;
+  ok: boolean;
+  body: string;
+}
+
+/**
+ * Send a request to the leader. Resolves for every HTTP status; rejects
+ * on network errors and after `timeoutMs`.
+ */
+export async function requestLeader(
+  leaderUrl: string,
+  pathAndQuery: string,
+  options: {
+    method: string;
+    body?: unknown;
+    auth?: LeaderAuth;
+    tls?: LeaderTLSOptions;
+    timeoutMs: number;
+  }
+): Promise<LeaderResponse> {
+  const { url, client, requestOptions } = await prepareRequest(leaderUrl, pathAndQuery, {
+    ...options,
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+  const payload = options.body === undefined ? undefined : JSON.stringify(options.body);
+
+  const send = (retry: boolean): Promise<LeaderResponse> =>
+    new Promise((resolve, reject) => {
+      const req = client.request(url, requestOptions, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => {
+          const status = res.statusCode ?? 0;
+          resolve({
+            status,
+            ok: status >= 200 && status < 300,
+            body: Buffer.concat(chunks).toString(),
+          });
+        });
+        res.on("error", reject);
+      });
+      req.on("error", (error: NodeJS.ErrnoException) => {
+        // A kept-alive socket the leader closed meanwhile (e.g. it
+        // restarted): retry once on a fresh connection
+        if (retry && req.reusedSocket && error.code === "ECONNRESET") {
+          resolve(send(false));
+        } else {
+          reject(error);
+        }
+      });
+      req.end(payload);
+    });
+  return send(true);
+}
+
+/**
+ * Open a long-lived GET to the leader (the `/events` push stream) and
+ * resolve with the response as soon as its headers arrive. Rejects if
+ * they take longer than `connectTimeoutMs`. Once open, the stream is
+ * destroyed (and closes) after `idleTimeoutMs` without data, so a dead
+ * connection is noticed even when no FIN or RST ever arrives. Abort
+ * through `signal`.
+ */
+export async function openLeaderStream(
+  leaderUrl: string,
+  pathAndQuery: string,
+  options: {
+    auth?: LeaderAuth;
+    tls?: LeaderTLSOptions;
+    signal: AbortSignal;
+    connectTimeoutMs: number;
+    idleTimeoutMs: number;
+  }
+): Promise<http.IncomingMessage> {
+  const { url, client, requestOptions } = await prepareRequest(leaderUrl, pathAndQuery, {
+    ...options,
+    method: "GET",
+  });
+  requestOptions.headers = { ...requestOptions.headers, Accept: "text/event-stream" };
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, requestOptions, (res) => {
+      clearTimeout(connectTimer);
+      req.setTimeout(options.idleTimeoutMs, () => {
+        req.destroy(new Error(`No data on the leader stream for ${options.idleTimeoutMs}ms`));
+      });
+      resolve(res);
+    });
+    const connectTimer = setTimeout(() => {
+      req.destroy(
+        new Error(`Timed out opening the leader stream after ${options.connectTimeoutMs}ms`)
+      );
+    }, options.connectTimeoutMs);
+    req.on("error", (error) => {
+      clearTimeout(connectTimer);
+      reject(error);
+    });
+    req.end();
+  });
+}
+
+/**
+ * Resolve the URL and build headers (auth, request proof) and TLS options
+ */
+async function prepareRequest(
+  leaderUrl: string,
+  pathAndQuery: string,
+  options: { method: string; auth?: LeaderAuth; tls?: LeaderTLSOptions; signal: AbortSignal }
+): Promise<{ url: URL; client: typeof http | typeof https; requestOptions: https.RequestOptions }> {
+  const url = new URL(`${leaderUrl.replace(/\/$/, "")}${pathAndQuery}`);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (typeof options.auth === "string") {
+    headers.Authorization = `Bearer ${options.auth}`;
+  } else if (options.auth) {
+    headers.Authorization = `Bearer ${options.auth.credential}`;
+    headers[REQUEST_PROOF_HEADER] = await createRequestProof(
+      options.auth,
+      options.method,
+      url.pathname + url.search
+    );
+  }
+
+  const tls = options.tls ?? {};
+  const requestOptions: https.RequestOptions = {
+    method: options.method,
+    headers,
+    signal: options.signal,
+    ...(tls.certPath && { cert: fs.readFileSync(tls.certPath) }),
+    ...(tls.keyPath && { key: fs.readFileSync(tls.keyPath) }),
+    ...(tls.caPath && { ca: fs.readFileSync(tls.caPath) }),
+  };
+  return { url, client: url.protocol === "https:" ? https : http, requestOptions };
+}
+
+/**
+ * Sign a proof that the identity key holder sent this request
+ */
+async function createRequestProof(
+  identity: FollowerIdentity,
+  method: string,
+  pathAndQuery: string
+): Promise<string> {
+  return new SignJWT({ htm: method, htu: pathAndQuery })
+    .setProtectedHeader({ alg: "EdDSA", typ: REQUEST_PROOF_TYPE })
+    .setSubject(identity.followerId)
+    .setIssuedAt()
+    .setJti(crypto.randomUUID())
+    .sign(crypto.createPrivateKey(identity.privateKey));
+}
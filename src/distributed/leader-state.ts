@@ -0,0 +1,83 @@
+/**
+ * Leader state that must survive restarts
+ *
+ * Sync is version-based: a follower only receives provider configs, the
+ * MCP deny policy or scope templates when the leader's version is higher
+ * than the one it holds. If those counters restarted at 1 with the
+ * leader process, a follower already at version 3 would ignore every
+ * change until the leader caught up. So the counters, and the followers
+ * last seen, are persisted.
+ *
+ * The revocation list and signing keys keep their own versions in their
+ * own files. The highest of each seen is recorded here too, so a lost or
+ * reset file (version back below it) is noticed.
+ *
+ * `epoch` names this state. A new epoch means versions may have gone
+ * backwards: the leader lost this file (wiped or restored config dir), or
+ * the revocation list or signing keys were reset under it. Followers then
+ * discard what they hold and resync in full.
+ *
+ * Storage layout:
+ *   {configDir}/leader-state.json   mode 0o600
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { FollowerInfo } from "./types.js";
+
+const STATE_FILE = "leader-state.json";
+
+/** Persisted leader versions and follower tracking */
+export interface LeaderState {
+  /** Random ID, fixed for the life of this state */
+  epoch: string;
+  providerConfigsVersion: number;
+  mcpDenyPolicyVersion: number;
+  scopeTemplatesVersion: number;
+  /** Hash of the provider configs last shipped, to notice edits on disk */
+  providerConfigsFingerprint?: string;
+  /** Highest revocation list version seen in this epoch */
+  revocationListVersion?: number;
+  /** Highest signing key version seen in this epoch */
+  signingKeyVersion?: number;
+  followers: FollowerInfo[];
+}
+
+/**
+ * Load the leader state, starting a new epoch if there is none (or it is
+ * unreadable)
+ */
+export function loadLeaderState(configDir: string): LeaderState {
+  const statePath = path.join(configDir, STATE_FILE);
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, "utf-8")) as LeaderState;
+    if (typeof state.epoch === "string") {
+      return { ...state, followers: state.followers ?? [] };
+    }
+  } catch {
+    // Missing or corrupt: start a new epoch
+  }
+
+  const state: LeaderState = {
+    epoch: crypto.randomUUID(),
+    providerConfigsVersion: 1,
+    mcpDenyPolicyVersion: 1,
+    scopeTemplatesVersion: 1,
+    followers: [],
+  };
+  saveLeaderState(configDir, state);
+  return state;
+}
+
+/**
+ * Persist the leader state
+ */
+export function saveLeaderState(configDir: string, state: LeaderState): void {
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(path.join(configDir, STATE_FILE), JSON.stringify(state, null, 2), {
+    mode: 0o600,
+  });
+}
@@ -3,39 +3,108 @@
  *
  * Extends base functionality with:
  * - HTTP server for sync endpoints
- * - WebSocket for push notifications
- * - Follower tracking
+ * - Server-Sent Events push channel (`GET /events`)
+ * - Follower tracking, enrollment and per-follower revocation
  * - Key rotation
+ * - Public key discovery (JWKS, OAuth authorization-server metadata)
  */
 
+import * as crypto from "crypto";
 import * as http from "http";
 import * as https from "https";
 import * as fs from "fs";
+import * as tls from "tls";
+import { jwtVerify } from "jose";
 import type { Broker } from "../broker.js";
-import type { AgentToken } from "../types.js";
+import type { AgentToken, ReplicatedProviderConfigs } from "../types.js";
+import { getRevocationId } from "../token.js";
+import { loadTokenSigningKey } from "../mcp/signing-key.js";
 import { SigningKeyManager } from "./signing-keys.js";
 import { RevocationList } from "./revocation.js";
+import { normalizeSealingPublicKey, sealSecret } from "./sealing.js";
+import { loadLeaderState, saveLeaderState, type LeaderState } from "./leader-state.js";
+import { FollowerRegistry, FollowerRevokedError } from "./follower-registry.js";
+import { REQUEST_PROOF_HEADER, REQUEST_PROOF_TYPE } from "./leader-client.js";
 import {
   BrokerMode,
   PushMessageType,
+  PUSH_HEARTBEAT_INTERVAL_MS,
   type LeaderConfig,
   type SyncRequest,
   type SyncResponse,
+  type SealedSyncPayload,
   type FollowerInfo,
+  type FollowerAuthMethod,
+  type EnrolledFollower,
   type DistributedStatus,
   type PushMessage,
+  type ConfigUpdatePush,
+  type UsageConsumeRequest,
+  type TokenRefreshRequest,
+  type TokenRefreshResponse,
+  type RevocationRule,
+  type RevocationRuleRequest,
+  type EnrollRequest,
+  type EnrollResponse,
+  type JoinTokenRequest,
+  type JoinTokenResponse,
 } from "./types.js";
 
 /** Default configuration values */
 const DEFAULT_PORT = 8443;
 const DEFAULT_HOST = "0.0.0.0";
 const DEFAULT_SYNC_INTERVAL = 60; // seconds
+const WELL_KNOWN_MAX_AGE = 300; // seconds
+const DEFAULT_FOLLOWER_REQUESTS_PER_MINUTE = 600;
+/** How long a request proof is accepted (and its jti remembered) */
+const REQUEST_PROOF_MAX_AGE = 60; // seconds
 
-/** Connected WebSocket clients for push notifications */
-interface WebSocketClient {
-  followerId: string;
-  send: (data: string) => void;
-  close: () => void;
+/** Endpoints followers call; everything else needs the shared token */
+const FOLLOWER_ROUTES = new Set([
+  "POST /sync",
+  "POST /token/refresh",
+  "POST /usage/consume",
+  "GET /usage",
+  "GET /events",
+]);
+
+/** Who sent an authenticated request */
+interface Caller {
+  method: FollowerAuthMethod;
+  /** Set for enrolled followers; the shared token is anonymous */
+  followerId?: string;
+}
+
+/** Token bucket per key, refilled continuously */
+class RateLimiter {
+  private perMinute: number;
+  private buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute;
+  }
+
+  /** Take one request from the key's bucket; false when it is empty */
+  take(key: string): boolean {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: this.perMinute, updatedAt: now };
+    bucket.tokens = Math.min(
+      this.perMinute,
+      bucket.tokens + ((now - bucket.updatedAt) / 60_000) * this.perMinute
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens--;
+    return true;
+  }
+}
+
+/** A follower subscribed to the push stream */
+interface PushClient {
+  /** Enrolled follower, or the `followerId` query parameter */
+  followerId?: string;
+  res: http.ServerResponse;
 }
 
 export class LeaderServer {
@@ -45,10 +114,17 @@ export class LeaderServer {
   private server: http.Server | https.Server | null = null;
   private signingKeyManager: SigningKeyManager;
   private revocationList: RevocationList;
-  private providerConfigsVersion: number = 1;
-  private mcpDenyPolicyVersion: number = 1;
-  private followers: Map<string, FollowerInfo> = new Map();
-  private wsClients: Map<string, WebSocketClient> = new Map();
+  /** Versions and epoch, persisted so they never go backwards */
+  private state: LeaderState;
+  private followers: Map<string, FollowerInfo>;
+  private followerRegistry: FollowerRegistry;
+  private rateLimiter: RateLimiter;
+  /** Requests refused by the rate limit, per follower */
+  private rateLimitedCounts: Map<string, number> = new Map();
+  /** jti of recent request proofs → when they stop being accepted */
+  private seenProofs: Map<string, number> = new Map();
+  private pushClients: Set<PushClient> = new Set();
+  private pushHeartbeat: ReturnType<typeof setInterval> | null = null;
 
   constructor(broker: Broker, configDir: string, config: LeaderConfig) {
     this.broker = broker;
@@ -56,9 +132,27 @@ export class LeaderServer {
     this.configDir = configDir;
     this.signingKeyManager = new SigningKeyManager(configDir);
     this.revocationList = new RevocationList(configDir);
-    // When operators mutate the deny policy on the leader, bump the
-    // version so the next sync ships the change to followers.
+    this.state = loadLeaderState(configDir);
+    this.followers = new Map(this.state.followers.map((f) => [f.followerId, f]));
+    this.followerRegistry = new FollowerRegistry(configDir);
+    this.rateLimiter = new RateLimiter(
+      config.followerRequestsPerMinute ?? DEFAULT_FOLLOWER_REQUESTS_PER_MINUTE
+    );
+    // Tokens verified by this broker must honor revocations issued here
+    this.broker.setRevocationChecker(this.revocationList);
+    // Capability tokens are signed with the versioned keys shipped to
+    // followers, so rotate-key rotates the token signing key
+    this.broker.setSigningKeyManager(this.signingKeyManager);
+    // When operators mutate the deny policy or scope templates on the
+    // leader, bump the version so the next sync ships the change to
+    // followers.
     this.broker.onMCPDenyPolicyChanged = () => this.bumpMCPDenyPolicyVersion();
+    this.broker.onScopeTemplatesChanged = () => {
+      this.state.scopeTemplatesVersion++;
+      this.saveState();
+      this.pushConfigUpdate("scopeTemplates", this.state.scopeTemplatesVersion);
+    };
+    this.trackStoreVersions();
   }
 
   /**
@@ -78,7 +172,15 @@ export class LeaderServer {
     if (this.config.tlsCertPath && this.config.tlsKeyPath) {
       const cert = fs.readFileSync(this.config.tlsCertPath);
       const key = fs.readFileSync(this.config.tlsKeyPath);
-      this.server = https.createServer({ cert, key }, handler);
+      const options: https.ServerOptions = { cert, key };
+      if (this.config.tlsClientCaPath) {
+        // Ask for a client certificate without requiring one, so key
+        // discovery, enrollment and token-authenticated followers still work
+        options.ca = fs.readFileSync(this.config.tlsClientCaPath);
+        options.requestCert = true;
+        options.rejectUnauthorized = false;
+      }
+      this.server = https.createServer(options, handler);
     } else {
       this.server = http.createServer(handler);
     }
@@ -99,64 +201,108 @@ export class LeaderServer {
   async stop(): Promise<void> {
     if (!this.server) return;
 
-    // Close all WebSocket connections
-    for (const client of this.wsClients.values()) {
-      client.close();
+    if (this.pushHeartbeat) {
+      clearInterval(this.pushHeartbeat);
+      this.pushHeartbeat = null;
+    }
+    for (const client of this.pushClients) {
+      client.res.end();
     }
-    this.wsClients.clear();
+    this.pushClients.clear();
 
     return new Promise((resolve) => {
       this.server!.close(() => {
         this.server = null;
         resolve();
       });
+      // Followers syncing (on a push or a timer) keep connections busy;
+      // close() would wait for them as long as they keep coming
+      this.server!.closeAllConnections();
     });
   }
 
   /**
-   * Revoke a token and push to followers
+   * Revoke a token (by its token ID, or agent ID for legacy tokens)
+   * and push to followers
    */
   async revokeToken(
     token: AgentToken,
-    reason?: string
+    reason?: string,
+    scopes?: string[]
   ): Promise<void> {
-    this.revocationList.revoke({
-      tokenId: token.agentId,
-      agentId: token.agentId,
-      reason,
-    });
-
-    // Push to all connected followers
-    this.pushToFollowers({
-      type: PushMessageType.REVOCATION,
-      timestamp: new Date().toISOString(),
-      data: {
-        tokenId: token.agentId,
+    const tokenId = getRevocationId(token);
+    this.changeStores(() =>
+      this.revocationList.revoke({
+        tokenId,
+        agentId: token.agentId,
         reason,
-        revokedAt: new Date().toISOString(),
-      },
-    });
+        scopes,
+      })
+    );
+
+    this.pushRevocation(tokenId, token.agentId, reason, scopes);
+  }
+
+  /**
+   * Revoke every token matching a rule (principal, identity, tenant,
+   * subtree, ...). Followers are told to sync and pick the rule up.
+   */
+  addRevocationRule(params: RevocationRuleRequest): RevocationRule {
+    const rule = this.changeStores(() => this.revocationList.addRule(params));
+    this.pushConfigUpdate("revocationRules", this.revocationList.getVersion());
+    return rule;
+  }
+
+  /**
+   * Remove a revocation rule. Followers are told to sync and drop it.
+   */
+  removeRevocationRule(ruleId: string): boolean {
+    const removed = this.changeStores(() => this.revocationList.removeRule(ruleId));
+    if (removed) {
+      this.pushConfigUpdate("revocationRules", this.revocationList.getVersion());
+    }
+    return removed;
   }
 
   /**
    * Rotate the signing key and push to followers
    */
   async rotateSigningKey(): Promise<{ version: number }> {
-    const { key, version } = this.signingKeyManager.rotate();
+    const { version } = this.changeStores(() => this.signingKeyManager.rotate());
 
     // Push to all connected followers
     this.pushToFollowers({
       type: PushMessageType.KEY_ROTATION,
       timestamp: new Date().toISOString(),
-      data: {
-        newKeyVersion: version,
-        newKey: key.toString("base64"),
-      },
+      data: { key: "signing", newKeyVersion: version },
     });
 
     return { version };
   }
 
+  /**
+   * Create a one-time join token for enrolling a follower
+   */
+  createJoinToken(options: JoinTokenRequest = {}): JoinTokenResponse {
+    return this.followerRegistry.createJoinToken(options);
+  }
+
+  /**
+   * Revoke an enrolled follower. Its next request is refused.
+   */
+  revokeFollower(followerId: string, reason?: string): boolean {
+    const revoked = this.followerRegistry.revoke(followerId, reason);
+    this.closeRevokedPushClients();
+    return revoked;
+  }
+
+  /**
+   * Get the follower registry
+   */
+  getFollowerRegistry(): FollowerRegistry {
+    return this.followerRegistry;
+  }
+
   /**
    * Check if a token is revoked
    */
@@ -185,10 +331,22 @@ export class LeaderServer {
     return {
       mode: BrokerMode.LEADER,
       signingKeyVersion: this.signingKeyManager.getCurrentVersion(),
-      providerConfigsVersion: this.providerConfigsVersion,
+      providerConfigsVersion: this.state.providerConfigsVersion,
+      leaderEpoch: this.state.epoch,
       revocationCount: this.revocationList.count(),
       followerCount: this.followers.size,
+      pushSubscribers: this.pushClients.size,
       followers: Array.from(this.followers.keys()),
+      enrolledFollowers: this.followerRegistry.list().map((follower) => {
+        const info = this.followers.get(follower.followerId);
+        return {
+          followerId: follower.followerId,
+          enrolledAt: follower.enrolledAt,
+          ...(follower.revokedAt && { revokedAt: follower.revokedAt }),
+          ...(info && { lastSyncAt: info.lastSyncAt, authMethod: info.authMethod }),
+          rateLimitedRequests: this.rateLimitedCounts.get(follower.followerId) ?? 0,
+        };
+      }),
     };
   }
 
@@ -201,25 +359,96 @@ export class LeaderServer {
       res.setHeader("Content-Type", "application/json");
 
       try {
+        // Key discovery is public: MCP servers fetch it without credentials
+        const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+        if (req.method === "GET" && pathname === "/.well-known/jwks.json") {
+          await this.handleJwks(res);
+          return;
+        } else if (
+          req.method === "GET" &&
+          pathname === "/.well-known/oauth-authorization-server"
+        ) {
+          this.handleAuthorizationServerMetadata(req, res);
+          return;
+        } else if (req.method === "POST" && pathname === "/enroll") {
+          // The join token is the credential
+          if (this.rateLimited(res, `enroll:${req.socket.remoteAddress}`)) return;
+          await this.handleEnroll(req, res);
+          return;
+        }
+
         // Authenticate request
-        const authHeader = req.headers.authorization;
-        if (!this.authenticateRequest(authHeader)) {
-          res.statusCode = 401;
-          res.end(JSON.stringify({ error: "Unauthorized" }));
+        let caller: Caller;
+        try {
+          caller = await this.authenticateRequest(req);
+        } catch (error) {
+          const revoked = error instanceof FollowerRevokedError;
+          res.statusCode = revoked ? 403 : 401;
+          res.end(JSON.stringify({ error: revoked ? error.message : "Unauthorized" }));
+          return;
+        }
+        if (caller.followerId && this.rateLimited(res, caller.followerId)) {
+          this.rateLimitedCounts.set(
+            caller.followerId,
+            (this.rateLimitedCounts.get(caller.followerId) ?? 0) + 1
+          );
           return;
         }
 
         // Route request
         const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
 
+        // Enrolled followers only reach follower endpoints, and with
+        // requireFollowerEnrollment the shared token only reaches the rest
+        const followerRoute = FOLLOWER_ROUTES.has(`${req.method} ${url.pathname}`);
+        if (!followerRoute && caller.method !== "shared-token") {
+          res.statusCode = 403;
+          res.end(JSON.stringify({ error: "Followers may not call this endpoint" }));
+          return;
+        }
+        if (
+          followerRoute &&
+          caller.method === "shared-token" &&
+          this.config.requireFollowerEnrollment
+        ) {
+          res.statusCode = 403;
+          res.end(JSON.stringify({ error: "Follower enrollment is required" }));
+          return;
+        }
+
         if (req.method === "POST" && url.pathname === "/sync") {
-          await this.handleSync(req, res);
+          await this.handleSync(req, res, caller);
+        } else if (req.method === "GET" && url.pathname === "/events") {
+          this.handleEvents(req, res, caller, url);
         } else if (req.method === "GET" && url.pathname === "/status") {
           this.handleStatus(res);
         } else if (req.method === "POST" && url.pathname === "/rotate-key") {
           await this.handleRotateKey(res);
+        } else if (req.method === "POST" && url.pathname === "/mcp/rotate-key") {
+          this.handleRotateMCPKey(res);
         } else if (req.method === "POST" && url.pathname.startsWith("/revoke/")) {
           await this.handleRevoke(req, res, url.pathname);
+        } else if (req.method === "GET" && url.pathname === "/revoke-rules") {
+          this.handleRevocationRuleList(res);
+        } else if (req.method === "POST" && url.pathname === "/revoke-rules") {
+          await this.handleRevocationRuleAdd(req, res);
+        } else if (req.method === "DELETE" && url.pathname.startsWith("/revoke-rules/")) {
+          this.handleRevocationRuleRemove(res, url.pathname);
+        } else if (req.method === "POST" && url.pathname === "/token/refresh") {
+          await this.handleTokenRefresh(req, res);
+        } else if (req.method === "POST" && url.pathname === "/usage/consume") {
+          await this.handleUsageConsume(req, res);
+        } else if (req.method === "GET" && url.pathname === "/usage") {
+          await this.handleUsageGet(res, url);
+        } else if (req.method === "GET" && url.pathname === "/followers") {
+          this.handleFollowerList(res);
+        } else if (req.method === "POST" && url.pathname === "/followers/join-tokens") {
+          await this.handleJoinTokenCreate(req, res);
+        } else if (
+          req.method === "POST" &&
+          /^\/followers\/[^/]+\/revoke$/.test(url.pathname)
+        ) {
+          await this.handleFollowerRevoke(req, res, url.pathname);
         } else {
           res.statusCode = 404;
           res.end(JSON.stringify({ error: "Not found" }));
@@ -236,15 +465,96 @@ export class LeaderServer {
   }
 
   /**
-   * Authenticate a request using bearer token
+   * Authenticate a request: an mTLS client certificate naming an enrolled
+   * follower, an enrollment credential with its request proof, or the
+   * shared token. Throws when none holds.
    */
-  private authenticateRequest(authHeader: string | undefined): boolean {
-    if (!authHeader) return false;
+  private async authenticateRequest(req: http.IncomingMessage): Promise<Caller> {
+    const socket = req.socket;
+    if (this.config.tlsClientCaPath && socket instanceof tls.TLSSocket && socket.authorized) {
+      const cn = socket.getPeerCertificate().subject?.CN;
+      if (typeof cn === "string" && cn !== "") {
+        this.followerRegistry.getActive(cn);
+        return { method: "mtls", followerId: cn };
+      }
+    }
+
+    const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) {
+      throw new Error("Missing bearer token");
+    }
+
+    const proof = req.headers[REQUEST_PROOF_HEADER];
+    if (typeof proof === "string") {
+      const follower = await this.followerRegistry.verifyCredential(token);
+      await this.verifyRequestProof(proof, follower, req);
+      return { method: "credential", followerId: follower.followerId };
+    }
+
+    const shared = this.config.followerAuthToken;
+    if (shared !== undefined && tokensEqual(token, shared)) {
+      return { method: "shared-token" };
+    }
+    throw new Error("Invalid bearer token");
+  }
 
-    const [scheme, token] = authHeader.split(" ");
-    if (scheme?.toLowerCase() !== "bearer") return false;
+  /**
+   * Check that a request proof was signed by the follower's identity key
+   * for this method and path, recently, and not seen before
+   */
+  private async verifyRequestProof(
+    proof: string,
+    follower: EnrolledFollower,
+    req: http.IncomingMessage
+  ): Promise<void> {
+    const { payload } = await jwtVerify(proof, crypto.createPublicKey(follower.publicKey), {
+      algorithms: ["EdDSA"],
+      typ: REQUEST_PROOF_TYPE,
+      subject: follower.followerId,
+      maxTokenAge: REQUEST_PROOF_MAX_AGE,
+    });
+    if (payload.htm !== req.method || payload.htu !== req.url) {
+      throw new Error("Request proof is for another request");
+    }
+    if (!payload.jti || this.seenProofs.has(payload.jti)) {
+      throw new Error("Request proof replayed");
+    }
 
-    return token === this.config.followerAuthToken;
+    // Insertion order is roughly expiry order: drop the expired head
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.seenProofs) {
+      if (expiresAt > now) break;
+      this.seenProofs.delete(jti);
+    }
+    this.seenProofs.set(payload.jti, now + REQUEST_PROOF_MAX_AGE * 1000);
+  }
+
+  /**
+   * Answer 429 if `key` is over its request rate
+   */
+  private rateLimited(res: http.ServerResponse, key: string): boolean {
+    if (this.rateLimiter.take(key)) return false;
+    res.statusCode = 429;
+    res.setHeader("Retry-After", "1");
+    res.end(JSON.stringify({ error: "Too many requests" }));
+    return true;
+  }
+
+  /**
+   * Why `sealingPublicKey` may not receive an enrolled follower's secrets,
+   * or undefined if it is the key the follower registered
+   */
+  private checkSealingKey(followerId: string, sealingPublicKey: string): string | undefined {
+    const registered = this.followerRegistry.get(followerId)?.sealingPublicKey;
+    if (registered === undefined) {
+      return `Follower ${followerId} has no registered sealing key; re-enroll it`;
+    }
+    try {
+      if (normalizeSealingPublicKey(sealingPublicKey) === registered) return undefined;
+    } catch {
+      // Not an X25519 key, so not the registered one
+    }
+    return "sealingPublicKey is not the key registered at enrollment";
   }
 
   /**
@@ -252,10 +562,34 @@ export class LeaderServer {
    */
   private async handleSync(
     req: http.IncomingMessage,
-    res: http.ServerResponse
+    res: http.ServerResponse,
+    caller: Caller
   ): Promise<void> {
     const body = await this.readBody(req);
     const syncRequest = JSON.parse(body) as SyncRequest;
+    if (typeof syncRequest.sealingPublicKey !== "string") {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "sealingPublicKey is required" }));
+      return;
+    }
+    if (caller.followerId !== undefined && syncRequest.followerId !== caller.followerId) {
+      res.statusCode = 403;
+      res.end(
+        JSON.stringify({ error: `Authenticated as follower ${caller.followerId}` })
+      );
+      return;
+    }
+    // Enrolled followers only get secrets sealed to their registered key
+    if (caller.followerId !== undefined) {
+      const error = this.checkSealingKey(caller.followerId, syncRequest.sealingPublicKey);
+      if (error) {
+        res.statusCode = 403;
+        res.end(JSON.stringify({ error }));
+        return;
+      }
+    }
+
+    this.trackStoreVersions();
 
     // Update follower tracking
     this.followers.set(syncRequest.followerId, {
@@ -265,38 +599,83 @@ export class LeaderServer {
       providerConfigsVersion: syncRequest.providerConfigsVersion,
       revocationListVersion: syncRequest.revocationListVersion,
       ipAddress: req.socket.remoteAddress,
+      authMethod: caller.method,
     });
 
+    const providerConfigs = this.broker.getConfigService().exportProviderConfigs();
+    this.trackProviderConfigs(providerConfigs);
+    this.saveState();
+    // Read from disk: `mcp rotate-key` may run in another process
+    const mcpKeyring = this.broker.getMCPSigningKeyring();
+
     // Build sync response
     const response: SyncResponse = {
       signingKeyVersion: this.signingKeyManager.getCurrentVersion(),
-      providerConfigsVersion: this.providerConfigsVersion,
-      mcpDenyPolicyVersion: this.mcpDenyPolicyVersion,
+      leaderEpoch: this.state.epoch,
+      providerConfigsVersion: this.state.providerConfigsVersion,
+      mcpDenyPolicyVersion: this.state.mcpDenyPolicyVersion,
+      scopeTemplatesVersion: this.state.scopeTemplatesVersion,
+      mcpSigningKeyVersion: mcpKeyring.version,
       revocationListDelta: this.revocationList.getRevocationsSince(
         syncRequest.revocationListVersion
       ),
+      revocationEntries: this.revocationList.getRevocationEntriesSince(
+        syncRequest.revocationListVersion
+      ),
       revocationListVersion: this.revocationList.getVersion(),
       nextSyncSeconds: DEFAULT_SYNC_INTERVAL,
       leaderTimestamp: new Date().toISOString(),
     };
 
-    // Include signing key if follower needs it
+    // Rules are few, so behind followers get the full set
+    if (syncRequest.revocationListVersion < this.revocationList.getVersion()) {
+      response.revocationRules = this.revocationList.getRules();
+    }
+
+    // Key material and provider secrets only travel sealed to the follower
+    const secrets: SealedSyncPayload = {};
     if (syncRequest.signingKeyVersion < this.signingKeyManager.getCurrentVersion()) {
-      response.signingKey = this.signingKeyManager.exportCurrentKey();
+      secrets.signingKeys = this.signingKeyManager.exportKeys();
+    }
+    if (syncRequest.providerConfigsVersion < this.state.providerConfigsVersion) {
+      secrets.providerConfigs = providerConfigs;
+    }
+    // Followers sign MCP credentials with the key the leader's JWKS publishes
+    if ((syncRequest.mcpSigningKeyVersion ?? 0) < mcpKeyring.version) {
+      secrets.mcpSigningKeyring = mcpKeyring;
+    }
+    if (Object.keys(secrets).length > 0) {
+      try {
+        response.sealed = sealSecret(JSON.stringify(secrets), syncRequest.sealingPublicKey);
+      } catch (error) {
+        res.statusCode = 400;
+        res.end(
+          JSON.stringify({
+            error: `Invalid sealingPublicKey: ${error instanceof Error ? error.message : error}`,
+          })
+        );
+        return;
+      }
     }
 
-    // Include provider configs if changed
-    if (syncRequest.providerConfigsVersion < this.providerConfigsVersion) {
-      response.providerConfigs = this.broker.showConfig().providers as Record<string, unknown>;
+    // Let followers verify JWS tokens minted here
+    const tokenSigningKey = loadTokenSigningKey(this.broker.getConfigDir());
+    if (tokenSigningKey) {
+      response.tokenSigningPublicKey = tokenSigningKey.publicKey;
     }
 
     // Include MCP deny policy if changed (or if follower never sent a version,
     // which is the case on first sync after upgrading from a pre-G1 follower).
     const followerMcpVersion = syncRequest.mcpDenyPolicyVersion ?? 0;
-    if (followerMcpVersion < this.mcpDenyPolicyVersion) {
+    if (followerMcpVersion < this.state.mcpDenyPolicyVersion) {
       response.mcpDenyPolicy = this.broker.getMCPDenyPolicy();
     }
 
+    // Include scope templates if changed
+    if ((syncRequest.scopeTemplatesVersion ?? 0) < this.state.scopeTemplatesVersion) {
+      response.scopeTemplates = this.broker.getScopeTemplates();
+    }
+
     res.statusCode = 200;
     res.end(JSON.stringify(response));
   }
@@ -307,7 +686,9 @@ export class LeaderServer {
    * up the change.
    */
   bumpMCPDenyPolicyVersion(): void {
-    this.mcpDenyPolicyVersion++;
+    this.state.mcpDenyPolicyVersion++;
+    this.saveState();
+    this.pushConfigUpdate("mcpDenyPolicy", this.state.mcpDenyPolicyVersion);
   }
 
   /**
@@ -318,6 +699,44 @@ export class LeaderServer {
     res.end(JSON.stringify(this.getStatus()));
   }
 
+  /**
+   * Serve the MCP credential verification keys (current and previous)
+   */
+  private async handleJwks(res: http.ServerResponse): Promise<void> {
+    const jwks = await this.broker.getMCPJwks();
+    res.statusCode = 200;
+    res.setHeader("Cache-Control", `public, max-age=${WELL_KNOWN_MAX_AGE}`);
+    res.end(JSON.stringify(jwks));
+  }
+
+  /**
+   * Serve RFC 8414 authorization-server metadata. The leader has no
+   * authorization or token endpoint; the metadata exists so MCP servers
+   * can discover the issuer's JWKS the standard way.
+   */
+  private handleAuthorizationServerMetadata(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    const issuer = (this.config.issuer ?? this.requestOrigin(req)).replace(/\/$/, "");
+    res.statusCode = 200;
+    res.setHeader("Cache-Control", `public, max-age=${WELL_KNOWN_MAX_AGE}`);
+    res.end(
+      JSON.stringify({
+        issuer,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        response_types_supported: [],
+        grant_types_supported: [],
+      })
+    );
+  }
+
+  /** Origin the client used to reach this server */
+  private requestOrigin(req: http.IncomingMessage): string {
+    const scheme = this.server instanceof https.Server ? "https" : "http";
+    return `${scheme}://${req.headers.host ?? "localhost"}`;
+  }
+
   /**
    * Handle key rotation request
    */
@@ -327,6 +746,26 @@ export class LeaderServer {
     res.end(JSON.stringify({ version }));
   }
 
+  /**
+   * Handle MCP signing key rotation. Followers are told to sync for the
+   * new keyring; the old key stays in the JWKS meanwhile.
+   */
+  private handleRotateMCPKey(res: http.ServerResponse): void {
+    const keyring = this.broker.rotateMCPSigningKey();
+    this.pushToFollowers({
+      type: PushMessageType.KEY_ROTATION,
+      timestamp: new Date().toISOString(),
+      data: { key: "mcp", newKeyVersion: keyring.version },
+    });
+    res.statusCode = 200;
+    res.end(
+      JSON.stringify({
+        version: keyring.version,
+        previousExpiresAt: keyring.retired[0].expiresAt,
+      })
+    );
+  }
+
   /**
    * Handle token revocation request
    */
@@ -337,29 +776,272 @@ export class LeaderServer {
   ): Promise<void> {
     const tokenId = pathname.replace("/revoke/", "");
     const body = await this.readBody(req);
-    const { reason } = JSON.parse(body || "{}") as { reason?: string };
+    const { reason, agentId, scopes } = JSON.parse(body || "{}") as {
+      reason?: string;
+      agentId?: string;
+      scopes?: string[];
+    };
 
-    this.revocationList.revoke({
-      tokenId,
-      agentId: tokenId,
-      reason,
-    });
+    if (
+      scopes !== undefined &&
+      (!Array.isArray(scopes) ||
+        scopes.length === 0 ||
+        !scopes.every((scope) => typeof scope === "string"))
+    ) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "scopes must be a non-empty array of strings" }));
+      return;
+    }
 
-    // Push to followers
-    this.pushToFollowers({
-      type: PushMessageType.REVOCATION,
-      timestamp: new Date().toISOString(),
-      data: {
+    this.changeStores(() =>
+      this.revocationList.revoke({
         tokenId,
+        agentId: agentId ?? tokenId,
         reason,
-        revokedAt: new Date().toISOString(),
-      },
-    });
+        scopes,
+      })
+    );
+
+    this.pushRevocation(tokenId, agentId ?? tokenId, reason, scopes);
 
     res.statusCode = 200;
     res.end(JSON.stringify({ revoked: true }));
   }
 
+  /**
+   * Handle listing revocation rules
+   */
+  private handleRevocationRuleList(res: http.ServerResponse): void {
+    res.statusCode = 200;
+    res.end(JSON.stringify({ rules: this.revocationList.getRules() }));
+  }
+
+  /**
+   * Handle adding a revocation rule. Invalid rules are client errors.
+   */
+  private async handleRevocationRuleAdd(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    const request = JSON.parse(body || "{}") as RevocationRuleRequest;
+
+    if (!request.match || typeof request.match !== "object") {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "match is required" }));
+      return;
+    }
+
+    try {
+      const rule = this.addRevocationRule(request);
+      res.statusCode = 200;
+      res.end(JSON.stringify({ rule }));
+    } catch (error) {
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Handle removing a revocation rule
+   */
+  private handleRevocationRuleRemove(
+    res: http.ServerResponse,
+    pathname: string
+  ): void {
+    const ruleId = decodePathSegment(pathname.replace("/revoke-rules/", ""));
+    if (ruleId === undefined) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "Malformed percent-encoding in path" }));
+      return;
+    }
+    const removed = this.removeRevocationRule(ruleId);
+    res.statusCode = removed ? 200 : 404;
+    res.end(
+      JSON.stringify(removed ? { removed: true } : { error: "Rule not found" })
+    );
+  }
+
+  /**
+   * Handle a follower enrolling with a join token
+   */
+  private async handleEnroll(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    const request = JSON.parse(body || "{}") as EnrollRequest;
+
+    if (
+      typeof request.joinToken !== "string" ||
+      typeof request.followerId !== "string" ||
+      typeof request.publicKey !== "string" ||
+      typeof request.sealingPublicKey !== "string"
+    ) {
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          error: "joinToken, followerId, publicKey and sealingPublicKey are required",
+        })
+      );
+      return;
+    }
+
+    try {
+      const credential = await this.followerRegistry.enroll(
+        request.joinToken,
+        request.followerId,
+        request.publicKey,
+        request.sealingPublicKey
+      );
+      const response: EnrollResponse = { followerId: request.followerId, credential };
+      res.statusCode = 200;
+      res.end(JSON.stringify(response));
+    } catch (error) {
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Handle listing enrolled followers
+   */
+  private handleFollowerList(res: http.ServerResponse): void {
+    res.statusCode = 200;
+    res.end(JSON.stringify({ followers: this.followerRegistry.list() }));
+  }
+
+  /**
+   * Handle creating a join token
+   */
+  private async handleJoinTokenCreate(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    const request = JSON.parse(body || "{}") as JoinTokenRequest;
+
+    try {
+      res.statusCode = 200;
+      res.end(JSON.stringify(this.createJoinToken(request)));
+    } catch (error) {
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Handle revoking an enrolled follower
+   */
+  private async handleFollowerRevoke(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    pathname: string
+  ): Promise<void> {
+    const followerId = decodePathSegment(pathname.split("/")[2]);
+    if (followerId === undefined) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "Malformed percent-encoding in path" }));
+      return;
+    }
+    const body = await this.readBody(req);
+    const { reason } = JSON.parse(body || "{}") as { reason?: string };
+
+    const revoked = this.revokeFollower(followerId, reason);
+    res.statusCode = revoked ? 200 : 404;
+    res.end(
+      JSON.stringify(revoked ? { revoked: true } : { error: "Follower not enrolled" })
+    );
+  }
+
+  /**
+   * Handle a follower consuming a maxUses-constrained scope. The leader's
+   * broker ledger is the single source of truth for usage counts.
+   */
+  private async handleUsageConsume(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    const request = JSON.parse(body || "{}") as UsageConsumeRequest;
+
+    if (!request.tokenId || !request.scope || typeof request.maxUses !== "number") {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "tokenId, scope and maxUses are required" }));
+      return;
+    }
+
+    const result = await this.broker
+      .getUsageLedger()
+      .consume(request.tokenId, request.scope, request.maxUses, request.expiresAt);
+    res.statusCode = 200;
+    res.end(JSON.stringify(result));
+  }
+
+  /**
+   * Handle a token refresh. Refusals (invalid token, missing refresh
+   * scope, maximum lifetime reached) are client errors.
+   */
+  private async handleTokenRefresh(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    const request = JSON.parse(body || "{}") as TokenRefreshRequest;
+
+    if (!request.token) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "token is required" }));
+      return;
+    }
+
+    try {
+      const token = this.broker.deserializeToken(request.token);
+      const refreshed = this.broker.refreshToken(token, request.ttlMinutes);
+      const response: TokenRefreshResponse = {
+        token: this.broker.serializeToken(refreshed),
+      };
+      res.statusCode = 200;
+      res.end(JSON.stringify(response));
+    } catch (error) {
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * Handle a usage count lookup
+   */
+  private async handleUsageGet(res: http.ServerResponse, url: URL): Promise<void> {
+    const tokenId = url.searchParams.get("tokenId");
+    const scope = url.searchParams.get("scope");
+    if (!tokenId || !scope) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "tokenId and scope are required" }));
+      return;
+    }
+
+    const uses = await this.broker.getUsageLedger().getUses(tokenId, scope);
+    res.statusCode = 200;
+    res.end(JSON.stringify({ uses }));
+  }
+
   /**
    * Read request body
    */
@@ -372,24 +1054,181 @@ export class LeaderServer {
     });
   }
 
+  /**
+   * Handle a follower subscribing to pushes. The response stays open as
+   * a Server-Sent Events stream until either side closes it.
+   */
+  private handleEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    caller: Caller,
+    url: URL
+  ): void {
+    const client: PushClient = {
+      followerId: caller.followerId ?? url.searchParams.get("followerId") ?? undefined,
+      res,
+    };
+    // Close the connection with the stream, so a reconnect can't land on
+    // a kept-alive socket that outlives stop() or a follower's revocation
+    res.shouldKeepAlive = false;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    });
+    res.write(": connected\n\n");
+    // The follower may have gone while the request was authenticated
+    if (req.socket.destroyed) {
+      res.end();
+      return;
+    }
+    this.pushClients.add(client);
+    res.on("close", () => this.pushClients.delete(client));
+
+    if (!this.pushHeartbeat) {
+      this.pushHeartbeat = setInterval(() => {
+        this.closeRevokedPushClients();
+        for (const { res: stream } of this.pushClients) {
+          stream.write(": ping\n\n");
+        }
+      }, PUSH_HEARTBEAT_INTERVAL_MS);
+      this.pushHeartbeat.unref();
+    }
+  }
+
+  /**
+   * End the push streams of revoked followers (revocations made by the
+   * CLI in another process are noticed at the next heartbeat)
+   */
+  private closeRevokedPushClients(): void {
+    for (const client of this.pushClients) {
+      if (client.followerId && this.followerRegistry.get(client.followerId)?.revokedAt) {
+        client.res.end();
+        this.pushClients.delete(client);
+      }
+    }
+  }
+
   /**
    * Push a message to all connected followers
    */
   private pushToFollowers(message: PushMessage): void {
-    const data = JSON.stringify(message);
-    for (const client of this.wsClients.values()) {
-      try {
-        client.send(data);
-      } catch {
-        // Client disconnected, will be cleaned up
-      }
+    const event = `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+    for (const client of this.pushClients) {
+      client.res.write(event);
     }
   }
 
+  private pushRevocation(
+    tokenId: string,
+    agentId: string,
+    reason?: string,
+    scopes?: string[]
+  ): void {
+    this.pushToFollowers({
+      type: PushMessageType.REVOCATION,
+      timestamp: new Date().toISOString(),
+      data: {
+        tokenId,
+        agentId,
+        reason,
+        ...(scopes && { scopes }),
+        revokedAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  private pushConfigUpdate(kind: ConfigUpdatePush["kind"], newVersion: number): void {
+    this.pushToFollowers({
+      type: PushMessageType.CONFIG_UPDATE,
+      timestamp: new Date().toISOString(),
+      data: { kind, newVersion },
+    });
+  }
+
   /**
    * Increment provider configs version (call after config changes)
    */
   incrementConfigVersion(): void {
-    this.providerConfigsVersion++;
+    this.state.providerConfigsVersion++;
+    this.saveState();
+    this.pushConfigUpdate("providerConfigs", this.state.providerConfigsVersion);
+  }
+
+  /**
+   * Bump the provider configs version when the configs changed since the
+   * last sync, e.g. through `agent-iam init` in another process.
+   */
+  private trackProviderConfigs(configs: ReplicatedProviderConfigs): void {
+    const fingerprint = crypto
+      .createHash("sha256")
+      .update(JSON.stringify(configs))
+      .digest("hex");
+    if (
+      this.state.providerConfigsFingerprint !== undefined &&
+      fingerprint !== this.state.providerConfigsFingerprint
+    ) {
+      this.state.providerConfigsVersion++;
+    }
+    this.state.providerConfigsFingerprint = fingerprint;
+  }
+
+  /**
+   * Record the revocation list and signing key versions. If either went
+   * back below what this epoch has seen (its file was lost or reset),
+   * start a new epoch: followers holding the higher version would
+   * otherwise never receive another change.
+   */
+  private trackStoreVersions(): void {
+    const revocationListVersion = this.revocationList.getVersion();
+    const signingKeyVersion = this.signingKeyManager.getCurrentVersion();
+    if (
+      revocationListVersion === this.state.revocationListVersion &&
+      signingKeyVersion === this.state.signingKeyVersion
+    ) {
+      return;
+    }
+    if (
+      revocationListVersion < (this.state.revocationListVersion ?? 0) ||
+      signingKeyVersion < (this.state.signingKeyVersion ?? 0)
+    ) {
+      this.state.epoch = crypto.randomUUID();
+    }
+    this.state.revocationListVersion = revocationListVersion;
+    this.state.signingKeyVersion = signingKeyVersion;
+    this.saveState();
+  }
+
+  /**
+   * Change the revocation list or signing keys, noticing a reset of
+   * either before the change hides it
+   */
+  private changeStores<T>(change: () => T): T {
+    this.trackStoreVersions();
+    const result = change();
+    this.trackStoreVersions();
+    return result;
+  }
+
+  /**
+   * Persist versions and follower tracking
+   */
+  private saveState(): void {
+    this.state.followers = Array.from(this.followers.values());
+    saveLeaderState(this.configDir, this.state);
+  }
+}
+
+/** Compare secrets in constant time (hashing first hides the length) */
+function tokensEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+/** Decode a path segment, or undefined if its percent-encoding is malformed */
+function decodePathSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
   }
 }
@@ -0,0 +1,58 @@
+/**
+ * Token refresher that defers to the leader
+ *
+ * Agents whose runtime has no local broker able to re-sign their token
+ * (e.g. on a follower host) refresh through the leader's
+ * `POST /token/refresh` endpoint. The leader applies the same checks as
+ * `Broker.refreshToken`: valid token, refresh scope, `maxExpiresAt`.
+ */
+
+import type { AgentToken } from "../types.js";
+import type { TokenRefresher } from "../runtime.js";
+import { serializeToken, deserializeToken } from "../token.js";
+import type { TokenRefreshRequest, TokenRefreshResponse } from "./types.js";
+import { requestLeader, type LeaderAuth, type LeaderTLSOptions } from "./leader-client.js";
+
+/** Default timeout for refresh requests */
+const DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+
+export class HttpTokenRefresher implements TokenRefresher {
+  private leaderUrl: string;
+  private auth: LeaderAuth | undefined;
+  private timeoutMs: number;
+  private tls: LeaderTLSOptions | undefined;
+
+  /**
+   * @param auth - Shared auth token or enrolled follower identity; omit
+   *   when an mTLS client certificate (`tls`) authenticates alone
+   */
+  constructor(
+    leaderUrl: string,
+    auth?: LeaderAuth,
+    timeoutMs?: number,
+    tls?: LeaderTLSOptions
+  ) {
+    this.leaderUrl = leaderUrl;
+    this.auth = auth;
+    this.timeoutMs = timeoutMs ?? DEFAULT_TIMEOUT;
+    this.tls = tls;
+  }
+
+  async refresh(token: AgentToken): Promise<AgentToken> {
+    const request: TokenRefreshRequest = { token: serializeToken(token) };
+
+    const response = await requestLeader(this.leaderUrl, "/token/refresh", {
+      method: "POST",
+      body: request,
+      auth: this.auth,
+      tls: this.tls,
+      timeoutMs: this.timeoutMs,
+    });
+    if (!response.ok) {
+      throw new Error(`Token refresh failed: ${response.status} ${response.body}`);
+    }
+
+    const { token: serialized } = JSON.parse(response.body) as TokenRefreshResponse;
+    return deserializeToken(serialized);
+  }
+}
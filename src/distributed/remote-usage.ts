@@ -0,0 +1,74 @@
+/**
+ * Usage ledger that defers to the leader
+ *
+ * Followers install this on their broker so `maxUses` counts live in one
+ * place: a one-shot grant consumed on one follower is spent everywhere.
+ * When the leader is unreachable, consume() throws and the broker denies.
+ */
+
+import type { UsageLedger, UsageResult } from "../usage.js";
+import type { UsageConsumeRequest } from "./types.js";
+import { requestLeader, type LeaderAuth, type LeaderTLSOptions } from "./leader-client.js";
+
+/** Default timeout for usage requests */
+const DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+
+export class RemoteUsageLedger implements UsageLedger {
+  private leaderUrl: string;
+  private auth: LeaderAuth | undefined;
+  private timeoutMs: number;
+  private tls: LeaderTLSOptions | undefined;
+
+  /**
+   * @param auth - Shared auth token or enrolled follower identity; omit
+   *   when an mTLS client certificate (`tls`) authenticates alone
+   */
+  constructor(
+    leaderUrl: string,
+    auth?: LeaderAuth,
+    timeoutMs?: number,
+    tls?: LeaderTLSOptions
+  ) {
+    this.leaderUrl = leaderUrl;
+    this.auth = auth;
+    this.timeoutMs = timeoutMs ?? DEFAULT_TIMEOUT;
+    this.tls = tls;
+  }
+
+  async consume(
+    tokenId: string,
+    scope: string,
+    maxUses: number,
+    expiresAt?: string
+  ): Promise<UsageResult> {
+    const request: UsageConsumeRequest = { tokenId, scope, maxUses, expiresAt };
+    return this.request<UsageResult>("POST", "/usage/consume", request);
+  }
+
+  async getUses(tokenId: string, scope: string): Promise<number> {
+    const query = new URLSearchParams({ tokenId, scope });
+    const { uses } = await this.request<{ uses: number }>(
+      "GET",
+      `/usage?${query}`
+    );
+    return uses;
+  }
+
+  private async request<T>(
+    method: string,
+    pathAndQuery: string,
+    body?: unknown
+  ): Promise<T> {
+    const response = await requestLeader(this.leaderUrl, pathAndQuery, {
+      method,
+      body,
+      auth: this.auth,
+      tls: this.tls,
+      timeoutMs: this.timeoutMs,
+    });
+    if (!response.ok) {
+      throw new Error(`Usage request failed: ${response.status} ${response.body}`);
+    }
+    return JSON.parse(response.body) as T;
+  }
+}
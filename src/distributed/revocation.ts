@@ -3,21 +3,39 @@
  *
  * Supports:
  * - Token revocation with optional expiry
+ * - Scope-level revocation: withdraw scope patterns from a token (and its
+ *   descendants) while its other scopes stay valid
+ * - Revocation rules: revoke every token matching a principal, persistent
+ *   identity, tenant, organization, system, delegation subtree, consent
+ *   grant, or every elevated token
  * - Version-based delta sync between leader and followers
- * - Persistence to disk
+ * - Persistence to disk, shared with other processes (e.g. `agent-iam
+ *   revoke` next to a running leader): reads reload the file when it
+ *   changed, and every change is a read-modify-write under a lock file
  */
 
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
-import type { RevokedToken } from "./types.js";
+import type { AgentToken, RevocationChecker } from "../types.js";
+import { getAncestorIds, getLineageIdentities, getRevocationId } from "../token.js";
+import type { RevocationRule, RevocationRuleMatch, RevokedToken } from "./types.js";
 
 /** Revocation list storage file */
 const REVOCATION_FILE = "revocations.json";
 
+/** How long to wait for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+/** Locks older than this are assumed to belong to a crashed process */
+const STALE_LOCK_MS = 30 * 1000;
+const LOCK_RETRY_MS = 10;
+
 /** Persisted revocation list format */
 interface PersistedRevocations {
   version: number;
-  revocations: RevokedToken[];
+  /** `addedAtVersion` is missing from files written by older versions */
+  revocations: Array<RevokedToken & { addedAtVersion?: number }>;
+  rules?: RevocationRule[];
 }
 
 /** Revocation entry with version tracking */
@@ -26,15 +44,20 @@ interface VersionedRevocation extends RevokedToken {
   addedAtVersion: number;
 }
 
-export class RevocationList {
+export class RevocationList implements RevocationChecker {
   private configDir: string;
   private revocationsPath: string;
+  private lockPath: string;
   private revocations: Map<string, VersionedRevocation> = new Map();
+  private rules: Map<string, RevocationRule> = new Map();
   private version: number = 0;
+  /** Inode and mtime of the revocation file as of our last load or persist */
+  private loadedStamp: string | null = null;
 
   constructor(configDir: string) {
     this.configDir = configDir;
     this.revocationsPath = path.join(configDir, REVOCATION_FILE);
+    this.lockPath = `${this.revocationsPath}.lock`;
     this.load();
   }
 
@@ -42,106 +65,108 @@ export class RevocationList {
    * Get the current revocation list version
    */
   getVersion(): number {
+    this.reloadIfChanged();
     return this.version;
   }
 
   /**
-   * Check if a token is revoked
+   * Check if a token is revoked as a whole. Scope-level revocations leave
+   * the token valid; see getRevokedScopes().
    */
   isRevoked(tokenId: string): boolean {
-    const revocation = this.revocations.get(tokenId);
-    if (!revocation) {
-      return false;
-    }
-
-    // Check if revocation has expired
-    if (revocation.expiresAt) {
-      const expiresAt = new Date(revocation.expiresAt);
-      if (expiresAt < new Date()) {
-        // Revocation expired, remove it
-        this.revocations.delete(tokenId);
-        this.persist();
-        return false;
-      }
-    }
+    const revocation = this.getActiveRevocation(tokenId);
+    return revocation !== undefined && !revocation.scopes;
+  }
 
-    return true;
+  /**
+   * Get the scope patterns withdrawn from a token by scope-level
+   * revocations. Empty when the token has none (or is revoked as a whole).
+   */
+  getRevokedScopes(tokenId: string): string[] {
+    return this.getActiveRevocation(tokenId)?.scopes ?? [];
   }
 
   /**
-   * Revoke a token
+   * Revoke a token, or with `scopes`, only those scope patterns of it.
+   * Scope-level revocations of the same token accumulate; revoking the
+   * whole token replaces them.
    */
   revoke(params: {
     tokenId: string;
     agentId: string;
     reason?: string;
     expiresAt?: string;
+    scopes?: string[];
   }): void {
-    this.version++;
+    if (params.scopes?.length === 0) {
+      throw new Error("Scope-level revocation requires at least one scope");
+    }
 
-    const revocation: VersionedRevocation = {
-      tokenId: params.tokenId,
-      agentId: params.agentId,
-      revokedAt: new Date().toISOString(),
-      reason: params.reason,
-      expiresAt: params.expiresAt,
-      addedAtVersion: this.version,
-    };
+    this.update(() => {
+      let scopes = params.scopes;
+      if (scopes) {
+        const existing = this.revocations.get(params.tokenId);
+        const active = existing && !isExpired(existing) ? existing : undefined;
+        if (active && !active.scopes) {
+          // Already revoked as a whole
+          return false;
+        }
+        if (active?.scopes) {
+          scopes = [...new Set([...active.scopes, ...scopes])];
+        }
+      }
 
-    this.revocations.set(params.tokenId, revocation);
-    this.persist();
+      this.version++;
+      this.revocations.set(params.tokenId, {
+        tokenId: params.tokenId,
+        agentId: params.agentId,
+        revokedAt: new Date().toISOString(),
+        reason: params.reason,
+        expiresAt: params.expiresAt,
+        ...(scopes && { scopes }),
+        addedAtVersion: this.version,
+      });
+    });
   }
 
   /**
    * Unrevoke a token (restore access)
    */
   unrevoke(tokenId: string): boolean {
-    if (!this.revocations.has(tokenId)) {
-      return false;
-    }
-
-    this.version++;
-    this.revocations.delete(tokenId);
-    this.persist();
-    return true;
+    let removed = false;
+    this.update(() => {
+      if (!this.revocations.has(tokenId)) {
+        return false;
+      }
+      this.version++;
+      this.revocations.delete(tokenId);
+      removed = true;
+    });
+    return removed;
   }
 
   /**
    * Get revocation details for a token
    */
   getRevocation(tokenId: string): RevokedToken | undefined {
+    this.reloadIfChanged();
     const revocation = this.revocations.get(tokenId);
-    if (!revocation) {
-      return undefined;
-    }
-
-    // Return without internal version tracking
-    return {
-      tokenId: revocation.tokenId,
-      agentId: revocation.agentId,
-      revokedAt: revocation.revokedAt,
-      reason: revocation.reason,
-      expiresAt: revocation.expiresAt,
-    };
+    return revocation ? toRevokedToken(revocation) : undefined;
   }
 
   /**
    * Get all revocations (for full sync)
    */
   getAllRevocations(): RevokedToken[] {
-    return Array.from(this.revocations.values()).map((r) => ({
-      tokenId: r.tokenId,
-      agentId: r.agentId,
-      revokedAt: r.revokedAt,
-      reason: r.reason,
-      expiresAt: r.expiresAt,
-    }));
+    this.reloadIfChanged();
+    return Array.from(this.revocations.values()).map(toRevokedToken);
   }
 
   /**
    * Get revocations added since a specific version (for delta sync)
    */
   getRevocationsSince(sinceVersion: number): string[] {
+    this.reloadIfChanged();
     const delta: string[] = [];
 
     for (const [tokenId, revocation] of this.revocations) {
@@ -153,48 +178,185 @@ export class RevocationList {
     return delta;
   }
 
+  /**
+   * Get full revocation entries added since a specific version. Unlike
+   * getRevocationsSince(), this carries scope-level revocations.
+   */
+  getRevocationEntriesSince(sinceVersion: number): RevokedToken[] {
+    this.reloadIfChanged();
+    return Array.from(this.revocations.values())
+      .filter((revocation) => revocation.addedAtVersion > sinceVersion)
+      .map(toRevokedToken);
+  }
+
   /**
    * Add revocations from sync (follower receiving from leader)
    */
   addFromSync(revocations: RevokedToken[], newVersion: number): void {
-    for (const revocation of revocations) {
+    this.update(() => {
+      for (const revocation of revocations) {
+        this.revocations.set(revocation.tokenId, {
+          ...revocation,
+          addedAtVersion: newVersion,
+        });
+      }
+      this.version = newVersion;
+    });
+  }
+
+  /**
+   * Replace every revocation and rule with the leader's full set (after
+   * the leader's state epoch changed)
+   */
+  replaceFromSync(
+    revocations: RevokedToken[],
+    rules: RevocationRule[],
+    newVersion: number
+  ): void {
+    this.update(() => {
+      this.revocations = new Map(
+        revocations.map((revocation) => [
+          revocation.tokenId,
+          { ...revocation, addedAtVersion: newVersion },
+        ])
+      );
+      this.rules = new Map(rules.map((rule) => [rule.ruleId, rule]));
+      this.version = newVersion;
+    });
+  }
+
+  /**
+   * Apply a revocation pushed by the leader. The list version is left
+   * alone, so the next sync still fetches everything since the last one.
+   */
+  addFromPush(revocation: RevokedToken): void {
+    this.update(() => {
+      const existing = this.revocations.get(revocation.tokenId);
+      if (existing && !existing.scopes) {
+        // Already revoked as a whole
+        return false;
+      }
+      // Scope-level revocations accumulate, as on the leader
+      const scopes =
+        revocation.scopes && existing?.scopes
+          ? [...new Set([...existing.scopes, ...revocation.scopes])]
+          : revocation.scopes;
+
       this.revocations.set(revocation.tokenId, {
         ...revocation,
-        addedAtVersion: newVersion,
+        ...(scopes && { scopes }),
+        addedAtVersion: this.version,
       });
-    }
-
-    this.version = newVersion;
-    this.persist();
+    });
   }
 
   /**
    * Add revocation IDs from delta sync
-   * Note: This only marks tokens as revoked, without full details
+   * Note: This only marks tokens as revoked as a whole, without full
+   * details (so scope-level revocations need addFromSync)
    */
   addDeltaFromSync(tokenIds: string[], newVersion: number): void {
     const now = new Date().toISOString();
 
-    for (const tokenId of tokenIds) {
-      if (!this.revocations.has(tokenId)) {
-        this.revocations.set(tokenId, {
-          tokenId,
-          agentId: "unknown", // Will be unknown from delta sync
-          revokedAt: now,
-          reason: "Synced from leader",
-          addedAtVersion: newVersion,
-        });
+    this.update(() => {
+      for (const tokenId of tokenIds) {
+        if (!this.revocations.has(tokenId)) {
+          this.revocations.set(tokenId, {
+            tokenId,
+            agentId: "unknown", // Will be unknown from delta sync
+            revokedAt: now,
+            reason: "Synced from leader",
+            addedAtVersion: newVersion,
+          });
+        }
       }
+      this.version = newVersion;
+    });
+  }
+
+  /**
+   * Add a rule revoking every token that matches `match`
+   */
+  addRule(params: {
+    match: RevocationRuleMatch;
+    reason?: string;
+    issuedBefore?: string;
+    expiresAt?: string;
+  }): RevocationRule {
+    const match = Object.fromEntries(
+      Object.entries(params.match).filter(
+        ([, value]) => value !== undefined && value !== false
+      )
+    ) as RevocationRuleMatch;
+    if (Object.keys(match).length === 0) {
+      throw new Error("Revocation rule must match on at least one field");
     }
 
-    this.version = newVersion;
-    this.persist();
+    const rule: RevocationRule = {
+      ruleId: `rule_${crypto.randomUUID()}`,
+      match,
+      createdAt: new Date().toISOString(),
+      reason: params.reason,
+      issuedBefore: params.issuedBefore,
+      expiresAt: params.expiresAt,
+    };
+
+    this.update(() => {
+      this.version++;
+      this.rules.set(rule.ruleId, rule);
+    });
+    return rule;
+  }
+
+  /**
+   * Remove a revocation rule (matching tokens become valid again)
+   */
+  removeRule(ruleId: string): boolean {
+    let removed = false;
+    this.update(() => {
+      if (!this.rules.has(ruleId)) {
+        return false;
+      }
+      this.version++;
+      this.rules.delete(ruleId);
+      removed = true;
+    });
+    return removed;
+  }
+
+  /**
+   * Get all unexpired revocation rules
+   */
+  getRules(): RevocationRule[] {
+    this.reloadIfChanged();
+    const now = new Date();
+    return Array.from(this.rules.values()).filter(
+      (rule) => !rule.expiresAt || new Date(rule.expiresAt) >= now
+    );
+  }
+
+  /**
+   * ID of the first unexpired rule matching the token, if any
+   */
+  matchRevocationRule(token: AgentToken): string | undefined {
+    return this.getRules().find((rule) => ruleMatches(rule, token))?.ruleId;
+  }
+
+  /**
+   * Replace all rules with the leader's set (follower receiving from leader)
+   */
+  setRulesFromSync(rules: RevocationRule[], newVersion: number): void {
+    this.update(() => {
+      this.rules = new Map(rules.map((rule) => [rule.ruleId, rule]));
+      this.version = newVersion;
+    });
   }
 
   /**
    * Get total count of revoked tokens
    */
   count(): number {
+    this.reloadIfChanged();
     return this.revocations.size;
   }
 
@@ -202,24 +364,42 @@ export class RevocationList {
    * Prune expired revocations
    */
   prune(): number {
-    const now = new Date();
     let pruned = 0;
-
-    for (const [tokenId, revocation] of this.revocations) {
-      if (revocation.expiresAt) {
-        const expiresAt = new Date(revocation.expiresAt);
-        if (expiresAt < now) {
+    this.update(() => {
+      for (const [tokenId, revocation] of this.revocations) {
+        if (isExpired(revocation)) {
           this.revocations.delete(tokenId);
           pruned++;
         }
       }
+      return pruned > 0;
+    });
+    return pruned;
+  }
+
+  /**
+   * Get the entry for a token unless it has expired (expired entries are
+   * removed)
+   */
+  private getActiveRevocation(tokenId: string): VersionedRevocation | undefined {
+    this.reloadIfChanged();
+    const revocation = this.revocations.get(tokenId);
+    if (!revocation) {
+      return undefined;
     }
 
-    if (pruned > 0) {
-      this.persist();
+    if (isExpired(revocation)) {
+      // Revocation expired, remove it (unless it was renewed meanwhile)
+      this.update(() => {
+        const current = this.revocations.get(tokenId);
+        if (!current || !isExpired(current)) return false;
+        this.revocations.delete(tokenId);
+      });
+      const current = this.revocations.get(tokenId);
+      return current && !isExpired(current) ? current : undefined;
     }
 
-    return pruned;
+    return revocation;
   }
 
   /**
@@ -227,44 +407,129 @@ export class RevocationList {
    */
   private load(): void {
     if (!fs.existsSync(this.revocationsPath)) {
+      this.revocations.clear();
+      this.rules.clear();
+      this.version = 0;
+      this.loadedStamp = null;
       return;
     }
 
     try {
       const content = fs.readFileSync(this.revocationsPath, "utf-8");
       const persisted = JSON.parse(content) as PersistedRevocations;
+      this.loadedStamp = this.fileStamp();
 
+      this.revocations.clear();
+      this.rules.clear();
       this.version = persisted.version;
 
       for (const revocation of persisted.revocations) {
         this.revocations.set(revocation.tokenId, {
           ...revocation,
-          addedAtVersion: this.version, // Assume all loaded at current version
+          addedAtVersion: revocation.addedAtVersion ?? this.version,
         });
       }
+
+      for (const rule of persisted.rules ?? []) {
+        this.rules.set(rule.ruleId, rule);
+      }
     } catch {
       // Ignore errors, start fresh
     }
   }
 
   /**
-   * Persist revocations to disk
+   * Reload from disk if another process (e.g. `agent-iam revoke`) has
+   * written the file since we last loaded or persisted it
    */
-  private persist(): void {
+  private reloadIfChanged(): void {
+    const stamp = this.fileStamp();
+    if (stamp !== null && stamp !== this.loadedStamp) {
+      this.load();
+    }
+  }
+
+  /** Identifies a version of the file; each persist renames a new one in */
+  private fileStamp(): string | null {
+    try {
+      const stat = fs.statSync(this.revocationsPath);
+      return `${stat.ino}:${stat.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Change the list: reload it, apply `change` and persist (unless it
+   * returns false), all under the lock file so a change made by another
+   * process in between is never overwritten
+   */
+  private update(change: () => boolean | void): void {
+    this.acquireLock();
+    try {
+      this.load();
+      if (change() !== false) {
+        this.persist();
+      }
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Take the lock file, waiting for another process to release it.
+   * Synchronous like the rest of the list; changes hold it briefly.
+   */
+  private acquireLock(): void {
     if (!fs.existsSync(this.configDir)) {
       fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
     }
 
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, "wx", 0o600));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      try {
+        const { mtimeMs } = fs.statSync(this.lockPath);
+        if (Date.now() - mtimeMs > STALE_LOCK_MS) {
+          fs.rmSync(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock released between open and stat; retry immediately
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for revocation list lock at ${this.lockPath}`);
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Persist revocations to disk (written to a temp file and renamed, so
+   * other processes never read a partial file)
+   */
+  private persist(): void {
     const persisted: PersistedRevocations = {
       version: this.version,
-      revocations: this.getAllRevocations(),
+      revocations: Array.from(this.revocations.values()).map((revocation) => ({
+        ...toRevokedToken(revocation),
+        addedAtVersion: revocation.addedAtVersion,
+      })),
+      rules: Array.from(this.rules.values()),
     };
 
-    fs.writeFileSync(
-      this.revocationsPath,
-      JSON.stringify(persisted, null, 2),
-      { mode: 0o600 }
-    );
+    const tmp = `${this.revocationsPath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(persisted, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.revocationsPath);
+    this.loadedStamp = this.fileStamp();
   }
 
   /**
@@ -272,9 +537,73 @@ export class RevocationList {
    */
   clear(): void {
     this.revocations.clear();
+    this.rules.clear();
     this.version = 0;
+    this.loadedStamp = null;
     if (fs.existsSync(this.revocationsPath)) {
       fs.unlinkSync(this.revocationsPath);
     }
   }
 }
+
+function isExpired(revocation: RevokedToken): boolean {
+  return revocation.expiresAt !== undefined && new Date(revocation.expiresAt) < new Date();
+}
+
+/** Strip internal version tracking from an entry */
+function toRevokedToken(revocation: VersionedRevocation): RevokedToken {
+  return {
+    tokenId: revocation.tokenId,
+    agentId: revocation.agentId,
+    revokedAt: revocation.revokedAt,
+    reason: revocation.reason,
+    expiresAt: revocation.expiresAt,
+    ...(revocation.scopes && { scopes: revocation.scopes }),
+  };
+}
+
+/** Whether a token satisfies every field of a rule's match */
+function ruleMatches(rule: RevocationRule, token: AgentToken): boolean {
+  if (
+    rule.issuedBefore &&
+    token.issuedAt &&
+    new Date(token.issuedAt) > new Date(rule.issuedBefore)
+  ) {
+    return false;
+  }
+
+  const { match } = rule;
+  const identityFields = [
+    "principalId",
+    "tenantId",
+    "organizationId",
+    "systemId",
+    "persistentId",
+  ] as const;
+  // Identity claims match anywhere in the delegation chain, so descendants
+  // minted without (or with another) identity are still covered
+  if (
+    identityFields.some((field) => match[field] !== undefined) &&
+    !getLineageIdentities(token).some((claims) =>
+      identityFields.every(
+        (field) => match[field] === undefined || claims[field] === match[field]
+      )
+    )
+  ) {
+    return false;
+  }
+  if (match.elevated && !token.elevation) {
+    return false;
+  }
+  if (match.consentGrantId !== undefined && token.consentGrantId !== match.consentGrantId) {
+    return false;
+  }
+  if (
+    match.underTokenId !== undefined &&
+    getRevocationId(token) !== match.underTokenId &&
+    !getAncestorIds(token).includes(match.underTokenId)
+  ) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,160 @@
+/**
+ * Sealing secrets for one follower
+ *
+ * Sync responses carry signing keys and provider secrets. Each follower
+ * has an X25519 keypair and sends the public key with every sync request;
+ * the leader seals that material to it (ECIES: ephemeral X25519 →
+ * HKDF-SHA256 → AES-256-GCM), so a TLS-terminating proxy or request log
+ * that only sees the response can't read it.
+ *
+ * Enrolled followers register the key at enrollment, and the leader only
+ * seals to that key, so a rewritten request body gets nothing. Followers
+ * on the shared auth token can't be told apart: the leader seals to
+ * whatever key the request names, so anyone holding that token (or able
+ * to rewrite its requests) can obtain every secret. Use enrollment where
+ * that matters.
+ *
+ * Storage layout:
+ *   {configDir}/follower-sealing.key   PEM PKCS8 X25519 private key, mode 0o600
+ *   {configDir}/follower-sealing.pub   PEM SPKI public key
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const PRIVATE_KEY_FILE = "follower-sealing.key";
+const PUBLIC_KEY_FILE = "follower-sealing.pub";
+
+/** Algorithm identifier carried in every sealed value */
+export const SEAL_ALGORITHM = "X25519-HKDF-SHA256-A256GCM";
+
+/** HKDF info; binds derived keys to this use */
+const HKDF_INFO = Buffer.from("agent-iam sync seal v1");
+
+/** A follower's X25519 sealing keypair */
+export interface SealingKey {
+  /** PEM PKCS8 private key */
+  privateKey: string;
+  /** PEM SPKI public key (sent to the leader) */
+  publicKey: string;
+}
+
+/** A value sealed to one X25519 public key (binary fields base64url) */
+export interface SealedSecret {
+  alg: typeof SEAL_ALGORITHM;
+  /** Ephemeral sender public key, DER SPKI */
+  epk: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * Load the follower's sealing keypair, generating one on first call.
+ */
+export function getOrCreateSealingKey(configDir: string): SealingKey {
+  const privPath = path.join(configDir, PRIVATE_KEY_FILE);
+  const pubPath = path.join(configDir, PUBLIC_KEY_FILE);
+  if (fs.existsSync(privPath) && fs.existsSync(pubPath)) {
+    return {
+      privateKey: fs.readFileSync(privPath, "utf8"),
+      publicKey: fs.readFileSync(pubPath, "utf8"),
+    };
+  }
+
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  }
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("x25519", {
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+
+  // Unlink first: the mode only applies when the file is created
+  if (fs.existsSync(privPath)) fs.unlinkSync(privPath);
+  if (fs.existsSync(pubPath)) fs.unlinkSync(pubPath);
+  fs.writeFileSync(privPath, privateKey, { mode: 0o600 });
+  fs.chmodSync(privPath, 0o600);
+  fs.writeFileSync(pubPath, publicKey);
+
+  return { privateKey, publicKey };
+}
+
+/**
+ * Canonical PEM SPKI form of an X25519 public key, for comparing keys.
+ * Throws if the key is not an X25519 key.
+ */
+export function normalizeSealingPublicKey(publicKey: string): string {
+  const key = crypto.createPublicKey(publicKey);
+  if (key.asymmetricKeyType !== "x25519") {
+    throw new Error("Sealing key must be an X25519 public key");
+  }
+  return key.export({ type: "spki", format: "pem" }).toString();
+}
+
+/**
+ * Seal `plaintext` to an X25519 public key (PEM SPKI). Throws if the key
+ * is not an X25519 key.
+ */
+export function sealSecret(plaintext: string | Buffer, recipientPublicKey: string): SealedSecret {
+  const recipient = crypto.createPublicKey(recipientPublicKey);
+  if (recipient.asymmetricKeyType !== "x25519") {
+    throw new Error("Sealing key must be an X25519 public key");
+  }
+  const ephemeral = crypto.generateKeyPairSync("x25519");
+  const epk = ephemeral.publicKey.export({ type: "spki", format: "der" });
+  const key = deriveKey(
+    crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient }),
+    epk
+  );
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    alg: SEAL_ALGORITHM,
+    epk: epk.toString("base64url"),
+    iv: iv.toString("base64url"),
+    ciphertext: ciphertext.toString("base64url"),
+    tag: cipher.getAuthTag().toString("base64url"),
+  };
+}
+
+/**
+ * Open a sealed value with the recipient's private key (PEM PKCS8).
+ * Throws if it was sealed to another key or has been tampered with.
+ */
+export function openSealedSecret(sealed: SealedSecret, privateKey: string): Buffer {
+  if (sealed.alg !== SEAL_ALGORITHM) {
+    throw new Error(`Unsupported sealing algorithm: ${sealed.alg}`);
+  }
+  const epk = Buffer.from(sealed.epk, "base64url");
+  const key = deriveKey(
+    crypto.diffieHellman({
+      privateKey: crypto.createPrivateKey(privateKey),
+      publicKey: crypto.createPublicKey({ key: epk, format: "der", type: "spki" }),
+    }),
+    epk
+  );
+
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(sealed.iv, "base64url")
+  );
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64url"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(sealed.ciphertext, "base64url")),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error("Sealed secret could not be opened (wrong key or tampered)");
+  }
+}
+
+/** AES key from the shared secret; the ephemeral key salts it */
+function deriveKey(sharedSecret: Buffer, epk: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", sharedSecret, epk, HKDF_INFO, 32));
+}
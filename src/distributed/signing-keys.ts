@@ -10,17 +10,22 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
-import type { VersionedKey } from "./types.js";
+import type { SigningKeyProvider } from "../types.js";
+import type { VersionedKey, ExportedSigningKey } from "./types.js";
 
 /** Signing keys storage file */
 const KEYS_FILE = "signing_keys.json";
 
+/** How long a rotated-out key keeps verifying tokens it signed */
+export const DEFAULT_KEY_GRACE_PERIOD_DAYS = 30;
+
 /** Persisted key format */
 interface PersistedKey {
   version: number;
   key: string; // base64-encoded
   createdAt: string;
   deprecatedAt?: string;
+  expiresAt?: string;
 }
 
 interface PersistedKeys {
@@ -28,7 +33,7 @@ interface PersistedKeys {
   keys: PersistedKey[];
 }
 
-export class SigningKeyManager {
+export class SigningKeyManager implements SigningKeyProvider {
   private configDir: string;
   private keysPath: string;
   private keys: Map<number, VersionedKey> = new Map();
@@ -44,7 +49,12 @@ export class SigningKeyManager {
    * Get the current signing key and version
    */
   getCurrentKey(): { key: Buffer; version: number } {
-    const versionedKey = this.keys.get(this.currentVersion);
+    let versionedKey = this.keys.get(this.currentVersion);
+    if (!versionedKey) {
+      // Another process may have created keys since we loaded
+      this.load();
+      versionedKey = this.keys.get(this.currentVersion);
+    }
     if (!versionedKey) {
       // No keys exist, create initial key
       return this.rotate();
@@ -66,6 +76,26 @@ export class SigningKeyManager {
     return this.keys.get(version)?.key;
   }
 
+  /**
+   * Get a key for verifying a token signed with `version`. Returns
+   * undefined once the key's grace period has passed. Unknown versions
+   * trigger a reload from disk, so tokens signed after a rotation in
+   * another process (e.g. `agent-iam rotate-key`) still verify here.
+   */
+  getVerificationKey(version: number): Buffer | undefined {
+    if (!this.keys.has(version)) {
+      this.load();
+    }
+    const versionedKey = this.keys.get(version);
+    if (!versionedKey) {
+      return undefined;
+    }
+    if (versionedKey.expiresAt && new Date(versionedKey.expiresAt) < new Date()) {
+      return undefined;
+    }
+    return versionedKey.key;
+  }
+
   /**
    * Check if a key version exists
    */
@@ -98,17 +128,24 @@ export class SigningKeyManager {
   /**
    * Rotate to a new signing key (leader only)
    *
-   * Old keys are kept for verification of existing tokens.
+   * Old keys are kept for verification of existing tokens until
+   * `gracePeriodDays` after the rotation.
    */
-  rotate(): { key: Buffer; version: number } {
+  rotate(
+    gracePeriodDays: number = DEFAULT_KEY_GRACE_PERIOD_DAYS
+  ): { key: Buffer; version: number } {
     const newKey = crypto.randomBytes(32);
     const newVersion = this.currentVersion + 1;
-    const now = new Date().toISOString();
+    const rotatedAt = new Date();
+    const now = rotatedAt.toISOString();
 
     // Mark old key as deprecated
     const oldKey = this.keys.get(this.currentVersion);
     if (oldKey) {
       oldKey.deprecatedAt = now;
+      oldKey.expiresAt = new Date(
+        rotatedAt.getTime() + gracePeriodDays * 24 * 60 * 60 * 1000
+      ).toISOString();
     }
 
     // Add new key
@@ -183,6 +220,44 @@ export class SigningKeyManager {
     this.addKey(key, version);
   }
 
+  /**
+   * Export every key with its lifecycle metadata (for sync response)
+   */
+  exportKeys(): ExportedSigningKey[] {
+    return this.getAllKeys().map((vk) => ({
+      version: vk.version,
+      key: vk.key.toString("base64"),
+      createdAt: vk.createdAt,
+      deprecatedAt: vk.deprecatedAt,
+      expiresAt: vk.expiresAt,
+    }));
+  }
+
+  /**
+   * Import keys from a sync response. Known versions take the leader's
+   * deprecation and expiry times. With `replace`, keys the leader did not
+   * send are dropped.
+   */
+  importKeys(exported: ExportedSigningKey[], options: { replace?: boolean } = {}): void {
+    if (options.replace) {
+      this.keys.clear();
+      this.currentVersion = 0;
+    }
+    for (const ek of exported) {
+      this.keys.set(ek.version, {
+        version: ek.version,
+        key: Buffer.from(ek.key, "base64"),
+        createdAt: ek.createdAt,
+        deprecatedAt: ek.deprecatedAt,
+        expiresAt: ek.expiresAt,
+      });
+      if (ek.version > this.currentVersion) {
+        this.currentVersion = ek.version;
+      }
+    }
+    this.persist();
+  }
+
   /**
    * Load keys from disk
    */
@@ -203,6 +278,7 @@ export class SigningKeyManager {
           key: Buffer.from(pk.key, "base64"),
           createdAt: pk.createdAt,
           deprecatedAt: pk.deprecatedAt,
+          expiresAt: pk.expiresAt,
         });
       }
     } catch {
@@ -225,6 +301,7 @@ export class SigningKeyManager {
         key: vk.key.toString("base64"),
         createdAt: vk.createdAt,
         deprecatedAt: vk.deprecatedAt,
+        expiresAt: vk.expiresAt,
       })),
     };
 
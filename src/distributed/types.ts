@@ -2,6 +2,11 @@
  * Types for distributed broker mode (leader/follower)
  */
 
+import type { ReplicatedProviderConfigs, ScopeTemplate } from "../types.js";
+import type { MCPSigningKeyring } from "../mcp/signing-key.js";
+import type { MCPAuditSink } from "../mcp/audit.js";
+import type { SealedSecret } from "./sealing.js";
+
 /** Broker operational mode */
 export enum BrokerMode {
   /** Single-machine, no sync */
@@ -32,6 +37,11 @@ export enum FollowerState {
 export interface SyncRequest {
   /** Unique identifier for this follower */
   followerId: string;
+  /**
+   * Follower's X25519 public key (PEM SPKI); secrets are sealed to it.
+   * Enrolled followers must send the key they registered.
+   */
+  sealingPublicKey: string;
   /** Current signing key version known to follower */
   signingKeyVersion: number;
   /** Current provider configs version */
@@ -40,26 +50,54 @@ export interface SyncRequest {
   revocationListVersion: number;
   /** Current MCP deny policy version known to follower */
   mcpDenyPolicyVersion?: number;
+  /** Current scope templates version known to follower */
+  scopeTemplatesVersion?: number;
+  /** MCP signing keyring version known to follower */
+  mcpSigningKeyVersion?: number;
   /** List of known root token IDs (for delta sync) */
   knownRootTokens?: string[];
 }
 
 /** Sync response from leader to follower */
 export interface SyncResponse {
-  /** New signing key (base64-encoded), only if changed */
-  signingKey?: string;
+  /**
+   * Identifies the leader's persisted state. A different epoch than last
+   * time means the leader lost its state; the follower resyncs in full.
+   */
+  leaderEpoch: string;
+  /**
+   * Key material and provider configs the follower is behind on, as a
+   * `SealedSyncPayload` sealed to the request's `sealingPublicKey`
+   */
+  sealed?: SealedSecret;
   /** Current signing key version */
   signingKeyVersion: number;
-  /** Provider configurations, only if changed */
-  providerConfigs?: Record<string, unknown>;
+  /** Leader's JWS token signing public key (PEM SPKI), if it has one */
+  tokenSigningPublicKey?: string;
   /** Current provider configs version */
   providerConfigsVersion: number;
   /** MCP deny policy patterns, only if changed */
   mcpDenyPolicy?: string[];
   /** Current MCP deny policy version */
   mcpDenyPolicyVersion?: number;
+  /** Scope templates, only if changed */
+  scopeTemplates?: Record<string, ScopeTemplate>;
+  /** Current scope templates version */
+  scopeTemplatesVersion?: number;
+  /** Current MCP signing keyring version */
+  mcpSigningKeyVersion?: number;
   /** Delta of newly revoked token IDs since follower's version */
   revocationListDelta: string[];
+  /**
+   * Full entries for the same delta, including scope-level revocations.
+   * Followers prefer these over `revocationListDelta` when present.
+   */
+  revocationEntries?: RevokedToken[];
+  /**
+   * Every active revocation rule, only if the follower's revocation list is
+   * behind. Replaces (not merges) the follower's rules so removals propagate.
+   */
+  revocationRules?: RevocationRule[];
   /** Current revocation list version */
   revocationListVersion: number;
   /** Recommended seconds until next sync */
@@ -68,40 +106,124 @@ export interface SyncResponse {
   leaderTimestamp: string;
 }
 
-/** Push message types for WebSocket */
+/** Plaintext of `SyncResponse.sealed`; each field only if changed */
+export interface SealedSyncPayload {
+  /**
+   * Every signing key the leader holds. Lets followers that missed
+   * rotations verify tokens signed with any non-expired version.
+   */
+  signingKeys?: ExportedSigningKey[];
+  /** Provider configurations, secrets included */
+  providerConfigs?: ReplicatedProviderConfigs;
+  /** MCP credential signing keys, private key included */
+  mcpSigningKeyring?: MCPSigningKeyring;
+}
+
+/** Token refresh request to the leader (`POST /token/refresh`) */
+export interface TokenRefreshRequest {
+  /** Serialized token to refresh (must hold system:token:refresh) */
+  token: string;
+  /** New TTL in minutes (default: the token's original TTL) */
+  ttlMinutes?: number;
+}
+
+/** Token refresh response from the leader */
+export interface TokenRefreshResponse {
+  /** Serialized refreshed token */
+  token: string;
+}
+
+/** Revocation rule creation request (`POST /revoke-rules`) */
+export interface RevocationRuleRequest {
+  match: RevocationRuleMatch;
+  reason?: string;
+  issuedBefore?: string;
+  expiresAt?: string;
+}
+
+/** Join token creation request (`POST /followers/join-tokens`) */
+export interface JoinTokenRequest {
+  /** Only this follower may enroll with the token */
+  followerId?: string;
+  /** Token lifetime in seconds (default: 1 hour) */
+  ttlSeconds?: number;
+}
+
+/** A one-time join token; only its hash is stored on the leader */
+export interface JoinTokenResponse {
+  joinToken: string;
+  expiresAt: string;
+  followerId?: string;
+}
+
+/** Enrollment request from a new follower (`POST /enroll`) */
+export interface EnrollRequest {
+  joinToken: string;
+  followerId: string;
+  /** Follower's Ed25519 identity public key (PEM SPKI) */
+  publicKey: string;
+  /** Follower's X25519 sealing public key (PEM SPKI); syncs must use it */
+  sealingPublicKey: string;
+}
+
+/** Enrollment response: the follower's credential, bound to its key */
+export interface EnrollResponse {
+  followerId: string;
+  /** Leader-signed JWT (sub = followerId, cnf.jkt = key thumbprint) */
+  credential: string;
+}
+
+/** Usage consumption request from follower to leader (maxUses) */
+export interface UsageConsumeRequest {
+  tokenId: string;
+  /** Constraint scope pattern the use counts against */
+  scope: string;
+  maxUses: number;
+  /** Token expiry, so the leader can prune the entry afterwards */
+  expiresAt?: string;
+}
+
+/** Push message types sent over the leader's `/events` stream */
 export enum PushMessageType {
   /** Token has been revoked */
   REVOCATION = "revocation",
   /** Signing key has been rotated */
   KEY_ROTATION = "key_rotation",
-  /** Provider config updated */
+  /** Provider configs, MCP deny policy, scope templates or revocation rules changed */
   CONFIG_UPDATE = "config_update",
 }
 
-/** Push message for WebSocket notifications */
+/** Push message, sent as one Server-Sent Event (`event:` is the type) */
 export interface PushMessage {
   type: PushMessageType;
   timestamp: string;
   data: RevocationPush | KeyRotationPush | ConfigUpdatePush;
 }
 
-/** Revocation push data */
+/** Revocation push data; followers apply it without waiting for a sync */
 export interface RevocationPush {
   tokenId: string;
+  agentId?: string;
   reason?: string;
+  /** Only these scope patterns are revoked */
+  scopes?: string[];
   revokedAt: string;
 }
 
-/** Key rotation push data */
+/**
+ * Key rotation push data. The key itself only travels sealed, so
+ * followers sync on receipt.
+ */
 export interface KeyRotationPush {
+  /** Capability token signing keys, or the MCP credential keyring */
+  key: "signing" | "mcp";
   newKeyVersion: number;
-  newKey: string; // base64-encoded
 }
 
-/** Config update push data */
+/** Config update push data. Followers sync on receipt to fetch the change. */
 export interface ConfigUpdatePush {
+  kind: "providerConfigs" | "mcpDenyPolicy" | "scopeTemplates" | "revocationRules";
   newVersion: number;
-  configs: Record<string, unknown>;
 }
 
 /** Revoked token entry */
@@ -112,6 +234,48 @@ export interface RevokedToken {
   reason?: string;
   /** If set, revocation expires and token becomes valid again */
   expiresAt?: string;
+  /**
+   * Scope patterns withdrawn from the token and its descendants. When set,
+   * the token stays valid for its other scopes; when absent, the whole
+   * token is revoked.
+   */
+  scopes?: string[];
+}
+
+/**
+ * Token claims a revocation rule matches on. Every field that is set must
+ * match; at least one must be set. Identity fields match if the token or
+ * any ancestor holds all of them (`getLineageIdentities`).
+ */
+export interface RevocationRuleMatch {
+  /** `identity.principalId` */
+  principalId?: string;
+  /** `persistentIdentity.persistentId` (e.g. "did:key:z6Mk...") */
+  persistentId?: string;
+  /** `identity.tenantId` */
+  tenantId?: string;
+  /** `identity.organizationId` */
+  organizationId?: string;
+  /** `identity.systemId` */
+  systemId?: string;
+  /** Revocation ID of a token; matches it and every descendant */
+  underTokenId?: string;
+  /** When true, matches only elevated tokens (`Broker.elevate()`) */
+  elevated?: boolean;
+  /** `consentGrantId`: every on-behalf-of token derived from the grant */
+  consentGrantId?: string;
+}
+
+/** Predicate-based revocation of every token matching `match` */
+export interface RevocationRule {
+  ruleId: string;
+  match: RevocationRuleMatch;
+  createdAt: string;
+  reason?: string;
+  /** If set, only tokens issued up to this time match */
+  issuedBefore?: string;
+  /** If set, the rule expires and matching tokens become valid again */
+  expiresAt?: string;
 }
 
 /** Versioned signing key */
@@ -121,6 +285,18 @@ export interface VersionedKey {
   createdAt: string;
   /** If set, this key should not be used for signing after this time */
   deprecatedAt?: string;
+  /** If set, tokens signed with this key no longer verify after this time */
+  expiresAt?: string;
+}
+
+/** Signing key as shipped in a sync response */
+export interface ExportedSigningKey {
+  version: number;
+  /** base64-encoded key */
+  key: string;
+  createdAt: string;
+  deprecatedAt?: string;
+  expiresAt?: string;
 }
 
 /** Information about a connected follower (leader-side) */
@@ -131,6 +307,43 @@ export interface FollowerInfo {
   providerConfigsVersion: number;
   revocationListVersion: number;
   ipAddress?: string;
+  /** How the follower authenticated its last sync */
+  authMethod?: FollowerAuthMethod;
+}
+
+/**
+ * How a caller authenticated to the leader: the shared `followerAuthToken`,
+ * an enrollment credential with proof of possession, or an mTLS client
+ * certificate naming an enrolled follower
+ */
+export type FollowerAuthMethod = "shared-token" | "credential" | "mtls";
+
+/** A follower enrolled with the leader */
+export interface EnrolledFollower {
+  followerId: string;
+  /** Ed25519 identity public key (PEM SPKI) */
+  publicKey: string;
+  /** RFC 7638 thumbprint of the identity key (the credential's cnf.jkt) */
+  keyThumbprint: string;
+  /**
+   * X25519 sealing public key (PEM SPKI) sync secrets are sealed to.
+   * Followers enrolled before it was registered must re-enroll to sync.
+   */
+  sealingPublicKey?: string;
+  enrolledAt: string;
+  revokedAt?: string;
+  revokedReason?: string;
+}
+
+/** Leader's view of an enrolled follower */
+export interface EnrolledFollowerStatus {
+  followerId: string;
+  enrolledAt: string;
+  revokedAt?: string;
+  lastSyncAt?: string;
+  authMethod?: FollowerAuthMethod;
+  /** Requests refused by the per-follower rate limit since start */
+  rateLimitedRequests: number;
 }
 
 /** Distributed broker status */
@@ -144,28 +357,85 @@ export interface DistributedStatus {
   lastSyncAt?: string;
   /** For followers: leader URL */
   leaderUrl?: string;
+  /** Leader state epoch (for followers: as of the last sync) */
+  leaderEpoch?: string;
+  /** For followers: whether the push stream is connected */
+  pushConnected?: boolean;
+  /** For leaders: open push streams */
+  pushSubscribers?: number;
   /** For leaders: connected follower count */
   followerCount?: number;
   /** For leaders: list of follower IDs */
   followers?: string[];
+  /** For leaders: enrolled followers, revoked ones included */
+  enrolledFollowers?: EnrolledFollowerStatus[];
 }
 
 /** Configuration for follower mode */
 export interface FollowerConfig {
   /** Leader broker URL */
   leaderUrl: string;
-  /** Authentication token for leader */
-  leaderAuthToken: string;
+  /**
+   * Shared authentication token for the leader. Without it the follower
+   * uses the credential saved by `enrollFollower`, or its mTLS client
+   * certificate alone.
+   */
+  leaderAuthToken?: string;
   /** Unique identifier for this follower */
   followerId: string;
+  /** Client certificate presented to the leader (mTLS) */
+  tlsCertPath?: string;
+  /** Client certificate private key */
+  tlsKeyPath?: string;
+  /** CA bundle to verify the leader's certificate (default: system CAs) */
+  tlsCaPath?: string;
   /** Sync interval in seconds (default: 60) */
   syncIntervalSeconds?: number;
-  /** Timeout for sync requests in ms (default: 30000) */
+  /** Timeout for sync requests, and for opening the push stream, in ms (default: 30000) */
   syncTimeoutMs?: number;
-  /** Whether to use WebSocket for push notifications */
-  useWebSocket?: boolean;
+  /**
+   * Subscribe to the leader's `/events` push stream (default: true).
+   * Periodic sync continues either way and covers disconnections.
+   */
+  usePush?: boolean;
+  /**
+   * Reconnect the push stream after this many ms without data, heartbeats
+   * included (default: three leader heartbeat intervals, 45000), so a
+   * connection that died silently is noticed
+   */
+  pushIdleTimeoutMs?: number;
+  /**
+   * Issuance restrictions per degraded state. A state given here replaces
+   * its entry in `DEFAULT_DEGRADATION_POLICIES`.
+   */
+  degradationPolicies?: DegradationPolicies;
+  /** Records a `follower.state.changed` event on every state transition */
+  auditSink?: MCPAuditSink;
+}
+
+/**
+ * What the broker still issues while its follower can't reach the leader
+ * (revocations and key rotations it would miss)
+ */
+export interface DegradationPolicy {
+  /** Refuse new root tokens */
+  denyRootTokens?: boolean;
+  /**
+   * Cap, in minutes, on the lifetime of tokens minted here (root,
+   * delegated, elevated, refreshed and exchanged)
+   */
+  maxTokenTtlMinutes?: number;
+  /** Scope patterns no provider or MCP credential is issued for */
+  denyCredentialScopes?: string[];
+  /** Serve cached provider credentials for at most this many seconds (0: never) */
+  maxCredentialCacheSeconds?: number;
 }
 
+/** Degradation policies by follower state */
+export type DegradationPolicies = Partial<
+  Record<FollowerState.DEGRADED | FollowerState.LIMITED | FollowerState.OFFLINE, DegradationPolicy>
+>;
+
 /** Configuration for leader mode */
 export interface LeaderConfig {
   /** Port to listen on (default: 8443) */
@@ -176,10 +446,37 @@ export interface LeaderConfig {
   tlsCertPath?: string;
   /** TLS key path (optional) */
   tlsKeyPath?: string;
-  /** Shared secret for follower authentication */
-  followerAuthToken: string;
+  /**
+   * Shared secret. Authorizes the admin endpoints (key rotation,
+   * revocation, follower management) and, unless
+   * `requireFollowerEnrollment` is set, follower requests.
+   */
+  followerAuthToken?: string;
+  /** Only accept enrolled followers on follower endpoints */
+  requireFollowerEnrollment?: boolean;
+  /**
+   * CA bundle for follower client certificates. When set (with TLS), a
+   * verified certificate whose subject CN names an enrolled, unrevoked
+   * follower authenticates as that follower.
+   */
+  tlsClientCaPath?: string;
+  /** Requests per minute allowed per follower (default: 600) */
+  followerRequestsPerMinute?: number;
+  /**
+   * Public base URL of the leader, advertised as `issuer` in the OAuth
+   * authorization-server metadata (default: derived from each request's
+   * Host header). Issue MCP credentials with the same issuer.
+   */
+  issuer?: string;
 }
 
+/**
+ * How often the leader writes a heartbeat comment on each `/events`
+ * stream, so proxies and followers see it alive. Followers take a stream
+ * silent for much longer to be dead.
+ */
+export const PUSH_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
 /** Thresholds for state transitions */
 export const STATE_THRESHOLDS = {
   /** Seconds without sync before entering DEGRADED state */
@@ -189,3 +486,23 @@ export const STATE_THRESHOLDS = {
   /** Seconds without sync before entering OFFLINE state */
   OFFLINE_THRESHOLD_SECONDS: 24 * 60 * 60, // 24 hours
 } as const;
+
+/**
+ * Default degradation policies. Which scopes are too sensitive to serve
+ * offline depends on the deployment, so none are denied by default.
+ */
+export const DEFAULT_DEGRADATION_POLICIES: DegradationPolicies = {
+  [FollowerState.DEGRADED]: {
+    maxCredentialCacheSeconds: 15 * 60,
+  },
+  [FollowerState.LIMITED]: {
+    denyRootTokens: true,
+    maxTokenTtlMinutes: 60,
+    maxCredentialCacheSeconds: 5 * 60,
+  },
+  [FollowerState.OFFLINE]: {
+    denyRootTokens: true,
+    maxTokenTtlMinutes: 15,
+    maxCredentialCacheSeconds: 0,
+  },
+};
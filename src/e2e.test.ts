@@ -749,8 +749,9 @@ describe("E2E: Cross-Phase Integration", () => {
       // Sync follower
       await follower.sync();
 
-      // Follower should now see the revocation
-      assert.strictEqual(follower.isRevoked("distributed-orchestrator"), true);
+      // Follower should now see the revocation (keyed on token ID)
+      assert.strictEqual(follower.isRevoked(rootToken.tokenId!), true);
+      assert.strictEqual(follower.isRevoked("distributed-orchestrator"), false);
 
       subRuntime.stop();
       runtime.stop();
@@ -1659,7 +1660,7 @@ describe("E2E: Identity with Distributed Broker", () => {
       await follower.sync();
 
       // Token is now revoked in the distributed system
-      assert.strictEqual(follower.isRevoked("dist-agent"), true);
+      assert.strictEqual(follower.isRevoked(token.tokenId!), true);
 
       // But standalone identity verification still passes (it only checks crypto, not revocation)
       // This is by design — revocation is checked at the broker layer
@@ -0,0 +1,248 @@
+/**
+ * Federated IdP verifier (OIDC)
+ *
+ * Verifies ID tokens issued by one trusted external OIDC identity provider
+ * so agents can act on behalf of human users. agent-iam federates rather
+ * than authenticates: it never sees user credentials, only the IdP's signed
+ * assertion, and represents the user as `user:<idp>:<sub>`.
+ *
+ * `OidcIdentityProvider` wraps one of these per configured IdP as the
+ * `federated` identity type.
+ *
+ * Signing keys come from a static JWKS in the IdP config, an explicit
+ * `jwksUri`, or the `jwks_uri` published at
+ * `{issuer}/.well-known/openid-configuration`. With a cache directory, the
+ * fetched discovery document and JWKS are written to disk and used when the
+ * IdP is unreachable (or always, with `offline: true`).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  createLocalJWKSet,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+} from "jose";
+import type { FederatedIdpConfig, OIDCAssertion } from "../types.js";
+
+/** Principal ID prefix for federated users */
+export const USER_PRINCIPAL_PREFIX = "user:";
+
+/** IdP names: no `:` so `user:<idp>:<sub>` stays unambiguous */
+const IDP_NAME = /^[A-Za-z0-9._-]+$/;
+
+/** Allowed clock skew for `exp`/`iat`, in seconds */
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+/** Cached OIDC discovery document */
+const DISCOVERY_CACHE_FILE = "openid-configuration.json";
+/** Cached JWKS */
+const JWKS_CACHE_FILE = "jwks.json";
+
+/** A user authenticated by a federated IdP */
+export interface UserPrincipal {
+  /** `user:<idp>:<sub>` */
+  userId: string;
+  /** IdP name from broker config */
+  idp: string;
+  /** The IdP's `iss` */
+  issuer: string;
+  /** The IdP's `sub` for the user */
+  subject: string;
+  /** When the user authenticated (`auth_time`, else `iat`; ISO 8601) */
+  authenticatedAt: string;
+  /** Verified ID token claims */
+  claims: JWTPayload;
+}
+
+/** Options for `FederatedIdentityProvider` */
+export interface FederatedIdentityProviderOptions {
+  /** Directory for the cached discovery document and JWKS */
+  cacheDir?: string;
+}
+
+/** Principal ID for a user of a federated IdP */
+export function userPrincipalId(idp: string, subject: string): string {
+  return `${USER_PRINCIPAL_PREFIX}${idp}:${subject}`;
+}
+
+export class FederatedIdentityProvider {
+  readonly idp: string;
+  private config: FederatedIdpConfig;
+  private cacheDir?: string;
+  private jwks?: JSONWebKeySet;
+
+  constructor(
+    idp: string,
+    config: FederatedIdpConfig,
+    options: FederatedIdentityProviderOptions = {}
+  ) {
+    if (!IDP_NAME.test(idp)) {
+      throw new Error(`Invalid IdP name "${idp}"`);
+    }
+    if (!config.issuer) {
+      throw new Error(`IdP "${idp}" requires an issuer`);
+    }
+    this.idp = idp;
+    this.config = config;
+    this.cacheDir = options.cacheDir;
+  }
+
+  /** The IdP's expected `iss` */
+  get issuer(): string {
+    return this.config.issuer;
+  }
+
+  /**
+   * Verify an ID token: signature, `iss`, `aud`, `exp`, `iat` (present, not
+   * in the future, and within `maxAgeSeconds` if configured) and, when the
+   * assertion carries one, `nonce`
+   */
+  async verify(assertion: OIDCAssertion): Promise<UserPrincipal> {
+    let payload: JWTPayload;
+    try {
+      try {
+        payload = await this.verifyWith(assertion.idToken, await this.getKeys());
+      } catch (error) {
+        // The IdP may have rotated keys since we last fetched them
+        if ((error as { code?: string }).code !== "ERR_JWKS_NO_MATCHING_KEY" || this.config.jwks) {
+          throw error;
+        }
+        payload = await this.verifyWith(assertion.idToken, await this.getKeys(true));
+      }
+    } catch (error) {
+      throw new Error(
+        `Invalid ID token from IdP "${this.idp}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    if (payload.iat! > Date.now() / 1000 + CLOCK_TOLERANCE_SECONDS) {
+      throw new Error(`ID token from IdP "${this.idp}" was issued in the future`);
+    }
+    if (assertion.nonce !== undefined && payload.nonce !== assertion.nonce) {
+      throw new Error(`ID token from IdP "${this.idp}" has the wrong nonce`);
+    }
+
+    const authTime =
+      typeof payload.auth_time === "number" ? payload.auth_time : payload.iat!;
+    return {
+      userId: userPrincipalId(this.idp, payload.sub!),
+      idp: this.idp,
+      issuer: this.config.issuer,
+      subject: payload.sub!,
+      authenticatedAt: new Date(authTime * 1000).toISOString(),
+      claims: payload,
+    };
+  }
+
+  /**
+   * Fetch the discovery document and JWKS now, updating the disk cache.
+   * No-op for IdPs configured with a static JWKS.
+   */
+  async refreshKeys(): Promise<void> {
+    if (!this.config.jwks) {
+      this.jwks = await this.fetchJwks();
+    }
+  }
+
+  private verifyWith(idToken: string, jwks: JSONWebKeySet): Promise<JWTPayload> {
+    return jwtVerify(idToken, createLocalJWKSet(jwks), {
+      issuer: this.config.issuer,
+      audience: this.config.audience,
+      requiredClaims: ["sub", "exp", "iat"],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      ...(this.config.maxAgeSeconds !== undefined && {
+        maxTokenAge: this.config.maxAgeSeconds,
+      }),
+    }).then(({ payload }) => payload);
+  }
+
+  /**
+   * Signing keys: static, in memory, freshly fetched, or (when the IdP is
+   * unreachable or `offline` is set) from the disk cache
+   */
+  private async getKeys(refresh = false): Promise<JSONWebKeySet> {
+    if (this.config.jwks) {
+      return this.config.jwks as JSONWebKeySet;
+    }
+    if (this.jwks && !refresh) {
+      return this.jwks;
+    }
+
+    if (!this.config.offline) {
+      try {
+        this.jwks = await this.fetchJwks();
+        return this.jwks;
+      } catch (error) {
+        const cached = this.readCache<JSONWebKeySet>(JWKS_CACHE_FILE);
+        if (!cached) throw error;
+        this.jwks = cached;
+        return cached;
+      }
+    }
+
+    const cached = this.readCache<JSONWebKeySet>(JWKS_CACHE_FILE);
+    if (!cached) {
+      throw new Error(`No cached JWKS for offline IdP "${this.idp}"`);
+    }
+    this.jwks = cached;
+    return cached;
+  }
+
+  private async fetchJwks(): Promise<JSONWebKeySet> {
+    const jwksUri = this.config.jwksUri ?? (await this.discover()).jwks_uri;
+    const jwks = await this.fetchJson<JSONWebKeySet>(jwksUri, "JWKS fetch");
+    if (!Array.isArray(jwks.keys)) {
+      throw new Error(`JWKS for IdP "${this.idp}" has no keys`);
+    }
+    this.writeCache(JWKS_CACHE_FILE, jwks);
+    return jwks;
+  }
+
+  /** Fetch and check the OIDC discovery document */
+  private async discover(): Promise<{ issuer: string; jwks_uri: string }> {
+    const url = `${this.config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+    const metadata = await this.fetchJson<{ issuer?: string; jwks_uri?: string }>(
+      url,
+      "OIDC discovery"
+    );
+    if (metadata.issuer !== this.config.issuer) {
+      throw new Error(
+        `OIDC discovery for IdP "${this.idp}" returned issuer "${metadata.issuer}"`
+      );
+    }
+    if (!metadata.jwks_uri) {
+      throw new Error(`OIDC discovery for IdP "${this.idp}" has no jwks_uri`);
+    }
+    this.writeCache(DISCOVERY_CACHE_FILE, metadata);
+    return { issuer: metadata.issuer, jwks_uri: metadata.jwks_uri };
+  }
+
+  private async fetchJson<T>(url: string, what: string): Promise<T> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${what} failed for IdP "${this.idp}": HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private readCache<T>(file: string): T | undefined {
+    if (!this.cacheDir) return undefined;
+    const cachePath = path.join(this.cacheDir, file);
+    if (!fs.existsSync(cachePath)) return undefined;
+    return JSON.parse(fs.readFileSync(cachePath, "utf-8")) as T;
+  }
+
+  private writeCache(file: string, value: unknown): void {
+    if (!this.cacheDir) return;
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(path.join(this.cacheDir, file), JSON.stringify(value, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
@@ -176,6 +176,7 @@ export class IdentityService {
    *   "platform:..." → platform
    *   "spiffe://..." → attested
    *   "did:web:..." / "did:wba:..." → decentralized
+   *   "user:..."     → federated
    */
   private inferType(persistentId: string): IdentityType | null {
     if (persistentId.startsWith("did:key:")) return "keypair";
@@ -184,6 +185,7 @@ export class IdentityService {
     if (persistentId.startsWith("spiffe://")) return "attested";
     if (persistentId.startsWith("did:web:")) return "decentralized";
     if (persistentId.startsWith("did:wba:")) return "decentralized";
+    if (persistentId.startsWith("user:")) return "federated";
     return null;
   }
 }
@@ -3033,3 +3033,311 @@ describe("DID:web integration with IdentityService and Broker", () => {
     assert.strictEqual(result.verifiedEndorsements![0].claim, "cross-org-verified");
   });
 });
+
+// ─────────────────────────────────────────────────────────────────
+// FEDERATED (OIDC) IDENTITY PROVIDER
+// ─────────────────────────────────────────────────────────────────
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { SignJWT, exportJWK, generateKeyPair, type JWTPayload } from "jose";
+import { FederatedIdentityProvider, userPrincipalId } from "./federated-provider.js";
+
+/** Local mock OIDC issuer: an ES256 key and its static JWKS */
+async function createMockIssuer(issuer: string) {
+  const { publicKey, privateKey } = await generateKeyPair("ES256");
+  const jwks = { keys: [{ ...(await exportJWK(publicKey)), kid: "k1", alg: "ES256" }] };
+  const signIdToken = (claims: JWTPayload = {}, audience = "agent-iam") =>
+    new SignJWT({ sub: "alice", ...claims })
+      .setProtectedHeader({ alg: "ES256", kid: "k1" })
+      .setIssuer(issuer)
+      .setAudience(audience)
+      .setIssuedAt(claims.iat)
+      .setExpirationTime(claims.exp ?? "5m")
+      .sign(privateKey);
+  return { issuer, jwks, signIdToken };
+}
+
+describe("FederatedIdentityProvider", () => {
+  const issuer = "https://idp.example.test";
+  let mock: Awaited<ReturnType<typeof createMockIssuer>>;
+  let provider: FederatedIdentityProvider;
+
+  beforeEach(async () => {
+    mock = await createMockIssuer(issuer);
+    provider = new FederatedIdentityProvider("corp", {
+      issuer,
+      audience: "agent-iam",
+      jwks: mock.jwks as { keys: JsonWebKey[] },
+    });
+  });
+
+  test("verifies an ID token and names the user user:<idp>:<sub>", async () => {
+    const user = await provider.verify({
+      idToken: await mock.signIdToken({ email: "alice@example.test" }),
+    });
+    assert.strictEqual(user.userId, "user:corp:alice");
+    assert.strictEqual(user.userId, userPrincipalId("corp", "alice"));
+    assert.strictEqual(user.issuer, issuer);
+    assert.strictEqual(user.subject, "alice");
+    assert.strictEqual(user.claims.email, "alice@example.test");
+  });
+
+  test("rejects the wrong audience, issuer or signing key", async () => {
+    await assert.rejects(
+      provider.verify({ idToken: await mock.signIdToken({}, "other-client") }),
+      /Invalid ID token from IdP "corp"/
+    );
+
+    const impostor = await createMockIssuer("https://evil.example.test");
+    await assert.rejects(
+      provider.verify({ idToken: await impostor.signIdToken() }),
+      /Invalid ID token/
+    );
+
+    const forged = await createMockIssuer(issuer);
+    await assert.rejects(
+      provider.verify({ idToken: await forged.signIdToken() }),
+      /Invalid ID token/
+    );
+  });
+
+  test("rejects expired tokens and nonce mismatches", async () => {
+    const expired = await mock.signIdToken({ exp: Math.floor(Date.now() / 1000) - 600 });
+    await assert.rejects(provider.verify({ idToken: expired }), /Invalid ID token/);
+
+    const idToken = await mock.signIdToken({ nonce: "n-1" });
+    await provider.verify({ idToken, nonce: "n-1" });
+    await assert.rejects(provider.verify({ idToken, nonce: "n-2" }), /wrong nonce/);
+  });
+
+  test("uses auth_time for authenticatedAt when present", async () => {
+    const authTime = Math.floor(Date.now() / 1000) - 120;
+    const user = await provider.verify({
+      idToken: await mock.signIdToken({ auth_time: authTime }),
+    });
+    assert.strictEqual(user.authenticatedAt, new Date(authTime * 1000).toISOString());
+  });
+
+  test("rejects IdP names containing ':'", () => {
+    assert.throws(
+      () => new FederatedIdentityProvider("a:b", { issuer, audience: "x" }),
+      /Invalid IdP name/
+    );
+  });
+
+  test("fetches keys through OIDC discovery", async () => {
+    let discoveryMock: Awaited<ReturnType<typeof createMockIssuer>> | undefined;
+    const server = http.createServer((req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      if (req.url === "/.well-known/openid-configuration") {
+        res.end(
+          JSON.stringify({ issuer: discoveryMock!.issuer, jwks_uri: `${discoveryMock!.issuer}/jwks` })
+        );
+      } else if (req.url === "/jwks") {
+        res.end(JSON.stringify(discoveryMock!.jwks));
+      } else {
+        res.statusCode = 404;
+        res.end("{}");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      discoveryMock = await createMockIssuer(`http://127.0.0.1:${port}`);
+      const discovering = new FederatedIdentityProvider("local", {
+        issuer: discoveryMock.issuer,
+        audience: "agent-iam",
+      });
+      const user = await discovering.verify({ idToken: await discoveryMock.signIdToken() });
+      assert.strictEqual(user.userId, "user:local:alice");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// OIDC IDENTITY PROVIDER (FEDERATED TYPE)
+// ─────────────────────────────────────────────────────────────────
+
+import { OidcIdentityProvider } from "./oidc-provider.js";
+import type { FederatedIdpConfig } from "../types.js";
+
+/**
+ * Local OIDC issuer serving discovery and JWKS over HTTP. `jwks` can be
+ * swapped (key rotation) and `down` makes every request fail.
+ */
+async function serveMockIssuer() {
+  const state: {
+    mock?: Awaited<ReturnType<typeof createMockIssuer>>;
+    jwks?: unknown;
+    down: boolean;
+    requests: number;
+  } = { down: false, requests: 0 };
+  const server = http.createServer((req, res) => {
+    state.requests++;
+    res.setHeader("Content-Type", "application/json");
+    if (state.down) {
+      res.statusCode = 503;
+      res.end("{}");
+    } else if (req.url === "/.well-known/openid-configuration") {
+      res.end(JSON.stringify({ issuer: state.mock!.issuer, jwks_uri: `${state.mock!.issuer}/jwks` }));
+    } else if (req.url === "/jwks") {
+      res.end(JSON.stringify(state.jwks ?? state.mock!.jwks));
+    } else {
+      res.statusCode = 404;
+      res.end("{}");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  state.mock = await createMockIssuer(`http://127.0.0.1:${port}`);
+  return {
+    state,
+    mock: state.mock,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe("OidcIdentityProvider", () => {
+  let tmpDir: string;
+  let served: Awaited<ReturnType<typeof serveMockIssuer>>;
+  let idps: Record<string, FederatedIdpConfig>;
+  let provider: OidcIdentityProvider;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-test-"));
+    served = await serveMockIssuer();
+    idps = { corp: { issuer: served.mock.issuer, audience: "agent-iam" } };
+    provider = new OidcIdentityProvider(tmpDir, () => idps);
+  });
+
+  afterEach(async () => {
+    await served.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("creates, loads, lists and revokes federated users", async () => {
+    const identity = await provider.create({
+      idToken: await served.mock.signIdToken({ email: "alice@example.test" }),
+      label: "Alice",
+    });
+    assert.strictEqual(identity.persistentId, "user:corp:alice");
+    assert.strictEqual(identity.identityType, "federated");
+    assert.strictEqual(identity.label, "Alice");
+    assert.strictEqual(identity.metadata?.email, "alice@example.test");
+
+    assert.deepStrictEqual(await provider.load("user:corp:alice"), identity);
+    assert.strictEqual((await provider.list()).length, 1);
+
+    await provider.revoke("user:corp:alice");
+    assert.strictEqual(await provider.load("user:corp:alice"), null);
+    await assert.rejects(
+      provider.verifyAssertion({ idToken: await served.mock.signIdToken() }),
+      /Federated identity revoked/
+    );
+  });
+
+  test("requires an ID token to create an identity", async () => {
+    await assert.rejects(provider.create({ label: "x" }), /created from an ID token/);
+  });
+
+  test("rejects tokens from issuers that are not configured", async () => {
+    const other = await createMockIssuer("https://other.example.test");
+    await assert.rejects(
+      provider.verifyAssertion({ idToken: await other.signIdToken() }),
+      /No trusted IdP for issuer/
+    );
+  });
+
+  test("rejects tokens issued in the future", async () => {
+    const future = Math.floor(Date.now() / 1000) + 3600;
+    await assert.rejects(
+      provider.verifyAssertion({
+        idToken: await served.mock.signIdToken({ iat: future, exp: future + 300 }),
+      }),
+      /issued in the future/
+    );
+  });
+
+  test("enforces maxAgeSeconds", async () => {
+    idps.corp.maxAgeSeconds = 60;
+    const old = Math.floor(Date.now() / 1000) - 600;
+    await assert.rejects(
+      provider.verifyAssertion({ idToken: await served.mock.signIdToken({ iat: old }) }),
+      /Invalid ID token/
+    );
+  });
+
+  test("verifies ID token proofs whose nonce is the challenge", async () => {
+    await provider.create({ idToken: await served.mock.signIdToken() });
+    const proof = {
+      persistentId: "user:corp:alice",
+      identityType: "federated" as const,
+      challenge: "c-1",
+      proof: await served.mock.signIdToken({ nonce: "c-1" }),
+      provenAt: new Date().toISOString(),
+    };
+    assert.strictEqual(await provider.verify(proof, "c-1"), true);
+    assert.strictEqual(
+      await provider.verify({ ...proof, challenge: "c-2" }, "c-2"),
+      false
+    );
+    await assert.rejects(provider.prove("user:corp:alice", "c-1"), /Cannot prove/);
+  });
+
+  test("caches discovery and JWKS on disk and falls back to them", async () => {
+    await provider.verifyAssertion({ idToken: await served.mock.signIdToken() });
+    const cacheDir = path.join(tmpDir, "identities", "oidc-cache", "corp");
+    assert.ok(fs.existsSync(path.join(cacheDir, "openid-configuration.json")));
+    assert.ok(fs.existsSync(path.join(cacheDir, "jwks.json")));
+
+    served.state.down = true;
+    const restarted = new OidcIdentityProvider(tmpDir, () => idps);
+    const user = await restarted.verifyAssertion({ idToken: await served.mock.signIdToken() });
+    assert.strictEqual(user.userId, "user:corp:alice");
+  });
+
+  test("offline IdPs never fetch and need a cache", async () => {
+    idps.corp.offline = true;
+    await assert.rejects(
+      provider.verifyAssertion({ idToken: await served.mock.signIdToken() }),
+      /No cached JWKS/
+    );
+    assert.strictEqual(served.state.requests, 0);
+
+    idps.corp.offline = false;
+    await provider.getVerifier("corp").refreshKeys();
+    idps.corp.offline = true;
+    const before = served.state.requests;
+    await provider.verifyAssertion({ idToken: await served.mock.signIdToken() });
+    assert.strictEqual(served.state.requests, before);
+  });
+
+  test("refetches the JWKS when a token's key is unknown", async () => {
+    await provider.verifyAssertion({ idToken: await served.mock.signIdToken() });
+
+    const { publicKey, privateKey } = await generateKeyPair("ES256");
+    served.state.jwks = {
+      keys: [{ ...(await exportJWK(publicKey)), kid: "k2", alg: "ES256" }],
+    };
+    const rotated = await new SignJWT({ sub: "alice" })
+      .setProtectedHeader({ alg: "ES256", kid: "k2" })
+      .setIssuer(served.mock.issuer)
+      .setAudience("agent-iam")
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    const user = await provider.verifyAssertion({ idToken: rotated });
+    assert.strictEqual(user.userId, "user:corp:alice");
+  });
+
+  test("IdentityService routes user: IDs to the federated provider", async () => {
+    const service = new IdentityService();
+    service.registerProvider(provider);
+    await provider.create({ idToken: await served.mock.signIdToken() });
+    const loaded = await service.loadIdentity("user:corp:alice");
+    assert.strictEqual(loaded?.identityType, "federated");
+  });
+});
@@ -13,6 +13,16 @@ export { PlatformIdentityProvider } from "./platform-provider.js";
 export { SpiffeIdentityProvider } from "./spiffe-provider.js";
 export type { SpiffeCreateOptions } from "./spiffe-provider.js";
 export { DidWebIdentityProvider } from "./did-web-provider.js";
+export {
+  FederatedIdentityProvider,
+  userPrincipalId,
+  USER_PRINCIPAL_PREFIX,
+} from "./federated-provider.js";
+export type {
+  UserPrincipal,
+  FederatedIdentityProviderOptions,
+} from "./federated-provider.js";
+export { OidcIdentityProvider } from "./oidc-provider.js";
 export type {
   DidWebCreateOptions,
   DidDocument,
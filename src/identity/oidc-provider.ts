@@ -0,0 +1,211 @@
+/**
+ * OIDC Identity Provider (federated human users)
+ *
+ * The `federated` identity type: users authenticated by an external OIDC
+ * IdP configured in broker config (`federatedIdps`). Identities are named
+ * `user:<idp>:<sub>` and only ever established from a verified ID token;
+ * agent-iam holds no user secrets.
+ *
+ * - create({ idToken, nonce? }) verifies the token and records the user
+ * - prove() is not supported: the broker cannot authenticate as a user.
+ *   A proof is an ID token from the IdP whose `nonce` is the challenge.
+ * - verify() checks such a proof
+ *
+ * Storage layout:
+ *   {identityDir}/
+ *     federated-registry.json  — Map of user ID → identity record
+ *     oidc-cache/{idp}/        — Cached discovery document and JWKS
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { decodeJwt } from "jose";
+import type { FederatedIdpConfig, OIDCAssertion } from "../types.js";
+import type {
+  PersistentIdentity,
+  IdentityProof,
+  IdentityProvider,
+  CreateIdentityOptions,
+} from "./types.js";
+import {
+  FederatedIdentityProvider,
+  USER_PRINCIPAL_PREFIX,
+  type UserPrincipal,
+} from "./federated-provider.js";
+
+const REGISTRY_FILE = "federated-registry.json";
+const CACHE_DIR = "oidc-cache";
+
+/** Internal registry structure */
+interface FederatedRegistry {
+  identities: Record<string, { identity: PersistentIdentity; revoked: boolean }>;
+}
+
+export class OidcIdentityProvider implements IdentityProvider {
+  readonly type = "federated" as const;
+  private identityDir: string;
+  private registryPath: string;
+  private getIdps: () => Record<string, FederatedIdpConfig>;
+  /** Verifiers by IdP name, rebuilt when that IdP's config changes */
+  private verifiers: Map<string, { config: string; verifier: FederatedIdentityProvider }> =
+    new Map();
+
+  /**
+   * @param getIdps - Trusted IdPs by name (read on every use, so config
+   *   changes apply without re-registering the provider)
+   */
+  constructor(configDir: string, getIdps: () => Record<string, FederatedIdpConfig>) {
+    this.identityDir = path.join(configDir, "identities");
+    this.registryPath = path.join(this.identityDir, REGISTRY_FILE);
+    this.getIdps = getIdps;
+  }
+
+  /**
+   * Verify an ID token against the configured IdP whose issuer matches its
+   * `iss` claim. Users whose federated identity was revoked are rejected.
+   */
+  async verifyAssertion(assertion: OIDCAssertion): Promise<UserPrincipal> {
+    let issuer: string | undefined;
+    try {
+      issuer = decodeJwt(assertion.idToken).iss;
+    } catch {
+      throw new Error("User assertion is not a JWT");
+    }
+
+    const entry = Object.entries(this.getIdps()).find(
+      ([, config]) => config.issuer === issuer
+    );
+    if (!entry) {
+      throw new Error(`No trusted IdP for issuer "${issuer}"`);
+    }
+
+    const user = await this.getVerifier(entry[0]).verify(assertion);
+    if (this.loadRegistry().identities[user.userId]?.revoked) {
+      throw new Error(`Federated identity revoked: ${user.userId}`);
+    }
+    return user;
+  }
+
+  /**
+   * Verifier for a configured IdP (e.g. to `refreshKeys()` into the disk
+   * cache ahead of offline use)
+   */
+  getVerifier(idp: string): FederatedIdentityProvider {
+    const config = this.getIdps()[idp];
+    if (!config) {
+      throw new Error(`Unknown IdP "${idp}"`);
+    }
+
+    const serialized = JSON.stringify(config);
+    const cached = this.verifiers.get(idp);
+    if (cached?.config === serialized) {
+      return cached.verifier;
+    }
+    const verifier = new FederatedIdentityProvider(idp, config, {
+      cacheDir: path.join(this.identityDir, CACHE_DIR, idp),
+    });
+    this.verifiers.set(idp, { config: serialized, verifier });
+    return verifier;
+  }
+
+  /**
+   * Record a user from a verified ID token (`options.idToken`, optional
+   * `options.nonce`). Re-creating an existing user refreshes its metadata.
+   */
+  async create(options?: CreateIdentityOptions): Promise<PersistentIdentity> {
+    if (typeof options?.idToken !== "string") {
+      throw new Error("Federated identities are created from an ID token (idToken)");
+    }
+    const user = await this.verifyAssertion({
+      idToken: options.idToken,
+      nonce: options.nonce as string | undefined,
+    });
+
+    const registry = this.loadRegistry();
+    const existing = registry.identities[user.userId];
+    const identity: PersistentIdentity = {
+      persistentId: user.userId,
+      identityType: "federated",
+      createdAt: existing?.identity.createdAt ?? new Date().toISOString(),
+      label: (options.label as string | undefined) ?? existing?.identity.label,
+      metadata: {
+        idp: user.idp,
+        issuer: user.issuer,
+        subject: user.subject,
+        authenticatedAt: user.authenticatedAt,
+        ...(typeof user.claims.email === "string" && { email: user.claims.email }),
+        ...(typeof user.claims.name === "string" && { name: user.claims.name }),
+      },
+    };
+    registry.identities[user.userId] = { identity, revoked: false };
+    this.saveRegistry(registry);
+    return identity;
+  }
+
+  async load(persistentId: string): Promise<PersistentIdentity | null> {
+    const record = this.loadRegistry().identities[persistentId];
+    if (!record || record.revoked) return null;
+    return record.identity;
+  }
+
+  async list(): Promise<PersistentIdentity[]> {
+    return Object.values(this.loadRegistry().identities)
+      .filter((r) => !r.revoked)
+      .map((r) => r.identity);
+  }
+
+  async prove(persistentId: string, _challenge: string): Promise<IdentityProof> {
+    throw new Error(
+      `Cannot prove federated identity ${persistentId}: only the IdP can, ` +
+      `with an ID token whose nonce is the challenge`
+    );
+  }
+
+  /**
+   * Verify a proof whose `proof` is an ID token for `persistentId` with
+   * `nonce` equal to the challenge
+   */
+  async verify(proof: IdentityProof, challenge: string): Promise<boolean> {
+    if (proof.identityType !== "federated") return false;
+    if (proof.challenge !== challenge) return false;
+    if (!(await this.load(proof.persistentId))) return false;
+
+    try {
+      const user = await this.verifyAssertion({ idToken: proof.proof, nonce: challenge });
+      return user.userId === proof.persistentId;
+    } catch {
+      return false;
+    }
+  }
+
+  async revoke(persistentId: string): Promise<void> {
+    if (!persistentId.startsWith(USER_PRINCIPAL_PREFIX)) {
+      throw new Error(
+        `Invalid federated identity format: ${persistentId} (must start with "${USER_PRINCIPAL_PREFIX}")`
+      );
+    }
+    const registry = this.loadRegistry();
+    const record = registry.identities[persistentId];
+    if (!record) {
+      throw new Error(`Federated identity not found: ${persistentId}`);
+    }
+    record.revoked = true;
+    this.saveRegistry(registry);
+  }
+
+  private loadRegistry(): FederatedRegistry {
+    if (!fs.existsSync(this.registryPath)) {
+      return { identities: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.registryPath, "utf-8")) as FederatedRegistry;
+  }
+
+  private saveRegistry(registry: FederatedRegistry): void {
+    if (!fs.existsSync(this.identityDir)) {
+      fs.mkdirSync(this.identityDir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(this.registryPath, JSON.stringify(registry, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
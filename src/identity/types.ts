@@ -9,13 +9,19 @@
  * - platform: Broker-assigned UUID with registry (team / enterprise)
  * - attested: Environment-derived identity (cloud / dynamic)
  * - decentralized: Self-sovereign DID (cross-org / portable)
+ * - federated: Human user verified through an external OIDC IdP
  */
 
 // ============================================================================
 // Identity Type Discriminator
 // ============================================================================
 
-export type IdentityType = "keypair" | "platform" | "attested" | "decentralized";
+export type IdentityType =
+  | "keypair"
+  | "platform"
+  | "attested"
+  | "decentralized"
+  | "federated";
 
 // ============================================================================
 // Core Identity Types
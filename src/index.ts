@@ -10,10 +10,43 @@
 export { Broker } from "./broker.js";
 export type { BrokerStatus } from "./broker.js";
 
-export { TokenService, generateSecret, scopeMatches, resourceMatches } from "./token.js";
+export {
+  TokenService,
+  generateSecret,
+  generateTokenId,
+  getRevocationId,
+  getAncestorIds,
+  getRootTokenId,
+  getLineageIdentities,
+  findScopeConstraint,
+  getUsageBudgets,
+  scopeMatches,
+  resourceMatches,
+  resourcePatternCovered,
+  tokenKeyId,
+  verifyTokenWithJwks,
+  serializeToken,
+  deserializeToken,
+  TOKEN_JWS_TYPE,
+  TOKEN_FORMAT_VERSION,
+  ELEVATION_SCOPE_PREFIX,
+} from "./token.js";
 
 export { ConfigService } from "./config.js";
 
+export {
+  KNOWN_PROVIDER_SCOPES,
+  isKnownScope,
+  resolveScopeTemplate,
+  validateScopeTemplates,
+} from "./templates.js";
+export type { ResolvedScopeTemplate } from "./templates.js";
+
+export { ConsentGrantStore } from "./consent.js";
+
+export { MemoryUsageLedger, FileUsageLedger } from "./usage.js";
+export type { UsageLedger, UsageResult } from "./usage.js";
+
 export { GitHubProvider } from "./providers/github.js";
 export { GoogleProvider } from "./providers/google.js";
 export { AWSProvider } from "./providers/aws.js";
@@ -26,18 +59,45 @@ export {
   FollowerClient,
   SigningKeyManager,
   RevocationList,
+  RemoteUsageLedger,
+  HttpTokenRefresher,
   BrokerMode,
   FollowerState,
   STATE_THRESHOLDS,
+  DEFAULT_DEGRADATION_POLICIES,
+  getOrCreateSealingKey,
+  sealSecret,
+  openSealedSecret,
+  FollowerRegistry,
+  FollowerRevokedError,
+  enrollFollower,
+  loadFollowerIdentity,
 } from "./distributed/index.js";
 export type {
   SyncRequest,
   SyncResponse,
+  SealedSyncPayload,
+  SealingKey,
+  SealedSecret,
   DistributedStatus,
   FollowerConfig,
   LeaderConfig,
+  DegradationPolicy,
+  DegradationPolicies,
   RevokedToken,
+  RevocationRule,
+  RevocationRuleMatch,
   VersionedKey,
+  ExportedSigningKey,
+  TokenRefreshRequest,
+  TokenRefreshResponse,
+  FollowerIdentity,
+  FollowerAuthMethod,
+  EnrolledFollower,
+  EnrolledFollowerStatus,
+  JoinTokenResponse,
+  LeaderAuth,
+  LeaderTLSOptions,
 } from "./distributed/index.js";
 
 export {
@@ -45,21 +105,37 @@ export {
   withRuntime,
   withRuntimeFromEnv,
   AGENT_TOKEN_ENV,
+  AGENT_TOKEN_FILE_ENV,
+  BrokerTokenRefresher,
 } from "./runtime.js";
-export type { RuntimeConfig, RuntimeStatus } from "./runtime.js";
+export type { RuntimeConfig, RuntimeStatus, TokenRefresher } from "./runtime.js";
 
 export type {
   AgentToken,
   DelegationRequest,
+  ElevationRequest,
+  ElevationInfo,
+  ConsentGrant,
+  OIDCAssertion,
+  TokenExchangeRequest,
+  FederatedIdpConfig,
+  ScopeTemplate,
   VerificationResult,
+  RevocationChecker,
+  TokenFormat,
+  SigningKeyProvider,
   CredentialResult,
   Constraints,
   ScopeConstraint,
+  UsageBudget,
+  LineageIdentity,
+  ArgConstraint,
   GitHubProviderConfig,
   GoogleProviderConfig,
   AWSProviderConfig,
   APIKeyProviderConfig,
   SlackProviderConfig,
+  ReplicatedProviderConfigs,
   BrokerConfig,
   SerializedToken,
   // MAP integration types
@@ -87,8 +163,12 @@ export {
   verifyToolSchema,
   checkMCPCall,
   formatDecision,
+  checkArgs,
+  formatArgRule,
+  mergeArgConstraints,
   issueMCPCredential,
   verifyMCPCredential,
+  MAX_MCP_CREDENTIAL_TTL_SECONDS,
   requireApprovalIf,
   denyIf,
   verifyServerIdentity,
@@ -102,10 +182,34 @@ export {
   MemoryAuditSink,
   NullAuditSink,
   getOrCreateMCPSigningKey,
+  getOrCreateTokenSigningKey,
+  loadTokenSigningKey,
+  loadMCPVerificationKeys,
+  loadMCPSigningKeyring,
+  rotateMCPSigningKey,
+  importMCPSigningKeyring,
   brokerPublicKeyToJwk,
   publicKeyToJwks,
+  publicKeysToJwks,
   HttpSchemaPinRegistry,
   PinConflictError,
+  PIN_OPERATOR_HEADER,
+  PinRegistryServer,
+  requestApproval,
+  approvalArgsHash,
+  signApprovalReceipt,
+  verifyApprovalReceipt,
+  ConsoleApprovalProvider,
+  FileQueueApprovalProvider,
+  WebhookApprovalProvider,
+  APPROVAL_SIGNATURE_HEADER,
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+  parseHookPayload,
+  toHookResponse,
+  precheckToolCall,
+  FileToolsSnapshotStore,
+  loadMCPServersConfig,
+  listToolsFromStdioServer,
 } from "./mcp/index.js";
 export type {
   MCPTool,
@@ -115,6 +219,9 @@ export type {
   SchemaVerification,
   Decision,
   CheckMCPCallOptions,
+  ArgRuleKind,
+  ArgRuleResult,
+  ArgCheckResult,
   IssueMCPCredentialOptions,
   MCPCredential,
   VerifyMCPCredentialOptions,
@@ -131,7 +238,24 @@ export type {
   MCPAuditSink,
   BuildDecisionEventArgs,
   MCPSigningKey,
+  TokenSigningKey,
+  MCPSigningKeyring,
+  RetiredMCPSigningKey,
   HttpSchemaPinRegistryOptions,
+  PinRegistryServerOptions,
+  AsyncApprovalProvider,
+  ApprovalRequest,
+  ApprovalRequestParams,
+  ApprovalResponse,
+  ApprovalReceipt,
+  RequestApprovalOptions,
+  ConsoleApprovalProviderOptions,
+  WebhookApprovalProviderOptions,
+  HookToolCall,
+  HookResponse,
+  ToolsSnapshot,
+  StdioServerCommand,
+  PrecheckOptions,
 } from "./mcp/index.js";
 
 // Persistent identity
@@ -141,6 +265,9 @@ export {
   PlatformIdentityProvider,
   SpiffeIdentityProvider,
   DidWebIdentityProvider,
+  FederatedIdentityProvider,
+  userPrincipalId,
+  USER_PRINCIPAL_PREFIX,
   verifyIdentityProof,
   createEndorsement,
   createVcEndorsement,
@@ -159,6 +286,7 @@ export type {
   DidDocument,
   DidVerificationMethod,
   DidService,
+  UserPrincipal,
   StandaloneVerificationResult,
   VerifiedEndorsement,
   TrustClaimType,
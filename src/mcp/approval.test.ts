@@ -0,0 +1,283 @@
+/**
+ * Tests for the async approval contract: requestApproval(), receipt
+ * signing, and the console / file-queue / webhook providers.
+ */
+
+import { test, describe, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PassThrough } from "stream";
+import {
+  requestApproval,
+  approvalArgsHash,
+  verifyApprovalReceipt,
+  ConsoleApprovalProvider,
+  FileQueueApprovalProvider,
+  WebhookApprovalProvider,
+  APPROVAL_SIGNATURE_HEADER,
+  type ApprovalRequest,
+  type ApprovalResponse,
+  type AsyncApprovalProvider,
+} from "./approval.js";
+import { MemoryAuditSink } from "./audit.js";
+
+function ed25519Keys() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+  return {
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/** Provider whose answer is set by the test, after `afterPolls` polls. */
+class ScriptedProvider implements AsyncApprovalProvider {
+  submitted: ApprovalRequest[] = [];
+  cancelled: string[] = [];
+  polls = 0;
+  constructor(private answer?: ApprovalResponse, private afterPolls = 0) {}
+  async submit(request: ApprovalRequest): Promise<void> {
+    this.submitted.push(request);
+  }
+  async poll(): Promise<ApprovalResponse | undefined> {
+    return ++this.polls > this.afterPolls ? this.answer : undefined;
+  }
+  async cancel(requestId: string): Promise<void> {
+    this.cancelled.push(requestId);
+  }
+}
+
+const CALL = {
+  agentId: "agent-1",
+  tokenId: "tok-1",
+  server: "fs",
+  tool: "delete_file",
+  args: { path: "/tmp/x" },
+  reason: "destructiveHint",
+};
+
+describe("requestApproval", () => {
+  const keys = ed25519Keys();
+
+  test("returns a signed receipt for an approval and audits it", async () => {
+    const provider = new ScriptedProvider({ approved: true, approver: "alice" }, 2);
+    const sink = new MemoryAuditSink();
+    const receipt = await requestApproval(provider, CALL, {
+      signingKey: keys.privateKey,
+      pollIntervalMs: 1,
+      auditSink: sink,
+    });
+
+    assert.strictEqual(receipt.outcome, "approved");
+    assert.strictEqual(receipt.approver, "alice");
+    assert.strictEqual(receipt.requestId, provider.submitted[0].requestId);
+    assert.match(receipt.requestId, /^apr_/);
+    assert.strictEqual(receipt.argsHash, approvalArgsHash({ path: "/tmp/x" }));
+    assert.strictEqual(verifyApprovalReceipt(receipt, keys.publicKey), true);
+
+    assert.deepStrictEqual(
+      sink.events.map((e) => e.kind),
+      ["mcp.approval.requested", "mcp.approval.granted"]
+    );
+    assert.strictEqual(sink.events[1].context?.approver, "alice");
+  });
+
+  test("denials and expiries produce denied audit events", async () => {
+    const sink = new MemoryAuditSink();
+    const denied = await requestApproval(
+      new ScriptedProvider({ approved: false, approver: "bob", reason: "no" }),
+      CALL,
+      { signingKey: keys.privateKey, auditSink: sink }
+    );
+    assert.strictEqual(denied.outcome, "denied");
+    assert.strictEqual(denied.reason, "no");
+
+    const silent = new ScriptedProvider();
+    const expired = await requestApproval(silent, CALL, {
+      signingKey: keys.privateKey,
+      timeoutMs: 20,
+      pollIntervalMs: 5,
+      auditSink: sink,
+    });
+    assert.strictEqual(expired.outcome, "expired");
+    assert.strictEqual(expired.approver, undefined);
+    assert.deepStrictEqual(silent.cancelled, [expired.requestId]);
+    assert.strictEqual(verifyApprovalReceipt(expired, keys.publicKey), true);
+
+    assert.deepStrictEqual(
+      sink.events.filter((e) => e.kind === "mcp.approval.denied").map((e) => e.context?.outcome),
+      ["denied", "expired"]
+    );
+  });
+
+  test("receipts survive JSON round trips but not tampering or other keys", async () => {
+    const receipt = await requestApproval(
+      new ScriptedProvider({ approved: true, approver: "alice" }),
+      { ...CALL, args: undefined },
+      { signingKey: keys.privateKey }
+    );
+    const roundTripped = JSON.parse(JSON.stringify(receipt));
+    assert.strictEqual(verifyApprovalReceipt(roundTripped, keys.publicKey), true);
+    assert.strictEqual(
+      verifyApprovalReceipt({ ...receipt, tool: "format_disk" }, keys.publicKey),
+      false
+    );
+    assert.strictEqual(verifyApprovalReceipt(receipt, ed25519Keys().publicKey), false);
+  });
+});
+
+describe("ConsoleApprovalProvider", () => {
+  test("treats y/yes as approval and anything else as denial", async () => {
+    for (const [answer, approved] of [["yes\n", true], ["n\n", false], ["\n", false]] as const) {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const provider = new ConsoleApprovalProvider({ input, output, approver: "console:test" });
+      await provider.submit({
+        requestId: "apr_1",
+        server: "fs",
+        tool: "delete_file",
+        reason: "destructiveHint",
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      });
+      assert.strictEqual(await provider.poll("apr_1"), undefined);
+      input.write(answer);
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.deepStrictEqual(await provider.poll("apr_1"), {
+        approved,
+        approver: "console:test",
+      });
+      assert.match(String(output.read()), /Approve fs\/delete_file/);
+    }
+  });
+});
+
+describe("FileQueueApprovalProvider", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-approval-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("queues requests until an approver decides", async () => {
+    const harness = new FileQueueApprovalProvider(tmpDir);
+    const approver = new FileQueueApprovalProvider(tmpDir);
+    const keys = ed25519Keys();
+
+    const pending = requestApproval(harness, CALL, {
+      signingKey: keys.privateKey,
+      pollIntervalMs: 5,
+    });
+    while (approver.listPending().length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    const [request] = approver.listPending();
+    assert.deepStrictEqual(request.args, CALL.args);
+
+    approver.decide(request.requestId, { approved: true, approver: "ops@example.test" });
+    assert.throws(
+      () => approver.decide(request.requestId, { approved: false, approver: "x" }),
+      /already been decided/
+    );
+
+    const receipt = await pending;
+    assert.strictEqual(receipt.outcome, "approved");
+    assert.strictEqual(receipt.approver, "ops@example.test");
+    assert.deepStrictEqual(approver.listPending(), []);
+  });
+
+  test("rejects unknown and path-like request IDs", () => {
+    const queue = new FileQueueApprovalProvider(tmpDir);
+    assert.throws(
+      () => queue.decide("apr_missing", { approved: true, approver: "x" }),
+      /No pending approval request/
+    );
+    assert.throws(
+      () => queue.decide("../escape", { approved: true, approver: "x" }),
+      /Invalid approval request ID/
+    );
+  });
+
+  test("cancel withdraws an expired request", async () => {
+    const queue = new FileQueueApprovalProvider(tmpDir);
+    const receipt = await requestApproval(queue, CALL, {
+      signingKey: ed25519Keys().privateKey,
+      timeoutMs: 10,
+      pollIntervalMs: 5,
+    });
+    assert.strictEqual(receipt.outcome, "expired");
+    assert.deepStrictEqual(queue.listPending(), []);
+  });
+});
+
+describe("WebhookApprovalProvider", () => {
+  const secret = "s3cret";
+  const sign = (body: string) =>
+    `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+
+  function fakeFetch(reply: unknown = {}) {
+    const calls: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+    const impl: typeof fetch = async (input, init) => {
+      calls.push({
+        url: String(input),
+        headers: init?.headers as Record<string, string>,
+        body: init?.body as string,
+      });
+      return new Response(JSON.stringify(reply), { status: 200 });
+    };
+    return { impl, calls };
+  }
+
+  const request: ApprovalRequest = {
+    requestId: "apr_1",
+    server: "fs",
+    tool: "delete_file",
+    reason: "destructiveHint",
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  };
+
+  test("posts signed requests and accepts signed callbacks", async () => {
+    const { impl, calls } = fakeFetch();
+    const provider = new WebhookApprovalProvider({
+      url: "https://approvals.example.test/hook",
+      secret,
+      authToken: "tok",
+      fetchImpl: impl,
+    });
+    await provider.submit(request);
+
+    assert.strictEqual(calls[0].headers[APPROVAL_SIGNATURE_HEADER], sign(calls[0].body));
+    assert.strictEqual(calls[0].headers["Authorization"], "Bearer tok");
+    assert.deepStrictEqual(JSON.parse(calls[0].body).request.requestId, "apr_1");
+    assert.strictEqual(await provider.poll("apr_1"), undefined);
+
+    const forged = JSON.stringify({ requestId: "apr_1", approved: true, approver: "mallory" });
+    assert.throws(() => provider.handleCallback(forged, "sha256=00"), /does not verify/);
+
+    const callback = JSON.stringify({ requestId: "apr_1", approved: false, approver: "bob" });
+    provider.handleCallback(callback, sign(callback));
+    assert.deepStrictEqual(await provider.poll("apr_1"), { approved: false, approver: "bob" });
+    assert.throws(() => provider.handleCallback(callback, sign(callback)), /No pending/);
+  });
+
+  test("takes an inline decision from the webhook response", async () => {
+    const { impl } = fakeFetch({ approved: true, approver: "auto-policy" });
+    const provider = new WebhookApprovalProvider({
+      url: "https://approvals.example.test/hook",
+      secret,
+      fetchImpl: impl,
+    });
+    await provider.submit(request);
+    assert.deepStrictEqual(await provider.poll("apr_1"), {
+      approved: true,
+      approver: "auto-policy",
+    });
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * Asynchronous Approval Contract for `ask` Decisions
+ *
+ * `Decision.kind === "ask"` only says *that* a human must approve a call.
+ * This module is the standard shape for *how*: the harness hands an
+ * `ApprovalRequest` to an `AsyncApprovalProvider`, which surfaces it to
+ * approvers (a terminal, a shared queue directory, a Slack/email bot
+ * behind a webhook) and later reports their answer. Approvals may take
+ * seconds or hours, so providers are poll-based and every request carries
+ * an expiry.
+ *
+ * `requestApproval()` drives one request end to end: submit, poll until
+ * decided or expired, then return an Ed25519-signed `ApprovalReceipt`
+ * (who approved what, when) and record `mcp.approval.*` audit events.
+ * `Broker.requestApproval()` wraps it with the broker's MCP signing key
+ * and can mint a single-use token for the approved call.
+ *
+ * Built-in providers:
+ *   - `ConsoleApprovalProvider` — y/N prompt on a terminal.
+ *   - `FileQueueApprovalProvider` — pending requests as files; approvers
+ *     answer with `agent-iam approval approve|deny`.
+ *   - `WebhookApprovalProvider` — POSTs requests to an approval service,
+ *     which answers inline or later via an HMAC-signed callback.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { canonicalize } from "../identity/jcs.js";
+import type { MCPAuditSink } from "./audit.js";
+
+/** Default time an approval request stays open (15 minutes). */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Prefix on the signed receipt payload, keeping receipt signatures distinct. */
+const RECEIPT_CONTEXT = "agent-iam approval receipt\n";
+
+/** A pending request for a human to approve one MCP tool call. */
+export interface ApprovalRequest {
+  /** Unique request ID (`apr_<uuid>`). */
+  requestId: string;
+  /** Agent asking to make the call. */
+  agentId?: string;
+  /** Token the call would be made with. */
+  tokenId?: string;
+  /** MCP server name. */
+  server: string;
+  /** Tool name. */
+  tool: string;
+  /** Tool call arguments, shown to the approver. */
+  args?: unknown;
+  /** SHA-256 (hex) of the RFC 8785 canonical arguments; binds the receipt to them. */
+  argsHash?: string;
+  /** Why approval is needed (the `ask` decision's reason). */
+  reason: string;
+  /** When the request was made (ISO 8601). */
+  createdAt: string;
+  /** When the request lapses unanswered (ISO 8601). */
+  expiresAt: string;
+}
+
+/** An approver's answer to a request. */
+export interface ApprovalResponse {
+  approved: boolean;
+  /** Who decided (e.g. `console:alice`, an email, an IdP subject). */
+  approver: string;
+  /** Optional note from the approver. */
+  reason?: string;
+}
+
+/**
+ * Backend that puts approval requests in front of humans. `submit` must
+ * return once the request is delivered, not once it is decided; the
+ * decision is collected with `poll`.
+ */
+export interface AsyncApprovalProvider {
+  /** Deliver a new request to approvers. */
+  submit(request: ApprovalRequest): Promise<void>;
+  /** The decision for a request, or undefined while it is still pending. */
+  poll(requestId: string): Promise<ApprovalResponse | undefined>;
+  /** Withdraw a request that expired unanswered. */
+  cancel?(requestId: string): Promise<void>;
+}
+
+/** Signed record of how an approval request ended. */
+export interface ApprovalReceipt {
+  requestId: string;
+  agentId?: string;
+  tokenId?: string;
+  server: string;
+  tool: string;
+  argsHash?: string;
+  outcome: "approved" | "denied" | "expired";
+  /** Who decided (absent when the request expired). */
+  approver?: string;
+  /** Approver's note, or why the request expired. */
+  reason?: string;
+  /** When the request was made (ISO 8601). */
+  requestedAt: string;
+  /** When the outcome was reached (ISO 8601). */
+  decidedAt: string;
+  /** Base64url Ed25519 signature over the other fields. */
+  signature: string;
+}
+
+/** What the harness knows about the call when it asks for approval. */
+export interface ApprovalRequestParams {
+  agentId?: string;
+  tokenId?: string;
+  server: string;
+  tool: string;
+  args?: unknown;
+  reason: string;
+}
+
+/** Options for `requestApproval`. */
+export interface RequestApprovalOptions {
+  /** PEM PKCS8 Ed25519 private key that signs the receipt. */
+  signingKey: string;
+  /** How long the request stays open (default: 15 minutes). */
+  timeoutMs?: number;
+  /** Delay between polls (default: 1 second). */
+  pollIntervalMs?: number;
+  /** Receives `mcp.approval.requested`, `.granted` and `.denied` events. */
+  auditSink?: MCPAuditSink;
+}
+
+/** SHA-256 (hex) of a tool call's RFC 8785 canonical arguments. */
+export function approvalArgsHash(args: unknown): string {
+  return crypto.createHash("sha256").update(canonicalize(args)).digest("hex");
+}
+
+/**
+ * Ask a provider for approval of one tool call and wait for the outcome.
+ * Never throws for a denial or expiry; check `receipt.outcome`.
+ */
+export async function requestApproval(
+  provider: AsyncApprovalProvider,
+  params: ApprovalRequestParams,
+  options: RequestApprovalOptions
+): Promise<ApprovalReceipt> {
+  const now = Date.now();
+  const request: ApprovalRequest = {
+    requestId: `apr_${crypto.randomUUID()}`,
+    agentId: params.agentId,
+    tokenId: params.tokenId,
+    server: params.server,
+    tool: params.tool,
+    args: params.args,
+    argsHash: params.args === undefined ? undefined : approvalArgsHash(params.args),
+    reason: params.reason,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + (options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS)).toISOString(),
+  };
+
+  await options.auditSink?.record({
+    timestamp: request.createdAt,
+    kind: "mcp.approval.requested",
+    agentId: request.agentId,
+    tokenId: request.tokenId,
+    server: request.server,
+    tool: request.tool,
+    decision: "ask",
+    reason: request.reason,
+    context: { requestId: request.requestId, expiresAt: request.expiresAt },
+  });
+
+  await provider.submit(request);
+  const response = await pollForDecision(provider, request, options.pollIntervalMs ?? 1000);
+  if (!response) {
+    await provider.cancel?.(request.requestId);
+  }
+
+  const receipt = signApprovalReceipt(
+    {
+      requestId: request.requestId,
+      agentId: request.agentId,
+      tokenId: request.tokenId,
+      server: request.server,
+      tool: request.tool,
+      argsHash: request.argsHash,
+      outcome: !response ? "expired" : response.approved ? "approved" : "denied",
+      approver: response?.approver,
+      reason: response ? response.reason : "Approval request expired unanswered",
+      requestedAt: request.createdAt,
+      decidedAt: new Date().toISOString(),
+    },
+    options.signingKey
+  );
+
+  await options.auditSink?.record({
+    timestamp: receipt.decidedAt,
+    kind: receipt.outcome === "approved" ? "mcp.approval.granted" : "mcp.approval.denied",
+    agentId: receipt.agentId,
+    tokenId: receipt.tokenId,
+    server: receipt.server,
+    tool: receipt.tool,
+    decision: receipt.outcome === "approved" ? "allow" : "deny",
+    reason: receipt.reason,
+    context: {
+      requestId: receipt.requestId,
+      outcome: receipt.outcome,
+      approver: receipt.approver,
+    },
+  });
+  return receipt;
+}
+
+/** Sign receipt fields with an Ed25519 private key (PEM PKCS8). */
+export function signApprovalReceipt(
+  fields: Omit<ApprovalReceipt, "signature">,
+  privateKey: string
+): ApprovalReceipt {
+  const payload = Buffer.from(RECEIPT_CONTEXT + canonicalize(stripUndefined(fields)));
+  const signature = crypto
+    .sign(null, payload, crypto.createPrivateKey(privateKey))
+    .toString("base64url");
+  return { ...fields, signature };
+}
+
+/** Check a receipt against the signer's Ed25519 public key (PEM SPKI). */
+export function verifyApprovalReceipt(receipt: ApprovalReceipt, publicKey: string): boolean {
+  const { signature, ...fields } = receipt;
+  if (typeof signature !== "string") return false;
+  const payload = Buffer.from(RECEIPT_CONTEXT + canonicalize(stripUndefined(fields)));
+  try {
+    return crypto.verify(
+      null,
+      payload,
+      crypto.createPublicKey(publicKey),
+      Buffer.from(signature, "base64url")
+    );
+  } catch {
+    return false;
+  }
+}
+
+async function pollForDecision(
+  provider: AsyncApprovalProvider,
+  request: ApprovalRequest,
+  pollIntervalMs: number
+): Promise<ApprovalResponse | undefined> {
+  const deadline = Date.parse(request.expiresAt);
+  for (;;) {
+    const response = await provider.poll(request.requestId);
+    if (response) return response;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return undefined;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remaining)));
+  }
+}
+
+/** Drop undefined fields so a receipt verifies the same after a JSON round trip. */
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// CONSOLE
+// ─────────────────────────────────────────────────────────────────
+
+/** Options for `ConsoleApprovalProvider`. */
+export interface ConsoleApprovalProviderOptions {
+  /** Where answers are read from (default: process.stdin). */
+  input?: NodeJS.ReadableStream;
+  /** Where prompts are written (default: process.stderr). */
+  output?: NodeJS.WritableStream;
+  /** Approver identity stamped on answers (default: `console:<os user>`). */
+  approver?: string;
+}
+
+/**
+ * Prompts on a terminal and treats `y`/`yes` as approval. One prompt at a
+ * time; only suitable for an interactive harness.
+ */
+export class ConsoleApprovalProvider implements AsyncApprovalProvider {
+  private readonly input: NodeJS.ReadableStream;
+  private readonly output: NodeJS.WritableStream;
+  private readonly approver: string;
+  private readonly answers = new Map<string, ApprovalResponse>();
+  private readonly prompts = new Map<string, readline.Interface>();
+
+  constructor(options: ConsoleApprovalProviderOptions = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stderr;
+    this.approver = options.approver ?? `console:${os.userInfo().username}`;
+  }
+
+  async submit(request: ApprovalRequest): Promise<void> {
+    const rl = readline.createInterface({ input: this.input, output: this.output });
+    this.prompts.set(request.requestId, rl);
+
+    const args = request.args === undefined ? "" : `\n  args: ${JSON.stringify(request.args)}`;
+    rl.question(
+      `Approve ${request.server}/${request.tool} for ${request.agentId ?? "agent"}? ` +
+        `${request.reason}${args}\n[y/N] `,
+      (answer) => {
+        this.answers.set(request.requestId, {
+          approved: /^y(es)?$/i.test(answer.trim()),
+          approver: this.approver,
+        });
+        this.close(request.requestId);
+      }
+    );
+  }
+
+  async poll(requestId: string): Promise<ApprovalResponse | undefined> {
+    return this.answers.get(requestId);
+  }
+
+  async cancel(requestId: string): Promise<void> {
+    this.close(requestId);
+  }
+
+  private close(requestId: string): void {
+    this.prompts.get(requestId)?.close();
+    this.prompts.delete(requestId);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+// FILE QUEUE
+// ─────────────────────────────────────────────────────────────────
+
+const PENDING_DIR = "pending";
+const DECISIONS_DIR = "decisions";
+
+/**
+ * Queue directory shared by the harness and approvers:
+ *
+ *   {dir}/pending/{requestId}.json    — requests awaiting a decision
+ *   {dir}/decisions/{requestId}.json  — answers written by `decide()`
+ *
+ * The harness side uses `submit`/`poll`; approvers use `listPending` and
+ * `decide` (the `agent-iam approval` commands). Collected decisions and
+ * cancelled requests are removed.
+ */
+export class FileQueueApprovalProvider implements AsyncApprovalProvider {
+  private readonly pendingDir: string;
+  private readonly decisionsDir: string;
+
+  constructor(dir: string) {
+    this.pendingDir = path.join(dir, PENDING_DIR);
+    this.decisionsDir = path.join(dir, DECISIONS_DIR);
+  }
+
+  async submit(request: ApprovalRequest): Promise<void> {
+    this.write(this.pendingPath(request.requestId), request);
+  }
+
+  async poll(requestId: string): Promise<ApprovalResponse | undefined> {
+    const decisionPath = this.decisionPath(requestId);
+    if (!fs.existsSync(decisionPath)) return undefined;
+    const response = JSON.parse(fs.readFileSync(decisionPath, "utf-8")) as ApprovalResponse;
+    fs.rmSync(decisionPath, { force: true });
+    fs.rmSync(this.pendingPath(requestId), { force: true });
+    return response;
+  }
+
+  async cancel(requestId: string): Promise<void> {
+    fs.rmSync(this.pendingPath(requestId), { force: true });
+  }
+
+  /** Requests awaiting a decision, oldest first. */
+  listPending(): ApprovalRequest[] {
+    if (!fs.existsSync(this.pendingDir)) return [];
+    return fs
+      .readdirSync(this.pendingDir)
+      .filter((file) => file.endsWith(".json"))
+      .map(
+        (file) =>
+          JSON.parse(fs.readFileSync(path.join(this.pendingDir, file), "utf-8")) as ApprovalRequest
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** Answer a pending request. Throws if it is unknown or already answered. */
+  decide(requestId: string, response: ApprovalResponse): void {
+    if (!fs.existsSync(this.pendingPath(requestId))) {
+      throw new Error(`No pending approval request "${requestId}"`);
+    }
+    if (fs.existsSync(this.decisionPath(requestId))) {
+      throw new Error(`Approval request "${requestId}" has already been decided`);
+    }
+    this.write(this.decisionPath(requestId), response);
+  }
+
+  private pendingPath(requestId: string): string {
+    return path.join(this.pendingDir, `${safeRequestId(requestId)}.json`);
+  }
+
+  private decisionPath(requestId: string): string {
+    return path.join(this.decisionsDir, `${safeRequestId(requestId)}.json`);
+  }
+
+  private write(filePath: string, value: unknown): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    // Write-then-rename so the other side never reads a partial file
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, filePath);
+  }
+}
+
+/** Request IDs become file names; refuse anything that could escape the queue. */
+function safeRequestId(requestId: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(requestId)) {
+    throw new Error(`Invalid approval request ID "${requestId}"`);
+  }
+  return requestId;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// WEBHOOK
+// ─────────────────────────────────────────────────────────────────
+
+/** Header carrying `sha256=<hex HMAC>` of the body, both directions. */
+export const APPROVAL_SIGNATURE_HEADER = "X-Agent-IAM-Signature";
+
+/** Options for `WebhookApprovalProvider`. */
+export interface WebhookApprovalProviderOptions {
+  /** Approval service endpoint that receives `POST {request}`. */
+  url: string;
+  /** Shared secret for the HMAC signature on requests and callbacks. */
+  secret: string;
+  /** Optional bearer token sent in `Authorization: Bearer <token>`. */
+  authToken?: string;
+  /** Override the global fetch (useful for tests). */
+  fetchImpl?: typeof fetch;
+  /** Per-request timeout in ms (default: 10_000). */
+  timeoutMs?: number;
+}
+
+/**
+ * Sends each request to an approval service as JSON (`{ request }`),
+ * signed with `X-Agent-IAM-Signature: sha256=<HMAC-SHA256(secret, body)>`.
+ *
+ * The service may answer inline by responding with an `ApprovalResponse`
+ * body, or later by calling back: the host routes the callback body and
+ * signature header to `handleCallback()`, which accepts
+ * `{ requestId, approved, approver, reason? }` signed the same way.
+ */
+export class WebhookApprovalProvider implements AsyncApprovalProvider {
+  private readonly url: string;
+  private readonly secret: string;
+  private readonly authToken?: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly pending = new Set<string>();
+  private readonly answers = new Map<string, ApprovalResponse>();
+
+  constructor(options: WebhookApprovalProviderOptions) {
+    if (!options.url) {
+      throw new Error("WebhookApprovalProvider: url is required");
+    }
+    if (!options.secret) {
+      throw new Error("WebhookApprovalProvider: secret is required");
+    }
+    this.url = options.url;
+    this.secret = options.secret;
+    this.authToken = options.authToken;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async submit(request: ApprovalRequest): Promise<void> {
+    const body = JSON.stringify({ request });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      [APPROVAL_SIGNATURE_HEADER]: this.sign(body),
+    };
+    if (this.authToken) {
+      headers["Authorization"] = `Bearer ${this.authToken}`;
+    }
+
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), this.timeoutMs);
+    try {
+      const res = await this.fetchImpl(this.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: ctrl.signal,
+        redirect: "error",
+      });
+      if (res.status < 200 || res.status >= 300) {
+        throw new Error(`WebhookApprovalProvider.submit: HTTP ${res.status}`);
+      }
+      this.pending.add(request.requestId);
+
+      const text = await res.text();
+      const inline = text ? (JSON.parse(text) as Partial<ApprovalResponse>) : undefined;
+      if (isApprovalResponse(inline)) {
+        this.resolve(request.requestId, inline);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async poll(requestId: string): Promise<ApprovalResponse | undefined> {
+    return this.answers.get(requestId);
+  }
+
+  async cancel(requestId: string): Promise<void> {
+    this.pending.delete(requestId);
+  }
+
+  /**
+   * Accept a decision callback from the approval service. Throws if the
+   * signature does not verify, the body is malformed, or the request is
+   * not pending.
+   */
+  handleCallback(body: string, signature: string | undefined): void {
+    const expected = this.sign(body);
+    if (
+      typeof signature !== "string" ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Approval callback signature does not verify");
+    }
+
+    const { requestId, ...response } = JSON.parse(body) as Partial<ApprovalResponse> & {
+      requestId?: string;
+    };
+    if (typeof requestId !== "string" || !isApprovalResponse(response)) {
+      throw new Error("Approval callback must carry requestId, approved and approver");
+    }
+    if (!this.pending.has(requestId)) {
+      throw new Error(`No pending approval request "${requestId}"`);
+    }
+    this.resolve(requestId, response);
+  }
+
+  private resolve(requestId: string, response: ApprovalResponse): void {
+    this.pending.delete(requestId);
+    this.answers.set(requestId, {
+      approved: response.approved,
+      approver: response.approver,
+      ...(response.reason !== undefined && { reason: response.reason }),
+    });
+  }
+
+  private sign(body: string): string {
+    return `sha256=${crypto.createHmac("sha256", this.secret).update(body).digest("hex")}`;
+  }
+}
+
+function isApprovalResponse(value: unknown): value is ApprovalResponse {
+  const v = value as Partial<ApprovalResponse> | undefined;
+  return typeof v?.approved === "boolean" && typeof v.approver === "string" && v.approver !== "";
+}
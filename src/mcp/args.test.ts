@@ -0,0 +1,143 @@
+/**
+ * Tests for argument-level MCP call rules: checking and attenuation.
+ */
+
+import { test, describe } from "node:test";
+import * as assert from "node:assert";
+import { checkArgs, mergeArgConstraints } from "./args.js";
+
+/** The failed rule kind, or "ok" */
+function outcome(result: ReturnType<typeof checkArgs>): string {
+  return result.valid ? "ok" : result.rule.rule;
+}
+
+describe("checkArgs", () => {
+  test("path prefixes are normalized and segment-aware", () => {
+    const rules = { path: { pathPrefixes: ["/srv/data/"] } };
+    assert.strictEqual(outcome(checkArgs(rules, { path: "/srv/data" })), "ok");
+    assert.strictEqual(outcome(checkArgs(rules, { path: "/srv/data/x/../y.txt" })), "ok");
+    assert.strictEqual(outcome(checkArgs(rules, { path: "/srv/database" })), "pathPrefixes");
+    assert.strictEqual(outcome(checkArgs(rules, { path: "/srv/data/../etc" })), "pathPrefixes");
+    assert.strictEqual(outcome(checkArgs(rules, { path: "data/x" })), "pathPrefixes");
+    assert.strictEqual(outcome(checkArgs(rules, { path: 42 })), "pathPrefixes");
+  });
+
+  test("hosts match exactly or by subdomain wildcard", () => {
+    const rules = { url: { hosts: ["example.com", "*.docs.test"] } };
+    const check = (url: string) => outcome(checkArgs(rules, { url }));
+    assert.strictEqual(check("https://EXAMPLE.com./a"), "ok");
+    assert.strictEqual(check("https://api.docs.test/"), "ok");
+    assert.strictEqual(check("https://docs.test/"), "hosts");
+    assert.strictEqual(check("https://example.com.evil.test/"), "hosts");
+    assert.strictEqual(check("https://example.com@evil.test/"), "hosts");
+    assert.strictEqual(check("not a url"), "hosts");
+  });
+
+  test("pattern, enum, maxLength and max", () => {
+    const rules = {
+      branch: { pattern: "feature/[a-z-]+" },
+      mode: { enum: ["read", "list"] },
+      query: { maxLength: 5 },
+      limit: { max: 100 },
+    };
+    const ok = { branch: "feature/x-y", mode: "read", query: "abc", limit: 100 };
+    const result = checkArgs(rules, ok);
+    assert.strictEqual(outcome(result), "ok");
+    assert.deepStrictEqual(
+      result.valid && result.rules.map((r) => r.rule),
+      ["pattern", "enum", "maxLength", "max"]
+    );
+
+    assert.strictEqual(outcome(checkArgs(rules, { ...ok, branch: "main feature/x" })), "pattern");
+    assert.strictEqual(outcome(checkArgs(rules, { ...ok, mode: "write" })), "enum");
+    const query = ["a", "b", "c", "d", "e", "f"];
+    assert.strictEqual(outcome(checkArgs(rules, { ...ok, query })), "maxLength");
+    assert.strictEqual(outcome(checkArgs(rules, { ...ok, limit: "1" })), "max");
+    assert.strictEqual(outcome(checkArgs({ x: { pattern: "(" } }, { x: "(" })), "pattern");
+  });
+
+  test("constrained arguments are required unless optional", () => {
+    const result = checkArgs({ path: { pathPrefixes: ["/srv"] } }, undefined);
+    assert.deepStrictEqual(result, {
+      valid: false,
+      rule: { arg: "path", rule: "present" },
+      error: 'Argument "path" is required',
+    });
+    assert.strictEqual(
+      outcome(checkArgs({ path: { pathPrefixes: ["/srv"], optional: true } }, {})),
+      "ok"
+    );
+  });
+});
+
+describe("mergeArgConstraints", () => {
+  const scope = "mcp:fs:read_file";
+
+  test("inherits, accumulates and narrows", () => {
+    const merged = mergeArgConstraints(
+      { path: { pathPrefixes: ["/srv"], maxLength: 100 }, mode: { enum: ["read", "list"] } },
+      { path: { pathPrefixes: ["/srv/data"], maxLength: 200 }, limit: { max: 10 } },
+      scope
+    );
+    assert.deepStrictEqual(merged, {
+      path: { pathPrefixes: ["/srv/data"], maxLength: 100 },
+      mode: { enum: ["read", "list"] },
+      limit: { max: 10 },
+    });
+    assert.strictEqual(mergeArgConstraints(undefined, undefined, scope), undefined);
+  });
+
+  test("refuses wider path prefixes, hosts and enums", () => {
+    assert.throws(
+      () =>
+        mergeArgConstraints(
+          { path: { pathPrefixes: ["/srv/data"] } },
+          { path: { pathPrefixes: ["/srv/data/../../etc"] } },
+          scope
+        ),
+      /Path prefix "\/srv\/data\/..\/..\/etc" for argument "path" of scope "mcp:fs:read_file"/
+    );
+    assert.throws(
+      () =>
+        mergeArgConstraints(
+          { url: { hosts: ["*.example.com"] } },
+          { url: { hosts: ["*.com"] } },
+          scope
+        ),
+      /Host "\*\.com"/
+    );
+    assert.throws(
+      () =>
+        mergeArgConstraints({ m: { enum: ["read"] } }, { m: { enum: ["read", "write"] } }, scope),
+      /Value "write"/
+    );
+    assert.deepStrictEqual(
+      mergeArgConstraints(
+        { url: { hosts: ["*.example.com"] } },
+        { url: { hosts: ["api.example.com"] } },
+        scope
+      ),
+      { url: { hosts: ["api.example.com"] } }
+    );
+  });
+
+  test("patterns combine so both must match", () => {
+    const merged = mergeArgConstraints(
+      { branch: { pattern: "feature/.*" } },
+      { branch: { pattern: ".*-fix" } },
+      scope
+    )!;
+    assert.strictEqual(outcome(checkArgs(merged, { branch: "feature/a-fix" })), "ok");
+    assert.strictEqual(outcome(checkArgs(merged, { branch: "hotfix/a-fix" })), "pattern");
+    assert.strictEqual(outcome(checkArgs(merged, { branch: "feature/a" })), "pattern");
+  });
+
+  test("a child can't make a required argument optional", () => {
+    const merged = mergeArgConstraints(
+      { path: { pathPrefixes: ["/srv"] } },
+      { path: { optional: true } },
+      scope
+    );
+    assert.deepStrictEqual(merged, { path: { pathPrefixes: ["/srv"] } });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Argument-Level MCP Call Policy
+ *
+ * `ScopeConstraint.args` narrows an `mcp:<server>:<tool>` grant by the
+ * call's arguments, the way `resources` narrows provider scopes:
+ *
+ *   "mcp:filesystem:read_file": { args: { path: { pathPrefixes: ["/srv/data"] } } }
+ *   "mcp:web:fetch":            { args: { url: { hosts: ["*.example.com"] } } }
+ *
+ * `checkArgs` evaluates the rules for one call and reports which rule
+ * matched or failed, so decisions and audit events can say why.
+ * `mergeArgConstraints` attenuates them through delegation: a child may
+ * add arguments and tighten rules, never loosen them.
+ *
+ * Rules look at values only. A path prefix can't see symlinks and a host
+ * allowlist can't see redirects; the MCP server has to resolve those.
+ */
+
+import * as path from "path";
+import type { ArgConstraint } from "../types.js";
+
+/** Rule kinds reported in decisions; `present` is the required-argument check. */
+export type ArgRuleKind =
+  | "present"
+  | "pathPrefixes"
+  | "hosts"
+  | "pattern"
+  | "enum"
+  | "maxLength"
+  | "max";
+
+/** One argument rule that was checked. */
+export interface ArgRuleResult {
+  /** Argument name */
+  arg: string;
+  /** Which rule */
+  rule: ArgRuleKind;
+  /** The entry that matched (path prefix or host pattern), when there is one */
+  matched?: string;
+}
+
+/** Result of checking a call's arguments against `ScopeConstraint.args`. */
+export type ArgCheckResult =
+  | { valid: true; rules: ArgRuleResult[] }
+  | { valid: false; rule: ArgRuleResult; error: string };
+
+/**
+ * Check tool-call arguments against per-argument rules. Arguments without
+ * rules are not checked; non-object `args` count as no arguments.
+ */
+export function checkArgs(
+  constraints: Record<string, ArgConstraint>,
+  args: unknown
+): ArgCheckResult {
+  const values: Record<string, unknown> =
+    typeof args === "object" && args !== null && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : {};
+  const rules: ArgRuleResult[] = [];
+
+  for (const [arg, constraint] of Object.entries(constraints)) {
+    const fail = (rule: ArgRuleKind, error: string): ArgCheckResult => ({
+      valid: false,
+      rule: { arg, rule },
+      error: `Argument "${arg}" ${error}`,
+    });
+
+    if (!Object.prototype.hasOwnProperty.call(values, arg) || values[arg] === undefined) {
+      if (constraint.optional) continue;
+      return fail("present", "is required");
+    }
+    const value = values[arg];
+
+    if (constraint.pathPrefixes) {
+      if (typeof value !== "string" || !value.startsWith("/")) {
+        return fail("pathPrefixes", "must be an absolute path");
+      }
+      const normalized = path.posix.normalize(value);
+      const prefix = constraint.pathPrefixes.find((p) => pathWithin(normalized, p));
+      if (prefix === undefined) {
+        return fail("pathPrefixes", "is outside the allowed paths");
+      }
+      rules.push({ arg, rule: "pathPrefixes", matched: prefix });
+    }
+
+    if (constraint.hosts) {
+      const host = typeof value === "string" ? urlHost(value) : undefined;
+      if (host === undefined) {
+        return fail("hosts", "must be a URL");
+      }
+      const pattern = constraint.hosts.find((h) => hostMatches(h, host));
+      if (pattern === undefined) {
+        return fail("hosts", `host "${host}" is not allowed`);
+      }
+      rules.push({ arg, rule: "hosts", matched: pattern });
+    }
+
+    if (constraint.pattern !== undefined) {
+      let matches = false;
+      try {
+        matches =
+          typeof value === "string" && new RegExp(`^(?:${constraint.pattern})$`).test(value);
+      } catch {
+        return fail("pattern", "has an invalid pattern rule");
+      }
+      if (!matches) {
+        return fail("pattern", "does not match the allowed pattern");
+      }
+      rules.push({ arg, rule: "pattern" });
+    }
+
+    if (constraint.enum) {
+      if (!constraint.enum.includes(value as string | number | boolean)) {
+        return fail("enum", "is not one of the allowed values");
+      }
+      rules.push({ arg, rule: "enum" });
+    }
+
+    if (constraint.maxLength !== undefined) {
+      if (typeof value !== "string" && !Array.isArray(value)) {
+        return fail("maxLength", "must be a string or array");
+      }
+      if (value.length > constraint.maxLength) {
+        return fail("maxLength", `exceeds maximum length ${constraint.maxLength}`);
+      }
+      rules.push({ arg, rule: "maxLength" });
+    }
+
+    if (constraint.max !== undefined) {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail("max", "must be a number");
+      }
+      if (value > constraint.max) {
+        return fail("max", `exceeds maximum ${constraint.max}`);
+      }
+      rules.push({ arg, rule: "max" });
+    }
+  }
+
+  return { valid: true, rules };
+}
+
+/** Render a rule result for log lines, e.g. `path:pathPrefixes(/srv/data)`. */
+export function formatArgRule(rule: ArgRuleResult): string {
+  return `${rule.arg}:${rule.rule}${rule.matched !== undefined ? `(${rule.matched})` : ""}`;
+}
+
+/**
+ * Merge argument rules during delegation (child must be narrower). Rules
+ * on different arguments accumulate. Where both constrain an argument,
+ * path prefixes, hosts and enums must be provably within the parent's
+ * (else this throws), limits take the minimum and patterns must both
+ * match.
+ */
+export function mergeArgConstraints(
+  parent: Record<string, ArgConstraint> | undefined,
+  child: Record<string, ArgConstraint> | undefined,
+  scope: string
+): Record<string, ArgConstraint> | undefined {
+  if (!parent || !child) return child ?? parent;
+
+  const merged: Record<string, ArgConstraint> = { ...parent };
+  for (const [arg, rules] of Object.entries(child)) {
+    merged[arg] = parent[arg] ? mergeArgConstraint(parent[arg], rules, scope, arg) : rules;
+  }
+  return merged;
+}
+
+function mergeArgConstraint(
+  parent: ArgConstraint,
+  child: ArgConstraint,
+  scope: string,
+  arg: string
+): ArgConstraint {
+  const notWithin = (what: string, value: string, allowed: unknown[]) =>
+    new Error(
+      `${what} "${value}" for argument "${arg}" of scope "${scope}" is not within ` +
+        `parent's [${allowed.join(", ")}]`
+    );
+  const result: ArgConstraint = {};
+
+  if (parent.pathPrefixes && child.pathPrefixes) {
+    for (const prefix of child.pathPrefixes) {
+      if (!prefix.startsWith("/") || !parent.pathPrefixes.some((p) => pathWithin(prefix, p))) {
+        throw notWithin("Path prefix", prefix, parent.pathPrefixes);
+      }
+    }
+  }
+  result.pathPrefixes = child.pathPrefixes ?? parent.pathPrefixes;
+
+  if (parent.hosts && child.hosts) {
+    for (const host of child.hosts) {
+      if (!parent.hosts.some((p) => hostPatternCovered(p, host))) {
+        throw notWithin("Host", host, parent.hosts);
+      }
+    }
+  }
+  result.hosts = child.hosts ?? parent.hosts;
+
+  if (parent.pattern !== undefined && child.pattern !== undefined) {
+    // Lookahead: the value must match the parent's pattern as well
+    result.pattern =
+      parent.pattern === child.pattern
+        ? child.pattern
+        : `(?=(?:${parent.pattern})$)(?:${child.pattern})`;
+  } else {
+    result.pattern = child.pattern ?? parent.pattern;
+  }
+
+  if (parent.enum && child.enum) {
+    for (const value of child.enum) {
+      if (!parent.enum.includes(value)) {
+        throw notWithin("Value", String(value), parent.enum);
+      }
+    }
+  }
+  result.enum = child.enum ?? parent.enum;
+
+  if (parent.maxLength !== undefined || child.maxLength !== undefined) {
+    result.maxLength = Math.min(parent.maxLength ?? Infinity, child.maxLength ?? Infinity);
+  }
+  if (parent.max !== undefined || child.max !== undefined) {
+    result.max = Math.min(parent.max ?? Infinity, child.max ?? Infinity);
+  }
+  if (parent.optional && child.optional) {
+    result.optional = true;
+  }
+
+  // Drop unset rules so merged tokens stay compact
+  for (const key of Object.keys(result) as Array<keyof ArgConstraint>) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+}
+
+/** Whether normalized absolute `target` is `prefix` or below it */
+function pathWithin(target: string, prefix: string): boolean {
+  const base = path.posix.normalize(prefix).replace(/\/+$/, "");
+  if (base === "") return true; // "/"
+  const normalized = path.posix.normalize(target);
+  return normalized === base || normalized.startsWith(`${base}/`);
+}
+
+/** Lowercased hostname of a URL, without a trailing dot */
+function urlHost(value: string): string | undefined {
+  try {
+    const host = new URL(value).hostname.toLowerCase().replace(/\.$/, "");
+    return host || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `example.com` matches exactly; `*.example.com` matches any subdomain */
+function hostMatches(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith("*.")) {
+    return host.endsWith(p.slice(1)) && host.length > p.length - 1;
+  }
+  return host === p;
+}
+
+/** Whether every host matched by `child` is matched by `parent` */
+function hostPatternCovered(parent: string, child: string): boolean {
+  const c = child.toLowerCase();
+  if (c.startsWith("*.")) {
+    const p = parent.toLowerCase();
+    return p.startsWith("*.") && (c === p || c.endsWith(p.slice(1)));
+  }
+  return hostMatches(parent, c);
+}
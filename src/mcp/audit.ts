@@ -22,6 +22,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import type { Decision } from "./policy.js";
+import type { ArgRuleResult } from "./args.js";
 
 /** Structured audit event for a single MCP policy decision or pin operation. */
 export interface MCPAuditEvent {
@@ -38,9 +39,20 @@ export interface MCPAuditEvent {
     | "mcp.schema.pin"
     | "mcp.schema.drift"
     | "mcp.schema.repin"
-    | "mcp.credential.issued";
+    | "mcp.schema.unpin"
+    | "mcp.credential.issued"
+    | "token.elevation.granted"
+    | "token.elevation.denied"
+    | "token.exchange.granted"
+    | "token.exchange.denied"
+    | "mcp.approval.requested"
+    | "mcp.approval.granted"
+    | "mcp.approval.denied"
+    | "follower.state.changed";
   /** Agent the event is about, when applicable. */
   agentId?: string;
+  /** ID of the capability token involved, when applicable. */
+  tokenId?: string;
   /** MCP server identifier, when applicable. */
   server?: string;
   /** Tool name, when applicable. */
@@ -53,8 +65,13 @@ export interface MCPAuditEvent {
   matchedScope?: string;
   /** Tool-schema hash relevant to the event (e.g., on pin or drift). */
   hash?: string;
-  /** Prior hash, on drift / repin events. */
+  /** Prior hash, on drift / repin / unpin events. */
   priorHash?: string;
+  /**
+   * Argument rules behind a decision: the rules an allow satisfied, or the
+   * single rule a deny failed.
+   */
+  argRules?: ArgRuleResult[];
   /** RFC 8707 audience (the canonical server URI), on credential events. */
   audience?: string;
   /** Free-form additional context the harness wants to record. */
@@ -64,6 +81,7 @@ export interface MCPAuditEvent {
 /** Args for buildAuditEvent's most common usage (decision events). */
 export interface BuildDecisionEventArgs {
   agentId?: string;
+  tokenId?: string;
   server: string;
   tool: string;
   decision: Decision;
@@ -79,6 +97,7 @@ export function buildDecisionEvent(args: BuildDecisionEventArgs): MCPAuditEvent
     timestamp: new Date().toISOString(),
     kind: "mcp.tool.decision",
     agentId: args.agentId,
+    tokenId: args.tokenId,
     server: args.server,
     tool: args.tool,
     decision: args.decision.kind,
@@ -89,6 +108,12 @@ export function buildDecisionEvent(args: BuildDecisionEventArgs): MCPAuditEvent
         : args.decision.kind === "deny"
         ? args.decision.matchedScope
         : undefined,
+    argRules:
+      args.decision.kind === "allow"
+        ? args.decision.argRules
+        : args.decision.kind === "deny" && args.decision.argRule
+        ? [args.decision.argRule]
+        : undefined,
     context: args.context,
   };
 }
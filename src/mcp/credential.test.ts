@@ -5,8 +5,13 @@
 import { test, describe, before } from "node:test";
 import * as assert from "node:assert";
 import * as crypto from "crypto";
-import { SignJWT, importPKCS8 } from "jose";
-import { issueMCPCredential, verifyMCPCredential } from "./credential.js";
+import { SignJWT, decodeProtectedHeader, importPKCS8 } from "jose";
+import {
+  issueMCPCredential,
+  verifyMCPCredential,
+  MAX_MCP_CREDENTIAL_TTL_SECONDS,
+} from "./credential.js";
+import { brokerPublicKeyToJwk, publicKeysToJwks } from "./signing-key.js";
 import type { AgentToken } from "../types.js";
 
 /** Generate an Ed25519 keypair as PEM strings. */
@@ -59,6 +64,21 @@ describe("issueMCPCredential", () => {
     assert.match(cred.jwt, /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
   });
 
+  test("rejects scopes withdrawn by scope-level revocation", async () => {
+    await assert.rejects(
+      () =>
+        issueMCPCredential({
+          agentToken: tokenWith(["mcp:*"]),
+          serverURI: "https://shell.example.com",
+          scopes: ["mcp:shell:exec"],
+          signingKey,
+          issuer: "broker",
+          revokedScopes: ["mcp:shell:*"],
+        }),
+      /has been revoked/
+    );
+  });
+
   test("rejects empty scopes (degenerate credential)", async () => {
     await assert.rejects(
       () =>
@@ -140,6 +160,56 @@ describe("issueMCPCredential", () => {
     assert.ok(expMs - before >= 59_000 && expMs - before <= 61_000,
       `expected ~60s ttl, got ${expMs - before}ms`);
   });
+
+  test("rejects a ttlSeconds above the maximum", async () => {
+    await assert.rejects(
+      issueMCPCredential({
+        agentToken: tokenWith(["mcp:fs:read"]),
+        serverURI: "https://fs",
+        scopes: ["mcp:fs:read"],
+        signingKey,
+        issuer: "broker",
+        ttlSeconds: MAX_MCP_CREDENTIAL_TTL_SECONDS + 1,
+      }),
+      /ttlSeconds must be at most 3600/
+    );
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// Verification — key selection
+// ─────────────────────────────────────────────────────────────────
+
+describe("verifyMCPCredential — JWKS key selection", () => {
+  test("selects the key named by the kid header", async () => {
+    const { kid } = await brokerPublicKeyToJwk(publicKey);
+    const cred = await issueMCPCredential({
+      agentToken: tokenWith(["mcp:fs:read"]),
+      serverURI: "https://fs",
+      scopes: ["mcp:fs:read"],
+      signingKey,
+      keyId: kid,
+      issuer: "broker",
+    });
+    assert.strictEqual(decodeProtectedHeader(cred.jwt).kid, kid);
+
+    // Current key first, as the broker publishes it after a rotation
+    const jwks = await publicKeysToJwks([altPublicKey, publicKey]);
+    const v = await verifyMCPCredential(cred.jwt, { jwks, expectedAudience: "https://fs" });
+    assert.strictEqual(v.valid, true);
+
+    const rotatedOut = await publicKeysToJwks([altPublicKey]);
+    const gone = await verifyMCPCredential(cred.jwt, {
+      jwks: rotatedOut,
+      expectedAudience: "https://fs",
+    });
+    assert.strictEqual(gone.valid, false);
+  });
+
+  test("requires a public key or a JWKS", async () => {
+    const v = await verifyMCPCredential("a.b.c", { expectedAudience: "https://fs" });
+    assert.deepStrictEqual(v, { valid: false, error: "Either publicKey or jwks is required" });
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────
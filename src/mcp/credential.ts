@@ -24,13 +24,27 @@
  * stack so the same keys / DID:key infrastructure can be reused.
  */
 
-import { SignJWT, jwtVerify, importPKCS8, importSPKI } from "jose";
+import {
+  SignJWT,
+  jwtVerify,
+  importPKCS8,
+  importSPKI,
+  createLocalJWKSet,
+  type JSONWebKeySet,
+  type JWTVerifyGetKey,
+} from "jose";
 import type { AgentToken } from "../types.js";
 import { scopeMatches } from "../token.js";
 
 const ALG = "EdDSA";
 const DEFAULT_TTL_SECONDS = 300;
 
+/**
+ * Longest credential lifetime. Bounding it is what lets a rotated-out
+ * signing key be unpublished once this long has passed.
+ */
+export const MAX_MCP_CREDENTIAL_TTL_SECONDS = 3600;
+
 /** Options for issuing an MCP-bound credential. */
 export interface IssueMCPCredentialOptions {
   /** The agent's capability token. Requested scopes must be a subset of these. */
@@ -41,15 +55,22 @@ export interface IssueMCPCredentialOptions {
   scopes: string[];
   /** Ed25519 private key (PEM, PKCS8) the broker uses to sign. */
   signingKey: string;
+  /** `kid` header naming the signing key in the broker's JWKS. */
+  keyId?: string;
   /** Issuer identifier (the broker's identity / URI). */
   issuer: string;
-  /** Time-to-live in seconds. Default: 300 (5 minutes). */
+  /** Time-to-live in seconds. Default: 300 (5 minutes), at most 3600. */
   ttlSeconds?: number;
   /**
    * Optional `act` chain for forward-compatibility with W3 (Human OBO).
    * RFC 8693 actor identification: ordered list, original principal first.
    */
   act?: string[];
+  /**
+   * Scope patterns withdrawn from the agent token by scope-level
+   * revocation. Requested scopes matching any of them are refused.
+   */
+  revokedScopes?: string[];
 }
 
 /** A signed MCP-bound credential plus its expiry. */
@@ -62,7 +83,8 @@ export interface MCPCredential {
  * Issue a JWT credential bound to a single MCP server.
  *
  * Validates that every requested scope is granted by the agent's token
- * (defense in depth — the policy layer should also have checked).
+ * and not withdrawn by a scope-level revocation (defense in depth — the
+ * policy layer should also have checked).
  */
 export async function issueMCPCredential(
   options: IssueMCPCredentialOptions
@@ -84,9 +106,20 @@ export async function issueMCPCredential(
         `issueMCPCredential: scope '${requested}' is not granted by the agent token`
       );
     }
+    const revoked = options.revokedScopes?.some((p) => scopeMatches(p, requested));
+    if (revoked) {
+      throw new Error(
+        `issueMCPCredential: scope '${requested}' has been revoked for the agent token`
+      );
+    }
   }
 
   const ttl = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  if (ttl > MAX_MCP_CREDENTIAL_TTL_SECONDS) {
+    throw new Error(
+      `issueMCPCredential: ttlSeconds must be at most ${MAX_MCP_CREDENTIAL_TTL_SECONDS}`
+    );
+  }
   const now = Math.floor(Date.now() / 1000);
   const exp = now + ttl;
 
@@ -96,7 +129,7 @@ export async function issueMCPCredential(
     scope: options.scopes.join(" "),
     ...(options.act && options.act.length > 0 ? { act: options.act } : {}),
   })
-    .setProtectedHeader({ alg: ALG })
+    .setProtectedHeader({ alg: ALG, ...(options.keyId ? { kid: options.keyId } : {}) })
     .setIssuer(options.issuer)
     .setSubject(options.agentToken.agentId)
     .setAudience(options.serverURI)
@@ -113,8 +146,14 @@ export async function issueMCPCredential(
 
 /** Options for verifying an MCP credential on the receiving side. */
 export interface VerifyMCPCredentialOptions {
-  /** Broker's Ed25519 public key (PEM, SPKI). */
-  publicKey: string;
+  /** Broker's Ed25519 public key (PEM, SPKI). Give this or `jwks`. */
+  publicKey?: string;
+  /**
+   * Broker's JWKS (e.g. fetched from the leader's `/.well-known/jwks.json`).
+   * The key is selected by the credential's `kid` header, so credentials
+   * signed before a key rotation keep verifying.
+   */
+  jwks?: JSONWebKeySet;
   /** The MCP server's own canonical URI. Token's `aud` must match this. */
   expectedAudience: string;
   /** Optional expected issuer; if set, token's `iss` must match. */
@@ -143,14 +182,21 @@ export async function verifyMCPCredential(
   jwt: string,
   options: VerifyMCPCredentialOptions
 ): Promise<VerifiedMCPCredential> {
-  let key;
-  try {
-    key = await importSPKI(options.publicKey, ALG);
-  } catch (err) {
-    return {
-      valid: false,
-      error: `Invalid public key: ${err instanceof Error ? err.message : String(err)}`,
-    };
+  let key: JWTVerifyGetKey;
+  if (options.jwks) {
+    key = createLocalJWKSet(options.jwks);
+  } else if (options.publicKey) {
+    try {
+      const publicKey = await importSPKI(options.publicKey, ALG);
+      key = () => publicKey;
+    } catch (err) {
+      return {
+        valid: false,
+        error: `Invalid public key: ${err instanceof Error ? err.message : String(err)}`,
+      };
+    }
+  } else {
+    return { valid: false, error: "Either publicKey or jwks is required" };
   }
 
   let payload;
@@ -3,10 +3,9 @@
  *
  * For ephemeral / containerized / multi-replica agents that can't rely on a
  * local file-backed registry. Each request goes to a registry server the
- * operator runs (could be an Express/Fastify endpoint, an S3 bucket behind
- * a tiny shim, a Kubernetes ConfigMap controller, etc. — agent-iam
- * deliberately doesn't ship a server, since pin storage is a database
- * concern and operators have strong opinions about it).
+ * operator runs: the reference `PinRegistryServer` (`agent-iam mcp
+ * pin-server`), or their own endpoint over whatever storage they prefer
+ * (a database, an S3 bucket behind a tiny shim, a ConfigMap controller).
  *
  * Documented HTTP contract (see `docs/mcp-policy.md`):
  *
@@ -15,6 +14,11 @@
  *   GET    /pins/:server/:tool           → 200 {hash, pinnedAt} | 404
  *   PUT    /pins/:server/:tool           → 200 (body {hash}) | 409 if conflicting
  *   DELETE /pins/:server/:tool           → 200 | 404
+ *   POST   /pins/:server/:tool/repin     → 200 (body {hash, expectedHash?, reason?}) | 409
+ *
+ * `repin` is the operator path for accepting a changed schema; servers
+ * may restrict it (and DELETE) to operator credentials, identified by the
+ * `X-Agent-IAM-Operator` header the client sends when `operator` is set.
  *
  * Server names and tool names are URL-encoded by the client; the server
  * receives them as path components and is responsible for decoding.
@@ -30,8 +34,11 @@
 
 import type { PinnedTool, SchemaPinRegistry } from "./schema-pin.js";
 
+/** Header naming the operator on repin and delete requests. */
+export const PIN_OPERATOR_HEADER = "X-Agent-IAM-Operator";
+
 /**
- * Thrown by `HttpSchemaPinRegistry.set` when the registry server returns
+ * Thrown by `HttpSchemaPinRegistry.set` and `.repin` when the registry server returns
  * `409 Conflict` — typically meaning a different hash is already pinned for
  * the same (server, tool) pair. Carries the server response body for
  * inspection.
@@ -59,6 +66,11 @@ export interface HttpSchemaPinRegistryOptions {
   fetchImpl?: typeof fetch;
   /** Per-request timeout in ms (default: 10_000). */
   timeoutMs?: number;
+  /**
+   * Operator name sent as `X-Agent-IAM-Operator` on every request. Set it
+   * (with an operator bearer token) for clients that repin or delete.
+   */
+  operator?: string;
 }
 
 /** Server-side wire shape; lines up with PinnedTool. */
@@ -80,6 +92,7 @@ export class HttpSchemaPinRegistry implements SchemaPinRegistry {
   private readonly authToken?: string;
   private readonly fetchImpl: typeof fetch;
   private readonly timeoutMs: number;
+  private readonly operator?: string;
 
   constructor(options: HttpSchemaPinRegistryOptions) {
     if (!options.baseURL) {
@@ -89,6 +102,7 @@ export class HttpSchemaPinRegistry implements SchemaPinRegistry {
     this.authToken = options.authToken;
     this.fetchImpl = options.fetchImpl ?? fetch;
     this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.operator = options.operator;
   }
 
   async get(server: string, tool: string): Promise<PinnedTool | undefined> {
@@ -132,6 +146,49 @@ export class HttpSchemaPinRegistry implements SchemaPinRegistry {
     });
   }
 
+  /**
+   * Replace a pin with `hash` as an operator. With `expectedHash`, the
+   * server refuses (409 → `PinConflictError`) unless that hash is still
+   * the pinned one, so a stale review can't overwrite a newer pin.
+   * Returns the new pin.
+   */
+  async repin(
+    server: string,
+    tool: string,
+    hash: string,
+    options: { expectedHash?: string; reason?: string } = {}
+  ): Promise<PinnedTool> {
+    const url = `${this.baseURL}/pins/${encodeURIComponent(server)}/${encodeURIComponent(tool)}/repin`;
+    return this.withTimeout(async (signal) => {
+      const res = await this.fetchImpl(
+        url,
+        this.requestInit(
+          "POST",
+          { "Content-Type": "application/json" },
+          JSON.stringify({ hash, expectedHash: options.expectedHash, reason: options.reason }),
+          signal
+        )
+      );
+      if (res.status === 409) {
+        let detail = "";
+        try {
+          detail = await res.text();
+        } catch {
+          /* ignore */
+        }
+        throw new PinConflictError(server, tool, detail);
+      }
+      await this.requireOk(res, "repin");
+      const body = (await res.json()) as PinResponse;
+      if (typeof body?.hash !== "string" || typeof body?.pinnedAt !== "string") {
+        throw new Error(
+          `HttpSchemaPinRegistry.repin: malformed response body (missing hash/pinnedAt)`
+        );
+      }
+      return { hash: body.hash, pinnedAt: body.pinnedAt };
+    });
+  }
+
   async delete(server: string, tool: string): Promise<void> {
     const url = `${this.baseURL}/pins/${encodeURIComponent(server)}/${encodeURIComponent(tool)}`;
     return this.withTimeout(async (signal) => {
@@ -185,6 +242,9 @@ export class HttpSchemaPinRegistry implements SchemaPinRegistry {
     if (this.authToken) {
       finalHeaders["Authorization"] = `Bearer ${this.authToken}`;
     }
+    if (this.operator) {
+      finalHeaders[PIN_OPERATOR_HEADER] = this.operator;
+    }
     return {
       method,
       headers: finalHeaders,
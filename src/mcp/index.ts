@@ -2,7 +2,10 @@
  * MCP (Model Context Protocol) access-control module.
  *
  * Provides:
- *   - Tool-schema TOFU pinning (rug-pull defense)
+ *   - Tool-schema TOFU pinning (rug-pull defense), with a reference
+ *     HTTP pin-registry server
+ *   - Asynchronous human approval for `ask` decisions
+ *   - Hook-mode precheck for harnesses that only pass tool name + args
  *
  * Future workstream items wire in alongside:
  *   - Allow/deny scope checking (`mcp:<server>:<tool>`)
@@ -29,7 +32,14 @@ export type {
 export { checkMCPCall, formatDecision } from "./policy.js";
 export type { Decision, CheckMCPCallOptions } from "./policy.js";
 
-export { issueMCPCredential, verifyMCPCredential } from "./credential.js";
+export { checkArgs, formatArgRule, mergeArgConstraints } from "./args.js";
+export type { ArgRuleKind, ArgRuleResult, ArgCheckResult } from "./args.js";
+
+export {
+  issueMCPCredential,
+  verifyMCPCredential,
+  MAX_MCP_CREDENTIAL_TTL_SECONDS,
+} from "./credential.js";
 export type {
   IssueMCPCredentialOptions,
   MCPCredential,
@@ -69,13 +79,67 @@ export type {
 
 export {
   getOrCreateMCPSigningKey,
+  getOrCreateTokenSigningKey,
+  loadTokenSigningKey,
+  loadMCPVerificationKeys,
+  loadMCPSigningKeyring,
+  rotateMCPSigningKey,
+  importMCPSigningKeyring,
   brokerPublicKeyToJwk,
   publicKeyToJwks,
+  publicKeysToJwks,
+} from "./signing-key.js";
+export type {
+  MCPSigningKey,
+  TokenSigningKey,
+  MCPSigningKeyring,
+  RetiredMCPSigningKey,
 } from "./signing-key.js";
-export type { MCPSigningKey } from "./signing-key.js";
 
 export {
   HttpSchemaPinRegistry,
   PinConflictError,
+  PIN_OPERATOR_HEADER,
 } from "./http-pin-registry.js";
 export type { HttpSchemaPinRegistryOptions } from "./http-pin-registry.js";
+
+export { PinRegistryServer } from "./pin-server.js";
+export type { PinRegistryServerOptions } from "./pin-server.js";
+
+export {
+  requestApproval,
+  approvalArgsHash,
+  signApprovalReceipt,
+  verifyApprovalReceipt,
+  ConsoleApprovalProvider,
+  FileQueueApprovalProvider,
+  WebhookApprovalProvider,
+  APPROVAL_SIGNATURE_HEADER,
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+} from "./approval.js";
+export type {
+  AsyncApprovalProvider,
+  ApprovalRequest,
+  ApprovalRequestParams,
+  ApprovalResponse,
+  ApprovalReceipt,
+  RequestApprovalOptions,
+  ConsoleApprovalProviderOptions,
+  WebhookApprovalProviderOptions,
+} from "./approval.js";
+
+export {
+  parseHookPayload,
+  toHookResponse,
+  precheckToolCall,
+  FileToolsSnapshotStore,
+  loadMCPServersConfig,
+  listToolsFromStdioServer,
+} from "./precheck.js";
+export type {
+  HookToolCall,
+  HookResponse,
+  ToolsSnapshot,
+  StdioServerCommand,
+  PrecheckOptions,
+} from "./precheck.js";
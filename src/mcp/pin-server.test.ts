@@ -0,0 +1,157 @@
+/**
+ * Tests for the reference pin-registry server, driven through
+ * HttpSchemaPinRegistry over a real socket.
+ */
+
+import { test, describe, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PinRegistryServer } from "./pin-server.js";
+import { HttpSchemaPinRegistry, PinConflictError } from "./http-pin-registry.js";
+import { FileSchemaPinRegistry } from "./schema-pin.js";
+import { MemoryAuditSink } from "./audit.js";
+
+const HASH_A = "a".repeat(64);
+const HASH_B = "b".repeat(64);
+const HASH_C = "c".repeat(64);
+
+describe("PinRegistryServer", () => {
+  let tmpDir: string;
+  let server: PinRegistryServer;
+  let sink: MemoryAuditSink;
+  let baseURL: string;
+  let agent: HttpSchemaPinRegistry;
+  let operator: HttpSchemaPinRegistry;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-pin-server-"));
+    sink = new MemoryAuditSink();
+    server = new PinRegistryServer({
+      registry: new FileSchemaPinRegistry(tmpDir),
+      authToken: "agent-token",
+      operatorToken: "operator-token",
+      auditSink: sink,
+      port: 0,
+    });
+    baseURL = `http://127.0.0.1:${await server.start()}`;
+    agent = new HttpSchemaPinRegistry({ baseURL, authToken: "agent-token" });
+    operator = new HttpSchemaPinRegistry({
+      baseURL,
+      authToken: "operator-token",
+      operator: "alice",
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("serves the HttpSchemaPinRegistry contract from the pin directory", async () => {
+    assert.strictEqual(await agent.get("fs", "read_file"), undefined);
+    await agent.set("fs", "read_file", HASH_A);
+    await agent.set("git name", "log/all", HASH_B);
+
+    assert.strictEqual((await agent.get("fs", "read_file"))?.hash, HASH_A);
+    assert.strictEqual((await agent.get("git name", "log/all"))?.hash, HASH_B);
+    assert.deepStrictEqual(
+      (await agent.list("fs")).map((e) => [e.server, e.tool, e.pin.hash]),
+      [["fs", "read_file", HASH_A]]
+    );
+    assert.strictEqual((await agent.list()).length, 2);
+    const onDisk = await new FileSchemaPinRegistry(tmpDir).get("fs", "read_file");
+    assert.strictEqual(onDisk?.hash, HASH_A);
+    assert.deepStrictEqual(
+      sink.events.map((e) => e.kind),
+      ["mcp.schema.pin", "mcp.schema.pin"]
+    );
+  });
+
+  test("PUT is compare-and-set", async () => {
+    await agent.set("fs", "read_file", HASH_A);
+    const first = await agent.get("fs", "read_file");
+
+    await agent.set("fs", "read_file", HASH_A);
+    assert.deepStrictEqual(await agent.get("fs", "read_file"), first);
+
+    await assert.rejects(agent.set("fs", "read_file", HASH_B), PinConflictError);
+    assert.strictEqual((await agent.get("fs", "read_file"))?.hash, HASH_A);
+    assert.strictEqual(sink.events.length, 1);
+  });
+
+  test("concurrent first pins race to a single winner", async () => {
+    const results = await Promise.allSettled([
+      agent.set("fs", "read_file", HASH_A),
+      agent.set("fs", "read_file", HASH_B),
+      agent.set("fs", "read_file", HASH_C),
+    ]);
+    assert.strictEqual(results.filter((r) => r.status === "fulfilled").length, 1);
+    assert.ok(
+      results.every((r) => r.status === "fulfilled" || r.reason instanceof PinConflictError)
+    );
+  });
+
+  test("repin requires an operator and is audited", async () => {
+    await agent.set("fs", "read_file", HASH_A);
+
+    await assert.rejects(agent.repin("fs", "read_file", HASH_B), /HTTP 403/);
+    const anonymous = new HttpSchemaPinRegistry({ baseURL, authToken: "operator-token" });
+    await assert.rejects(anonymous.repin("fs", "read_file", HASH_B), /HTTP 400/);
+
+    await assert.rejects(
+      operator.repin("fs", "read_file", HASH_B, { expectedHash: HASH_C }),
+      PinConflictError
+    );
+
+    const pin = await operator.repin("fs", "read_file", HASH_B, {
+      expectedHash: HASH_A,
+      reason: "v2 adds an encoding parameter",
+    });
+    assert.strictEqual(pin.hash, HASH_B);
+    assert.strictEqual((await agent.get("fs", "read_file"))?.hash, HASH_B);
+
+    const repin = sink.events.find((e) => e.kind === "mcp.schema.repin");
+    assert.strictEqual(repin?.priorHash, HASH_A);
+    assert.strictEqual(repin?.hash, HASH_B);
+    assert.strictEqual(repin?.reason, "v2 adds an encoding parameter");
+    assert.deepStrictEqual(repin?.context, { operator: "alice" });
+  });
+
+  test("delete is operator-only and audited", async () => {
+    await agent.set("fs", "read_file", HASH_A);
+    await assert.rejects(agent.delete("fs", "read_file"), /HTTP 403/);
+
+    await operator.delete("fs", "read_file");
+    await operator.delete("fs", "read_file"); // 404 is idempotent for the client
+    assert.strictEqual(await agent.get("fs", "read_file"), undefined);
+
+    const unpin = sink.events.find((e) => e.kind === "mcp.schema.unpin");
+    assert.strictEqual(unpin?.priorHash, HASH_A);
+    assert.deepStrictEqual(unpin?.context, { operator: "alice" });
+  });
+
+  test("rejects bad credentials and malformed hashes", async () => {
+    const stranger = new HttpSchemaPinRegistry({ baseURL, authToken: "wrong" });
+    await assert.rejects(stranger.get("fs", "read_file"), /HTTP 401/);
+    await assert.rejects(new HttpSchemaPinRegistry({ baseURL }).list(), /HTTP 401/);
+    await assert.rejects(agent.set("fs", "read_file", "not-a-hash"), /HTTP 400/);
+
+    const malformed = await fetch(`${baseURL}/pins/fs%E0%A4%A/read_file`, {
+      headers: { Authorization: "Bearer agent-token" },
+    });
+    assert.strictEqual(malformed.status, 400);
+  });
+
+  test("requires distinct agent and operator tokens", () => {
+    assert.throws(
+      () => new PinRegistryServer({ authToken: "same", operatorToken: "same" }),
+      /must differ/
+    );
+    assert.throws(
+      () => new PinRegistryServer({ authToken: "", operatorToken: "x" }),
+      /required/
+    );
+  });
+});
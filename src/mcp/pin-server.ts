@@ -0,0 +1,295 @@
+/**
+ * Reference HTTP pin-registry server for `HttpSchemaPinRegistry`.
+ *
+ * Serves the documented contract (see `docs/mcp-policy.md`) on top of any
+ * `SchemaPinRegistry`, by default `FileSchemaPinRegistry`:
+ *
+ *   GET    /pins[?server=NAME]             → 200 [{server,tool,hash,pinnedAt}, ...]
+ *   GET    /pins/:server/:tool             → 200 {hash, pinnedAt} | 404
+ *   PUT    /pins/:server/:tool             → 200 (body {hash}) | 409 if a different hash is pinned
+ *   DELETE /pins/:server/:tool             → 200 | 404            (operator)
+ *   POST   /pins/:server/:tool/repin       → 200 (body {hash, expectedHash?, reason?}) | 409  (operator)
+ *
+ * PUT is compare-and-set: it pins a tool the first time and is idempotent
+ * for the same hash, but never replaces a different hash — that is
+ * exactly the rug-pull the pin exists to catch. Replacing a pin is the
+ * repin workflow: an operator (operator bearer token plus an
+ * `X-Agent-IAM-Operator` name) accepts the new hash, and the server
+ * records `mcp.schema.repin` (or `mcp.schema.unpin` for DELETE).
+ *
+ * Writes are serialized within the process; run one server per pin
+ * directory.
+ */
+
+import * as crypto from "crypto";
+import * as http from "http";
+import { FileSchemaPinRegistry, type SchemaPinRegistry } from "./schema-pin.js";
+import { PIN_OPERATOR_HEADER } from "./http-pin-registry.js";
+import type { MCPAuditSink } from "./audit.js";
+
+/** Largest request body accepted (pin bodies are tiny). */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const DEFAULT_PORT = 8444;
+const DEFAULT_HOST = "127.0.0.1";
+
+/** Options for the pin-registry server. */
+export interface PinRegistryServerOptions {
+  /** Backing registry (default: `FileSchemaPinRegistry` in the config dir). */
+  registry?: SchemaPinRegistry;
+  /** Bearer token for agents: list, get and first-pin. */
+  authToken: string;
+  /** Bearer token for operators: everything, including repin and delete. */
+  operatorToken: string;
+  /** Receives `mcp.schema.pin`, `.repin` and `.unpin` events. */
+  auditSink?: MCPAuditSink;
+  /** Listen port (default 8444). */
+  port?: number;
+  /** Listen address (default 127.0.0.1). */
+  host?: string;
+}
+
+/** Error with an HTTP status, turned into a JSON error response. */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class PinRegistryServer {
+  private readonly registry: SchemaPinRegistry;
+  private readonly options: PinRegistryServerOptions;
+  private server: http.Server | null = null;
+  /** Tail of the write queue; read-modify-write must not interleave */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(options: PinRegistryServerOptions) {
+    if (!options.authToken || !options.operatorToken) {
+      throw new Error("PinRegistryServer: authToken and operatorToken are required");
+    }
+    if (options.authToken === options.operatorToken) {
+      throw new Error("PinRegistryServer: operatorToken must differ from authToken");
+    }
+    this.options = options;
+    this.registry = options.registry ?? new FileSchemaPinRegistry();
+  }
+
+  /** Start listening. Resolves with the bound port. */
+  async start(): Promise<number> {
+    this.server = http.createServer(this.handler());
+    return new Promise((resolve, reject) => {
+      this.server!.on("error", reject);
+      this.server!.listen(
+        this.options.port ?? DEFAULT_PORT,
+        this.options.host ?? DEFAULT_HOST,
+        () => resolve((this.server!.address() as { port: number }).port)
+      );
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    return new Promise((resolve) => {
+      this.server!.close(() => {
+        this.server = null;
+        resolve();
+      });
+    });
+  }
+
+  /** Request handler, for mounting in an existing HTTP server. */
+  handler(): http.RequestListener {
+    return async (req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      try {
+        const role = this.authenticate(req.headers.authorization);
+        if (!role) {
+          throw new HttpError(401, "Unauthorized");
+        }
+
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const body = await this.route(req, url, role);
+        res.statusCode = 200;
+        res.end(JSON.stringify(body));
+      } catch (error) {
+        res.statusCode = error instanceof HttpError ? error.status : 500;
+        res.end(
+          JSON.stringify({ error: error instanceof Error ? error.message : "Internal error" })
+        );
+      }
+    };
+  }
+
+  private async route(
+    req: http.IncomingMessage,
+    url: URL,
+    role: "agent" | "operator"
+  ): Promise<unknown> {
+    if (url.pathname === "/pins" && req.method === "GET") {
+      const entries = await this.registry.list(url.searchParams.get("server") ?? undefined);
+      return entries.map((e) => ({ server: e.server, tool: e.tool, ...e.pin }));
+    }
+
+    const match = /^\/pins\/([^/]+)\/([^/]+)(\/repin)?$/.exec(url.pathname);
+    if (!match) {
+      throw new HttpError(404, "Not found");
+    }
+    const server = decodePathSegment(match[1]);
+    const tool = decodePathSegment(match[2]);
+
+    if (match[3]) {
+      if (req.method !== "POST") throw new HttpError(405, "Method not allowed");
+      const operator = this.requireOperator(req, role);
+      const body = await readJson(req);
+      return this.serialize(() => this.repin(server, tool, operator, body));
+    }
+
+    switch (req.method) {
+      case "GET": {
+        const pin = await this.registry.get(server, tool);
+        if (!pin) throw new HttpError(404, "Not pinned");
+        return pin;
+      }
+      case "PUT": {
+        const { hash } = await readJson(req);
+        return this.serialize(() => this.pin(server, tool, requireHash(hash)));
+      }
+      case "DELETE": {
+        const operator = this.requireOperator(req, role);
+        return this.serialize(() => this.unpin(server, tool, operator));
+      }
+      default:
+        throw new HttpError(405, "Method not allowed");
+    }
+  }
+
+  /** First pin, or idempotent re-pin of the same hash */
+  private async pin(server: string, tool: string, hash: string): Promise<unknown> {
+    const existing = await this.registry.get(server, tool);
+    if (existing) {
+      if (existing.hash !== hash) {
+        throw new HttpError(409, `${server}/${tool} is pinned to a different hash`);
+      }
+      return existing;
+    }
+
+    await this.registry.set(server, tool, hash);
+    await this.options.auditSink?.record({
+      timestamp: new Date().toISOString(),
+      kind: "mcp.schema.pin",
+      server,
+      tool,
+      hash,
+    });
+    return this.registry.get(server, tool);
+  }
+
+  /** Operator-approved replacement of a pin */
+  private async repin(
+    server: string,
+    tool: string,
+    operator: string,
+    body: Record<string, unknown>
+  ): Promise<unknown> {
+    const hash = requireHash(body.hash);
+    const existing = await this.registry.get(server, tool);
+    if (body.expectedHash !== undefined && existing?.hash !== body.expectedHash) {
+      throw new HttpError(409, `${server}/${tool} is no longer pinned to the expected hash`);
+    }
+
+    await this.registry.set(server, tool, hash);
+    await this.options.auditSink?.record({
+      timestamp: new Date().toISOString(),
+      kind: "mcp.schema.repin",
+      server,
+      tool,
+      hash,
+      priorHash: existing?.hash,
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+      context: { operator },
+    });
+    return this.registry.get(server, tool);
+  }
+
+  private async unpin(server: string, tool: string, operator: string): Promise<unknown> {
+    const existing = await this.registry.get(server, tool);
+    if (!existing) throw new HttpError(404, "Not pinned");
+
+    await this.registry.delete(server, tool);
+    await this.options.auditSink?.record({
+      timestamp: new Date().toISOString(),
+      kind: "mcp.schema.unpin",
+      server,
+      tool,
+      priorHash: existing.hash,
+      context: { operator },
+    });
+    return { deleted: true };
+  }
+
+  private serialize<T>(op: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(op, op);
+    this.writes = run.catch(() => {});
+    return run;
+  }
+
+  private authenticate(header: string | undefined): "agent" | "operator" | undefined {
+    const [scheme, token] = (header ?? "").split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) return undefined;
+    if (safeEqual(token, this.options.operatorToken)) return "operator";
+    if (safeEqual(token, this.options.authToken)) return "agent";
+    return undefined;
+  }
+
+  private requireOperator(req: http.IncomingMessage, role: "agent" | "operator"): string {
+    if (role !== "operator") {
+      throw new HttpError(403, "Operator credentials required");
+    }
+    const operator = req.headers[PIN_OPERATOR_HEADER.toLowerCase()];
+    if (typeof operator !== "string" || !operator) {
+      throw new HttpError(400, `${PIN_OPERATOR_HEADER} header is required`);
+    }
+    return operator;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && crypto.timingSafeEqual(x, y);
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, "Malformed percent-encoding in path");
+  }
+}
+
+function requireHash(hash: unknown): string {
+  if (typeof hash !== "string" || !/^[0-9a-f]{64}$/.test(hash)) {
+    throw new HttpError(400, "hash must be a hex SHA-256");
+  }
+  return hash;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString() || "{}");
+    if (typeof body !== "object" || body === null) throw new Error();
+    return body as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, "Body must be a JSON object");
+  }
+}
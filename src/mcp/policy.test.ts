@@ -170,6 +170,40 @@ describe("checkMCPCall — broker-level deny policy", () => {
   });
 });
 
+describe("checkMCPCall — revoked scopes", () => {
+  test("revoked scope overrides token allow", () => {
+    const token = tokenWith(["mcp:*"]);
+    const d = checkMCPCall(token, "shell", "exec", undefined, {
+      revokedScopes: ["mcp:shell:*"],
+    });
+    assert.strictEqual(d.kind, "deny");
+    if (d.kind === "deny") {
+      assert.strictEqual(d.matchedScope, "mcp:shell:*");
+      assert.match(d.reason, /revoked/);
+    }
+  });
+
+  test("other tools stay allowed", () => {
+    const token = tokenWith(["mcp:*"]);
+    const d = checkMCPCall(token, "filesystem", "read_file", undefined, {
+      revokedScopes: ["mcp:shell:*"],
+    });
+    assert.strictEqual(d.kind, "allow");
+  });
+
+  test("broker deny policy is reported before revoked scopes", () => {
+    const token = tokenWith(["mcp:*"]);
+    const d = checkMCPCall(token, "shell", "exec", undefined, {
+      brokerDenyPolicy: ["mcp:shell:exec"],
+      revokedScopes: ["mcp:shell:*"],
+    });
+    assert.strictEqual(d.kind, "deny");
+    if (d.kind === "deny") {
+      assert.match(d.reason, /Broker policy/);
+    }
+  });
+});
+
 describe("checkMCPCall — server/tool name validation", () => {
   // Regression for review finding C2: with a colon in server or tool, the
   // built target has >3 segments and interacts unsafely with wildcard match.
@@ -200,13 +234,74 @@ describe("checkMCPCall — server/tool name validation", () => {
   });
 });
 
-describe("checkMCPCall — args reserved", () => {
-  test("v1 ignores args; identical decision regardless", () => {
+describe("checkMCPCall — argument rules", () => {
+  test("args don't affect scopes without argument rules", () => {
     const token = tokenWith(["mcp:filesystem:read_file"]);
     const a = checkMCPCall(token, "filesystem", "read_file");
     const b = checkMCPCall(token, "filesystem", "read_file", { path: "/etc/passwd" });
     assert.strictEqual(a.kind, b.kind);
   });
+
+  test("allows calls that satisfy the rules and reports them", () => {
+    const token = {
+      ...tokenWith(["mcp:filesystem:*"]),
+      constraints: {
+        "mcp:filesystem:read_file": { args: { path: { pathPrefixes: ["/srv/data"] } } },
+      },
+    };
+    const d = checkMCPCall(token, "filesystem", "read_file", { path: "/srv/data/a.txt" });
+    assert.deepStrictEqual(d, {
+      kind: "allow",
+      matchedScope: "mcp:filesystem:*",
+      argRules: [{ arg: "path", rule: "pathPrefixes", matched: "/srv/data" }],
+    });
+    assert.match(formatDecision(d), /args path:pathPrefixes\(\/srv\/data\)/);
+
+    // Other tools under the wildcard aren't constrained
+    assert.strictEqual(checkMCPCall(token, "filesystem", "list_dir", {}).kind, "allow");
+  });
+
+  test("denies calls that fail a rule, naming the rule", () => {
+    const token = {
+      ...tokenWith(["mcp:filesystem:read_file"]),
+      constraints: {
+        "mcp:filesystem:read_file": { args: { path: { pathPrefixes: ["/srv/data"] } } },
+      },
+    };
+    const escaped = checkMCPCall(token, "filesystem", "read_file", {
+      path: "/srv/data/../../etc/passwd",
+    });
+    assert.strictEqual(escaped.kind, "deny");
+    if (escaped.kind === "deny") {
+      assert.deepStrictEqual(escaped.argRule, { arg: "path", rule: "pathPrefixes" });
+      assert.strictEqual(escaped.matchedScope, "mcp:filesystem:read_file");
+      assert.match(escaped.reason, /outside the allowed paths for mcp:filesystem:read_file/);
+    }
+
+    const missing = checkMCPCall(token, "filesystem", "read_file");
+    assert.strictEqual(missing.kind, "deny");
+    if (missing.kind === "deny") {
+      assert.strictEqual(missing.argRule?.rule, "present");
+    }
+  });
+
+  test("broker deny policy still wins over argument rules", () => {
+    const token = {
+      ...tokenWith(["mcp:web:fetch"]),
+      constraints: { "mcp:web:fetch": { args: { url: { hosts: ["example.com"] } } } },
+    };
+    const d = checkMCPCall(
+      token,
+      "web",
+      "fetch",
+      { url: "https://example.com/" },
+      { brokerDenyPolicy: ["mcp:web:*"] }
+    );
+    assert.strictEqual(d.kind, "deny");
+    if (d.kind === "deny") {
+      assert.strictEqual(d.argRule, undefined);
+    }
+  });
 });
 
 describe("formatDecision", () => {
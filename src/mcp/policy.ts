@@ -18,14 +18,20 @@
  *     but defining it now keeps the contract stable.
  */
 
-import { scopeMatches } from "../token.js";
+import { scopeMatches, findScopeConstraint } from "../token.js";
+import { checkArgs, formatArgRule, type ArgRuleResult } from "./args.js";
+import { approvalArgsHash } from "./approval.js";
 import type { AgentToken } from "../types.js";
 import type { MCPToolAnnotations } from "./types.js";
 
-/** Outcome of a single MCP tool-call policy check */
+/**
+ * Outcome of a single MCP tool-call policy check. When the matched scope
+ * carries argument rules, an allow lists the rules the call satisfied and
+ * a deny names the rule it failed.
+ */
 export type Decision =
-  | { kind: "allow"; matchedScope: string }
-  | { kind: "deny"; reason: string; matchedScope?: string }
+  | { kind: "allow"; matchedScope: string; argRules?: ArgRuleResult[] }
+  | { kind: "deny"; reason: string; matchedScope?: string; argRule?: ArgRuleResult }
   | { kind: "ask"; reason: string };
 
 /** Optional context the harness can supply to `checkMCPCall`. */
@@ -37,6 +43,13 @@ export interface CheckMCPCallOptions {
    */
   brokerDenyPolicy?: string[];
 
+  /**
+   * Scope patterns withdrawn from this token by scope-level revocation
+   * (see `Broker.getRevokedScopes`). Evaluated after the broker deny
+   * policy and before the token allow list.
+   */
+  revokedScopes?: string[];
+
   /**
    * Tool annotations from the server. Reserved for v1 annotation-aware
    * policy primitives (see W1 step 4). Currently unused; harnesses may
@@ -50,16 +63,21 @@ export interface CheckMCPCallOptions {
  *
  * Order of evaluation:
  *   1. Broker-level deny policy (org-wide, wins over everything).
- *   2. Token allow list (any matching scope grants the call).
- *   3. Default deny.
+ *   2. Scope-level revocations of the token or its ancestors.
+ *   3. Token allow list (any matching scope grants the call).
+ *   4. Argument binding (`ScopeConstraint.argsHash`) of the constraint
+ *      that applies to `mcp:<server>:<tool>`; other arguments deny.
+ *   5. Argument rules (`ScopeConstraint.args`) of that constraint; a
+ *      failed rule denies.
+ *   6. Default deny.
  *
  * @param token   The agent's capability token.
  * @param server  MCP server name as known to the harness (e.g. `"filesystem"`).
  * @param tool    Tool name as exposed by the server (e.g. `"read_file"`).
- * @param args    Tool call arguments. Reserved for v2 argument-level policy;
- *                ignored in v1 but kept in the signature so harnesses don't
- *                need to change later.
- * @param options Broker policy and (forward-compat) tool annotations.
+ * @param args    Tool call arguments, checked against the scope's
+ *                argument binding and rules.
+ * @param options Broker policy, revoked scopes and (forward-compat) tool
+ *                annotations.
  */
 export function checkMCPCall(
   token: AgentToken,
@@ -91,9 +109,42 @@ export function checkMCPCall(
     }
   }
 
+  if (options?.revokedScopes) {
+    for (const pattern of options.revokedScopes) {
+      if (scopeMatches(pattern, target)) {
+        return {
+          kind: "deny",
+          reason: `Scope revoked for ${target}`,
+          matchedScope: pattern,
+        };
+      }
+    }
+  }
+
   for (const pattern of token.scopes) {
     if (scopeMatches(pattern, target)) {
-      return { kind: "allow", matchedScope: pattern };
+      const constraint = findScopeConstraint(token.constraints, target)?.constraint;
+      if (constraint?.argsHash !== undefined && !argsMatch(args, constraint.argsHash)) {
+        return {
+          kind: "deny",
+          reason: `Arguments differ from the approved call for ${target}`,
+          matchedScope: pattern,
+        };
+      }
+      const argConstraints = constraint?.args;
+      if (!argConstraints) {
+        return { kind: "allow", matchedScope: pattern };
+      }
+      const result = checkArgs(argConstraints, args);
+      if (!result.valid) {
+        return {
+          kind: "deny",
+          reason: `${result.error} for ${target}`,
+          matchedScope: pattern,
+          argRule: result.rule,
+        };
+      }
+      return { kind: "allow", matchedScope: pattern, argRules: result.rules };
     }
   }
 
@@ -103,6 +154,16 @@ export function checkMCPCall(
   };
 }
 
+/** Whether call arguments (absent counts as `{}`) hash to `argsHash` */
+function argsMatch(args: unknown, argsHash: string): boolean {
+  try {
+    return approvalArgsHash(args ?? {}) === argsHash;
+  } catch {
+    // Not canonicalizable (e.g. NaN), so not what was approved
+    return false;
+  }
+}
+
 /**
  * Format a Decision as a single log-friendly line. Recommended schema for
  * harness audit logs alongside (timestamp, agentId, server, tool).
@@ -110,7 +171,9 @@ export function checkMCPCall(
 export function formatDecision(d: Decision): string {
   switch (d.kind) {
     case "allow":
-      return `allow (matched ${d.matchedScope})`;
+      return d.argRules?.length
+        ? `allow (matched ${d.matchedScope}; args ${d.argRules.map(formatArgRule).join(", ")})`
+        : `allow (matched ${d.matchedScope})`;
     case "ask":
       return `ask (${d.reason})`;
     case "deny":
@@ -0,0 +1,348 @@
+/**
+ * Hook-Mode Precheck for Harnesses We Can't Modify
+ *
+ * `PreToolUse`-style hooks hand us a tool name and arguments, never the
+ * tool definition, so schema pinning and annotation policy have nothing to
+ * run on. This module fills the gap for `agent-iam mcp precheck`:
+ *
+ *   1. `parseHookPayload` — pull server/tool/args out of the hook's stdin
+ *      JSON (`tool_name: "mcp__<server>__<tool>"`).
+ *   2. Resolve the `MCPTool`: live from the server over stdio
+ *      (`listToolsFromStdioServer`), else from a cached `tools/list`
+ *      snapshot (`FileToolsSnapshotStore`).
+ *   3. `precheckToolCall` — pin check, `checkMCPCall`, annotation
+ *      escalation, audit events.
+ *   4. `toHookResponse` — the allow/deny/ask JSON the hook prints.
+ *
+ * Snapshots are only as fresh as their last refresh: drift can only be
+ * caught against a live listing, so configure the server command where
+ * rug-pull detection matters.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import { checkMCPCall, type Decision } from "./policy.js";
+import { requireApprovalIf, denyIf } from "./annotations.js";
+import { verifyToolSchema, type SchemaPinRegistry } from "./schema-pin.js";
+import { buildDecisionEvent, type MCPAuditSink } from "./audit.js";
+import type { AgentToken } from "../types.js";
+import type { MCPTool } from "./types.js";
+
+/** Default config directory (matches src/config.ts) */
+const DEFAULT_CONFIG_DIR =
+  process.env.AGENT_IAM_HOME || path.join(os.homedir(), ".agent-credentials");
+
+/** Subdirectory within the config dir for `tools/list` snapshots */
+const SNAPSHOTS_DIR = "mcp-tools";
+
+/** MCP protocol version sent in `initialize`. */
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/** An MCP tool call extracted from a hook payload. */
+export interface HookToolCall {
+  server: string;
+  tool: string;
+  args: unknown;
+  /** The hook event (`PreToolUse` unless the payload says otherwise). */
+  hookEventName: string;
+}
+
+/**
+ * Parse a hook payload. Returns undefined for calls that are not MCP tool
+ * calls (built-in tools), which the precheck leaves to the harness.
+ */
+export function parseHookPayload(payload: unknown): HookToolCall | undefined {
+  const p = payload as {
+    hook_event_name?: unknown;
+    tool_name?: unknown;
+    tool_input?: unknown;
+  } | null;
+  if (typeof p?.tool_name !== "string") {
+    throw new Error("Hook payload has no tool_name");
+  }
+  const match = /^mcp__(.+?)__(.+)$/.exec(p.tool_name);
+  if (!match) return undefined;
+  return {
+    server: match[1],
+    tool: match[2],
+    args: p.tool_input ?? {},
+    hookEventName: typeof p.hook_event_name === "string" ? p.hook_event_name : "PreToolUse",
+  };
+}
+
+/** Hook output: a permission decision for the tool call. */
+export interface HookResponse {
+  hookSpecificOutput: {
+    hookEventName: string;
+    permissionDecision: "allow" | "deny" | "ask";
+    permissionDecisionReason: string;
+  };
+}
+
+/** Render a decision as the hook's JSON response. */
+export function toHookResponse(decision: Decision, hookEventName = "PreToolUse"): HookResponse {
+  return {
+    hookSpecificOutput: {
+      hookEventName,
+      permissionDecision: decision.kind,
+      permissionDecisionReason:
+        decision.kind === "allow"
+          ? `agent-iam: allowed by ${decision.matchedScope}`
+          : `agent-iam: ${decision.reason}`,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// TOOL DEFINITIONS
+// ─────────────────────────────────────────────────────────────────
+
+/** A cached `tools/list` result for one server. */
+export interface ToolsSnapshot {
+  server: string;
+  /** When the listing was taken (ISO 8601). */
+  fetchedAt: string;
+  tools: MCPTool[];
+}
+
+/**
+ * File-backed `tools/list` snapshots, one JSON file per server under
+ * `{configDir}/mcp-tools/`. Server names are URL-encoded for filesystem
+ * safety.
+ */
+export class FileToolsSnapshotStore {
+  private readonly dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir ?? path.join(DEFAULT_CONFIG_DIR, SNAPSHOTS_DIR);
+  }
+
+  get(server: string): ToolsSnapshot | undefined {
+    const file = this.pathFor(server);
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as ToolsSnapshot;
+  }
+
+  set(server: string, tools: MCPTool[]): ToolsSnapshot {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    }
+    const snapshot: ToolsSnapshot = { server, fetchedAt: new Date().toISOString(), tools };
+    fs.writeFileSync(this.pathFor(server), JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+    return snapshot;
+  }
+
+  private pathFor(server: string): string {
+    return path.join(this.dir, `${encodeURIComponent(server)}.json`);
+  }
+}
+
+/** How to launch a local stdio MCP server (an `mcpServers` config entry). */
+export interface StdioServerCommand {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * Read the `mcpServers` map from an MCP client config file (the format
+ * shared by most harnesses: `{ "mcpServers": { name: { command, args, env } } }`).
+ * Entries without a `command` (remote servers) are skipped.
+ */
+export function loadMCPServersConfig(file: string): Record<string, StdioServerCommand> {
+  const config = JSON.parse(fs.readFileSync(file, "utf-8")) as {
+    mcpServers?: Record<string, Partial<StdioServerCommand>>;
+  };
+  const servers: Record<string, StdioServerCommand> = {};
+  for (const [name, entry] of Object.entries(config.mcpServers ?? {})) {
+    if (typeof entry?.command === "string") {
+      servers[name] = {
+        command: entry.command,
+        args: entry.args,
+        env: entry.env,
+        cwd: entry.cwd,
+      };
+    }
+  }
+  return servers;
+}
+
+/**
+ * Start a stdio MCP server, run `initialize` and `tools/list` (following
+ * pagination), and stop it. Rejects if the server errors, exits early or
+ * doesn't finish within `timeoutMs` (default 10s).
+ */
+export function listToolsFromStdioServer(
+  server: StdioServerCommand,
+  options: { timeoutMs?: number } = {}
+): Promise<MCPTool[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(server.command, server.args ?? [], {
+      cwd: server.cwd,
+      env: { ...process.env, ...server.env },
+      stdio: ["pipe", "pipe", "ignore"],
+    });
+    const tools: MCPTool[] = [];
+    let buffer = "";
+    let settled = false;
+
+    const finish = (error: Error | undefined) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.stdin.end();
+      child.kill();
+      if (error) reject(error);
+      else resolve(tools);
+    };
+    const timer = setTimeout(
+      () => finish(new Error(`MCP server "${server.command}" did not list tools in time`)),
+      options.timeoutMs ?? 10_000
+    );
+    const send = (message: object) => child.stdin.write(JSON.stringify(message) + "\n");
+    const listTools = (id: number, cursor?: string) =>
+      send({ jsonrpc: "2.0", id, method: "tools/list", params: cursor ? { cursor } : {} });
+
+    child.on("error", (err) => finish(err));
+    child.on("exit", (code) =>
+      finish(new Error(`MCP server "${server.command}" exited (code ${code}) before listing tools`))
+    );
+    child.stdin.on("error", () => {
+      /* reported through exit */
+    });
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+
+        let message: { id?: number; result?: Record<string, unknown>; error?: { message?: string } };
+        try {
+          message = JSON.parse(line);
+        } catch {
+          continue; // servers sometimes log to stdout; ignore non-JSON lines
+        }
+        if (typeof message.id !== "number") continue;
+        if (message.error) {
+          finish(new Error(`MCP server error: ${message.error.message ?? "unknown"}`));
+          return;
+        }
+
+        if (message.id === 1) {
+          send({ jsonrpc: "2.0", method: "notifications/initialized" });
+          listTools(2);
+        } else {
+          const result = message.result as { tools?: MCPTool[]; nextCursor?: string };
+          tools.push(...(result?.tools ?? []));
+          if (result?.nextCursor) listTools(message.id + 1, result.nextCursor);
+          else finish(undefined);
+        }
+      }
+    });
+
+    send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "agent-iam-precheck", version: "1" },
+      },
+    });
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────
+// PRECHECK
+// ─────────────────────────────────────────────────────────────────
+
+/** Options for `precheckToolCall`. */
+export interface PrecheckOptions {
+  /** Schema-pin registry shared with the rest of the harness. */
+  pinRegistry: SchemaPinRegistry;
+  /** Pin unknown tools on first sight (default true); false denies them. */
+  tofu?: boolean;
+  /** Org-wide deny patterns (`Broker.getMCPDenyPolicy()`). */
+  brokerDenyPolicy?: string[];
+  /** Scopes withdrawn from the token (`Broker.getRevokedScopes()`). */
+  revokedScopes?: string[];
+  /**
+   * Whether this server's annotations are trusted as policy input. When
+   * true, `destructiveHint` escalates to ask and `openWorldHint` denies.
+   */
+  trustAnnotations?: boolean;
+  /** Receives pin and decision events. */
+  auditSink?: MCPAuditSink;
+}
+
+/**
+ * Decide one hooked MCP tool call. `toolDef` is the server's current
+ * definition of the tool, or undefined when it couldn't be resolved; then
+ * the pin and annotation checks can't run and an allow becomes an ask.
+ */
+export async function precheckToolCall(
+  token: AgentToken,
+  call: { server: string; tool: string; args?: unknown },
+  toolDef: MCPTool | undefined,
+  options: PrecheckOptions
+): Promise<Decision> {
+  const { server, tool } = call;
+  const event = { agentId: token.agentId, tokenId: token.tokenId, server, tool };
+
+  let decision = checkMCPCall(token, server, tool, call.args, {
+    brokerDenyPolicy: options.brokerDenyPolicy,
+    revokedScopes: options.revokedScopes,
+  });
+
+  if (decision.kind !== "deny") {
+    if (!toolDef) {
+      decision = {
+        kind: "ask",
+        reason: `Definition of ${server}/${tool} unavailable; schema pin not checked`,
+      };
+    } else {
+      const pin = await verifyToolSchema(server, toolDef, options.pinRegistry, {
+        tofu: options.tofu,
+      });
+      if (pin.drift) {
+        await options.auditSink?.record({
+          timestamp: new Date().toISOString(),
+          kind: "mcp.schema.drift",
+          ...event,
+          priorHash: pin.drift.knownHash,
+          hash: pin.drift.currentHash,
+        });
+        decision = {
+          kind: "ask",
+          reason: `Tool ${server}/${tool} schema has changed since it was pinned`,
+        };
+      } else if (!pin.valid) {
+        decision = { kind: "deny", reason: `Tool ${server}/${tool} not pinned (strict mode)` };
+      } else {
+        if (pin.firstContact) {
+          await options.auditSink?.record({
+            timestamp: new Date().toISOString(),
+            kind: "mcp.schema.pin",
+            ...event,
+          });
+        }
+        if (options.trustAnnotations) {
+          decision = requireApprovalIf(decision, toolDef.annotations, "destructiveHint");
+          decision = denyIf(decision, toolDef.annotations, "openWorldHint");
+        }
+      }
+    }
+  }
+
+  await options.auditSink?.record(
+    buildDecisionEvent({ ...event, decision, context: { source: "precheck" } })
+  );
+  return decision;
+}
@@ -11,15 +11,31 @@
  *
  * The public key is also exportable as a JWK (RFC 7517) for distribution
  * via JWKS endpoints to MCP servers that need to verify our credentials.
+ * Issued JWTs name their key with a `kid` header (the RFC 7638 thumbprint).
+ *
+ * `rotateMCPSigningKey` replaces the keypair and bumps the keyring version.
+ * Rotated-out public keys stay published until every credential they can
+ * have signed has expired (credentials live at most
+ * MAX_MCP_CREDENTIAL_TTL_SECONDS):
+ *   {configDir}/mcp-signing.json   {version, retired: [...]}, mode 0o600
+ *
+ * A second, independent keypair signs capability tokens when the broker
+ * is configured with `tokenFormat: "jws"`:
+ *   {configDir}/token-signing.key
+ *   {configDir}/token-signing.pub
  */
 
 import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import { calculateJwkThumbprint, exportJWK, importSPKI } from "jose";
+import { MAX_MCP_CREDENTIAL_TTL_SECONDS } from "./credential.js";
 
 const PRIVATE_KEY_FILE = "mcp-signing.key";
 const PUBLIC_KEY_FILE = "mcp-signing.pub";
+const KEYRING_FILE = "mcp-signing.json";
+const TOKEN_PRIVATE_KEY_FILE = "token-signing.key";
+const TOKEN_PUBLIC_KEY_FILE = "token-signing.pub";
 
 /** A broker MCP signing keypair on disk. */
 export interface MCPSigningKey {
@@ -29,29 +45,206 @@ export interface MCPSigningKey {
   publicKey: string;
 }
 
+/** Ed25519 keypair used to sign JWS capability tokens (same shape). */
+export type TokenSigningKey = MCPSigningKey;
+
+/** A rotated-out MCP public key that is still published. */
+export interface RetiredMCPSigningKey {
+  /** Keyring version the key was current at */
+  version: number;
+  /** PEM SPKI public key */
+  publicKey: string;
+  retiredAt: string;
+  /** When the last credential it signed expires; unpublished after this */
+  expiresAt: string;
+}
+
+/**
+ * The broker's MCP signing keys: the current keypair and the retired
+ * public keys still needed for verification. Also the shape the leader
+ * ships to followers, so every broker signs with the same key.
+ */
+export interface MCPSigningKeyring {
+  /** 1 for the first key, bumped by every rotation */
+  version: number;
+  current: MCPSigningKey;
+  /** Newest first; expired entries are dropped on load */
+  retired: RetiredMCPSigningKey[];
+}
+
+/** Persisted `mcp-signing.json` (the current keypair has its own files) */
+interface PersistedKeyring {
+  version: number;
+  retired: RetiredMCPSigningKey[];
+}
+
 /**
  * Load the broker's MCP signing keypair from disk, generating one on
  * first call. The private key is written with mode 0o600.
  */
 export function getOrCreateMCPSigningKey(configDir: string): MCPSigningKey {
-  const privPath = path.join(configDir, PRIVATE_KEY_FILE);
-  const pubPath = path.join(configDir, PUBLIC_KEY_FILE);
-
-  if (fs.existsSync(privPath) && fs.existsSync(pubPath)) {
-    return {
-      privateKey: fs.readFileSync(privPath, "utf8"),
-      publicKey: fs.readFileSync(pubPath, "utf8"),
-    };
+  return getOrCreateKeypair(configDir, PRIVATE_KEY_FILE, PUBLIC_KEY_FILE);
+}
+
+/**
+ * Load the MCP signing keyring, generating the first key if needed.
+ * A keypair without `mcp-signing.json` (from before rotation existed) is
+ * version 1.
+ */
+export function loadMCPSigningKeyring(configDir: string): MCPSigningKeyring {
+  const current = getOrCreateMCPSigningKey(configDir);
+  const persisted = readKeyring(configDir);
+  const now = new Date();
+  return {
+    version: persisted.version,
+    current,
+    retired: persisted.retired.filter((k) => new Date(k.expiresAt) > now),
+  };
+}
+
+/**
+ * Public keys that verify this broker's MCP credentials: the current key
+ * (generated if missing) followed by retired keys that are still
+ * published. This is the key set served as the broker's MCP JWKS.
+ */
+export function loadMCPVerificationKeys(configDir: string): string[] {
+  const keyring = loadMCPSigningKeyring(configDir);
+  return [keyring.current.publicKey, ...keyring.retired.map((k) => k.publicKey)];
+}
+
+/**
+ * Replace the MCP signing keypair. The old public key stays published
+ * for `overlapSeconds` (default: the longest credential TTL), so
+ * credentials it signed keep verifying until they expire anyway.
+ */
+export function rotateMCPSigningKey(
+  configDir: string,
+  overlapSeconds: number = MAX_MCP_CREDENTIAL_TTL_SECONDS
+): MCPSigningKeyring {
+  const previous = loadMCPSigningKeyring(configDir);
+  const retiredAt = new Date();
+  const keyring: MCPSigningKeyring = {
+    version: previous.version + 1,
+    current: writeKeypair(
+      configDir,
+      PRIVATE_KEY_FILE,
+      PUBLIC_KEY_FILE,
+      generateKeypair()
+    ),
+    retired: [
+      {
+        version: previous.version,
+        publicKey: previous.current.publicKey,
+        retiredAt: retiredAt.toISOString(),
+        expiresAt: new Date(retiredAt.getTime() + overlapSeconds * 1000).toISOString(),
+      },
+      ...previous.retired,
+    ],
+  };
+  writeKeyring(configDir, keyring);
+  return keyring;
+}
+
+/**
+ * Install a keyring received from the leader, replacing the local
+ * keypair. No-op when this broker already holds that version.
+ */
+export function importMCPSigningKeyring(configDir: string, keyring: MCPSigningKeyring): void {
+  const local = loadKeypair(
+    path.join(configDir, PRIVATE_KEY_FILE),
+    path.join(configDir, PUBLIC_KEY_FILE)
+  );
+  if (
+    local?.publicKey === keyring.current.publicKey &&
+    readKeyring(configDir).version === keyring.version
+  ) {
+    return;
   }
+  writeKeypair(configDir, PRIVATE_KEY_FILE, PUBLIC_KEY_FILE, keyring.current);
+  writeKeyring(configDir, keyring);
+}
 
-  if (!fs.existsSync(configDir)) {
-    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+function readKeyring(configDir: string): PersistedKeyring {
+  const keyringPath = path.join(configDir, KEYRING_FILE);
+  if (!fs.existsSync(keyringPath)) {
+    return { version: 1, retired: [] };
+  }
+  return JSON.parse(fs.readFileSync(keyringPath, "utf8")) as PersistedKeyring;
+}
+
+function writeKeyring(configDir: string, keyring: MCPSigningKeyring): void {
+  const persisted: PersistedKeyring = { version: keyring.version, retired: keyring.retired };
+  const keyringPath = path.join(configDir, KEYRING_FILE);
+  if (fs.existsSync(keyringPath)) fs.unlinkSync(keyringPath);
+  fs.writeFileSync(keyringPath, JSON.stringify(persisted, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Load the broker's capability-token signing keypair, generating one on
+ * first call. Kept separate from the MCP credential key so either can be
+ * replaced without invalidating the other.
+ */
+export function getOrCreateTokenSigningKey(configDir: string): TokenSigningKey {
+  return getOrCreateKeypair(configDir, TOKEN_PRIVATE_KEY_FILE, TOKEN_PUBLIC_KEY_FILE);
+}
+
+/**
+ * Load the capability-token signing keypair if one was generated, without
+ * creating it. Returns undefined when the broker never signed JWS tokens.
+ */
+export function loadTokenSigningKey(configDir: string): TokenSigningKey | undefined {
+  return loadKeypair(
+    path.join(configDir, TOKEN_PRIVATE_KEY_FILE),
+    path.join(configDir, TOKEN_PUBLIC_KEY_FILE)
+  );
+}
+
+function loadKeypair(privPath: string, pubPath: string): MCPSigningKey | undefined {
+  if (!fs.existsSync(privPath) || !fs.existsSync(pubPath)) {
+    return undefined;
+  }
+  return {
+    privateKey: fs.readFileSync(privPath, "utf8"),
+    publicKey: fs.readFileSync(pubPath, "utf8"),
+  };
+}
+
+function getOrCreateKeypair(
+  configDir: string,
+  privateKeyFile: string,
+  publicKeyFile: string
+): MCPSigningKey {
+  const privPath = path.join(configDir, privateKeyFile);
+  const pubPath = path.join(configDir, publicKeyFile);
+
+  const existing = loadKeypair(privPath, pubPath);
+  if (existing) {
+    return existing;
   }
 
+  return writeKeypair(configDir, privateKeyFile, publicKeyFile, generateKeypair());
+}
+
+function generateKeypair(): MCPSigningKey {
   const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519", {
     privateKeyEncoding: { type: "pkcs8", format: "pem" },
     publicKeyEncoding: { type: "spki", format: "pem" },
   });
+  return { privateKey: privateKey as string, publicKey: publicKey as string };
+}
+
+function writeKeypair(
+  configDir: string,
+  privateKeyFile: string,
+  publicKeyFile: string,
+  keypair: MCPSigningKey
+): MCPSigningKey {
+  const privPath = path.join(configDir, privateKeyFile);
+  const pubPath = path.join(configDir, publicKeyFile);
+
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  }
 
   // Unlink any pre-existing files first: `fs.writeFileSync(..., { mode })`
   // only applies the mode at *creation* time. Writing into a pre-existing
@@ -60,15 +253,12 @@ export function getOrCreateMCPSigningKey(configDir: string): MCPSigningKey {
   if (fs.existsSync(privPath)) fs.unlinkSync(privPath);
   if (fs.existsSync(pubPath)) fs.unlinkSync(pubPath);
 
-  fs.writeFileSync(privPath, privateKey as string, { mode: 0o600 });
+  fs.writeFileSync(privPath, keypair.privateKey, { mode: 0o600 });
   // Belt-and-braces: explicit chmod in case the FS umask altered the mode.
   fs.chmodSync(privPath, 0o600);
-  fs.writeFileSync(pubPath, publicKey as string);
+  fs.writeFileSync(pubPath, keypair.publicKey);
 
-  return {
-    privateKey: privateKey as string,
-    publicKey: publicKey as string,
-  };
+  return keypair;
 }
 
 /**
@@ -115,3 +305,18 @@ export async function publicKeyToJwks(publicKeyPem: string): Promise<{
   const jwk = await brokerPublicKeyToJwk(publicKeyPem);
   return { keys: [jwk] };
 }
+
+/**
+ * Build a JWKS document from several PEM public keys, in order, dropping
+ * keys that share a `kid` (the same key material).
+ */
+export async function publicKeysToJwks(publicKeyPems: string[]): Promise<{
+  keys: Array<{ kty: string; alg: string; use: string; kid: string }>;
+}> {
+  const keys: Array<Awaited<ReturnType<typeof brokerPublicKeyToJwk>>> = [];
+  for (const pem of publicKeyPems) {
+    const jwk = await brokerPublicKeyToJwk(pem);
+    if (!keys.some((k) => k.kid === jwk.kid)) keys.push(jwk);
+  }
+  return { keys };
+}
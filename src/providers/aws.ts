@@ -98,6 +98,9 @@ const SCOPE_TO_POLICY: Record<string, object> = {
   },
 };
 
+/** AWS scopes with an explicit mapping (validates scope templates) */
+export const AWS_SCOPES: readonly string[] = Object.keys(SCOPE_TO_POLICY);
+
 /** AWS provider configuration */
 export interface AWSProviderConfig {
   /** AWS region */
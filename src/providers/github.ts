@@ -20,6 +20,9 @@ const SCOPE_TO_PERMISSIONS: Record<string, Record<string, string>> = {
   "github:pulls:write": { pull_requests: "write" },
 };
 
+/** GitHub scopes with an explicit mapping (validates scope templates) */
+export const GITHUB_SCOPES: readonly string[] = Object.keys(SCOPE_TO_PERMISSIONS);
+
 /** Parse owner/repo from resource string */
 function parseRepo(resource: string): { owner: string; repo: string } | null {
   const parts = resource.split("/");
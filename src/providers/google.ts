@@ -23,6 +23,9 @@ const SCOPE_MAPPING: Record<string, string[]> = {
   "google:docs:write": ["https://www.googleapis.com/auth/documents"],
 };
 
+/** Google scopes with an explicit mapping (validates scope templates) */
+export const GOOGLE_SCOPES: readonly string[] = Object.keys(SCOPE_MAPPING);
+
 /** Google provider configuration */
 export interface GoogleProviderConfig {
   /** OAuth2 Client ID */
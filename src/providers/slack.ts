@@ -47,6 +47,9 @@ const SCOPE_MAPPING: Record<string, string[]> = {
   "slack:usergroups:write": ["usergroups:write"],
 };
 
+/** Slack scopes with an explicit mapping (validates scope templates) */
+export const SLACK_SCOPES: readonly string[] = Object.keys(SCOPE_MAPPING);
+
 /** Slack provider configuration */
 export interface SlackProviderConfig {
   /** Authentication mode */
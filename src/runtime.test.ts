@@ -11,8 +11,11 @@ import { Broker } from "./broker.js";
 import {
   AgentRuntime,
   AGENT_TOKEN_ENV,
+  AGENT_TOKEN_FILE_ENV,
   withRuntime,
 } from "./runtime.js";
+import { RevocationList } from "./distributed/revocation.js";
+import type { AgentToken } from "./types.js";
 
 // Create a unique temp directory for each test
 function createTempDir(): string {
@@ -362,6 +365,199 @@ describe("AgentRuntime", () => {
     });
   });
 
+  describe("Refresh", () => {
+    function delegatedToken(ttlMinutes: number) {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read", "system:token:refresh"],
+        ttlDays: 1,
+      });
+      return broker.delegate(root, {
+        agentId: "worker",
+        requestedScopes: ["github:repo:read", "system:token:refresh"],
+        ttlMinutes,
+      });
+    }
+
+    test("refreshed token is re-signed and verifies in another process", async () => {
+      const token = delegatedToken(30);
+      const runtime = new AgentRuntime(token, { configDir: tempDir });
+      runtime.start();
+
+      await runtime.refresh();
+      const refreshed = runtime.getToken();
+      runtime.stop();
+
+      assert.notStrictEqual(refreshed.signature, token.signature);
+      assert.strictEqual(refreshed.tokenId, token.tokenId);
+      assert.strictEqual(new Broker(tempDir).verifyToken(refreshed).valid, true);
+    });
+
+    test("keeps the original TTL", async () => {
+      const token = delegatedToken(30);
+      const runtime = new AgentRuntime(token, { configDir: tempDir, refreshBufferMinutes: 1 });
+      await runtime.refresh();
+      const refreshed = runtime.getToken();
+      runtime.stop();
+
+      const ttl = Date.parse(refreshed.expiresAt!) - Date.parse(refreshed.issuedAt!);
+      assert.ok(Math.abs(ttl - 30 * 60 * 1000) < 1000);
+    });
+
+    test("fails once maxExpiresAt is reached", async () => {
+      const token = delegatedToken(30);
+      const runtime = new AgentRuntime(
+        { ...token, maxExpiresAt: new Date(Date.now() - 1000).toISOString() },
+        { configDir: tempDir }
+      );
+      // Tampering with maxExpiresAt invalidates the signature
+      await assert.rejects(runtime.refresh(), /invalid token/i);
+      runtime.stop();
+
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["system:token:refresh"],
+        ttlDays: 1,
+      });
+      const atMax = new AgentRuntime(root, { configDir: tempDir });
+      await atMax.refresh();
+      assert.strictEqual(atMax.getToken().expiresAt, root.maxExpiresAt);
+      atMax.stop();
+    });
+
+    test("uses a custom refresher", async () => {
+      const token = delegatedToken(30);
+      const seen: AgentToken[] = [];
+      const runtime = new AgentRuntime(token, {
+        configDir: tempDir,
+        refresher: {
+          async refresh(t) {
+            seen.push(t);
+            return broker.refreshToken(t, 10);
+          },
+        },
+      });
+
+      await runtime.refresh();
+      runtime.stop();
+      assert.strictEqual(seen.length, 1);
+      assert.strictEqual(seen[0].tokenId, token.tokenId);
+    });
+  });
+
+  describe("Subprocess token push", () => {
+    test("createSubprocessEnv writes a private token file", () => {
+      const token = broker.createRootToken({
+        agentId: "parent",
+        scopes: ["github:repo:read"],
+        ttlDays: 1,
+      });
+      const runtime = new AgentRuntime(token, { configDir: tempDir });
+
+      const env = runtime.createSubprocessEnv({ requestedScopes: ["github:repo:read"] });
+      const tokenFile = env[AGENT_TOKEN_FILE_ENV];
+      assert.ok(tokenFile);
+      assert.strictEqual(fs.readFileSync(tokenFile, "utf-8"), env[AGENT_TOKEN_ENV]);
+      assert.strictEqual(fs.statSync(tokenFile).mode & 0o777, 0o600);
+
+      runtime.stop();
+      assert.strictEqual(fs.existsSync(tokenFile), false);
+    });
+
+    test("children see renewed tokens after the parent refreshes", async () => {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read", "system:token:refresh"],
+        ttlDays: 1,
+      });
+      const parentToken = broker.delegate(root, {
+        agentId: "parent",
+        requestedScopes: ["github:repo:read", "system:token:refresh"],
+        ttlMinutes: 30,
+      });
+      const parent = new AgentRuntime(parentToken, {
+        configDir: tempDir,
+        childTokenDir: path.join(tempDir, "children"),
+      });
+
+      const env = parent.createSubprocessEnv({
+        agentId: "child",
+        requestedScopes: ["github:repo:read"],
+      });
+      process.env[AGENT_TOKEN_ENV] = env[AGENT_TOKEN_ENV];
+      process.env[AGENT_TOKEN_FILE_ENV] = env[AGENT_TOKEN_FILE_ENV];
+      const child = AgentRuntime.fromEnvironment({ configDir: tempDir });
+      const before = child.getToken();
+
+      await parent.refresh();
+
+      const after = child.getToken();
+      assert.strictEqual(after.tokenId, before.tokenId);
+      assert.strictEqual(after.agentId, "child");
+      assert.strictEqual(after.parentTokenId, parentToken.tokenId);
+      assert.strictEqual(after.expiresAt, parent.getToken().expiresAt);
+      assert.strictEqual(broker.verifyToken(after).valid, true);
+
+      // Revoking the ID handed out at spawn still covers the renewed token
+      new RevocationList(tempDir).revoke({
+        tokenId: before.tokenId!,
+        agentId: before.agentId,
+      });
+      assert.strictEqual(broker.verifyToken(after).valid, false);
+
+      parent.stop();
+      child.stop();
+      delete process.env[AGENT_TOKEN_FILE_ENV];
+    });
+
+    test("revoked children are not re-issued", async () => {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read", "system:token:refresh"],
+        ttlDays: 1,
+      });
+      const parentToken = broker.delegate(root, {
+        agentId: "parent",
+        requestedScopes: ["github:repo:read", "system:token:refresh"],
+        ttlMinutes: 30,
+      });
+      const parent = new AgentRuntime(parentToken, { configDir: tempDir });
+
+      const env = parent.createSubprocessEnv({ requestedScopes: ["github:repo:read"] });
+      const childToken = broker.deserializeToken(env[AGENT_TOKEN_ENV]);
+      new RevocationList(tempDir).revoke({
+        tokenId: childToken.tokenId!,
+        agentId: childToken.agentId,
+      });
+
+      await parent.refresh();
+      assert.strictEqual(fs.readFileSync(env[AGENT_TOKEN_FILE_ENV], "utf-8"), env[AGENT_TOKEN_ENV]);
+      parent.stop();
+    });
+
+    test("children matched by a revocation rule are not renewed", async () => {
+      const root = broker.createRootToken({
+        agentId: "root",
+        scopes: ["github:repo:read", "system:token:refresh"],
+        ttlDays: 1,
+      });
+      const errors: Error[] = [];
+      const parent = new AgentRuntime(root, {
+        configDir: tempDir,
+        onRefreshError: (error) => errors.push(error),
+      });
+
+      const env = parent.createSubprocessEnv({ requestedScopes: ["github:repo:read"] });
+      const childToken = broker.deserializeToken(env[AGENT_TOKEN_ENV]);
+      new RevocationList(tempDir).addRule({ match: { underTokenId: childToken.tokenId! } });
+
+      await parent.refresh();
+      assert.strictEqual(fs.readFileSync(env[AGENT_TOKEN_FILE_ENV], "utf-8"), env[AGENT_TOKEN_ENV]);
+      assert.deepStrictEqual(errors, []);
+      parent.stop();
+    });
+  });
+
   describe("withRuntime helper", () => {
     test("executes function and cleans up", async () => {
       const token = broker.createRootToken({
@@ -432,6 +628,33 @@ describe("Broker - Token Refresh", () => {
     assert.strictEqual(broker.verifyToken(refreshed).valid, true);
   });
 
+  test("renews delegated tokens only from their own parent", () => {
+    const parent = broker.createRootToken({
+      agentId: "parent",
+      scopes: ["github:repo:read"],
+      ttlDays: 1,
+    });
+    const child = broker.delegate(parent, {
+      requestedScopes: ["github:repo:read"],
+      ttlMinutes: 5,
+    });
+
+    const renewed = broker.refreshDelegatedToken(parent, child, 60);
+    assert.strictEqual(renewed.tokenId, child.tokenId);
+    assert.ok(renewed.expiresAt! > child.expiresAt!);
+    assert.strictEqual(broker.verifyToken(renewed).valid, true);
+
+    const stranger = broker.createRootToken({
+      agentId: "stranger",
+      scopes: ["github:repo:read"],
+      ttlDays: 1,
+    });
+    assert.throws(
+      () => broker.refreshDelegatedToken(stranger, child),
+      /not delegated from this parent/
+    );
+  });
+
   test("throws without refresh scope", () => {
     const token = broker.createRootToken({
       agentId: "no-refresh",
@@ -477,6 +700,22 @@ describe("Broker - Token Refresh", () => {
     assert.strictEqual(refreshed.expiresAt, token.maxExpiresAt);
   });
 
+  test("defaults to the token's original TTL", () => {
+    const root = broker.createRootToken({
+      agentId: "root",
+      scopes: ["system:token:refresh"],
+      ttlDays: 1,
+    });
+    const child = broker.delegate(root, {
+      requestedScopes: ["system:token:refresh"],
+      ttlMinutes: 10,
+    });
+
+    const refreshed = broker.refreshToken(child);
+    const ttl = Date.parse(refreshed.expiresAt!) - Date.parse(refreshed.issuedAt!);
+    assert.ok(Math.abs(ttl - 10 * 60 * 1000) < 1000);
+  });
+
   test("refreshes with system:* scope", () => {
     const token = broker.createRootToken({
       agentId: "system-wildcard",
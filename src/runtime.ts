@@ -2,13 +2,20 @@
  * AgentRuntime - Convenience wrapper for agents to manage their token lifecycle
  *
  * Provides:
- * - Automatic token refresh before expiry
+ * - Automatic token refresh before expiry (through the broker, or a
+ *   pluggable TokenRefresher for a leader)
  * - Easy credential retrieval
- * - Sub-agent spawning with delegated tokens
+ * - Sub-agent spawning with delegated tokens, renewed in the child's
+ *   token file whenever the parent refreshes
  * - Environment-based token injection
  */
 
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { Broker } from "./broker.js";
+import { getAncestorIds, getRevocationId } from "./token.js";
 import type {
   AgentToken,
   DelegationRequest,
@@ -18,6 +25,30 @@ import type {
 /** Environment variable name for passing tokens to subprocesses */
 export const AGENT_TOKEN_ENV = "AGENT_TOKEN";
 
+/**
+ * Environment variable naming a file that holds the subprocess's current
+ * token. The parent runtime rewrites it each time it refreshes.
+ */
+export const AGENT_TOKEN_FILE_ENV = "AGENT_TOKEN_FILE";
+
+/** Obtains a refreshed, re-signed copy of a token */
+export interface TokenRefresher {
+  refresh(token: AgentToken): Promise<AgentToken>;
+}
+
+/** Refreshes through a local broker (`Broker.refreshToken`) */
+export class BrokerTokenRefresher implements TokenRefresher {
+  private broker: Broker;
+
+  constructor(broker: Broker) {
+    this.broker = broker;
+  }
+
+  async refresh(token: AgentToken): Promise<AgentToken> {
+    return this.broker.refreshToken(token);
+  }
+}
+
 /** Configuration for AgentRuntime */
 export interface RuntimeConfig {
   /** Directory for broker config (default: ~/.agent-credentials) */
@@ -30,6 +61,21 @@ export interface RuntimeConfig {
   onTokenRefresh?: (newToken: AgentToken) => void;
   /** Callback when refresh fails */
   onRefreshError?: (error: Error) => void;
+  /**
+   * How refreshed tokens are obtained (default: this process's broker).
+   * Use `HttpTokenRefresher` to refresh through a leader.
+   */
+  refresher?: TokenRefresher;
+  /**
+   * File holding this agent's current token, kept fresh by the parent
+   * process. `fromEnvironment` reads it from AGENT_TOKEN_FILE.
+   */
+  tokenFile?: string;
+  /**
+   * Directory for the token files of subprocesses spawned through
+   * `createSubprocessEnv` (default: a private temp directory, removed on stop)
+   */
+  childTokenDir?: string;
 }
 
 /** Internal config with resolved defaults (configDir remains optional for Broker) */
@@ -39,6 +85,15 @@ interface ResolvedConfig {
   refreshCheckIntervalMs: number;
   onTokenRefresh: (newToken: AgentToken) => void;
   onRefreshError: (error: Error) => void;
+  tokenFile?: string;
+  childTokenDir?: string;
+}
+
+/** A subprocess token kept fresh by this runtime */
+interface ChildToken {
+  /** Lifetime requested at delegation (default: the parent's) */
+  ttlMinutes?: number;
+  token: AgentToken;
 }
 
 /** Runtime status */
@@ -61,8 +116,15 @@ export class AgentRuntime {
   private broker: Broker;
   private token: AgentToken;
   private config: ResolvedConfig;
+  private refresher: TokenRefresher;
   private refreshTimer?: ReturnType<typeof setInterval>;
   private stopped = false;
+  /** Subprocess token files, by path */
+  private children: Map<string, ChildToken> = new Map();
+  /** Child token directory this runtime created (removed on stop) */
+  private ownedChildTokenDir?: string;
+  /** Identity (mtime + inode) of the token file version last read */
+  private tokenFileVersion?: string;
 
   constructor(token: AgentToken, config: RuntimeConfig = {}) {
     this.token = token;
@@ -72,8 +134,11 @@ export class AgentRuntime {
       refreshCheckIntervalMs: config.refreshCheckIntervalMs ?? 60000,
       onTokenRefresh: config.onTokenRefresh ?? (() => {}),
       onRefreshError: config.onRefreshError ?? ((err) => console.error("Token refresh failed:", err)),
+      tokenFile: config.tokenFile,
+      childTokenDir: config.childTokenDir,
     };
     this.broker = new Broker(this.config.configDir);
+    this.refresher = config.refresher ?? new BrokerTokenRefresher(this.broker);
   }
 
   /**
@@ -89,14 +154,19 @@ export class AgentRuntime {
   }
 
   /**
-   * Create a runtime from the AGENT_TOKEN environment variable
+   * Create a runtime from the AGENT_TOKEN environment variable. When
+   * AGENT_TOKEN_FILE is also set, tokens the parent pushes there replace
+   * the initial one.
    */
   static fromEnvironment(config: RuntimeConfig = {}): AgentRuntime {
     const serialized = process.env[AGENT_TOKEN_ENV];
     if (!serialized) {
       throw new Error(`${AGENT_TOKEN_ENV} environment variable not set`);
     }
-    return AgentRuntime.fromSerialized(serialized, config);
+    return AgentRuntime.fromSerialized(serialized, {
+      ...config,
+      tokenFile: config.tokenFile ?? process.env[AGENT_TOKEN_FILE_ENV],
+    });
   }
 
   /**
@@ -128,6 +198,11 @@ export class AgentRuntime {
       clearInterval(this.refreshTimer);
       this.refreshTimer = undefined;
     }
+    this.children.clear();
+    if (this.ownedChildTokenDir) {
+      fs.rmSync(this.ownedChildTokenDir, { recursive: true, force: true });
+      this.ownedChildTokenDir = undefined;
+    }
   }
 
   /**
@@ -135,14 +210,14 @@ export class AgentRuntime {
    */
   async getCredential(scope: string, resource: string): Promise<CredentialResult> {
     this.ensureNotStopped();
-    return this.broker.getCredential(this.token, scope, resource);
+    return this.broker.getCredential(this.currentToken(), scope, resource);
   }
 
   /**
    * Check if a specific action is permitted
    */
   checkPermission(scope: string, resource: string): boolean {
-    const result = this.broker.checkPermission(this.token, scope, resource);
+    const result = this.broker.checkPermission(this.currentToken(), scope, resource);
     return result.valid;
   }
 
@@ -151,17 +226,25 @@ export class AgentRuntime {
    */
   delegate(request: DelegationRequest): AgentToken {
     this.ensureNotStopped();
-    return this.broker.delegate(this.token, request);
+    return this.broker.delegate(this.currentToken(), request);
   }
 
   /**
-   * Create environment variables for a subprocess with a delegated token
+   * Create environment variables for a subprocess with a delegated token.
+   * The token is also written to a file named by AGENT_TOKEN_FILE, which
+   * this runtime rewrites with a renewed token after every refresh.
    */
   createSubprocessEnv(request: DelegationRequest): Record<string, string> {
     const childToken = this.delegate(request);
     const serialized = this.broker.serializeToken(childToken);
+
+    const tokenFile = path.join(this.getChildTokenDir(), `${crypto.randomUUID()}.token`);
+    writeTokenFile(tokenFile, serialized);
+    this.children.set(tokenFile, { ttlMinutes: request.ttlMinutes, token: childToken });
+
     return {
       [AGENT_TOKEN_ENV]: serialized,
+      [AGENT_TOKEN_FILE_ENV]: tokenFile,
     };
   }
 
@@ -169,14 +252,14 @@ export class AgentRuntime {
    * Get the current token (for inspection or manual refresh)
    */
   getToken(): AgentToken {
-    return this.token;
+    return this.currentToken();
   }
 
   /**
    * Get a serialized version of the current token
    */
   getSerializedToken(): string {
-    return this.broker.serializeToken(this.token);
+    return this.broker.serializeToken(this.currentToken());
   }
 
   /**
@@ -190,6 +273,7 @@ export class AgentRuntime {
    * Get runtime status
    */
   getStatus(): RuntimeStatus {
+    this.currentToken();
     const timeUntilExpiry = this.token.expiresAt
       ? new Date(this.token.expiresAt).getTime() - Date.now()
       : undefined;
@@ -207,63 +291,102 @@ export class AgentRuntime {
   }
 
   /**
-   * Manually trigger a token refresh
+   * Manually trigger a token refresh. The refresher re-signs the token
+   * with its original TTL, capped at `maxExpiresAt`; subprocess token
+   * files are then rewritten with renewed tokens (same token IDs).
    */
   async refresh(): Promise<void> {
     this.ensureNotStopped();
+    const token = this.currentToken();
 
     if (!this.canRefresh()) {
       throw new Error("Token does not have system:token:refresh scope");
     }
 
-    // Refresh by re-delegating from parent (in a real system, this would
-    // call back to the parent or broker). For now, we extend the token
-    // by creating a new one with the same capabilities.
-    //
-    // In a full implementation, this would:
-    // 1. Call parent's refresh endpoint, or
-    // 2. Use a refresh token, or
-    // 3. Re-authenticate
-    //
-    // For standalone mode, we simulate refresh by creating a new token
-    // with extended expiry (up to maxExpiresAt)
-
-    const now = new Date();
-    const maxExpiry = this.token.maxExpiresAt
-      ? new Date(this.token.maxExpiresAt)
-      : null;
-
-    // Calculate new expiry (original TTL or time until max)
-    let newExpiry: Date;
-    if (this.token.expiresAt) {
-      const originalTtl = this.config.refreshBufferMinutes * 60 * 1000 * 2; // Rough estimate
-      newExpiry = new Date(now.getTime() + originalTtl);
-
-      // Cap at maxExpiresAt
-      if (maxExpiry && newExpiry > maxExpiry) {
-        newExpiry = maxExpiry;
-      }
-    } else {
-      // No expiry, nothing to refresh
+    // No expiry, nothing to refresh
+    if (!token.expiresAt) {
       return;
     }
 
-    // Check if we're already at max expiry
-    if (maxExpiry && now >= maxExpiry) {
-      throw new Error("Token has reached maximum lifetime and cannot be refreshed");
+    const refreshedToken = await this.refresher.refresh(token);
+    this.token = refreshedToken;
+    this.refreshChildren();
+    this.config.onTokenRefresh(refreshedToken);
+  }
+
+  /**
+   * Renew every subprocess token from the current token, keeping its token
+   * ID, and rewrite its file. Children whose token (or an ancestor) was
+   * revoked, or that a revocation rule matches, are dropped instead.
+   */
+  private refreshChildren(): void {
+    const revocations = this.broker.getRevocationChecker();
+    for (const [tokenFile, child] of this.children) {
+      const revoked =
+        [getRevocationId(child.token), ...getAncestorIds(child.token)].some((id) =>
+          revocations.isRevoked(id)
+        ) || revocations.matchRevocationRule?.(child.token) !== undefined;
+      if (revoked) {
+        this.children.delete(tokenFile);
+        continue;
+      }
+
+      try {
+        const token = this.broker.refreshDelegatedToken(
+          this.token,
+          child.token,
+          child.ttlMinutes
+        );
+        writeTokenFile(tokenFile, this.broker.serializeToken(token));
+        child.token = token;
+      } catch (error) {
+        this.config.onRefreshError(
+          new Error(
+            `Failed to refresh subprocess token ${tokenFile}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Current token, picking up a newer one from the token file if the
+   * parent process pushed one. A missing or unreadable file keeps the
+   * token already held.
+   */
+  private currentToken(): AgentToken {
+    if (!this.config.tokenFile) {
+      return this.token;
     }
 
-    // For standalone mode, create refreshed token
-    // (In distributed mode, this would call the broker's refresh endpoint)
-    const refreshedToken: AgentToken = {
-      ...this.token,
-      expiresAt: newExpiry.toISOString(),
-    };
+    try {
+      const stat = fs.statSync(this.config.tokenFile);
+      const version = `${stat.mtimeMs}:${stat.ino}`;
+      if (version !== this.tokenFileVersion) {
+        const serialized = fs.readFileSync(this.config.tokenFile, "utf-8").trim();
+        this.token = this.broker.deserializeToken(serialized);
+        this.tokenFileVersion = version;
+      }
+    } catch {
+      // Keep the current token
+    }
+    return this.token;
+  }
 
-    // Re-sign the token (this is a simplification - real impl would verify refresh permission)
-    // For now, we'll just update our local token reference
-    this.token = refreshedToken;
-    this.config.onTokenRefresh(refreshedToken);
+  /** Directory for subprocess token files, created on first use */
+  private getChildTokenDir(): string {
+    if (this.config.childTokenDir) {
+      if (!fs.existsSync(this.config.childTokenDir)) {
+        fs.mkdirSync(this.config.childTokenDir, { recursive: true, mode: 0o700 });
+      }
+      return this.config.childTokenDir;
+    }
+    if (!this.ownedChildTokenDir) {
+      this.ownedChildTokenDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-tokens-"));
+    }
+    return this.ownedChildTokenDir;
   }
 
   /**
@@ -296,11 +419,11 @@ export class AgentRuntime {
    * Check if refresh is needed and perform it
    */
   private async checkAndRefresh(): Promise<void> {
-    if (this.stopped || !this.token.expiresAt) {
+    if (this.stopped || !this.currentToken().expiresAt) {
       return;
     }
 
-    const expiresAt = new Date(this.token.expiresAt);
+    const expiresAt = new Date(this.token.expiresAt!);
     const bufferMs = this.config.refreshBufferMinutes * 60 * 1000;
     const refreshThreshold = new Date(expiresAt.getTime() - bufferMs);
 
@@ -325,6 +448,13 @@ export class AgentRuntime {
   }
 }
 
+/** Atomically write a serialized token readable only by this user */
+function writeTokenFile(tokenFile: string, serialized: string): void {
+  const tmp = `${tokenFile}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmp, serialized, { mode: 0o600 });
+  fs.renameSync(tmp, tokenFile);
+}
+
 /**
  * Convenience function to run code with an agent runtime
  */
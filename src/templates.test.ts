@@ -0,0 +1,100 @@
+/**
+ * Tests for scope template resolution and validation
+ */
+
+import { test, describe } from "node:test";
+import * as assert from "node:assert";
+import { isKnownScope, resolveScopeTemplate, validateScopeTemplates } from "./templates.js";
+import type { ScopeTemplate } from "./types.js";
+
+describe("isKnownScope", () => {
+  test("checks scopes against provider scope maps", () => {
+    assert.strictEqual(isKnownScope("github:repo:read"), true);
+    assert.strictEqual(isKnownScope("github:repo:delete"), false);
+    assert.strictEqual(isKnownScope("slack:chat:write"), true);
+  });
+
+  test("accepts patterns that cover a known scope", () => {
+    assert.strictEqual(isKnownScope("github:repo:*"), true);
+    assert.strictEqual(isKnownScope("github:*:read"), true);
+    assert.strictEqual(isKnownScope("github:nope:*"), false);
+  });
+
+  test("accepts any scope for providers without a scope map", () => {
+    assert.strictEqual(isKnownScope("mcp:fs:read"), true);
+    assert.strictEqual(isKnownScope("anthropic:api"), true);
+    assert.strictEqual(isKnownScope("*"), true);
+  });
+});
+
+describe("resolveScopeTemplate", () => {
+  const templates: Record<string, ScopeTemplate> = {
+    base: { scopes: ["github:repo:read"], constraints: { "github:repo:read": { maxUses: 5 } }, ttlMinutes: 60 },
+    extra: { scopes: ["github:pulls:read"], ttlMinutes: 20 },
+    combined: {
+      include: ["base", "extra"],
+      scopes: ["github:repo:read", "github:issues:write"],
+      constraints: { "github:repo:read": { maxUses: 10 } },
+    },
+  };
+
+  test("flattens includes and dedupes scopes", () => {
+    const resolved = resolveScopeTemplate(templates, "combined");
+    assert.deepStrictEqual(resolved.scopes, [
+      "github:repo:read",
+      "github:pulls:read",
+      "github:issues:write",
+    ]);
+  });
+
+  test("own constraints override included ones", () => {
+    const resolved = resolveScopeTemplate(templates, "combined");
+    assert.deepStrictEqual(resolved.constraints, { "github:repo:read": { maxUses: 10 } });
+  });
+
+  test("uses own TTL, else the shortest included TTL", () => {
+    assert.strictEqual(resolveScopeTemplate(templates, "base").ttlMinutes, 60);
+    assert.strictEqual(resolveScopeTemplate(templates, "combined").ttlMinutes, 20);
+  });
+
+  test("rejects unknown templates and cycles", () => {
+    assert.throws(() => resolveScopeTemplate(templates, "nope"), /Unknown scope template "nope"/);
+    assert.throws(
+      () =>
+        resolveScopeTemplate(
+          {
+            a: { scopes: [], include: ["b"] },
+            b: { scopes: ["*"], include: ["a"] },
+          },
+          "a"
+        ),
+      /Scope template cycle: a -> b -> a/
+    );
+  });
+});
+
+describe("validateScopeTemplates", () => {
+  test("accepts a valid set", () => {
+    validateScopeTemplates({
+      reader: { scopes: ["github:repo:read"] },
+      writer: { scopes: ["github:repo:write"], include: ["reader"], ttlMinutes: 15 },
+    });
+  });
+
+  test("rejects bad names, unknown scopes, bad TTLs and empty templates", () => {
+    assert.throws(() => validateScopeTemplates({ "a b": { scopes: ["*"] } }), /Invalid scope template name/);
+    assert.throws(
+      () => validateScopeTemplates({ t: { scopes: ["aws:s3:delete"] } }),
+      /unknown scope "aws:s3:delete"/
+    );
+    assert.throws(
+      () => validateScopeTemplates({ t: { scopes: ["*"], ttlMinutes: 0 } }),
+      /ttlMinutes must be positive/
+    );
+    assert.throws(() => validateScopeTemplates({ t: { scopes: [] } }), /grants no scopes/);
+    assert.throws(
+      () => validateScopeTemplates({ t: { scopes: ["*"], include: ["missing"] } }),
+      /Unknown scope template "missing"/
+    );
+  });
+});
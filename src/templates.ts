@@ -0,0 +1,116 @@
+/**
+ * Named scope templates (bundles) from broker config
+ *
+ * Templates expand at mint time only: `Broker.createRootToken`/`delegate`
+ * (and the CLI's `--template`) add a template's scopes to the request, so
+ * tokens still carry explicit scopes. Templates can include other
+ * templates by name; scopes for providers with a static scope map (GitHub,
+ * Google, AWS, Slack) must match at least one scope the provider knows.
+ */
+
+import type { Constraints, ScopeTemplate } from "./types.js";
+import { scopeMatches } from "./token.js";
+import { GITHUB_SCOPES } from "./providers/github.js";
+import { GOOGLE_SCOPES } from "./providers/google.js";
+import { AWS_SCOPES } from "./providers/aws.js";
+import { SLACK_SCOPES } from "./providers/slack.js";
+
+/**
+ * Scopes each provider maps to real permissions. Providers without an
+ * entry (API keys, `mcp`, `system`) accept any scope.
+ */
+export const KNOWN_PROVIDER_SCOPES: Readonly<Record<string, readonly string[]>> = {
+  github: GITHUB_SCOPES,
+  google: GOOGLE_SCOPES,
+  aws: AWS_SCOPES,
+  slack: SLACK_SCOPES,
+};
+
+/** Template names: letters, digits, `.`, `_` and `-` */
+const TEMPLATE_NAME = /^[A-Za-z0-9._-]+$/;
+
+/** A template with its includes flattened */
+export interface ResolvedScopeTemplate {
+  scopes: string[];
+  constraints: Constraints;
+  /** Own TTL, else the shortest TTL among included templates */
+  ttlMinutes?: number;
+}
+
+/**
+ * Whether a scope (or scope pattern) is valid for its provider's scope
+ * map. Patterns must cover at least one known scope.
+ */
+export function isKnownScope(scope: string): boolean {
+  const known = KNOWN_PROVIDER_SCOPES[scope.split(":")[0]];
+  if (!known) {
+    return true;
+  }
+  return known.some((knownScope) => scopeMatches(scope, knownScope));
+}
+
+/**
+ * Flatten a template and everything it includes. Included templates come
+ * first, so the template's own constraints override theirs.
+ */
+export function resolveScopeTemplate(
+  templates: Record<string, ScopeTemplate>,
+  name: string,
+  stack: string[] = []
+): ResolvedScopeTemplate {
+  if (stack.includes(name)) {
+    throw new Error(`Scope template cycle: ${[...stack, name].join(" -> ")}`);
+  }
+  const template = templates[name];
+  if (!template) {
+    throw new Error(`Unknown scope template "${name}"`);
+  }
+
+  const scopes = new Set<string>();
+  let constraints: Constraints = {};
+  let includedTtl: number | undefined;
+  for (const include of template.include ?? []) {
+    const resolved = resolveScopeTemplate(templates, include, [...stack, name]);
+    resolved.scopes.forEach((scope) => scopes.add(scope));
+    constraints = { ...constraints, ...resolved.constraints };
+    if (resolved.ttlMinutes !== undefined) {
+      includedTtl = Math.min(includedTtl ?? Infinity, resolved.ttlMinutes);
+    }
+  }
+  template.scopes.forEach((scope) => scopes.add(scope));
+
+  return {
+    scopes: [...scopes],
+    constraints: { ...constraints, ...template.constraints },
+    ttlMinutes: template.ttlMinutes ?? includedTtl,
+  };
+}
+
+/**
+ * Validate a full set of templates: names, includes (no unknown
+ * references or cycles), scopes against the provider scope maps, and TTLs.
+ * Throws on the first problem.
+ */
+export function validateScopeTemplates(templates: Record<string, ScopeTemplate>): void {
+  for (const [name, template] of Object.entries(templates)) {
+    if (!TEMPLATE_NAME.test(name)) {
+      throw new Error(`Invalid scope template name "${name}"`);
+    }
+    if (!Array.isArray(template.scopes)) {
+      throw new Error(`Scope template "${name}": scopes must be an array`);
+    }
+    for (const scope of template.scopes) {
+      if (!isKnownScope(scope)) {
+        throw new Error(`Scope template "${name}": unknown scope "${scope}"`);
+      }
+    }
+    if (template.ttlMinutes !== undefined && !(template.ttlMinutes > 0)) {
+      throw new Error(`Scope template "${name}": ttlMinutes must be positive`);
+    }
+
+    const resolved = resolveScopeTemplate(templates, name);
+    if (resolved.scopes.length === 0) {
+      throw new Error(`Scope template "${name}" grants no scopes`);
+    }
+  }
+}
@@ -4,12 +4,24 @@
 
 import { test, describe } from "node:test";
 import * as assert from "node:assert";
+import * as crypto from "node:crypto";
 import {
   TokenService,
   generateSecret,
   scopeMatches,
   resourceMatches,
+  getRevocationId,
+  getAncestorIds,
+  resourcePatternCovered,
+  tokenKeyId,
+  verifyTokenWithJwks,
+  TOKEN_JWS_TYPE,
+  TOKEN_FORMAT_VERSION,
 } from "./token.js";
+import { publicKeyToJwks } from "./mcp/signing-key.js";
+import { checkMCPCall } from "./mcp/policy.js";
+import { approvalArgsHash } from "./mcp/approval.js";
+import type { AgentToken } from "./types.js";
 
 // ─────────────────────────────────────────────────────────────────
 // SCOPE MATCHING TESTS
@@ -413,6 +425,183 @@ describe("TokenService - Delegation", () => {
     });
   });
 
+  test("child cannot widen resources beyond parent", () => {
+    const service = new TokenService(generateSecret());
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["github:repo:read"],
+      constraints: {
+        "github:repo:read": { resources: ["myorg/frontend"] },
+      },
+    });
+
+    assert.throws(
+      () =>
+        service.delegate(parent, {
+          requestedScopes: ["github:repo:read"],
+          requestedConstraints: { "github:repo:read": { resources: ["*"] } },
+        }),
+      {
+        message:
+          'Resource pattern "*" for scope "github:repo:read" is not within parent\'s allowed resources [myorg/frontend]',
+      }
+    );
+  });
+
+  test("MCP argument rules attenuate through delegation", () => {
+    const service = new TokenService(generateSecret());
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["mcp:fs:*"],
+      constraints: {
+        "mcp:fs:read_file": { args: { path: { pathPrefixes: ["/srv"] } } },
+      },
+    });
+
+    // Re-requesting the wildcard keeps the parent's rules on read_file
+    const inherited = service.delegate(parent, { requestedScopes: ["mcp:fs:*"] });
+    assert.strictEqual(
+      checkMCPCall(inherited, "fs", "read_file", { path: "/etc/passwd" }).kind,
+      "deny"
+    );
+
+    const narrowed = service.delegate(parent, {
+      requestedScopes: ["mcp:fs:read_file"],
+      requestedConstraints: {
+        "mcp:fs:read_file": { args: { path: { pathPrefixes: ["/srv/data"] }, limit: { max: 10 } } },
+      },
+    });
+    assert.deepStrictEqual(narrowed.constraints["mcp:fs:read_file"].args, {
+      path: { pathPrefixes: ["/srv/data"] },
+      limit: { max: 10 },
+    });
+
+    assert.throws(
+      () =>
+        service.delegate(parent, {
+          requestedScopes: ["mcp:fs:read_file"],
+          requestedConstraints: {
+            "mcp:fs:read_file": { args: { path: { pathPrefixes: ["/"] } } },
+          },
+        }),
+      { message: /Path prefix "\/" for argument "path" of scope "mcp:fs:read_file" is not within/ }
+    );
+  });
+
+  test("MCP argument bindings are inherited and can't be rebound", () => {
+    const service = new TokenService(generateSecret());
+    const approved = { path: "/tmp/x" };
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["mcp:fs:delete_file"],
+      constraints: { "mcp:fs:delete_file": { argsHash: approvalArgsHash(approved) } },
+    });
+
+    const child = service.delegate(parent, { requestedScopes: ["mcp:fs:delete_file"] });
+    assert.strictEqual(checkMCPCall(child, "fs", "delete_file", approved).kind, "allow");
+    assert.strictEqual(
+      checkMCPCall(child, "fs", "delete_file", { path: "/etc/passwd" }).kind,
+      "deny"
+    );
+
+    assert.throws(
+      () =>
+        service.delegate(parent, {
+          requestedScopes: ["mcp:fs:delete_file"],
+          requestedConstraints: {
+            "mcp:fs:delete_file": { argsHash: approvalArgsHash({ path: "/etc/passwd" }) },
+          },
+        }),
+      { message: /bound to different arguments/ }
+    );
+  });
+
+  test("child resource patterns are checked against wildcard parent constraints", () => {
+    const service = new TokenService(generateSecret());
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["github:*"],
+      constraints: { "github:repo:*": { resources: ["myorg/*"] } },
+    });
+
+    const child = service.delegate(parent, {
+      requestedScopes: ["github:repo:read"],
+      requestedConstraints: {
+        "github:repo:read": { resources: ["myorg/docs-*"] },
+      },
+    });
+    assert.deepStrictEqual(child.constraints, {
+      "github:repo:read": { resources: ["myorg/docs-*"] },
+    });
+
+    assert.throws(
+      () =>
+        service.delegate(parent, {
+          requestedScopes: ["github:repo:read"],
+          requestedConstraints: { "github:repo:read": { resources: ["*/docs"] } },
+        }),
+      { message: /not within parent's allowed resources/ }
+    );
+  });
+
+  test("child constraints on scopes granted through a wildcard are checked", () => {
+    const service = new TokenService(generateSecret());
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["github:*"],
+      constraints: { "github:*": { resources: ["myorg/*"] } },
+    });
+
+    // Child requests the wildcard scope but constrains a specific action
+    const child = service.delegate(parent, {
+      requestedScopes: ["github:*"],
+      requestedConstraints: {
+        "github:repo:write": { resources: ["myorg/sandbox"] },
+      },
+    });
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:write", "myorg/app").valid,
+      false
+    );
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:write", "myorg/sandbox").valid,
+      true
+    );
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:read", "myorg/app").valid,
+      true
+    );
+
+    assert.throws(
+      () =>
+        service.delegate(parent, {
+          requestedScopes: ["github:*"],
+          requestedConstraints: { "github:repo:write": { resources: ["*"] } },
+        }),
+      { message: /"\*" for scope "github:repo:write" is not within/ }
+    );
+  });
+
+  test("requesting a wider scope keeps parent constraints on narrower scopes", () => {
+    const service = new TokenService(generateSecret());
+    const parent = service.createRootToken({
+      agentId: "parent",
+      scopes: ["github:*"],
+      constraints: { "github:repo:read": { resources: ["myorg/frontend"] } },
+    });
+
+    const child = service.delegate(parent, { requestedScopes: ["github:repo:*"] });
+
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:read", "other/repo").valid,
+      false
+    );
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:read", "myorg/frontend").valid,
+      true
+    );
+  });
+
   test("child cannot exceed parent scopes", () => {
     const secret = generateSecret();
     const service = new TokenService(secret);
@@ -868,6 +1057,658 @@ describe("TokenService - Serialization", () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────
+// CANONICAL SIGNING PAYLOAD TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("TokenService - Canonical Signing Payload", () => {
+  /** Rebuild an object with its keys (recursively) in reverse order */
+  function reorder<T>(value: T): T {
+    if (Array.isArray(value)) return value.map(reorder) as T;
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).reverse().map(([k, v]) => [k, reorder(v)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /** Sign a token the way pre-formatVersion brokers did */
+  function signLegacy(token: Omit<AgentToken, "signature">, secret: Buffer): AgentToken {
+    const signature = crypto
+      .createHmac("sha256", secret)
+      .update(JSON.stringify(token))
+      .digest("base64url");
+    return { ...token, signature };
+  }
+
+  test("new tokens carry the current format version", () => {
+    const service = new TokenService(generateSecret());
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    assert.strictEqual(token.formatVersion, TOKEN_FORMAT_VERSION);
+  });
+
+  test("verification survives property reordering", () => {
+    const service = new TokenService(generateSecret());
+    const root = service.createRootToken({
+      agentId: "root",
+      scopes: ["github:*"],
+      constraints: { "github:repo:read": { resources: ["myorg/*"], maxUses: 3 } },
+      ttlDays: 1,
+    });
+    const child = service.delegate(root, { requestedScopes: ["github:repo:read"] });
+
+    assert.strictEqual(service.verify(reorder(root)).valid, true);
+    assert.strictEqual(service.verify(reorder(child)).valid, true);
+  });
+
+  test("JWS tokens survive re-serialization with reordered keys", () => {
+    const service = new TokenService(generateSecret());
+    service.setTokenSigningKey(
+      crypto.generateKeyPairSync("ed25519", {
+        privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        publicKeyEncoding: { type: "spki", format: "pem" },
+      })
+    );
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    const restored = service.deserialize(service.serialize(reorder(token)));
+    assert.strictEqual(service.verify(restored).valid, true);
+  });
+
+  test("legacy tokens without a format version still verify", () => {
+    const secret = generateSecret();
+    const service = new TokenService(secret);
+    const legacy = signLegacy(
+      {
+        agentId: "legacy",
+        scopes: ["github:repo:read"],
+        constraints: {},
+        delegatable: true,
+        maxDelegationDepth: 3,
+        currentDepth: 0,
+      },
+      secret
+    );
+
+    assert.strictEqual(service.verify(legacy).valid, true);
+    // Legacy signatures still depend on property order
+    assert.strictEqual(service.verify(reorder(legacy)).valid, false);
+  });
+
+  test("format version is covered by the signature", () => {
+    const secret = generateSecret();
+    const service = new TokenService(secret);
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    const downgraded = { ...token, formatVersion: undefined };
+    assert.strictEqual(service.verify(downgraded).valid, false);
+  });
+
+  test("refreshing a legacy token upgrades its format", () => {
+    const secret = generateSecret();
+    const service = new TokenService(secret);
+    const legacy = signLegacy(
+      {
+        agentId: "legacy",
+        scopes: ["*"],
+        constraints: {},
+        delegatable: true,
+        maxDelegationDepth: 3,
+        currentDepth: 0,
+      },
+      secret
+    );
+
+    const refreshed = service.createRefreshedToken(legacy);
+    assert.strictEqual(refreshed.formatVersion, TOKEN_FORMAT_VERSION);
+    assert.strictEqual(service.verify(reorder(refreshed)).valid, true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// RESOURCE PATTERN CONTAINMENT TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("resourcePatternCovered", () => {
+  test("literal patterns", () => {
+    assert.strictEqual(resourcePatternCovered(["myorg/repo"], "myorg/repo"), true);
+    assert.strictEqual(resourcePatternCovered(["myorg/repo"], "myorg/other"), false);
+  });
+
+  test("literal child under wildcard parent", () => {
+    assert.strictEqual(resourcePatternCovered(["myorg/*"], "myorg/frontend"), true);
+    assert.strictEqual(resourcePatternCovered(["myorg/*"], "other/frontend"), false);
+  });
+
+  test("wildcard child must be narrower than parent", () => {
+    assert.strictEqual(resourcePatternCovered(["myorg/*"], "myorg/repo-*"), true);
+    assert.strictEqual(resourcePatternCovered(["myorg/repo-*"], "myorg/*"), false);
+    assert.strictEqual(resourcePatternCovered(["myorg/frontend"], "*"), false);
+    assert.strictEqual(resourcePatternCovered(["*"], "anything/*"), true);
+  });
+
+  test("* spans path separators like resourceMatches", () => {
+    assert.strictEqual(resourcePatternCovered(["myorg/*"], "myorg/a/b/*"), true);
+    assert.strictEqual(resourcePatternCovered(["*/docs"], "myorg/*/docs"), true);
+  });
+
+  test("? matches exactly one character", () => {
+    assert.strictEqual(resourcePatternCovered(["repo-?"], "repo-a"), true);
+    assert.strictEqual(resourcePatternCovered(["repo-*"], "repo-?"), true);
+    assert.strictEqual(resourcePatternCovered(["repo-?"], "repo-*"), false);
+    assert.strictEqual(resourcePatternCovered(["repo-?"], "repo-??"), false);
+    assert.strictEqual(resourcePatternCovered(["??"], "?a"), true);
+  });
+
+  test("child may be covered by a union of parent patterns", () => {
+    assert.strictEqual(resourcePatternCovered(["a*", "b*"], "a-repo"), true);
+    assert.strictEqual(resourcePatternCovered(["repo-a*", "repo-?"], "repo-?"), true);
+    // "x?" = "xa" ∪ "x<anything else>"
+    assert.strictEqual(resourcePatternCovered(["xa", "x?"], "x?"), true);
+    assert.strictEqual(resourcePatternCovered(["xa", "xb"], "x?"), false);
+  });
+
+  test("regex metacharacters are literal", () => {
+    assert.strictEqual(resourcePatternCovered(["a.b"], "a.b"), true);
+    assert.strictEqual(resourcePatternCovered(["a.b"], "axb"), false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// REVOCATION TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("TokenService - Revocation", () => {
+  function createService(revoked: Set<string>): TokenService {
+    const service = new TokenService(generateSecret());
+    service.setRevocationChecker({ isRevoked: (id) => revoked.has(id) });
+    return service;
+  }
+
+  test("rejects a revoked token", () => {
+    const revoked = new Set<string>();
+    const service = createService(revoked);
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    assert.strictEqual(service.verify(token).valid, true);
+    revoked.add(token.tokenId!);
+
+    const result = service.verify(token);
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error, "Token revoked");
+  });
+
+  test("revocation cascades to every descendant", () => {
+    const revoked = new Set<string>();
+    const service = createService(revoked);
+    const root = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    const child = service.delegate(root, {
+      agentId: "child",
+      requestedScopes: ["github:*"],
+    });
+    const grandchild = service.delegate(child, {
+      agentId: "grandchild",
+      requestedScopes: ["github:repo:read"],
+    });
+
+    assert.deepStrictEqual(grandchild.delegationChain, [
+      root.tokenId,
+      child.tokenId,
+    ]);
+
+    revoked.add(root.tokenId!);
+    assert.strictEqual(service.verify(child).valid, false);
+    const result = service.verify(grandchild);
+    assert.strictEqual(result.valid, false);
+    assert.match(result.error!, new RegExp(`ancestor "${root.tokenId}"`));
+  });
+
+  test("revoking a child leaves its parent valid", () => {
+    const revoked = new Set<string>();
+    const service = createService(revoked);
+    const root = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    const child = service.delegate(root, {
+      agentId: "child",
+      requestedScopes: ["github:*"],
+    });
+    revoked.add(child.tokenId!);
+
+    assert.strictEqual(service.verify(root).valid, true);
+    assert.strictEqual(service.verify(child).valid, false);
+  });
+
+  test("revoking one token leaves others with the same agentId valid", () => {
+    const revoked = new Set<string>();
+    const service = createService(revoked);
+    const first = service.createRootToken({ agentId: "worker", scopes: ["*"] });
+    const second = service.createRootToken({ agentId: "worker", scopes: ["*"] });
+    revoked.add(first.tokenId!);
+
+    assert.strictEqual(service.verify(first).valid, false);
+    assert.strictEqual(service.verify(second).valid, true);
+  });
+
+  test("legacy tokens fall back to agentId for revocation lineage", () => {
+    const legacyChild = {
+      agentId: "legacy-child",
+      parentId: "legacy-parent",
+    } as AgentToken;
+
+    assert.strictEqual(getRevocationId(legacyChild), "legacy-child");
+    assert.deepStrictEqual(getAncestorIds(legacyChild), ["legacy-parent"]);
+  });
+
+  test("checkPermission denies revoked tokens", () => {
+    const revoked = new Set<string>();
+    const service = createService(revoked);
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    revoked.add(token.tokenId!);
+
+    const result = service.checkPermission(token, "github:repo:read", "a/b");
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error, "Token revoked");
+  });
+
+  test("refreshed tokens keep their delegation chain", () => {
+    const service = createService(new Set());
+    const root = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    const child = service.delegate(root, { requestedScopes: ["github:*"] });
+
+    const refreshed = service.createRefreshedToken(child, child.expiresAt);
+    assert.deepStrictEqual(refreshed.delegationChain, [root.tokenId]);
+  });
+
+  test("scope revocations withdraw scopes from the token and its descendants", () => {
+    const revokedScopes = new Map<string, string[]>();
+    const service = new TokenService(generateSecret());
+    service.setRevocationChecker({
+      isRevoked: () => false,
+      getRevokedScopes: (id) => revokedScopes.get(id) ?? [],
+    });
+    const root = service.createRootToken({
+      agentId: "root",
+      scopes: ["github:*", "mcp:*"],
+    });
+    const child = service.delegate(root, {
+      requestedScopes: ["github:repo:write", "github:repo:read", "mcp:shell:exec"],
+    });
+
+    revokedScopes.set(root.tokenId!, ["mcp:shell:*"]);
+    revokedScopes.set(child.tokenId!, ["github:repo:write"]);
+
+    assert.strictEqual(service.verify(child).valid, true);
+    assert.deepStrictEqual(service.getRevokedScopes(child).sort(), [
+      "github:repo:write",
+      "mcp:shell:*",
+    ]);
+    assert.deepStrictEqual(service.getRevokedScopes(root), ["mcp:shell:*"]);
+
+    const shell = service.checkPermission(child, "mcp:shell:exec", "");
+    assert.strictEqual(shell.valid, false);
+    assert.strictEqual(shell.error, 'Scope "mcp:shell:exec" revoked by "mcp:shell:*"');
+    assert.strictEqual(
+      service.checkPermission(child, "github:repo:write", "a/b").valid,
+      false
+    );
+    assert.strictEqual(service.checkPermission(child, "github:repo:read", "a/b").valid, true);
+    assert.strictEqual(service.checkPermission(root, "github:repo:write", "a/b").valid, true);
+
+    assert.throws(
+      () => service.delegate(root, { requestedScopes: ["mcp:shell:exec"] }),
+      /Scope "mcp:shell:exec" revoked by "mcp:shell:\*"/
+    );
+  });
+
+  test("rejects tokens matched by a revocation rule", () => {
+    const service = new TokenService(generateSecret());
+    service.setRevocationChecker({
+      isRevoked: () => false,
+      matchRevocationRule: (token) =>
+        token.identity?.principalId === "alice" ? "rule_1" : undefined,
+    });
+    const alice = service.createRootToken({
+      agentId: "a",
+      scopes: ["*"],
+      identity: { systemId: "sys", principalId: "alice" },
+    });
+    const bob = service.createRootToken({
+      agentId: "b",
+      scopes: ["*"],
+      identity: { systemId: "sys", principalId: "bob" },
+    });
+
+    const result = service.verify(alice);
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error, 'Token revoked by rule "rule_1"');
+    assert.strictEqual(service.verify(bob).valid, true);
+  });
+
+  test("no checker means no revocation checks", () => {
+    const service = new TokenService(generateSecret());
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    assert.strictEqual(service.verify(token).valid, true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// TOKEN ID AND LINEAGE TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("TokenService - Token IDs and Lineage", () => {
+  test("root tokens get a unique token ID and issue time", () => {
+    const service = new TokenService(generateSecret());
+    const a = service.createRootToken({ agentId: "same", scopes: ["*"] });
+    const b = service.createRootToken({ agentId: "same", scopes: ["*"] });
+
+    assert.match(a.tokenId!, /^tok_/);
+    assert.notStrictEqual(a.tokenId, b.tokenId);
+    assert.ok(a.issuedAt);
+    assert.ok(Math.abs(Date.parse(a.issuedAt!) - Date.now()) < 5000);
+    assert.strictEqual(a.parentTokenId, undefined);
+  });
+
+  test("delegated tokens record their parent's token ID", () => {
+    const service = new TokenService(generateSecret());
+    const root = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    const child = service.delegate(root, { requestedScopes: ["github:*"] });
+
+    assert.ok(child.tokenId);
+    assert.notStrictEqual(child.tokenId, root.tokenId);
+    assert.strictEqual(child.parentTokenId, root.tokenId);
+    assert.strictEqual(child.parentId, "root");
+    assert.ok(child.issuedAt);
+  });
+
+  test("refresh keeps the token ID and stamps a new issue time", async () => {
+    const service = new TokenService(generateSecret());
+    const root = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    const child = service.delegate(root, { requestedScopes: ["github:*"] });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const refreshed = service.createRefreshedToken(child, child.expiresAt);
+    assert.strictEqual(refreshed.tokenId, child.tokenId);
+    assert.strictEqual(refreshed.parentTokenId, root.tokenId);
+    assert.ok(Date.parse(refreshed.issuedAt!) > Date.parse(child.issuedAt!));
+    assert.strictEqual(service.verify(refreshed).valid, true);
+  });
+
+  test("token ID is covered by the signature", () => {
+    const service = new TokenService(generateSecret());
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    const tampered = { ...token, tokenId: "tok_other" };
+    assert.strictEqual(service.verify(tampered).valid, false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// VERSIONED SIGNING KEY TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("TokenService - Versioned Signing Keys", () => {
+  function keyring() {
+    const keys = new Map<number, Buffer>();
+    const expired = new Set<number>();
+    let current = 0;
+    return {
+      rotate() {
+        keys.set(++current, generateSecret());
+        return current;
+      },
+      expire(version: number) {
+        expired.add(version);
+      },
+      getCurrentVersion: () => current,
+      getCurrentKey: () => ({ key: keys.get(current)!, version: current }),
+      getVerificationKey: (version: number) =>
+        expired.has(version) ? undefined : keys.get(version),
+    };
+  }
+
+  test("stamps the current key version and verifies", () => {
+    const keys = keyring();
+    keys.rotate();
+    const service = new TokenService(generateSecret());
+    service.setSigningKeyProvider(keys);
+
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    assert.strictEqual(token.keyVersion, 1);
+    assert.strictEqual(service.verify(token).valid, true);
+  });
+
+  test("tokens signed before a rotation still verify", () => {
+    const keys = keyring();
+    keys.rotate();
+    const service = new TokenService(generateSecret());
+    service.setSigningKeyProvider(keys);
+    const before = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    keys.rotate();
+    const after = service.delegate(before, { requestedScopes: ["github:repo:read"] });
+
+    assert.strictEqual(after.keyVersion, 2);
+    assert.strictEqual(service.verify(before).valid, true);
+    assert.strictEqual(service.verify(after).valid, true);
+  });
+
+  test("rejects tokens whose key version expired", () => {
+    const keys = keyring();
+    keys.rotate();
+    const service = new TokenService(generateSecret());
+    service.setSigningKeyProvider(keys);
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    keys.rotate();
+    keys.expire(1);
+    assert.deepStrictEqual(service.verify(token), {
+      valid: false,
+      error: "Unknown or expired signing key version 1",
+    });
+  });
+
+  test("key version is covered by the signature", () => {
+    const keys = keyring();
+    keys.rotate();
+    keys.rotate();
+    const service = new TokenService(generateSecret());
+    service.setSigningKeyProvider(keys);
+    const token = service.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    assert.strictEqual(service.verify({ ...token, keyVersion: 1 }).valid, false);
+  });
+
+  test("tokens without a key version fall back to the token secret", () => {
+    const secret = generateSecret();
+    const legacy = new TokenService(secret).createRootToken({
+      agentId: "root",
+      scopes: ["*"],
+    });
+
+    const keys = keyring();
+    const service = new TokenService(secret);
+    service.setSigningKeyProvider(keys);
+
+    // No versioned key yet: keep signing with the token secret
+    const unversioned = service.createRootToken({ agentId: "root", scopes: ["*"] });
+    assert.strictEqual(unversioned.keyVersion, undefined);
+
+    keys.rotate();
+    assert.strictEqual(service.verify(legacy).valid, true);
+    assert.strictEqual(service.verify(unversioned).valid, true);
+  });
+
+  test("rejects versioned tokens when no provider is configured", () => {
+    const keys = keyring();
+    keys.rotate();
+    const signer = new TokenService(generateSecret());
+    signer.setSigningKeyProvider(keys);
+    const token = signer.createRootToken({ agentId: "root", scopes: ["*"] });
+
+    const result = new TokenService(generateSecret()).verify(token);
+    assert.strictEqual(result.valid, false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────
+// JWS (ED25519) TOKEN TESTS
+// ─────────────────────────────────────────────────────────────────
+
+describe("TokenService - JWS Tokens", () => {
+  function makeKey() {
+    return crypto.generateKeyPairSync("ed25519", {
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+  }
+
+  function jwsService() {
+    const key = makeKey();
+    const service = new TokenService(generateSecret());
+    service.setTokenSigningKey(key);
+    return { service, key };
+  }
+
+  test("signs tokens as compact JWS with a kid", () => {
+    const { service, key } = jwsService();
+    const token = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+
+    assert.strictEqual(token.alg, "EdDSA");
+    assert.strictEqual(token.kid, tokenKeyId(key.publicKey));
+
+    const serialized = service.serialize(token);
+    const [header] = serialized.split(".");
+    assert.strictEqual(serialized.split(".").length, 3);
+    assert.deepStrictEqual(JSON.parse(Buffer.from(header, "base64url").toString()), {
+      alg: "EdDSA",
+      typ: TOKEN_JWS_TYPE,
+      kid: token.kid,
+    });
+  });
+
+  test("round-trips through serialization and verifies", () => {
+    const { service } = jwsService();
+    const root = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+    const child = service.delegate(root, { requestedScopes: ["github:repo:read"] });
+
+    const restored = service.deserialize(service.serialize(child));
+    // Undefined fields are dropped in transport
+    assert.deepStrictEqual(restored, JSON.parse(JSON.stringify(child)));
+    assert.strictEqual(service.verify(restored).valid, true);
+  });
+
+  test("rejects tampered JWS tokens", () => {
+    const { service } = jwsService();
+    const token = service.createRootToken({ agentId: "root", scopes: ["github:repo:read"] });
+
+    const tampered = { ...token, scopes: ["*"] };
+    assert.deepStrictEqual(service.verify(tampered), {
+      valid: false,
+      error: "Invalid signature",
+    });
+  });
+
+  test("verifies tokens from another key only once it is trusted", () => {
+    const { service: other, key: otherKey } = jwsService();
+    const { service } = jwsService();
+    const token = other.createRootToken({ agentId: "root", scopes: ["github:*"] });
+
+    const result = service.verify(token);
+    assert.strictEqual(result.valid, false);
+    assert.match(result.error!, /Unknown signing key/);
+
+    assert.strictEqual(service.addVerificationKey(otherKey.publicKey), token.kid);
+    assert.strictEqual(service.verify(token).valid, true);
+  });
+
+  test("rejects alg other than EdDSA", () => {
+    const { service } = jwsService();
+    const token = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+    const forged = { ...token, alg: "none" } as unknown as AgentToken;
+    assert.strictEqual(service.verify(forged).valid, false);
+  });
+
+  test("verifies HMAC and JWS tokens side by side", () => {
+    const secret = generateSecret();
+    const hmacService = new TokenService(secret);
+    const hmacToken = hmacService.createRootToken({ agentId: "old", scopes: ["github:*"] });
+
+    const service = new TokenService(secret);
+    service.setTokenSigningKey(makeKey());
+    const jwsToken = service.createRootToken({ agentId: "new", scopes: ["github:*"] });
+
+    assert.strictEqual(service.verify(hmacToken).valid, true);
+    assert.strictEqual(service.verify(jwsToken).valid, true);
+    // HMAC tokens keep their original serialization
+    const restored = service.deserialize(service.serialize(hmacToken));
+    assert.deepStrictEqual(restored, JSON.parse(JSON.stringify(hmacToken)));
+
+    // Switching back to HMAC keeps the JWS key trusted
+    service.setTokenSigningKey(undefined);
+    assert.strictEqual(service.verify(jwsToken).valid, true);
+    assert.strictEqual(service.createRootToken({ agentId: "x", scopes: [] }).alg, undefined);
+  });
+
+  test("delegating an HMAC token in JWS mode yields a JWS child", () => {
+    const secret = generateSecret();
+    const parent = new TokenService(secret).createRootToken({
+      agentId: "root",
+      scopes: ["github:*"],
+    });
+
+    const service = new TokenService(secret);
+    service.setTokenSigningKey(makeKey());
+    const child = service.delegate(parent, { requestedScopes: ["github:repo:read"] });
+
+    assert.strictEqual(child.alg, "EdDSA");
+    assert.strictEqual(service.verify(child).valid, true);
+  });
+
+  test("tokenKeyId matches the kid published by publicKeyToJwks", async () => {
+    const key = makeKey();
+    const jwks = await publicKeyToJwks(key.publicKey);
+    assert.strictEqual(tokenKeyId(key.publicKey), jwks.keys[0].kid);
+  });
+
+  test("verifyTokenWithJwks verifies with only the public JWKS", async () => {
+    const { service, key } = jwsService();
+    const token = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+    const jwks = await publicKeyToJwks(key.publicKey);
+
+    const result = await verifyTokenWithJwks(service.serialize(token), jwks);
+    assert.strictEqual(result.valid, true);
+    assert.deepStrictEqual(result.token, JSON.parse(JSON.stringify(token)));
+  });
+
+  test("verifyTokenWithJwks rejects tokens from other keys", async () => {
+    const { service } = jwsService();
+    const token = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+    const jwks = await publicKeyToJwks(makeKey().publicKey);
+
+    const result = await verifyTokenWithJwks(service.serialize(token), jwks);
+    assert.deepStrictEqual(result, { valid: false, error: "Invalid signature" });
+  });
+
+  test("verifyTokenWithJwks rejects expired tokens", async () => {
+    const { service, key } = jwsService();
+    const root = service.createRootToken({ agentId: "root", scopes: ["github:*"] });
+    const expired = service.createRefreshedToken(root, new Date(Date.now() - 1000).toISOString());
+    const jwks = await publicKeyToJwks(key.publicKey);
+
+    const result = await verifyTokenWithJwks(service.serialize(expired), jwks);
+    assert.deepStrictEqual(result, { valid: false, error: "Token expired" });
+  });
+
+  test("deserialize rejects JWS with a foreign typ", () => {
+    const { service } = jwsService();
+    const header = Buffer.from(JSON.stringify({ alg: "EdDSA", typ: "JWT" })).toString("base64url");
+    assert.throws(
+      () => service.deserialize(`${header}.e30.sig`),
+      /unexpected JWS type "JWT"/
+    );
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────
 // SECRET GENERATION TESTS
 // ─────────────────────────────────────────────────────────────────
@@ -3,22 +3,56 @@
  */
 
 import * as crypto from "crypto";
+import { compactVerify, createLocalJWKSet, type JSONWebKeySet } from "jose";
 import type {
   AgentToken,
   DelegationRequest,
+  ElevationRequest,
+  ConsentGrant,
+  ExternalAuthInfo,
   VerificationResult,
   SerializedToken,
   Constraints,
   ScopeConstraint,
+  UsageBudget,
+  LineageIdentity,
   CreateRootTokenParams,
   IdentityBinding,
   FederationMetadata,
   AgentCapabilities,
+  RevocationChecker,
+  SigningKeyProvider,
 } from "./types.js";
+import type { TokenSigningKey } from "./mcp/signing-key.js";
+import { canonicalize } from "./identity/jcs.js";
+import { mergeArgConstraints } from "./mcp/args.js";
+
+/**
+ * Signing payload format stamped on new tokens. Version 2 signs the RFC
+ * 8785 canonical form; tokens without a version (1) signed
+ * `JSON.stringify` output and depend on property order.
+ */
+export const TOKEN_FORMAT_VERSION = 2;
+
+/** JWS algorithm for asymmetric capability tokens */
+const JWS_ALG = "EdDSA";
+/** JWS `typ` header identifying agent-iam capability tokens */
+export const TOKEN_JWS_TYPE = "agent-iam+token";
+
+/**
+ * Meta-scope prefix gating elevation: `system:scope:elevate:<pattern>`
+ * lets a token elevate itself to scopes matching `<pattern>`
+ */
+export const ELEVATION_SCOPE_PREFIX = "system:scope:elevate:";
+
+/** Bytes a token's signature covers, per its format version */
+function signingPayload(token: Omit<AgentToken, "signature">): string {
+  return (token.formatVersion ?? 1) >= 2 ? canonicalize(token) : JSON.stringify(token);
+}
 
 /** Sign a token using HMAC-SHA256 */
 function sign(token: Omit<AgentToken, "signature">, secret: Buffer): string {
-  const payload = JSON.stringify(token);
+  const payload = signingPayload(token);
   return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
 }
 
@@ -33,6 +67,76 @@ function verifySignature(token: AgentToken, secret: Buffer): boolean {
   );
 }
 
+/** JWS protected header of an asymmetric capability token */
+interface TokenJwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+/** Fields carried in the JWS header/signature rather than the payload */
+type TokenJwsPayload = Omit<AgentToken, "signature" | "alg" | "kid">;
+
+/** Build the JWS signing input (`header.payload`) for a token */
+function jwsSigningInput(payload: TokenJwsPayload, kid: string): string {
+  const header: TokenJwsHeader = { alg: JWS_ALG, typ: TOKEN_JWS_TYPE, kid };
+  return (
+    Buffer.from(JSON.stringify(header)).toString("base64url") +
+    "." +
+    Buffer.from(signingPayload(payload)).toString("base64url")
+  );
+}
+
+/**
+ * JWS key ID for an Ed25519 public key: the RFC 7638 JWK thumbprint, the
+ * same `kid` that `publicKeyToJwks` publishes.
+ */
+export function tokenKeyId(publicKeyPem: string): string {
+  const jwk = crypto.createPublicKey(publicKeyPem).export({ format: "jwk" });
+  // Required OKP members in lexicographic order (RFC 7638 §3.2)
+  const thumbprintInput = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+  return crypto.createHash("sha256").update(thumbprintInput).digest("base64url");
+}
+
+/**
+ * Verify a serialized JWS capability token using only a JWKS, for services
+ * that do not hold the broker's secrets. Checks the signature and expiry;
+ * revocation requires the broker (or its revocation list).
+ */
+export async function verifyTokenWithJwks(
+  serialized: SerializedToken,
+  jwks: JSONWebKeySet
+): Promise<VerificationResult & { token?: AgentToken }> {
+  let payload: Uint8Array;
+  let header: TokenJwsHeader;
+  try {
+    ({ payload, protectedHeader: header } = await compactVerify(
+      serialized,
+      createLocalJWKSet(jwks),
+      { algorithms: [JWS_ALG] }
+    ));
+  } catch {
+    return { valid: false, error: "Invalid signature" };
+  }
+
+  if (header.typ !== TOKEN_JWS_TYPE) {
+    return { valid: false, error: `Unexpected JWS type "${header.typ}"` };
+  }
+
+  const token: AgentToken = {
+    ...(JSON.parse(Buffer.from(payload).toString("utf-8")) as TokenJwsPayload),
+    alg: JWS_ALG,
+    kid: header.kid,
+    signature: serialized.split(".")[2],
+  };
+
+  if (token.expiresAt && new Date(token.expiresAt) < new Date()) {
+    return { valid: false, error: "Token expired" };
+  }
+
+  return { valid: true, token };
+}
+
 /** Check if a scope matches a pattern (supports wildcards) */
 export function scopeMatches(pattern: string, scope: string): boolean {
   if (pattern === scope) return true;
@@ -72,28 +176,381 @@ export function resourceMatches(pattern: string, resource: string): boolean {
   return regex.test(resource);
 }
 
+/** Advance a set of glob positions past leading `*`s (which may match nothing) */
+function globClosure(pattern: string, positions: Set<number>): Set<number> {
+  for (const pos of positions) {
+    if (pattern[pos] === "*") positions.add(pos + 1);
+  }
+  return positions;
+}
+
+/** Positions reachable in a glob after consuming one character */
+function globStep(pattern: string, positions: Set<number>, ch: string): Set<number> {
+  const next = new Set<number>();
+  for (const pos of positions) {
+    const p = pattern[pos];
+    if (p === "*") next.add(pos);
+    else if (p === "?" || p === ch) next.add(pos + 1);
+  }
+  return globClosure(pattern, next);
+}
+
+function globStateKey(positions: Set<number>): string {
+  return [...positions].sort((a, b) => a - b).join(",");
+}
+
+/**
+ * Check that every resource matched by `child` is matched by at least one
+ * of `parents`, using the `resourceMatches` glob language (`*` = any run of
+ * characters, `?` = any single character).
+ *
+ * Explores the child and parent globs in lockstep over an alphabet of the
+ * literal characters they mention plus one stand-in for every other
+ * character; the child is covered unless some string reaches an accepting
+ * child state while no parent accepts.
+ */
+export function resourcePatternCovered(parents: string[], child: string): boolean {
+  const alphabet = new Set<string>();
+  for (const pattern of [child, ...parents]) {
+    for (const ch of pattern) {
+      if (ch !== "*" && ch !== "?") alphabet.add(ch);
+    }
+  }
+  // A character no pattern mentions literally
+  let other = 0;
+  while (alphabet.has(String.fromCharCode(other))) other++;
+  alphabet.add(String.fromCharCode(other));
+
+  const start = {
+    child: globClosure(child, new Set([0])),
+    parents: parents.map((p) => globClosure(p, new Set([0]))),
+  };
+  const seen = new Set<string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const state = queue.pop()!;
+    const key = [state.child, ...state.parents].map(globStateKey).join("|");
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const childAccepts = state.child.has(child.length);
+    const parentAccepts = state.parents.some((positions, i) =>
+      positions.has(parents[i].length)
+    );
+    if (childAccepts && !parentAccepts) return false;
+
+    for (const ch of alphabet) {
+      const nextChild = globStep(child, state.child, ch);
+      if (nextChild.size === 0) continue;
+      queue.push({
+        child: nextChild,
+        parents: state.parents.map((positions, i) => globStep(parents[i], positions, ch)),
+      });
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the constraint that applies to a scope, returning the scope pattern
+ * it is declared under. Exact matches win over wildcard patterns.
+ */
+export function findScopeConstraint(
+  constraints: Constraints,
+  scope: string
+): { pattern: string; constraint: ScopeConstraint } | undefined {
+  // Exact match first
+  if (constraints[scope]) {
+    return { pattern: scope, constraint: constraints[scope] };
+  }
+
+  // Then try wildcard matches
+  for (const [pattern, constraint] of Object.entries(constraints)) {
+    if (scopeMatches(pattern, scope)) {
+      return { pattern, constraint };
+    }
+  }
+
+  return undefined;
+}
+
+/** Identity claims revocation rules match on, or undefined if there are none */
+function identityClaims(
+  token: Pick<AgentToken, "identity" | "persistentIdentity">
+): LineageIdentity | undefined {
+  const claims: LineageIdentity = {
+    ...(token.identity?.principalId && { principalId: token.identity.principalId }),
+    ...(token.identity?.tenantId && { tenantId: token.identity.tenantId }),
+    ...(token.identity?.organizationId && {
+      organizationId: token.identity.organizationId,
+    }),
+    ...(token.identity?.systemId && { systemId: token.identity.systemId }),
+    ...(token.persistentIdentity && {
+      persistentId: token.persistentIdentity.persistentId,
+    }),
+  };
+  return Object.keys(claims).length > 0 ? claims : undefined;
+}
+
+/**
+ * Identity claims of a token's ancestors and the token itself, root first,
+ * so revocation rules can match anywhere in the delegation chain
+ */
+export function getLineageIdentities(token: AgentToken): LineageIdentity[] {
+  const own = identityClaims(token);
+  return [...(token.ancestorIdentities ?? []), ...(own ? [own] : [])];
+}
+
+/**
+ * `ancestorIdentities` for a child of `parent`: the parent's lineage minus
+ * duplicates and claims the child holds itself
+ */
+function inheritAncestorIdentities(
+  parent: AgentToken,
+  child: Pick<AgentToken, "identity" | "persistentIdentity">
+): LineageIdentity[] | undefined {
+  const own = identityClaims(child);
+  const seen = new Set(own ? [canonicalize(own)] : []);
+  const inherited = getLineageIdentities(parent).filter((claims) => {
+    const key = canonicalize(claims);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return inherited.length > 0 ? inherited : undefined;
+}
+
+/**
+ * Every `maxUses` budget a use of `constraint` draws from: its ancestors'
+ * budgets, root first, then its own. `pattern` is the scope pattern
+ * `constraint` is declared under on `token`.
+ */
+export function getUsageBudgets(
+  token: AgentToken,
+  pattern: string,
+  constraint: ScopeConstraint
+): UsageBudget[] {
+  const inherited = constraint.usageBudgets ?? [];
+  if (constraint.maxUses === undefined) return inherited;
+  return [
+    ...inherited,
+    {
+      tokenId: getRevocationId(token),
+      scope: pattern,
+      maxUses: constraint.maxUses,
+      ...(token.maxExpiresAt && { expiresAt: token.maxExpiresAt }),
+    },
+  ];
+}
+
+/**
+ * Serialize a token for transport: base64url JSON for HMAC tokens, compact
+ * JWS (`header.payload.signature`) for JWS tokens. Needs no key.
+ */
+export function serializeToken(token: AgentToken): SerializedToken {
+  if (token.alg !== undefined) {
+    const { signature, alg: _alg, kid, ...payload } = token;
+    return `${jwsSigningInput(payload, kid ?? "")}.${signature ?? ""}`;
+  }
+  return Buffer.from(JSON.stringify(token)).toString("base64url");
+}
+
+/** Deserialize a token from either transport format. Needs no key. */
+export function deserializeToken(serialized: SerializedToken): AgentToken {
+  const parts = serialized.split(".");
+  if (parts.length === 1) {
+    const json = Buffer.from(serialized, "base64url").toString("utf-8");
+    return JSON.parse(json) as AgentToken;
+  }
+
+  if (parts.length !== 3) {
+    throw new Error("Malformed token: expected base64url JSON or compact JWS");
+  }
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const header = JSON.parse(
+    Buffer.from(encodedHeader, "base64url").toString("utf-8")
+  ) as TokenJwsHeader;
+  if (header.typ !== TOKEN_JWS_TYPE) {
+    throw new Error(`Malformed token: unexpected JWS type "${header.typ}"`);
+  }
+  const payload = JSON.parse(
+    Buffer.from(encodedPayload, "base64url").toString("utf-8")
+  ) as TokenJwsPayload;
+  return {
+    ...payload,
+    alg: header.alg as AgentToken["alg"],
+    kid: header.kid,
+    signature,
+  };
+}
+
+/** Generate a new unique token ID */
+export function generateTokenId(): string {
+  return `tok_${crypto.randomUUID()}`;
+}
+
+/**
+ * ID under which a token is recorded in revocation lists. Legacy tokens
+ * without a `tokenId` fall back to their `agentId`.
+ */
+export function getRevocationId(token: AgentToken): string {
+  return token.tokenId ?? token.agentId;
+}
+
+/**
+ * Revocation IDs of a token's ancestors, root first. Tokens minted before
+ * `delegationChain` existed only know their immediate parent.
+ */
+export function getAncestorIds(token: AgentToken): string[] {
+  if (token.delegationChain) return token.delegationChain;
+  return token.parentId ? [token.parentId] : [];
+}
+
+/**
+ * Revocation ID of the root token a token descends from (its own, for a
+ * root token). Unlike `agentId`, only the broker can place a token under a
+ * given root.
+ */
+export function getRootTokenId(token: AgentToken): string {
+  return getAncestorIds(token)[0] ?? getRevocationId(token);
+}
+
 /** Token service for creating and verifying tokens */
 export class TokenService {
   private secret: Buffer;
+  private revocationChecker?: RevocationChecker;
+  private signingKeyProvider?: SigningKeyProvider;
+  /** Ed25519 key for signing new tokens as JWS (undefined = HMAC) */
+  private jwsSigningKey?: { kid: string; privateKey: crypto.KeyObject };
+  /** Public keys trusted for JWS tokens, by kid */
+  private jwsVerificationKeys: Map<string, crypto.KeyObject> = new Map();
 
   constructor(secret: Buffer) {
     this.secret = secret;
   }
 
-  /** Create a root token */
+  /**
+   * Sign HMAC tokens with the provider's current versioned key (stamping
+   * `keyVersion`) and verify them against any non-expired version. Tokens
+   * without a `keyVersion` still verify with the `token_secret`, which also
+   * signs new tokens until the provider has a key.
+   */
+  setSigningKeyProvider(provider: SigningKeyProvider | undefined): void {
+    this.signingKeyProvider = provider;
+  }
+
+  /**
+   * Sign new tokens as Ed25519 compact JWS with this key, or with the HMAC
+   * secret again when undefined. The key's public half stays trusted for
+   * verification either way, so outstanding tokens keep working.
+   */
+  setTokenSigningKey(key: TokenSigningKey | undefined): void {
+    if (!key) {
+      this.jwsSigningKey = undefined;
+      return;
+    }
+    const kid = this.addVerificationKey(key.publicKey);
+    this.jwsSigningKey = { kid, privateKey: crypto.createPrivateKey(key.privateKey) };
+  }
+
+  /** Trust an Ed25519 public key (PEM SPKI) for JWS tokens. Returns its kid. */
+  addVerificationKey(publicKeyPem: string): string {
+    const kid = tokenKeyId(publicKeyPem);
+    this.jwsVerificationKeys.set(kid, crypto.createPublicKey(publicKeyPem));
+    return kid;
+  }
+
+  /** Sign a token with the active format */
+  private signToken(unsigned: Omit<AgentToken, "signature">): AgentToken {
+    const token = { ...unsigned, formatVersion: TOKEN_FORMAT_VERSION };
+    if (this.jwsSigningKey) {
+      const { kid, privateKey } = this.jwsSigningKey;
+      const input = jwsSigningInput(token, kid);
+      const signature = crypto
+        .sign(null, Buffer.from(input), privateKey)
+        .toString("base64url");
+      return { ...token, alg: JWS_ALG, kid, signature };
+    }
+
+    if (this.signingKeyProvider && this.signingKeyProvider.getCurrentVersion() > 0) {
+      const { key, version } = this.signingKeyProvider.getCurrentKey();
+      const versioned = { ...token, keyVersion: version };
+      return { ...versioned, signature: sign(versioned, key) };
+    }
+
+    const signature = sign(token, this.secret);
+    return { ...token, signature };
+  }
+
+  /** Verify an HMAC or JWS token signature */
+  private checkSignature(token: AgentToken): VerificationResult {
+    if (token.alg === undefined && token.kid === undefined) {
+      let secret = this.secret;
+      if (token.keyVersion !== undefined) {
+        const key = this.signingKeyProvider?.getVerificationKey(token.keyVersion);
+        if (!key) {
+          return {
+            valid: false,
+            error: `Unknown or expired signing key version ${token.keyVersion}`,
+          };
+        }
+        secret = key;
+      }
+      return verifySignature(token, secret)
+        ? { valid: true }
+        : { valid: false, error: "Invalid signature" };
+    }
+
+    const { signature, alg, kid, ...payload } = token;
+    if (alg !== JWS_ALG || !kid || !signature) {
+      return { valid: false, error: "Invalid signature" };
+    }
+    const publicKey = this.jwsVerificationKeys.get(kid);
+    if (!publicKey) {
+      return { valid: false, error: `Unknown signing key "${kid}"` };
+    }
+    const valid = crypto.verify(
+      null,
+      Buffer.from(jwsSigningInput(payload, kid)),
+      publicKey,
+      Buffer.from(signature, "base64url")
+    );
+    return valid ? { valid: true } : { valid: false, error: "Invalid signature" };
+  }
+
+  /**
+   * Set the revocation checker consulted by verify(). Pass undefined to
+   * disable revocation checks.
+   */
+  setRevocationChecker(checker: RevocationChecker | undefined): void {
+    this.revocationChecker = checker;
+  }
+
+  /**
+   * Create a root token. Scope templates are expanded by the broker, so
+   * `params.scopes` is required here.
+   */
   createRootToken(params: CreateRootTokenParams): AgentToken {
+    if (!params.scopes) {
+      throw new Error("Root token requires scopes");
+    }
+
     const now = new Date();
     const expiresAt = params.ttlDays
       ? new Date(now.getTime() + params.ttlDays * 24 * 60 * 60 * 1000).toISOString()
       : undefined;
 
     const token: Omit<AgentToken, "signature"> = {
+      tokenId: generateTokenId(),
       agentId: params.agentId,
       scopes: params.scopes,
       constraints: params.constraints ?? {},
       delegatable: params.delegatable ?? true,
       maxDelegationDepth: params.maxDelegationDepth ?? 3,
       currentDepth: 0,
+      issuedAt: now.toISOString(),
       expiresAt,
       maxExpiresAt: expiresAt,
       // Optional MAP integration fields (ignored in standalone mode)
@@ -104,12 +561,19 @@ export class TokenService {
       ...(params.persistentIdentity && { persistentIdentity: params.persistentIdentity }),
     };
 
-    const signature = sign(token, this.secret);
-    return { ...token, signature };
+    return this.signToken(token);
   }
 
-  /** Delegate a token to create a child token */
+  /**
+   * Delegate a token to create a child token. Scope templates are expanded
+   * by the broker, so `request.requestedScopes` is required here.
+   */
   delegate(parent: AgentToken, request: DelegationRequest): AgentToken {
+    const requestedScopes = request.requestedScopes;
+    if (!requestedScopes) {
+      throw new Error("Delegation requires requested scopes");
+    }
+
     // Validate parent can delegate
     if (!parent.delegatable) {
       throw new Error("Parent token is not delegatable");
@@ -122,18 +586,23 @@ export class TokenService {
     }
 
     // Validate requested scopes are subset of parent
-    for (const scope of request.requestedScopes) {
+    const revokedScopes = this.getRevokedScopes(parent);
+    for (const scope of requestedScopes) {
       const allowed = parent.scopes.some((ps) => scopeMatches(ps, scope));
       if (!allowed) {
         throw new Error(`Scope "${scope}" not allowed by parent token`);
       }
+      const revoked = revokedScopes.find((pattern) => scopeMatches(pattern, scope));
+      if (revoked) {
+        throw new Error(`Scope "${scope}" revoked by "${revoked}"`);
+      }
     }
 
     // Merge constraints (child constraints must be narrower)
     const mergedConstraints = this.mergeConstraints(
-      parent.constraints,
+      parent,
       request.requestedConstraints ?? {},
-      request.requestedScopes
+      requestedScopes
     );
 
     // Calculate expiry (cannot exceed parent)
@@ -154,6 +623,9 @@ export class TokenService {
 
     // Handle identity inheritance (default: inherit from parent)
     const inheritIdentity = request.inheritIdentity ?? true;
+    if (!inheritIdentity && parent.act) {
+      throw new Error("On-behalf-of tokens must keep the user's identity");
+    }
     const childIdentity = inheritIdentity ? parent.identity : undefined;
 
     // Handle persistent identity inheritance (default: inherit from parent)
@@ -170,16 +642,31 @@ export class TokenService {
       request.agentCapabilities
     );
 
+    const childAgentId =
+      request.agentId ?? `agent-${crypto.randomBytes(4).toString("hex")}`;
+    const ancestorIdentities = inheritAncestorIdentities(parent, {
+      identity: childIdentity,
+      persistentIdentity: childPersistentIdentity,
+    });
+
     const child: Omit<AgentToken, "signature"> = {
-      agentId: request.agentId ?? `agent-${crypto.randomBytes(4).toString("hex")}`,
+      tokenId: generateTokenId(),
+      agentId: childAgentId,
       parentId: parent.agentId,
-      scopes: request.requestedScopes,
+      ...(parent.tokenId && { parentTokenId: parent.tokenId }),
+      delegationChain: [...getAncestorIds(parent), getRevocationId(parent)],
+      scopes: requestedScopes,
       constraints: mergedConstraints,
       delegatable: (request.delegatable ?? true) && parent.delegatable,
       maxDelegationDepth: parent.maxDelegationDepth,
       currentDepth: parent.currentDepth + 1,
+      issuedAt: now.toISOString(),
       expiresAt,
       maxExpiresAt: parent.maxExpiresAt,
+      // On-behalf-of: the child joins the actor chain for the same user
+      ...(parent.act && { act: [...parent.act, childAgentId] }),
+      ...(parent.consentGrantId && { consentGrantId: parent.consentGrantId }),
+      ...(ancestorIdentities && { ancestorIdentities }),
       // Optional MAP integration fields (inherited/attenuated)
       ...(childIdentity && { identity: childIdentity }),
       ...(childFederation && { federation: childFederation }),
@@ -188,15 +675,194 @@ export class TokenService {
       ...(childPersistentIdentity && { persistentIdentity: childPersistentIdentity }),
     };
 
-    const signature = sign(child, this.secret);
-    return { ...child, signature };
+    return this.signToken(child);
+  }
+
+  /**
+   * Mint a short-lived elevated child holding the parent's scopes plus
+   * `additionalScopes`. Elevated tokens drop the parent's elevation
+   * meta-scopes, cannot delegate and cannot be elevated again.
+   *
+   * @param maxTtlMinutes - Broker policy cap on the elevation lifetime
+   */
+  elevate(request: ElevationRequest, maxTtlMinutes: number): AgentToken {
+    const parent = request.parentToken;
+    if (parent.elevation) {
+      throw new Error("Elevated tokens cannot be elevated again");
+    }
+    if (!request.justification?.trim()) {
+      throw new Error("Elevation requires a justification");
+    }
+    if (request.additionalScopes.length === 0) {
+      throw new Error("Elevation requires at least one additional scope");
+    }
+    if (!(request.ttlMinutes > 0)) {
+      throw new Error("Elevation TTL must be positive");
+    }
+
+    for (const scope of request.additionalScopes) {
+      const metaScope = `${ELEVATION_SCOPE_PREFIX}${scope}`;
+      if (!parent.scopes.some((ps) => scopeMatches(ps, metaScope))) {
+        throw new Error(`Elevation to "${scope}" requires "${metaScope}"`);
+      }
+    }
+
+    // Expiry: requested TTL, capped by policy, the parent's expiry and its
+    // maximum lifetime
+    const now = new Date();
+    const ttlMinutes = Math.min(request.ttlMinutes, maxTtlMinutes);
+    let expiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000);
+    for (const cap of [parent.expiresAt, parent.maxExpiresAt]) {
+      if (cap && new Date(cap) < expiresAt) {
+        expiresAt = new Date(cap);
+      }
+    }
+    if (expiresAt <= now) {
+      throw new Error("Parent token has reached maximum lifetime");
+    }
+
+    const scopes = [
+      ...parent.scopes.filter((scope) => !scope.startsWith(ELEVATION_SCOPE_PREFIX)),
+      ...request.additionalScopes.filter((scope) => !parent.scopes.includes(scope)),
+    ];
+
+    const elevated: Omit<AgentToken, "signature"> = {
+      tokenId: generateTokenId(),
+      agentId: parent.agentId,
+      parentId: parent.agentId,
+      ...(parent.tokenId && { parentTokenId: parent.tokenId }),
+      delegationChain: [...getAncestorIds(parent), getRevocationId(parent)],
+      scopes,
+      constraints: this.inheritConstraints(parent),
+      delegatable: false,
+      maxDelegationDepth: parent.maxDelegationDepth,
+      currentDepth: parent.currentDepth + 1,
+      issuedAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      maxExpiresAt: expiresAt.toISOString(),
+      elevation: {
+        parentTokenId: getRevocationId(parent),
+        additionalScopes: request.additionalScopes,
+        justification: request.justification,
+        grantedAt: now.toISOString(),
+      },
+      ...(parent.ancestorIdentities && { ancestorIdentities: parent.ancestorIdentities }),
+      // Optional MAP integration fields (inherited unchanged)
+      ...(parent.identity && { identity: parent.identity }),
+      ...(parent.federation && { federation: parent.federation }),
+      ...(parent.agentCapabilities && { agentCapabilities: parent.agentCapabilities }),
+      ...(parent.persistentIdentity && { persistentIdentity: parent.persistentIdentity }),
+    };
+
+    return this.signToken(elevated);
+  }
+
+  /**
+   * Mint an on-behalf-of child of `agentToken` acting for `user` (RFC 8693
+   * token exchange). Every requested scope must be covered by both the
+   * consent grant and the agent token; the result expires no later than
+   * either. The caller verifies the grant, the user and the agent token.
+   */
+  exchangeForUser(
+    agentToken: AgentToken,
+    grant: ConsentGrant,
+    user: ExternalAuthInfo & { userId: string },
+    request: { requestedScopes: string[]; ttlMinutes?: number; delegatable?: boolean }
+  ): AgentToken {
+    if (agentToken.act) {
+      throw new Error("On-behalf-of tokens cannot be exchanged again");
+    }
+    if (agentToken.elevation) {
+      throw new Error("Elevated tokens cannot be exchanged");
+    }
+    if (request.requestedScopes.length === 0) {
+      throw new Error("Token exchange requires at least one scope");
+    }
+
+    const revokedScopes = this.getRevokedScopes(agentToken);
+    for (const scope of request.requestedScopes) {
+      if (!grant.scopes.some((gs) => scopeMatches(gs, scope))) {
+        throw new Error(`Scope "${scope}" not covered by consent grant`);
+      }
+      if (!agentToken.scopes.some((as) => scopeMatches(as, scope))) {
+        throw new Error(`Scope "${scope}" not allowed by agent token`);
+      }
+      const revoked = revokedScopes.find((pattern) => scopeMatches(pattern, scope));
+      if (revoked) {
+        throw new Error(`Scope "${scope}" revoked by "${revoked}"`);
+      }
+    }
+
+    // Expiry: requested TTL, capped by the grant and the agent token
+    const now = new Date();
+    let expiresAt = new Date(now.getTime() + (request.ttlMinutes ?? 60) * 60 * 1000);
+    for (const cap of [grant.expiresAt, agentToken.expiresAt, agentToken.maxExpiresAt]) {
+      if (cap && new Date(cap) < expiresAt) {
+        expiresAt = new Date(cap);
+      }
+    }
+    if (expiresAt <= now) {
+      throw new Error("Token exchange would produce an expired token");
+    }
+
+    const identity: IdentityBinding = {
+      systemId: agentToken.identity?.systemId ?? "agent-iam",
+      principalId: user.userId,
+      principalType: "human",
+      ...(agentToken.identity?.tenantId && { tenantId: agentToken.identity.tenantId }),
+      ...(agentToken.identity?.organizationId && {
+        organizationId: agentToken.identity.organizationId,
+      }),
+      externalAuth: {
+        issuer: user.issuer,
+        subject: user.subject,
+        authenticatedAt: user.authenticatedAt,
+      },
+    };
+
+    const ancestorIdentities = inheritAncestorIdentities(agentToken, {
+      identity,
+      persistentIdentity: agentToken.persistentIdentity,
+    });
+    const exchanged: Omit<AgentToken, "signature"> = {
+      tokenId: generateTokenId(),
+      agentId: agentToken.agentId,
+      parentId: agentToken.agentId,
+      ...(agentToken.tokenId && { parentTokenId: agentToken.tokenId }),
+      delegationChain: [...getAncestorIds(agentToken), getRevocationId(agentToken)],
+      scopes: request.requestedScopes,
+      constraints: this.mergeConstraints(
+        agentToken,
+        {},
+        request.requestedScopes
+      ),
+      delegatable: (request.delegatable ?? false) && agentToken.delegatable,
+      maxDelegationDepth: agentToken.maxDelegationDepth,
+      currentDepth: agentToken.currentDepth + 1,
+      issuedAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      maxExpiresAt: expiresAt.toISOString(),
+      act: [agentToken.agentId],
+      consentGrantId: grant.grantId,
+      ...(ancestorIdentities && { ancestorIdentities }),
+      identity,
+      ...(agentToken.federation && { federation: agentToken.federation }),
+      ...(agentToken.agentCapabilities && { agentCapabilities: agentToken.agentCapabilities }),
+      // The acting agent's own identity stays bound to the token
+      ...(agentToken.persistentIdentity && {
+        persistentIdentity: agentToken.persistentIdentity,
+      }),
+    };
+
+    return this.signToken(exchanged);
   }
 
   /** Verify a token */
   verify(token: AgentToken): VerificationResult {
     // Check signature
-    if (!verifySignature(token, this.secret)) {
-      return { valid: false, error: "Invalid signature" };
+    const signatureCheck = this.checkSignature(token);
+    if (!signatureCheck.valid) {
+      return signatureCheck;
     }
 
     // Check expiration
@@ -204,9 +870,47 @@ export class TokenService {
       return { valid: false, error: "Token expired" };
     }
 
+    // Check revocation of the token and every ancestor
+    if (this.revocationChecker) {
+      if (this.revocationChecker.isRevoked(getRevocationId(token))) {
+        return { valid: false, error: "Token revoked" };
+      }
+      for (const ancestorId of getAncestorIds(token)) {
+        if (this.revocationChecker.isRevoked(ancestorId)) {
+          return {
+            valid: false,
+            error: `Token revoked: ancestor "${ancestorId}" was revoked`,
+          };
+        }
+      }
+      const ruleId = this.revocationChecker.matchRevocationRule?.(token);
+      if (ruleId) {
+        return { valid: false, error: `Token revoked by rule "${ruleId}"` };
+      }
+    }
+
     return { valid: true };
   }
 
+  /**
+   * Scope patterns withdrawn from a token by scope-level revocations of
+   * the token itself or any ancestor
+   */
+  getRevokedScopes(token: AgentToken): string[] {
+    const checker = this.revocationChecker;
+    if (!checker?.getRevokedScopes) {
+      return [];
+    }
+
+    const revoked = new Set<string>();
+    for (const id of [...getAncestorIds(token), getRevocationId(token)]) {
+      for (const pattern of checker.getRevokedScopes(id)) {
+        revoked.add(pattern);
+      }
+    }
+    return [...revoked];
+  }
+
   /** Check if token allows a specific scope and resource */
   checkPermission(
     token: AgentToken,
@@ -225,6 +929,17 @@ export class TokenService {
       return { valid: false, error: `Scope "${scope}" not allowed` };
     }
 
+    // Check scope-level revocations
+    const revoked = this.getRevokedScopes(token).find((pattern) =>
+      scopeMatches(pattern, scope)
+    );
+    if (revoked) {
+      return {
+        valid: false,
+        error: `Scope "${scope}" revoked by "${revoked}"`,
+      };
+    }
+
     // Check constraints for this scope
     const constraint = this.findConstraint(token.constraints, scope);
 
@@ -265,35 +980,47 @@ export class TokenService {
     return { valid: true };
   }
 
-  /** Serialize token for transport */
+  /**
+   * Serialize token for transport: base64url JSON for HMAC tokens, compact
+   * JWS (`header.payload.signature`) for JWS tokens
+   */
   serialize(token: AgentToken): SerializedToken {
-    return Buffer.from(JSON.stringify(token)).toString("base64url");
+    return serializeToken(token);
   }
 
-  /** Deserialize token from transport format */
+  /** Deserialize token from transport format (either serialization) */
   deserialize(serialized: SerializedToken): AgentToken {
-    const json = Buffer.from(serialized, "base64url").toString("utf-8");
-    return JSON.parse(json) as AgentToken;
+    return deserializeToken(serialized);
   }
 
   /**
    * Create a refreshed token with a new expiry
-   * Keeps all other properties the same and re-signs
+   * Keeps all other properties (including the token ID, so revocations
+   * still apply) the same, stamps a new issue time and re-signs.
+   * Legacy tokens without an ID are assigned one.
    */
   createRefreshedToken(
     token: AgentToken,
     newExpiresAt?: string
   ): AgentToken {
     const refreshed: Omit<AgentToken, "signature"> = {
+      tokenId: token.tokenId ?? generateTokenId(),
       agentId: token.agentId,
       parentId: token.parentId,
+      ...(token.parentTokenId && { parentTokenId: token.parentTokenId }),
+      ...(token.delegationChain && { delegationChain: token.delegationChain }),
       scopes: token.scopes,
       constraints: token.constraints,
       delegatable: token.delegatable,
       maxDelegationDepth: token.maxDelegationDepth,
       currentDepth: token.currentDepth,
+      issuedAt: new Date().toISOString(),
       expiresAt: newExpiresAt,
       maxExpiresAt: token.maxExpiresAt,
+      ...(token.elevation && { elevation: token.elevation }),
+      ...(token.act && { act: token.act }),
+      ...(token.consentGrantId && { consentGrantId: token.consentGrantId }),
+      ...(token.ancestorIdentities && { ancestorIdentities: token.ancestorIdentities }),
       // Preserve optional MAP integration fields
       ...(token.identity && { identity: token.identity }),
       ...(token.federation && { federation: token.federation }),
@@ -302,63 +1029,100 @@ export class TokenService {
       ...(token.persistentIdentity && { persistentIdentity: token.persistentIdentity }),
     };
 
-    const signature = sign(refreshed, this.secret);
-    return { ...refreshed, signature };
+    return this.signToken(refreshed);
   }
 
-  /** Merge parent and child constraints */
+  /**
+   * Merge parent and child constraints. Uses of a merged constraint also
+   * count against the parent's budget, so delegating can't reset `maxUses`.
+   */
   private mergeConstraints(
-    parentConstraints: Constraints,
+    parent: AgentToken,
     childConstraints: Constraints,
     childScopes: string[]
   ): Constraints {
+    const parentConstraints = parent.constraints;
     const merged: Constraints = {};
+    const covered = (pattern: string) =>
+      childScopes.some((scope) => scopeMatches(scope, pattern));
+
+    // Constraints on narrower scopes inside a requested wildcard come
+    // first, so lookups prefer them over the wildcard's own constraint.
+    // This covers parent constraints the child would otherwise escape by
+    // requesting a wider scope pattern, and child constraints on scopes the
+    // parent only grants through a wildcard.
+    const narrower = new Set(
+      [...Object.keys(parentConstraints), ...Object.keys(childConstraints)].filter(
+        (pattern) => !childScopes.includes(pattern) && covered(pattern)
+      )
+    );
 
-    for (const scope of childScopes) {
+    for (const scope of [...narrower, ...childScopes]) {
       // Find applicable parent constraint
-      const parentConstraint = this.findConstraint(parentConstraints, scope);
+      const parentEntry = findScopeConstraint(parentConstraints, scope);
+      const parentConstraint = parentEntry?.constraint;
       const childConstraint = childConstraints[scope];
 
       if (parentConstraint || childConstraint) {
-        merged[scope] = this.mergeConstraint(parentConstraint, childConstraint);
+        merged[scope] = this.mergeConstraint(parentConstraint, childConstraint, scope);
+      }
+
+      if (parentEntry) {
+        const budgets = getUsageBudgets(
+          parent,
+          parentEntry.pattern,
+          parentEntry.constraint
+        );
+        if (budgets.length > 0) {
+          merged[scope].usageBudgets = budgets;
+        }
       }
     }
 
     return merged;
   }
 
+  /**
+   * Copy a parent's constraints unchanged, except that uses also count
+   * against the parent's budgets so a new token ID can't reset `maxUses`
+   */
+  private inheritConstraints(parent: AgentToken): Constraints {
+    const inherited: Constraints = {};
+    for (const [pattern, constraint] of Object.entries(parent.constraints)) {
+      const budgets = getUsageBudgets(parent, pattern, constraint);
+      inherited[pattern] =
+        budgets.length > 0 ? { ...constraint, usageBudgets: budgets } : constraint;
+    }
+    return inherited;
+  }
+
   /** Find constraint that applies to a scope */
   private findConstraint(
     constraints: Constraints,
     scope: string
   ): ScopeConstraint | undefined {
-    // Exact match first
-    if (constraints[scope]) {
-      return constraints[scope];
-    }
-
-    // Then try wildcard matches
-    for (const [pattern, constraint] of Object.entries(constraints)) {
-      if (scopeMatches(pattern, scope)) {
-        return constraint;
-      }
-    }
-
-    return undefined;
+    return findScopeConstraint(constraints, scope)?.constraint;
   }
 
   /** Merge two constraints (child must be narrower) */
   private mergeConstraint(
-    parent?: ScopeConstraint,
-    child?: ScopeConstraint
+    parent: ScopeConstraint | undefined,
+    child: ScopeConstraint | undefined,
+    scope: string
   ): ScopeConstraint {
     const result: ScopeConstraint = {};
 
-    // Merge resources (intersection if both exist)
+    // Merge resources (child patterns must be provably within the parent's)
     if (parent?.resources || child?.resources) {
       if (parent?.resources && child?.resources) {
-        // Child must be subset - for simplicity, just use child's
-        // A full implementation would compute intersection
+        for (const pattern of child.resources) {
+          if (!resourcePatternCovered(parent.resources, pattern)) {
+            throw new Error(
+              `Resource pattern "${pattern}" for scope "${scope}" is not within ` +
+                `parent's allowed resources [${parent.resources.join(", ")}]`
+            );
+          }
+        }
         result.resources = child.resources;
       } else {
         result.resources = child?.resources ?? parent?.resources;
@@ -390,6 +1154,21 @@ export class TokenService {
       );
     }
 
+    // Merge MCP argument rules (child rules must be within the parent's)
+    const args = mergeArgConstraints(parent?.args, child?.args, scope);
+    if (args) {
+      result.args = args;
+    }
+
+    // A child may bind a call's arguments, never rebind the parent's
+    if (parent?.argsHash && child?.argsHash && parent.argsHash !== child.argsHash) {
+      throw new Error(`Scope "${scope}" is bound to different arguments by the parent`);
+    }
+    const argsHash = parent?.argsHash ?? child?.argsHash;
+    if (argsHash) {
+      result.argsHash = argsHash;
+    }
+
     return result;
   }
 
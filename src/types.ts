@@ -121,6 +121,18 @@ export interface AgentCapabilities {
 // Core Types
 // ============================================================================
 
+/** An ancestor token's `maxUses` budget, as recorded in the usage ledger */
+export interface UsageBudget {
+  /** Revocation ID of the token that declared the budget */
+  tokenId: string;
+  /** Scope pattern the budget is declared under on that token */
+  scope: string;
+  /** Maximum number of uses */
+  maxUses: number;
+  /** Latest expiry that token can be refreshed to; the budget is pruned after it */
+  expiresAt?: string;
+}
+
 /** Constraint applied to a specific scope */
 export interface ScopeConstraint {
   /** Allowed resource patterns (glob-style) */
@@ -131,6 +143,43 @@ export interface ScopeConstraint {
   notAfter?: string;
   /** Maximum number of uses */
   maxUses?: number;
+  /**
+   * Ancestors' `maxUses` budgets that each use also counts against, root
+   * first. Set when a constraint is inherited; never taken from requests.
+   */
+  usageBudgets?: UsageBudget[];
+  /**
+   * Per-argument rules for MCP tool calls (`mcp:<server>:<tool>` scopes),
+   * keyed by top-level argument name. Enforced by `checkMCPCall`.
+   */
+  args?: Record<string, ArgConstraint>;
+  /**
+   * Binds `mcp:<server>:<tool>` calls to exactly the arguments with this
+   * hash (`approvalArgsHash`). Enforced by `checkMCPCall`; set on tokens
+   * minted for an approved call.
+   */
+  argsHash?: string;
+}
+
+/**
+ * Rules for one MCP tool-call argument. Every rule that is set must hold.
+ * A constrained argument must be present unless `optional` is set.
+ */
+export interface ArgConstraint {
+  /** Absolute path under one of these directories (normalized, segment-aware) */
+  pathPrefixes?: string[];
+  /** URL whose hostname is one of these (`example.com`, or `*.example.com` for subdomains) */
+  hosts?: string[];
+  /** String matching this regular expression in full */
+  pattern?: string;
+  /** One of these exact values */
+  enum?: Array<string | number | boolean>;
+  /** Maximum string length or array item count */
+  maxLength?: number;
+  /** Maximum numeric value */
+  max?: number;
+  /** The argument may be omitted (default: required) */
+  optional?: boolean;
 }
 
 /** Constraints map: scope -> constraint */
@@ -138,10 +187,22 @@ export type Constraints = Record<string, ScopeConstraint>;
 
 /** The core capability token issued to agents */
 export interface AgentToken {
+  /**
+   * Broker-generated unique token ID (JWT `jti` equivalent). Stable across
+   * refresh. Undefined only on tokens minted before token IDs existed.
+   */
+  tokenId?: string;
   /** Unique identifier for this agent */
   agentId: string;
   /** ID of parent token (undefined for root) */
   parentId?: string;
+  /** Token ID of the parent token (undefined for root) */
+  parentTokenId?: string;
+  /**
+   * Revocation IDs of every ancestor token, root first (undefined for root).
+   * Revoking any ancestor invalidates this token.
+   */
+  delegationChain?: string[];
   /** Allowed scopes (e.g., "github:repo:read") */
   scopes: string[];
   /** Constraints per scope */
@@ -152,12 +213,54 @@ export interface AgentToken {
   maxDelegationDepth: number;
   /** Current depth in delegation chain (0 for root) */
   currentDepth: number;
+  /** Issue timestamp (ISO 8601); updated on refresh */
+  issuedAt?: string;
   /** Expiration timestamp (ISO 8601) */
   expiresAt?: string;
   /** Maximum expiration for refreshed tokens */
   maxExpiresAt?: string;
-  /** HMAC signature */
+  /**
+   * Set on tokens minted by `Broker.elevate()`: a short-lived,
+   * non-delegatable, non-refreshable step-up of the parent token
+   */
+  elevation?: ElevationInfo;
+  /**
+   * Actor chain on on-behalf-of tokens minted by
+   * `Broker.exchangeForUserToken()`: the agents acting for the user in
+   * `identity.principalId`, the exchanging agent first. Delegation appends
+   * each child agent.
+   */
+  act?: string[];
+  /**
+   * Consent grant an on-behalf-of token derives from. Revoking the grant
+   * revokes every token carrying its ID.
+   */
+  consentGrantId?: string;
+  /**
+   * Identity claims of ancestors that differ from this token's own, root
+   * first. Revocation rules match them too, so a child minted without its
+   * parent's identity (or with another) can't escape a rule on the parent's.
+   */
+  ancestorIdentities?: LineageIdentity[];
+  /**
+   * HMAC signature, or the base64url Ed25519 signature of the compact JWS
+   * when `alg` is set
+   */
   signature?: string;
+  /**
+   * Signing payload format. 2 = signature over the RFC 8785 canonical form
+   * (survives key reordering); undefined = legacy `JSON.stringify` order.
+   */
+  formatVersion?: number;
+  /**
+   * Version of the versioned HMAC key that signed this token. Undefined on
+   * JWS tokens and on tokens signed with the single `token_secret`.
+   */
+  keyVersion?: number;
+  /** JWS algorithm; set only on asymmetric (JWS) tokens */
+  alg?: "EdDSA";
+  /** JWS key ID (RFC 7638 thumbprint of the signing key); JWS tokens only */
+  kid?: string;
 
   // ==========================================================================
   // Optional fields for MAP integration (ignored in standalone mode)
@@ -305,8 +408,17 @@ export function isLegacyEndorsement(e: Endorsement): e is AuthorityEndorsement {
 export interface DelegationRequest {
   /** ID for the new agent (auto-generated if not provided) */
   agentId?: string;
-  /** Requested scopes (must be subset of parent) */
-  requestedScopes: string[];
+  /**
+   * Requested scopes (must be subset of parent). Required unless
+   * `template` is given.
+   */
+  requestedScopes?: string[];
+  /**
+   * Scope template from broker config, expanded by `Broker.delegate()`:
+   * its scopes are added to `requestedScopes`, its constraints and TTL
+   * apply unless overridden here
+   */
+  template?: string;
   /** Requested constraints (must be narrower than parent) */
   requestedConstraints?: Constraints;
   /** Whether child can further delegate */
@@ -361,6 +473,100 @@ export interface DelegationRequest {
   };
 }
 
+/**
+ * Identity claims of one token in a delegation chain, as matched by
+ * revocation rules (`identity` plus `persistentIdentity.persistentId`)
+ */
+export interface LineageIdentity {
+  principalId?: string;
+  tenantId?: string;
+  organizationId?: string;
+  systemId?: string;
+  persistentId?: string;
+}
+
+/** Elevation block carried by elevated tokens (audit trail) */
+export interface ElevationInfo {
+  /** Revocation ID of the token that was elevated */
+  parentTokenId: string;
+  /** Scopes added on top of the parent's */
+  additionalScopes: string[];
+  /** Why the elevation was requested (free text, audit only) */
+  justification: string;
+  /** When the elevation was granted (ISO 8601) */
+  grantedAt: string;
+}
+
+/**
+ * Request for just-in-time elevation. The parent must hold
+ * `system:scope:elevate:<scope>` for every additional scope.
+ */
+export interface ElevationRequest {
+  parentToken: AgentToken;
+  /** Scopes to add on top of the parent's */
+  additionalScopes: string[];
+  /** Lifetime of the elevated token, capped by broker policy and the parent */
+  ttlMinutes: number;
+  /** Why the elevation is needed (required, audit only) */
+  justification: string;
+}
+
+/**
+ * A user's consent for one agent to act as them, issued by
+ * `Broker.grantConsent()` once the user's OIDC assertion verifies. Stored
+ * apart from tokens (`{configDir}/consent-grants.json`) so it can be
+ * revoked on its own.
+ */
+export interface ConsentGrant {
+  /** Unique grant ID (`cg_<uuid>`) */
+  grantId: string;
+  /** User principal, `user:<idp>:<sub>` */
+  userId: string;
+  /** Agent authorized to act as the user */
+  agentId: string;
+  /**
+   * Root token ID of the agent token consent was given to. Agent IDs are
+   * not unique, so the exchanging token must descend from this root too.
+   */
+  agentRootId: string;
+  /** Scopes (or scope patterns) the user consented to */
+  scopes: string[];
+  /** When consent was given (ISO 8601) */
+  issuedAt: string;
+  /** When consent lapses (ISO 8601) */
+  expiresAt: string;
+  /** Broker HMAC over the fields above */
+  signature: string;
+  /** When the grant was revoked (ISO 8601; not covered by the signature) */
+  revokedAt?: string;
+  /** Why the grant was revoked */
+  revokedReason?: string;
+}
+
+/** A user's OIDC ID token, as presented to the broker */
+export interface OIDCAssertion {
+  /** Compact-serialized ID token (JWT) */
+  idToken: string;
+  /** Expected `nonce` claim, when the login flow used one */
+  nonce?: string;
+}
+
+/** Request for `Broker.exchangeForUserToken()` (RFC 8693 token exchange) */
+export interface TokenExchangeRequest {
+  /** The acting agent's token (RFC 8693 `actor_token`) */
+  agentToken: AgentToken;
+  /** The user's ID token (RFC 8693 `subject_token`) */
+  userAssertion: OIDCAssertion;
+  /** Consent grant authorizing the agent to act as the user */
+  consentGrantId: string;
+  /** Scopes for the new token; each must be covered by the grant and the agent token */
+  requestedScopes: string[];
+  /** TTL in minutes (default: 60), capped by the grant and agent token expiry */
+  ttlMinutes?: number;
+  /** Whether the agent may delegate the on-behalf-of token (default: false) */
+  delegatable?: boolean;
+}
+
 /**
  * Parameters for creating a root token
  * Supports both standalone and MAP-integrated modes
@@ -368,8 +574,17 @@ export interface DelegationRequest {
 export interface CreateRootTokenParams {
   /** Unique identifier for this agent */
   agentId: string;
-  /** Allowed scopes (e.g., "github:repo:read") */
-  scopes: string[];
+  /**
+   * Allowed scopes (e.g., "github:repo:read"). Required unless `template`
+   * is given.
+   */
+  scopes?: string[];
+  /**
+   * Scope template from broker config, expanded by
+   * `Broker.createRootToken()`: its scopes are added to `scopes`, its
+   * constraints and TTL apply unless overridden here
+   */
+  template?: string;
   /** Constraints per scope (optional) */
   constraints?: Constraints;
   /** Whether this token can delegate to children (default: true) */
@@ -412,6 +627,39 @@ export interface VerificationResult {
   error?: string;
 }
 
+/**
+ * Source of truth for revoked tokens, consulted on every verification.
+ * `RevocationList` implements this for standalone and distributed modes.
+ */
+export interface RevocationChecker {
+  /** Whether the token with this revocation ID has been revoked */
+  isRevoked(tokenId: string): boolean;
+  /**
+   * Scope patterns withdrawn from the token with this revocation ID
+   * (scope-level revocation). Optional; checkers without it only support
+   * whole-token revocation.
+   */
+  getRevokedScopes?(tokenId: string): string[];
+  /**
+   * ID of a predicate revocation rule (principal, identity, tenant,
+   * subtree, ...) matching the token, if any. Optional.
+   */
+  matchRevocationRule?(token: AgentToken): string | undefined;
+}
+
+/**
+ * Source of versioned HMAC signing keys for capability tokens (implemented
+ * by the distributed `SigningKeyManager`)
+ */
+export interface SigningKeyProvider {
+  /** Current key version; 0 when no versioned key exists yet */
+  getCurrentVersion(): number;
+  /** Key to sign new tokens with */
+  getCurrentKey(): { key: Buffer; version: number };
+  /** Key that verifies tokens of `version`, or undefined if unknown/expired */
+  getVerificationKey(version: number): Buffer | undefined;
+}
+
 /** Provider credential result */
 export interface CredentialResult {
   /** Type of credential */
@@ -498,6 +746,17 @@ export interface ProvidersConfig {
   [provider: string]: GitHubProviderConfig | GoogleProviderConfig | AWSProviderConfig | SlackProviderConfig | Record<string, APIKeyProviderConfig> | undefined;
 }
 
+/**
+ * Provider configs as the leader replicates them to followers. The GitHub
+ * App private key travels inline, since `privateKeyPath` names a file on
+ * the leader.
+ */
+export interface ReplicatedProviderConfigs {
+  providers: ProvidersConfig;
+  /** PEM contents of `providers.github.privateKeyPath` */
+  githubPrivateKey?: string;
+}
+
 /** Broker configuration stored in config.json */
 export interface BrokerConfig {
   providers: ProvidersConfig;
@@ -507,7 +766,67 @@ export interface BrokerConfig {
    * for scope syntax. Optional — if absent, no broker-level deny.
    */
   mcpDenyPolicy?: string[];
+  /**
+   * Capability token signing format. "hmac" (default) signs with the
+   * shared `token_secret`; "jws" signs Ed25519 compact JWS tokens that
+   * can be verified with only the broker's public JWKS. Tokens of either
+   * format remain verifiable after switching.
+   */
+  tokenFormat?: TokenFormat;
+  /**
+   * Longest lifetime `Broker.elevate()` grants, in minutes. Longer
+   * requests are capped. Default: 60.
+   */
+  maxElevationMinutes?: number;
+  /**
+   * Named scope bundles (e.g. "reader", "pr-bot") expanded at mint time by
+   * `createRootToken`/`delegate` and the CLI's `--template`. Tokens still
+   * carry explicit scopes.
+   */
+  scopeTemplates?: Record<string, ScopeTemplate>;
+  /**
+   * External OIDC identity providers trusted to authenticate users for
+   * on-behalf-of token exchange, keyed by the IdP name used in
+   * `user:<idp>:<sub>` principals
+   */
+  federatedIdps?: Record<string, FederatedIdpConfig>;
+}
+
+/** A trusted OIDC identity provider */
+export interface FederatedIdpConfig {
+  /** Expected `iss` claim (also the discovery base URL) */
+  issuer: string;
+  /** Expected `aud` claim: the OAuth client ID(s) the broker accepts */
+  audience: string | string[];
+  /** Static JWKS; when absent, keys are fetched from `jwksUri` */
+  jwks?: { keys: JsonWebKey[] };
+  /** JWKS endpoint (default: `jwks_uri` from OIDC discovery) */
+  jwksUri?: string;
+  /**
+   * Never fetch: verify only against the discovery document and JWKS
+   * cached on disk (`agent-iam idp refresh` populates the cache)
+   */
+  offline?: boolean;
+  /** Reject ID tokens issued (`iat`) longer ago than this */
+  maxAgeSeconds?: number;
 }
 
+/** Named scope bundle stored in broker config */
+export interface ScopeTemplate {
+  /** Human-readable description */
+  description?: string;
+  /** Scopes granted by the template */
+  scopes: string[];
+  /** Other templates whose scopes, constraints and TTL are included */
+  include?: string[];
+  /** Default constraints per scope */
+  constraints?: Constraints;
+  /** Default token TTL in minutes */
+  ttlMinutes?: number;
+}
+
+/** Capability token signing format */
+export type TokenFormat = "hmac" | "jws";
+
 /** Serialized token for passing between processes */
 export type SerializedToken = string;
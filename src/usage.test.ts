@@ -0,0 +1,110 @@
+/**
+ * Tests for maxUses usage ledgers
+ */
+
+import { test, describe, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { MemoryUsageLedger, FileUsageLedger } from "./usage.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "agent-iam-usage-test-"));
+}
+
+describe("MemoryUsageLedger", () => {
+  test("allows up to maxUses then denies", async () => {
+    const ledger = new MemoryUsageLedger();
+
+    const first = await ledger.consume("tok_a", "github:repo:*", 2);
+    assert.deepStrictEqual(first, { allowed: true, used: 1, remaining: 1 });
+    const second = await ledger.consume("tok_a", "github:repo:*", 2);
+    assert.deepStrictEqual(second, { allowed: true, used: 2, remaining: 0 });
+    const third = await ledger.consume("tok_a", "github:repo:*", 2);
+    assert.deepStrictEqual(third, { allowed: false, used: 2, remaining: 0 });
+  });
+
+  test("counts are keyed by token ID and scope", async () => {
+    const ledger = new MemoryUsageLedger();
+
+    await ledger.consume("tok_a", "github:repo:read", 1);
+    assert.strictEqual((await ledger.consume("tok_b", "github:repo:read", 1)).allowed, true);
+    assert.strictEqual((await ledger.consume("tok_a", "aws:s3:read", 1)).allowed, true);
+    assert.strictEqual(await ledger.getUses("tok_a", "github:repo:read"), 1);
+    assert.strictEqual(await ledger.getUses("tok_c", "github:repo:read"), 0);
+  });
+
+  test("prunes entries for expired tokens", async () => {
+    const ledger = new MemoryUsageLedger();
+    const past = new Date(Date.now() - 1000).toISOString();
+
+    await ledger.consume("tok_old", "mcp:fs:read", 1, past);
+    await ledger.consume("tok_new", "mcp:fs:read", 1);
+    assert.strictEqual(await ledger.getUses("tok_old", "mcp:fs:read"), 0);
+  });
+});
+
+describe("FileUsageLedger", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("persists counts across instances", async () => {
+    await new FileUsageLedger(tempDir).consume("tok_a", "mcp:fs:write", 1);
+
+    const reopened = new FileUsageLedger(tempDir);
+    assert.strictEqual(await reopened.getUses("tok_a", "mcp:fs:write"), 1);
+    const result = await reopened.consume("tok_a", "mcp:fs:write", 1);
+    assert.strictEqual(result.allowed, false);
+  });
+
+  test("concurrent consumers never exceed maxUses", async () => {
+    const ledgers = [
+      new FileUsageLedger(tempDir),
+      new FileUsageLedger(tempDir),
+      new FileUsageLedger(tempDir),
+    ];
+
+    const results = await Promise.all(
+      Array.from({ length: 12 }, (_, i) =>
+        ledgers[i % ledgers.length].consume("tok_a", "mcp:fs:write", 5)
+      )
+    );
+
+    assert.strictEqual(results.filter((r) => r.allowed).length, 5);
+    assert.strictEqual(await ledgers[0].getUses("tok_a", "mcp:fs:write"), 5);
+    assert.ok(!fs.existsSync(path.join(tempDir, "usage.json.lock")));
+  });
+
+  test("writes the ledger with owner-only permissions", async () => {
+    await new FileUsageLedger(tempDir).consume("tok_a", "mcp:fs:write", 1);
+
+    const mode = fs.statSync(path.join(tempDir, "usage.json")).mode & 0o777;
+    assert.strictEqual(mode, 0o600);
+  });
+
+  test("refuses to reset counts when the ledger file is corrupt", async () => {
+    fs.writeFileSync(path.join(tempDir, "usage.json"), "{not json");
+
+    await assert.rejects(() =>
+      new FileUsageLedger(tempDir).consume("tok_a", "mcp:fs:write", 1)
+    );
+  });
+
+  test("breaks stale locks left by crashed processes", async () => {
+    const lockPath = path.join(tempDir, "usage.json.lock");
+    fs.writeFileSync(lockPath, "");
+    const old = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(lockPath, old, old);
+
+    const result = await new FileUsageLedger(tempDir).consume("tok_a", "x:y:z", 1);
+    assert.strictEqual(result.allowed, true);
+  });
+});
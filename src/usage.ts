@@ -0,0 +1,237 @@
+/**
+ * Usage ledger for `ScopeConstraint.maxUses`
+ *
+ * Counts uses per (token ID, constraint scope). The broker consumes one use
+ * each time a constrained scope is exercised (credential issuance, MCP tool
+ * calls) and denies once the limit is reached.
+ *
+ * Backends:
+ *   - `MemoryUsageLedger` — single process, tests
+ *   - `FileUsageLedger`   — `{configDir}/usage.json`, safe across processes
+ *   - `RemoteUsageLedger` (distributed/) — followers defer to the leader so
+ *     one-shot grants can't be replayed on another follower
+ *
+ * Each token has its own budget, and a delegated child's uses also count
+ * against every ancestor's (`ScopeConstraint.usageBudgets`), so delegating a
+ * one-shot grant, even to yourself, never yields another use.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/** Usage ledger storage file */
+const USAGE_FILE = "usage.json";
+
+/** How long to wait for another process to release the ledger lock */
+const LOCK_TIMEOUT_MS = 5000;
+/** Locks older than this are assumed to belong to a crashed process */
+const STALE_LOCK_MS = 30 * 1000;
+const LOCK_RETRY_MS = 10;
+
+/** Outcome of consuming a use */
+export interface UsageResult {
+  /** Whether the use was recorded (false = limit already reached) */
+  allowed: boolean;
+  /** Uses recorded after this call */
+  used: number;
+  /** Uses left after this call */
+  remaining: number;
+}
+
+/** Pluggable store of per-token scope usage counts */
+export interface UsageLedger {
+  /**
+   * Atomically record one use of `scope` by `tokenId`, unless `maxUses`
+   * uses have already been recorded. `expiresAt` (the latest expiry the
+   * token can be refreshed to) lets backends prune entries that can no
+   * longer matter.
+   */
+  consume(
+    tokenId: string,
+    scope: string,
+    maxUses: number,
+    expiresAt?: string
+  ): Promise<UsageResult>;
+
+  /** Number of uses recorded so far */
+  getUses(tokenId: string, scope: string): Promise<number>;
+}
+
+/** Single ledger entry */
+interface UsageEntry {
+  tokenId: string;
+  scope: string;
+  uses: number;
+  expiresAt?: string;
+}
+
+/** Persisted ledger format */
+interface PersistedUsage {
+  entries: UsageEntry[];
+}
+
+function entryKey(tokenId: string, scope: string): string {
+  return `${tokenId}\n${scope}`;
+}
+
+/** Apply one use to an entry map, pruning expired entries */
+function consumeEntry(
+  entries: Map<string, UsageEntry>,
+  tokenId: string,
+  scope: string,
+  maxUses: number,
+  expiresAt?: string
+): UsageResult {
+  const now = Date.now();
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt && Date.parse(entry.expiresAt) < now) {
+      entries.delete(key);
+    }
+  }
+
+  const key = entryKey(tokenId, scope);
+  const entry = entries.get(key) ?? { tokenId, scope, uses: 0, expiresAt };
+  if (entry.uses >= maxUses) {
+    return { allowed: false, used: entry.uses, remaining: 0 };
+  }
+
+  entry.uses++;
+  entries.set(key, entry);
+  return {
+    allowed: true,
+    used: entry.uses,
+    remaining: maxUses - entry.uses,
+  };
+}
+
+/** In-memory ledger. Counts are lost when the process exits. */
+export class MemoryUsageLedger implements UsageLedger {
+  private entries: Map<string, UsageEntry> = new Map();
+
+  async consume(
+    tokenId: string,
+    scope: string,
+    maxUses: number,
+    expiresAt?: string
+  ): Promise<UsageResult> {
+    return consumeEntry(this.entries, tokenId, scope, maxUses, expiresAt);
+  }
+
+  async getUses(tokenId: string, scope: string): Promise<number> {
+    return this.entries.get(entryKey(tokenId, scope))?.uses ?? 0;
+  }
+}
+
+/**
+ * File-backed ledger. Each consume() runs read-modify-write under an
+ * exclusive lock file, so concurrent processes sharing a config directory
+ * never double-spend a use.
+ */
+export class FileUsageLedger implements UsageLedger {
+  private configDir: string;
+  private usagePath: string;
+  private lockPath: string;
+  /** Serializes calls within this process */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(configDir: string) {
+    this.configDir = configDir;
+    this.usagePath = path.join(configDir, USAGE_FILE);
+    this.lockPath = `${this.usagePath}.lock`;
+  }
+
+  async consume(
+    tokenId: string,
+    scope: string,
+    maxUses: number,
+    expiresAt?: string
+  ): Promise<UsageResult> {
+    return this.withLock(() => {
+      const entries = this.load();
+      const result = consumeEntry(entries, tokenId, scope, maxUses, expiresAt);
+      if (result.allowed) {
+        this.persist(entries);
+      }
+      return result;
+    });
+  }
+
+  async getUses(tokenId: string, scope: string): Promise<number> {
+    return this.load().get(entryKey(tokenId, scope))?.uses ?? 0;
+  }
+
+  /**
+   * Run `fn` while holding both the in-process queue and the lock file
+   */
+  private withLock<T>(fn: () => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      await this.acquireLock();
+      try {
+        return fn();
+      } finally {
+        fs.rmSync(this.lockPath, { force: true });
+      }
+    });
+    // Keep the queue alive even if this call fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async acquireLock(): Promise<void> {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
+    }
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, "wx", 0o600));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      try {
+        const { mtimeMs } = fs.statSync(this.lockPath);
+        if (Date.now() - mtimeMs > STALE_LOCK_MS) {
+          fs.rmSync(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock released between open and stat; retry immediately
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for usage ledger lock at ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Load the ledger. A corrupt file throws rather than starting fresh:
+   * resetting counts would let one-shot grants be replayed.
+   */
+  private load(): Map<string, UsageEntry> {
+    const entries = new Map<string, UsageEntry>();
+    if (!fs.existsSync(this.usagePath)) {
+      return entries;
+    }
+
+    const persisted = JSON.parse(
+      fs.readFileSync(this.usagePath, "utf-8")
+    ) as PersistedUsage;
+    for (const entry of persisted.entries) {
+      entries.set(entryKey(entry.tokenId, entry.scope), entry);
+    }
+    return entries;
+  }
+
+  private persist(entries: Map<string, UsageEntry>): void {
+    const persisted: PersistedUsage = { entries: Array.from(entries.values()) };
+    const tmp = `${this.usagePath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(persisted, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.usagePath);
+  }
+}